@@ -3,6 +3,10 @@ import express from 'express';
 import { serverConfig } from './utils/config.utils';
 import { renderRouter } from './routes/render.routes';
 import { uploadRouter } from './routes/upload.routes';
+import { jobRouter } from './routes/job.routes';
+import { projectRouter } from './routes/project.routes';
+import { waveformRouter } from './routes/waveform.routes';
+import { thumbnailRouter } from './routes/thumbnail.routes';
 import { promises as fsp } from 'fs';
 
 /**
@@ -30,6 +34,10 @@ app.get('/health', (_req, res) => {
 // API routes
 app.use('/api', renderRouter);
 app.use('/api', uploadRouter);
+app.use('/api', jobRouter);
+app.use('/api', projectRouter);
+app.use('/api', waveformRouter);
+app.use('/api', thumbnailRouter);
 
 // Ensure output directory exists
 async function ensureOutputDir(): Promise<void> {
@@ -0,0 +1,78 @@
+import { Router, type Request, type Response } from 'express';
+import { getRenderJob, cancelRenderJob, subscribeToRenderJob, isFinalJobState } from '../services/render-queue.service';
+import type { RenderJobStatus } from '../types';
+
+/**
+ * Render job API routes
+ */
+
+export const jobRouter = Router();
+
+/**
+ * GET /api/jobs/:id
+ * Get the state, progress, and result of a render job
+ */
+jobRouter.get('/jobs/:id', (req: Request<{ id: string }>, res: Response) => {
+  const job = getRenderJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  return res.json(job);
+});
+
+/**
+ * GET /api/jobs/:id/events
+ * Server-Sent Events stream of job status updates (phase and progress).
+ * The stream ends after the job reaches a final state.
+ */
+jobRouter.get('/jobs/:id/events', (req: Request<{ id: string }>, res: Response) => {
+  const job = getRenderJob(req.params.id);
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' });
+    return;
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  let unsubscribe = (): void => {};
+  // Comment lines keep proxies from closing an idle stream
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+
+  const close = (): void => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  };
+
+  const send = (status: RenderJobStatus): void => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+    if (isFinalJobState(status.state)) {
+      close();
+      res.end();
+    }
+  };
+
+  req.on('close', close);
+  send(job);
+  if (!isFinalJobState(job.state)) {
+    unsubscribe = subscribeToRenderJob(job.jobId, send);
+  }
+});
+
+/**
+ * DELETE /api/jobs/:id
+ * Cancel a queued or running render job
+ */
+jobRouter.delete('/jobs/:id', (req: Request<{ id: string }>, res: Response) => {
+  const { success, status, error } = cancelRenderJob(req.params.id);
+  if (!success) {
+    return res.status(status ? 409 : 404).json({ error, job: status });
+  }
+
+  return res.json(status);
+});
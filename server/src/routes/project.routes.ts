@@ -0,0 +1,156 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { requestSchema } from '../validators/render-request.validator';
+import { parseProject } from '../validators/project.validator';
+import { enqueueRenderJob } from '../services/render-queue.service';
+import {
+  createProject,
+  deleteProject,
+  getProject,
+  listProjects,
+  updateProject
+} from '../services/project-store.service';
+import { projectToRenderRequest } from '../utils/project.utils';
+
+/**
+ * Stored project API routes
+ */
+
+export const projectRouter = Router();
+
+const versionSchema = z.coerce.number().int().positive();
+
+/**
+ * GET /api/projects
+ * List stored projects (name, version, thumbnail, timestamps), most recently updated first
+ */
+projectRouter.get('/projects', async (_req: Request, res: Response) => {
+  try {
+    return res.json(await listProjects());
+  } catch (error) {
+    console.error('[Project Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/projects
+ * Store a project document (older schema versions are migrated first)
+ */
+projectRouter.post('/projects', async (req: Request, res: Response) => {
+  try {
+    const project = parseProject(req.body);
+    if (!project.success) {
+      return res.status(400).json({ error: project.error, details: project.details });
+    }
+
+    return res.status(201).json(await createProject(project.data));
+  } catch (error) {
+    console.error('[Project Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
+
+/**
+ * GET /api/projects/:id
+ * Get a stored project with its document
+ */
+projectRouter.get('/projects/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const stored = await getProject(req.params.id);
+    if (!stored) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    return res.json(stored);
+  } catch (error) {
+    console.error('[Project Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /api/projects/:id
+ * Replace a project. The body is `{ version, project }`; `version` must be the version that
+ * was read, otherwise 409 is returned with the current project.
+ */
+projectRouter.put('/projects/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const body = req.body as { version?: unknown; project?: unknown } | undefined;
+    const version = versionSchema.safeParse(body?.version);
+    if (!version.success) {
+      return res.status(400).json({ error: 'Invalid payload', details: version.error.flatten() });
+    }
+
+    const project = parseProject(body?.project);
+    if (!project.success) {
+      return res.status(400).json({ error: project.error, details: project.details });
+    }
+
+    const { success, project: stored, error } = await updateProject(req.params.id, version.data, project.data);
+    if (!success) {
+      return res.status(stored ? 409 : 404).json({ error, project: stored });
+    }
+
+    return res.json(stored);
+  } catch (error) {
+    console.error('[Project Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
+
+/**
+ * DELETE /api/projects/:id
+ * Delete a project. An optional `?version=` query makes the delete conditional (409 on mismatch).
+ */
+projectRouter.delete('/projects/:id', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    let expectedVersion: number | undefined;
+    if (req.query['version'] !== undefined) {
+      const version = versionSchema.safeParse(req.query['version']);
+      if (!version.success) {
+        return res.status(400).json({ error: 'Invalid payload', details: version.error.flatten() });
+      }
+      expectedVersion = version.data;
+    }
+
+    const { success, project: stored, error } = await deleteProject(req.params.id, expectedVersion);
+    if (!success) {
+      return res.status(stored ? 409 : 404).json({ error, project: stored });
+    }
+
+    return res.status(204).end();
+  } catch (error) {
+    console.error('[Project Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
+
+/**
+ * POST /api/projects/:id/render
+ * Queue a render of the stored project's current version
+ */
+projectRouter.post('/projects/:id/render', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const stored = await getProject(req.params.id);
+    if (!stored) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+
+    const parsed = requestSchema.safeParse(projectToRenderRequest(stored.project));
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid payload',
+        details: parsed.error.flatten()
+      });
+    }
+
+    const job = enqueueRenderJob(parsed.data);
+    console.log(`[${job.jobId}] Rendering project ${stored.id} (version ${stored.version})`);
+
+    return res.status(202).json(job);
+  } catch (error) {
+    console.error('[Render Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
@@ -1,6 +1,8 @@
 import { Router, type Request, type Response } from 'express';
 import { requestSchema } from '../validators/render-request.validator';
-import { renderVideo } from '../services/video-processor.service';
+import { parseProject } from '../validators/project.validator';
+import { enqueueRenderJob } from '../services/render-queue.service';
+import { projectToRenderRequest } from '../utils/project.utils';
 
 /**
  * Render API routes
@@ -10,9 +12,10 @@ export const renderRouter = Router();
 
 /**
  * POST /api/render
- * Render a video with sources, trims, cuts, and overlays
+ * Queue a render of sources, trims, cuts, and overlays.
+ * Responds immediately with the job status; poll GET /api/jobs/:id for progress.
  */
-renderRouter.post('/render', async (req: Request, res: Response) => {
+renderRouter.post('/render', (req: Request, res: Response) => {
   try {
     // Validate request
     const parsed = requestSchema.safeParse(req.body);
@@ -23,12 +26,9 @@ renderRouter.post('/render', async (req: Request, res: Response) => {
       });
     }
     
-    // Process video
-    const result = await renderVideo(parsed.data, (progress, jobId) => {
-      process.stdout.write(`\r[${jobId}] Progress: ${progress}%`);
-    });
+    const job = enqueueRenderJob(parsed.data);
     
-    return res.json(result);
+    return res.status(202).json(job);
     
   } catch (error) {
     console.error('[Render Error]', error);
@@ -38,3 +38,34 @@ renderRouter.post('/render', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/render/project
+ * Queue a render of a saved editor project. Older project versions are migrated first,
+ * then the project is converted to the same request POST /api/render accepts.
+ */
+renderRouter.post('/render/project', (req: Request, res: Response) => {
+  try {
+    const project = parseProject(req.body);
+    if (!project.success) {
+      return res.status(400).json({ error: project.error, details: project.details });
+    }
+
+    const parsed = requestSchema.safeParse(projectToRenderRequest(project.data));
+    if (!parsed.success) {
+      return res.status(400).json({
+        error: 'Invalid payload',
+        details: parsed.error.flatten()
+      });
+    }
+
+    const job = enqueueRenderJob(parsed.data);
+
+    return res.status(202).json(job);
+
+  } catch (error) {
+    console.error('[Render Error]', error);
+    return res.status(500).json({
+      error: error instanceof Error ? error.message : 'Internal server error'
+    });
+  }
+});
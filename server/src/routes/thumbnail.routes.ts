@@ -0,0 +1,41 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { isDecodableUrl } from '../utils/file.utils';
+import { getThumbnailStrip } from '../services/thumbnail.service';
+
+/**
+ * Thumbnail API routes
+ */
+
+export const thumbnailRouter = Router();
+
+const thumbnailQuerySchema = z.object({
+  url: z.string().url()
+    .refine(url => /^https?:/i.test(url), 'Only http(s) URLs are supported')
+    .refine(isDecodableUrl, 'Malformed URL encoding'),
+  interval: z.coerce.number().min(0.5).max(60).default(2) // Seconds between frames
+});
+
+/**
+ * GET /api/thumbnails?url=...&interval=2
+ * Sprite sheets of frames of an uploaded or remote video (MP4 or MPD) or image, one frame per interval.
+ * The first request creates them; later ones are served from the cache.
+ */
+thumbnailRouter.get('/thumbnails', async (req: Request, res: Response) => {
+  try {
+    const query = thumbnailQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid payload', details: query.error.flatten() });
+    }
+
+    const strip = await getThumbnailStrip(query.data.url, query.data.interval);
+    if (!strip) {
+      return res.status(404).json({ error: 'Uploaded file not found' });
+    }
+
+    return res.json(strip);
+  } catch (error) {
+    console.error('[Thumbnail Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
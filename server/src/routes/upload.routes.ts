@@ -4,6 +4,10 @@ import path from 'path';
 import { promises as fsp } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { serverConfig } from '../utils/config.utils';
+import { CAPTION_EXTENSIONS, parseCaptions } from '../utils/caption.utils';
+import { deleteUploadThumbnails } from '../services/thumbnail.service';
+import { deleteUploadWaveform } from '../services/waveform.service';
+import type { CaptionCue } from '../types';
 
 /**
  * Upload API routes
@@ -37,7 +41,7 @@ const upload = multer({
     fileSize: 500 * 1024 * 1024 // 500MB limit
   },
   fileFilter: (_req, file, cb) => {
-    // Allow video, audio, and image files
+    // Allow video, audio, image, font, subtitle and LUT files
     const allowedMimes = [
       'video/mp4',
       'video/x-m4v',
@@ -51,14 +55,19 @@ const upload = multer({
       'image/jpg',
       'image/png',
       'image/gif',
-      'image/webp'
+      'image/webp',
+      'font/ttf',
+      'font/otf'
     ];
     
-    // Also check by extension for MPD files
+    // Also check by extension for MPD, font, subtitle and .cube LUT files (browsers often send no MIME type for them)
     const ext = path.extname(file.originalname).toLowerCase();
     const isMpd = ext === '.mpd';
+    const isFont = ext === '.ttf' || ext === '.otf';
+    const isCaption = CAPTION_EXTENSIONS.includes(ext);
+    const isLut = ext === '.cube';
     
-    if (allowedMimes.includes(file.mimetype) || isMpd) {
+    if (allowedMimes.includes(file.mimetype) || isMpd || isFont || isCaption || isLut) {
       cb(null, true);
     } else {
       cb(new Error(`File type not allowed: ${file.mimetype}. Allowed types: ${allowedMimes.join(', ')}`));
@@ -68,14 +77,25 @@ const upload = multer({
 
 /**
  * POST /api/upload
- * Upload a file (video, audio, or image)
+ * Upload a file (video, audio, image, TTF/OTF font, SRT/WebVTT subtitles or .cube LUT).
+ * Subtitle files are parsed and their cues returned as `captions`.
  */
-uploadRouter.post('/upload', upload.single('file'), (req: Request, res: Response) => {
+uploadRouter.post('/upload', upload.single('file'), async (req: Request, res: Response) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'No file uploaded' });
     }
 
+    let captions: { cues: CaptionCue[] } | undefined;
+    if (CAPTION_EXTENSIONS.includes(path.extname(req.file.originalname).toLowerCase())) {
+      const cues = parseCaptions(await fsp.readFile(req.file.path, 'utf8'));
+      if (cues.length === 0) {
+        await fsp.unlink(req.file.path).catch(() => undefined);
+        return res.status(400).json({ error: 'No subtitle cues found in file' });
+      }
+      captions = { cues };
+    }
+
     // Return the URL path for the uploaded file
     const fileUrl = `/output/uploads/${req.file.filename}`;
     
@@ -85,7 +105,8 @@ uploadRouter.post('/upload', upload.single('file'), (req: Request, res: Response
       filename: req.file.filename,
       originalName: req.file.originalname,
       size: req.file.size,
-      mimetype: req.file.mimetype
+      mimetype: req.file.mimetype,
+      captions
     });
   } catch (error) {
     console.error('[Upload Error]', error);
@@ -121,6 +142,9 @@ uploadRouter.post('/cleanup', async (req: Request, res: Response) => {
       const filePath = path.join(uploadDir, filename);
       
       try {
+        // The cached waveform and filmstrip go with the upload
+        await deleteUploadWaveform(filename);
+        await deleteUploadThumbnails(filename);
         await fsp.unlink(filePath);
         deletedFiles.push(filename);
       } catch (err) {
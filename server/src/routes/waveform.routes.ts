@@ -0,0 +1,40 @@
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { isDecodableUrl } from '../utils/file.utils';
+import { getWaveform } from '../services/waveform.service';
+
+/**
+ * Waveform API routes
+ */
+
+export const waveformRouter = Router();
+
+const waveformQuerySchema = z.object({
+  url: z.string().url()
+    .refine(url => /^https?:/i.test(url), 'Only http(s) URLs are supported')
+    .refine(isDecodableUrl, 'Malformed URL encoding')
+});
+
+/**
+ * GET /api/waveform?url=...
+ * Peak levels of an uploaded or remote audio/video file (`{ duration, peaksPerSecond, peaks }`).
+ * The first request computes them; later ones are served from the cache.
+ */
+waveformRouter.get('/waveform', async (req: Request, res: Response) => {
+  try {
+    const query = waveformQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid payload', details: query.error.flatten() });
+    }
+
+    const waveform = await getWaveform(query.data.url);
+    if (!waveform) {
+      return res.status(404).json({ error: 'Uploaded file not found' });
+    }
+
+    return res.json(waveform);
+  } catch (error) {
+    console.error('[Waveform Error]', error);
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Internal server error' });
+  }
+});
@@ -0,0 +1,74 @@
+import type { OutputCanvas } from '../types';
+
+/**
+ * Output canvas service - builds FFmpeg filters that fit the video into the output frame
+ */
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * Short side of the frame for each resolution preset
+ */
+const RESOLUTION_SHORT_SIDE: Record<OutputCanvas['resolution'], number> = {
+  '720p': 720,
+  '1080p': 1080,
+  '2160p': 2160
+};
+
+/**
+ * Get the pixel size of an output canvas
+ */
+export function getCanvasSize(canvas: OutputCanvas): CanvasSize {
+  const shortSide = RESOLUTION_SHORT_SIDE[canvas.resolution];
+  const longSide = Math.round((shortSide * 16) / 9);
+
+  switch (canvas.aspectRatio) {
+    case '9:16':
+      return { width: shortSide, height: longSide };
+    case '1:1':
+      return { width: shortSide, height: shortSide };
+    default:
+      return { width: longSide, height: shortSide };
+  }
+}
+
+/**
+ * Factor by which source pixels are scaled when placed on the canvas.
+ * Letterbox and blur fit the whole frame inside the canvas, crop fills it.
+ */
+export function getCanvasContentScale(canvas: OutputCanvas, sourceWidth: number, sourceHeight: number): number {
+  if (!sourceWidth || !sourceHeight) {
+    return 1;
+  }
+
+  const { width, height } = getCanvasSize(canvas);
+  const scaleX = width / sourceWidth;
+  const scaleY = height / sourceHeight;
+  return canvas.fit === 'crop' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+}
+
+/**
+ * Build the filter chain that places the input video on the canvas
+ */
+export function buildCanvasFilter(canvas: OutputCanvas, inputStream: string, outputLabel: string): string {
+  const { width, height } = getCanvasSize(canvas);
+  const fitInside = `scale=${width}:${height}:force_original_aspect_ratio=decrease`;
+  const fillCanvas = `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+
+  switch (canvas.fit) {
+    case 'crop':
+      return `${inputStream}${fillCanvas},setsar=1[${outputLabel}]`;
+    case 'blur': {
+      const blurRadius = Math.round(Math.min(width, height) / 30);
+      return `${inputStream}split[canvasbg][canvasfg];` +
+        `[canvasbg]${fillCanvas},boxblur=${blurRadius}:2[canvasblur];` +
+        `[canvasfg]${fitInside}[canvasfront];` +
+        `[canvasblur][canvasfront]overlay=(W-w)/2:(H-h)/2,setsar=1[${outputLabel}]`;
+    }
+    default:
+      return `${inputStream}${fitInside},pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black,setsar=1[${outputLabel}]`;
+  }
+}
@@ -0,0 +1,36 @@
+import type { CaptionStylePreset } from '../types';
+
+/**
+ * Caption service - builds the FFmpeg filter that burns subtitles into the video (libass)
+ */
+
+/**
+ * ASS style overrides of each burn-in preset. Sizes are in libass script units
+ * (the frame is 288 units high), so captions keep their size relative to the video.
+ * Colours are &HAABBGGRR with 00 = opaque.
+ */
+const CAPTION_STYLES: Record<CaptionStylePreset, string> = {
+  classic: 'FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=1.5,Shadow=0,MarginV=16',
+  boxed: 'FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H60000000,BackColour=&H60000000,BorderStyle=3,Outline=3,Shadow=0,MarginV=16',
+  yellow: 'FontSize=20,PrimaryColour=&H0000FFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=2,Shadow=1,MarginV=16',
+  top: 'FontSize=18,PrimaryColour=&H00FFFFFF,OutlineColour=&H00000000,BorderStyle=1,Outline=1.5,Shadow=0,Alignment=8,MarginV=16'
+};
+
+/**
+ * Escape a file path for use as a filter option value (Windows drive colons would end the option)
+ */
+export function escapeFilterPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/:/g, '\\:');
+}
+
+/**
+ * Build the filter that draws the cues of an SRT file onto the video
+ */
+export function buildCaptionFilter(
+  subtitlePath: string,
+  style: CaptionStylePreset,
+  inputStream: string,
+  outputLabel: string
+): string {
+  return `${inputStream}subtitles=filename='${escapeFilterPath(subtitlePath)}':force_style='${CAPTION_STYLES[style]}'[${outputLabel}]`;
+}
@@ -0,0 +1,58 @@
+import type { ColorCorrection } from '../types';
+import { escapeFilterPath } from './caption.service';
+
+/**
+ * Color service - builds the FFmpeg filters that color correct a source and apply its LUT
+ */
+
+/**
+ * Largest gain of one color channel for the white balance at temperature or tint ±1
+ */
+const WHITE_BALANCE_GAIN = 0.2;
+
+/**
+ * Whether a source has any color correction (a LUT or a field away from its neutral value)
+ */
+export function hasColorCorrection(color: ColorCorrection | undefined): boolean {
+  if (!color) {
+    return false;
+  }
+  return Boolean(color.lutUrl) ||
+    (color.brightness ?? 0) !== 0 ||
+    (color.contrast ?? 1) !== 1 ||
+    (color.saturation ?? 1) !== 1 ||
+    (color.gamma ?? 1) !== 1 ||
+    (color.temperature ?? 0) !== 0 ||
+    (color.tint ?? 0) !== 0;
+}
+
+/**
+ * Build the filter chain for a source's color correction: eq, then the white balance as channel gains,
+ * then the LUT (lutPath is the downloaded .cube file). Returns null when nothing changes.
+ */
+export function buildColorFilter(color: ColorCorrection, lutPath?: string): string | null {
+  const filters: string[] = [];
+
+  const eq = [
+    color.brightness ? `brightness=${color.brightness}` : '',
+    color.contrast !== undefined && color.contrast !== 1 ? `contrast=${color.contrast}` : '',
+    color.saturation !== undefined && color.saturation !== 1 ? `saturation=${color.saturation}` : '',
+    color.gamma !== undefined && color.gamma !== 1 ? `gamma=${color.gamma}` : ''
+  ].filter(Boolean);
+  if (eq.length > 0) {
+    filters.push(`eq=${eq.join(':')}`);
+  }
+
+  const temperature = color.temperature ?? 0;
+  const tint = color.tint ?? 0;
+  if (temperature !== 0 || tint !== 0) {
+    const gain = (value: number): string => (1 + value * WHITE_BALANCE_GAIN).toFixed(3);
+    filters.push(`colorchannelmixer=rr=${gain(temperature)}:gg=${gain(-tint)}:bb=${gain(-temperature)}`);
+  }
+
+  if (lutPath) {
+    filters.push(`lut3d=file='${escapeFilterPath(lutPath)}':interp=tetrahedral`);
+  }
+
+  return filters.length > 0 ? filters.join(',') : null;
+}
@@ -5,4 +5,14 @@
 export * from './video-processor.service';
 export * from './source-handler.service';
 export * from './overlay.service';
+export * from './canvas.service';
+export * from './transition.service';
+export * from './caption.service';
+export * from './speed.service';
+export * from './color.service';
+export * from './transform.service';
 
+export * from './render-queue.service';
+export * from './project-store.service';
+export * from './waveform.service';
+export * from './thumbnail.service';
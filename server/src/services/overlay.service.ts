@@ -1,9 +1,16 @@
-import type { Overlay } from '../types';
+import type { Overlay, OverlayEffect, OverlayEffectType, OverlayKeyframes, TextOverlay } from '../types';
+import { buildKeyframeExpression } from '../utils/keyframe.utils';
+import { isRasterizedShape } from '../utils/shape.utils';
 
 /**
  * Overlay rendering service - builds FFmpeg filter chains for overlays
  */
 
+/**
+ * Horizontal shift per pixel of height for italic text (about 11°); the editor preview skews by the same amount
+ */
+const ITALIC_SLANT = 0.2;
+
 /**
  * Convert hex color to RGB format for FFmpeg
  */
@@ -29,12 +36,234 @@ function hexToRgb(hex: string, opacity: number): string {
 }
 
 /**
- * Build FFmpeg overlay filters for text, image, and shape overlays
+ * Expression for an overlay property: its keyframe track when it has one, else the static value.
+ * `timeVariable` is the filter's time variable (`t` for most filters, `T` for geq).
+ */
+function animatedValue(
+  overlay: Overlay,
+  property: keyof OverlayKeyframes,
+  staticValue: number,
+  timeVariable: string = 't'
+): string {
+  const track = overlay.keyframes?.[property];
+  if (!track || track.length === 0) {
+    return String(staticValue);
+  }
+  return `(${buildKeyframeExpression(track, `(${timeVariable}-${overlay.start})`)})`;
+}
+
+/**
+ * Check whether an overlay property has a keyframe track
+ */
+function isAnimated(overlay: Overlay, property: keyof OverlayKeyframes): boolean {
+  return (overlay.keyframes?.[property]?.length ?? 0) > 0;
+}
+
+/**
+ * Largest scale an overlay reaches (at least 1), the size its layer is prepared at
+ */
+export function getMaxScale(overlay: Overlay): number {
+  return Math.max(1, ...(overlay.keyframes?.scale ?? []).map(keyframe => keyframe.value));
+}
+
+/**
+ * Entrance and exit durations, shortened in proportion when together they are longer than the overlay
+ */
+function getEffectDurations(overlay: Overlay): { entrance: number; exit: number } {
+  const entrance = overlay.entranceEffect?.duration ?? 0;
+  const exit = overlay.exitEffect?.duration ?? 0;
+  const length = overlay.end - overlay.start;
+  const fit = entrance + exit > length ? length / (entrance + exit) : 1;
+  return { entrance: entrance * fit, exit: exit * fit };
+}
+
+/**
+ * Entrance and exit effects with their progress: 0 → 1 over the entrance, 1 → 0 over the exit, 1 otherwise
+ */
+function getEffectProgress(overlay: Overlay, timeVariable: string): { effect: OverlayEffect; progress: string }[] {
+  const durations = getEffectDurations(overlay);
+  const effects: { effect: OverlayEffect; progress: string }[] = [];
+  if (overlay.entranceEffect) {
+    effects.push({
+      effect: overlay.entranceEffect,
+      progress: `clip((${timeVariable}-${overlay.start})/${durations.entrance},0,1)`
+    });
+  }
+  if (overlay.exitEffect) {
+    effects.push({
+      effect: overlay.exitEffect,
+      progress: `clip((${overlay.end}-${timeVariable})/${durations.exit},0,1)`
+    });
+  }
+  return effects;
+}
+
+/**
+ * Check whether the entrance or exit effect is of a type
+ */
+function hasEffect(overlay: Overlay, type: OverlayEffectType): boolean {
+  return overlay.entranceEffect?.type === type || overlay.exitEffect?.type === type;
+}
+
+/**
+ * Multiplier from the fade or zoom effects (1 when the overlay has none)
+ */
+function effectFactor(overlay: Overlay, type: 'fade' | 'zoom', timeVariable: string = 't'): string {
+  const factors = getEffectProgress(overlay, timeVariable)
+    .filter(({ effect }) => effect.type === type)
+    // A zoom never reaches 0 so sizes stay valid
+    .map(({ progress }) => (type === 'zoom' ? `max(${progress},0.01)` : progress));
+  return factors.length > 0 ? factors.join('*') : '1';
+}
+
+/**
+ * Position expression moved by slide effects: towards the outside of the frame, past the `size` of the overlay
+ * for the left and top edges
+ */
+function slidePosition(overlay: Overlay, axis: 'x' | 'y', position: string, size: string, frameSize: string): string {
+  const edges = axis === 'x' ? ['left', 'right'] : ['top', 'bottom'];
+  return getEffectProgress(overlay, 't')
+    .filter(({ effect }) => effect.type === 'slide' && edges.includes(effect.edge ?? 'left'))
+    .reduce((current, { effect, progress }) => {
+      const isStartEdge = (effect.edge ?? 'left') === edges[0];
+      return isStartEdge
+        ? `(${current})*${progress}-${size}*(1-${progress})`
+        : `(${current})+(${frameSize}-(${current}))*(1-${progress})`;
+    }, position);
+}
+
+/**
+ * Text shown over time; typewriter effects type the text in and delete it again one frame at most per step
+ */
+function getTypewriterWindows(overlay: TextOverlay): { text: string; start: number; end: number }[] {
+  const characters = Array.from(overlay.text);
+  const durations = getEffectDurations(overlay);
+  const round = (time: number): number => Math.round(time * 1000) / 1000;
+  const stepsFor = (duration: number): number => Math.min(characters.length, Math.max(1, Math.floor(duration * 30)));
+  const textAt = (step: number, steps: number): string =>
+    characters.slice(0, Math.round((characters.length * step) / steps)).join('');
+
+  const typing: { text: string; start: number; end: number }[] = [];
+  const deleting: { text: string; start: number; end: number }[] = [];
+  let fullStart = overlay.start;
+  let fullEnd = overlay.end;
+
+  if (overlay.entranceEffect?.type === 'typewriter') {
+    const steps = stepsFor(durations.entrance);
+    for (let step = 1; step < steps; step++) {
+      typing.push({
+        text: textAt(step, steps),
+        start: round(overlay.start + (durations.entrance * (step - 1)) / steps),
+        end: round(overlay.start + (durations.entrance * step) / steps)
+      });
+    }
+    fullStart = typing[typing.length - 1]?.end ?? overlay.start;
+  }
+
+  if (overlay.exitEffect?.type === 'typewriter') {
+    const steps = stepsFor(durations.exit);
+    for (let step = steps - 1; step >= 1; step--) {
+      deleting.push({
+        text: textAt(step, steps),
+        start: round(overlay.end - (durations.exit * step) / steps),
+        end: round(overlay.end - (durations.exit * (step - 1)) / steps)
+      });
+    }
+    fullEnd = deleting[0]?.start ?? overlay.end;
+  }
+
+  return [...typing, { text: overlay.text, start: fullStart, end: fullEnd }, ...deleting];
+}
+
+/**
+ * Escape text for drawtext's text option
+ */
+function escapeDrawtext(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/:/g, '\\:')
+    .replace(/'/g, "\\'")
+    .replace(/\[/g, '\\[')
+    .replace(/\]/g, '\\]')
+    .replace(/,/g, '\\,');
+}
+
+/**
+ * Check whether an overlay layer needs per-frame scale or opacity (keyframes, fade or zoom effects)
+ */
+function hasLayerAnimation(overlay: Overlay): boolean {
+  return isAnimated(overlay, 'scale') || isAnimated(overlay, 'opacity') || hasEffect(overlay, 'fade') || hasEffect(overlay, 'zoom');
+}
+
+/**
+ * rotate filter turning a layer clockwise around its anchor (the overlay's top-left corner at pivotX/pivotY).
+ * The output is just large enough for the turned layer; offsetX/offsetY give where the anchor ends up in it.
+ */
+function buildRotation(
+  rotation: number,
+  width: number,
+  height: number,
+  pivotX: number = 0,
+  pivotY: number = 0
+): { filter: string; offsetX: number; offsetY: number } {
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const outputWidth = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin));
+  const outputHeight = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos));
+  // rotate turns the layer around its centre, which stays the centre of the output
+  const fromCentreX = pivotX - width / 2;
+  const fromCentreY = pivotY - height / 2;
+  return {
+    filter: `rotate=a=${angle.toFixed(6)}:c=none:ow=${outputWidth}:oh=${outputHeight}`,
+    offsetX: Math.round(outputWidth / 2 + fromCentreX * cos - fromCentreY * sin),
+    offsetY: Math.round(outputHeight / 2 + fromCentreX * sin + fromCentreY * cos)
+  };
+}
+
+/**
+ * perspective filter slanting a layer like italic type: rows below pivotY move left, rows above it right
+ */
+function buildSlant(width: number, height: number, pivotY: number): string {
+  const shift = (y: number): number => Math.round((y - pivotY) * ITALIC_SLANT * 100) / 100;
+  return `perspective=x0=${shift(0)}:y0=0:x1=${width + shift(0)}:y1=0:x2=${shift(height)}:y2=${height}:x3=${width + shift(height)}:y3=${height}`;
+}
+
+/**
+ * geq filter showing a layer prepared at maxScale at its current scale and opacity.
+ * Pixels outside the current size turn transparent; `coverage` can hide more of them (given the sampled x/y).
+ * Zoom effects scale the layer around the centre of its current size.
+ */
+function buildAnimatedLayerFilter(
+  overlay: Overlay,
+  maxScale: number,
+  coverage?: (x: string, y: string) => string
+): string {
+  const size = isAnimated(overlay, 'scale') ? `${animatedValue(overlay, 'scale', 1, 'T')}/${maxScale}` : '1';
+  const zoom = effectFactor(overlay, 'zoom', 'T');
+  const x = hasEffect(overlay, 'zoom') ? `(X-W*${size}*(1-${zoom})/2)/(${size}*${zoom})` : `X/${size}`;
+  const y = hasEffect(overlay, 'zoom') ? `(Y-H*${size}*(1-${zoom})/2)/(${size}*${zoom})` : `Y/${size}`;
+  const visible = [`gte(${x},0)`, `lt(${x},W)`, `gte(${y},0)`, `lt(${y},H)`, ...(coverage ? [coverage(x, y)] : [])].join('*');
+  const opacity = `${animatedValue(overlay, 'opacity', overlay.opacity ?? 1, 'T')}*${effectFactor(overlay, 'fade', 'T')}`;
+  return `format=rgba,geq=r='r(${x},${y})':g='g(${x},${y})':b='b(${x},${y})':a='if(${visible},alpha(${x},${y})*${opacity},0)'`;
+}
+
+/**
+ * Build FFmpeg overlay filters for text, image, and shape overlays.
+ * Positions are percentages of the input frame (the output canvas when one is set);
+ * pixel sizes are multiplied by sizeScale so they keep their size relative to the video.
+ * Keyframed position, scale and opacity and the entrance/exit effects become time-based expressions.
+ * Rotated overlays are drawn on their own layer and turned around their top-left corner.
+ * Text overlays with a fontUrl use the downloaded file in fontPaths.
+ * imagePaths holds the image overlays and rasterized shapes in start order.
  */
 export function buildOverlayFilters(
   overlays: Overlay[],
   imagePaths: string[],
-  videoDuration: number
+  videoDuration: number,
+  inputStream: string = '[0:v]',
+  sizeScale: number = 1,
+  fontPaths = new Map<string, string>()
 ): { filterComplex: string; outputStream: string } {
   if (overlays.length === 0) {
     return { filterComplex: '', outputStream: '' };
@@ -42,53 +271,137 @@ export function buildOverlayFilters(
 
   const filterParts: string[] = [];
   let imageInputIndex = 1;
-  let currentStream = '[0:v]';
+  let currentStream = inputStream;
+  const scaled = (pixels: number): number => Math.max(1, Math.round(pixels * sizeScale));
   
   const sortedOverlays = [...overlays].sort((a, b) => a.start - b.start);
   
   for (const overlay of sortedOverlays) {
     if (overlay.type === 'text') {
-      const fontSize = overlay.fontSize || 24;
+      const fontSize = scaled(overlay.fontSize || 24);
       const fontColor = overlay.fontColor || 'white';
       const bgColor = overlay.backgroundColor || 'black@0.5';
       const opacity = overlay.opacity ?? 1;
-      const x = `W*${overlay.x}/100`;
-      const y = `H*${overlay.y}/100`;
+      const zoom = effectFactor(overlay, 'zoom');
+      const positionX = `W*${animatedValue(overlay, 'x', overlay.x)}/100`;
+      const positionY = `H*${animatedValue(overlay, 'y', overlay.y)}/100`;
+      const fontSizeValue = isAnimated(overlay, 'scale') || hasEffect(overlay, 'zoom')
+        ? `max(1,${fontSize}*${animatedValue(overlay, 'scale', 1)}*${zoom})`
+        : String(fontSize);
+      // Animated opacity goes through drawtext's alpha so the colours themselves stay opaque
+      const isAlphaAnimated = isAnimated(overlay, 'opacity') || hasEffect(overlay, 'fade');
+      const colorOpacity = isAlphaAnimated ? 1 : opacity;
+      const alpha = isAlphaAnimated
+        ? `:alpha='${animatedValue(overlay, 'opacity', opacity)}*${effectFactor(overlay, 'fade')}'`
+        : '';
+      const fontPath = overlay.fontUrl ? fontPaths.get(overlay.fontUrl) : undefined;
+      const fontFile = fontPath ? `:fontfile='${escapeDrawtext(fontPath)}'` : '';
       
       console.log(`[Text Overlay Debug] Received: x=${overlay.x}%, y=${overlay.y}%, text="${overlay.text}"`);
       
-      const escapedText = overlay.text
-        .replace(/\\/g, '\\\\')
-        .replace(/:/g, '\\:')
-        .replace(/'/g, "\\'")
-        .replace(/\[/g, '\\[')
-        .replace(/\]/g, '\\]')
-        .replace(/,/g, '\\,');
+      const hasTransparentBg = !bgColor || bgColor === 'transparent' || bgColor === 'none' || bgColor === '';
+      const boxPadding = hasTransparentBg ? 0 : Math.round((overlay.boxPadding ?? 5) * sizeScale);
+      const box = hasTransparentBg ? '' : `:box=1:boxcolor=${bgColor}:boxborderw=${boxPadding}`;
+      const shadowX = overlay.shadowColor ? Math.round((overlay.shadowX ?? 2) * sizeScale) : 0;
+      const shadowY = overlay.shadowColor ? Math.round((overlay.shadowY ?? 2) * sizeScale) : 0;
+      const shadow = overlay.shadowColor
+        ? `:shadowcolor=${overlay.shadowColor}@${colorOpacity}:shadowx=${shadowX}:shadowy=${shadowY}`
+        : '';
       
-      const enable = `between(t,${overlay.start},${overlay.end})`;
-      const outputLabel = `v${filterParts.length + 1}`;
+      // Bold is an outline in the text colour; a stroke is drawn around it in a pass underneath
+      const boldWidth = overlay.bold ? Math.max(1, Math.round(fontSize / 24)) : 0;
+      const strokeWidth = overlay.strokeColor ? Math.round((overlay.strokeWidth ?? 0) * sizeScale) : 0;
+      const boldBorder = boldWidth > 0 ? `:borderw=${boldWidth}:bordercolor=${fontColor}@${colorOpacity}` : '';
+      const passes = strokeWidth > 0
+        ? [`:borderw=${strokeWidth + boldWidth}:bordercolor=${overlay.strokeColor}@${colorOpacity}${box}${shadow}`, ...(boldBorder ? [boldBorder] : [])]
+        : [`${boldBorder}${box}${shadow}`];
       
-      const hasTransparentBg = !bgColor || bgColor === 'transparent' || bgColor === 'none' || bgColor === '';
-      if (hasTransparentBg) {
+      // Each line is drawn on its own so it can be aligned to x; like a CSS line box of lineSpacing
+      // times the font size, every line keeps the same baseline whatever its glyphs
+      const align = { left: 0, center: 0.5, right: 1 }[overlay.textAlign ?? 'left'];
+      const lineSpacing = overlay.lineSpacing ?? 1.2;
+      const lineHeight = `${fontSizeValue}*${lineSpacing}`;
+      const lines = overlay.text.split('\n');
+      // Zooms keep the text centred: tw/zoom is a line's width at full size
+      const zoomOffsetY = hasEffect(overlay, 'zoom') ? `+${lines.length}*${lineHeight}*(1-${zoom})/(2*${zoom})` : '';
+      const lineX = (left: string): string => {
+        if (hasEffect(overlay, 'zoom')) {
+          return `${left}+tw*${0.5 - align}/${zoom}-tw/2`;
+        }
+        return align > 0 ? `${left}-tw*${align}` : left;
+      };
+      
+      // One set of drawtexts per typewriter step (the whole text when there is no typewriter effect)
+      const drawtexts = (left: string, top: string): string[] => getTypewriterWindows(overlay).flatMap(shown => {
+        const enable = shown.end < overlay.end
+          ? `gte(t,${shown.start})*lt(t,${shown.end})`
+          : `between(t,${shown.start},${shown.end})`;
+        return shown.text.split('\n').flatMap((line, index) => {
+          if (!line) {
+            return [];
+          }
+          const y = `${top}${zoomOffsetY}+${index}*${lineHeight}+(${lineHeight}-ascent+descent)/2+ascent-max_glyph_a`;
+          return passes.map(pass =>
+            `drawtext=text='${escapeDrawtext(line)}'${fontFile}:fontsize='${fontSizeValue}':fontcolor=${fontColor}@${colorOpacity}${alpha}${pass}:x='${lineX(left)}':y='${y}':enable='${enable}'`
+          );
+        });
+      });
+      
+      const outputLabel = `v${filterParts.length + 1}`;
+      if (overlay.rotation || overlay.italic) {
+        // drawtext can't rotate or slant, so the text goes on a transparent layer sized for its longest line at its largest size
+        const maxFontSize = fontSize * getMaxScale(overlay);
+        const longestLine = Math.max(...lines.map(line => Array.from(line).length));
+        const margin = boxPadding + strokeWidth + boldWidth + Math.max(Math.abs(shadowX), Math.abs(shadowY)) + 2;
+        const textWidth = Math.ceil(maxFontSize * longestLine * 0.85);
+        const textHeight = Math.ceil(maxFontSize * ((lines.length - 1) * lineSpacing + Math.max(lineSpacing, 1.2)));
+        // Rows below the top of the text move left when slanted
+        const slant = overlay.italic ? Math.ceil((textHeight + margin) * ITALIC_SLANT) : 0;
+        const layerWidth = textWidth + slant + margin * 2;
+        const layerHeight = textHeight + margin * 2;
+        const anchorX = margin + slant + Math.round(textWidth * align);
+        const anchorY = margin;
+        
+        const layerFilters = [
+          `color=c=black@0:s=${layerWidth}x${layerHeight}:r=25:d=${videoDuration}`,
+          'format=rgba',
+          ...drawtexts(String(anchorX), String(anchorY))
+        ];
+        if (overlay.italic) {
+          layerFilters.push(buildSlant(layerWidth, layerHeight, anchorY));
+        }
+        const rotation = overlay.rotation ? buildRotation(overlay.rotation, layerWidth, layerHeight, anchorX, anchorY) : null;
+        if (rotation) {
+          layerFilters.push(rotation.filter);
+        }
+        
+        const textLabel = `text${overlay.id}`;
+        const x = slidePosition(overlay, 'x', positionX, 'w', 'W');
+        const y = slidePosition(overlay, 'y', positionY, 'h', 'H');
         filterParts.push(
-          `${currentStream}drawtext=text='${escapedText}':fontsize=${fontSize}:fontcolor=${fontColor}@${opacity}:x=${x}:y=${y}:enable='${enable}'[${outputLabel}]`
+          `${layerFilters.join(',')}[${textLabel}];${currentStream}[${textLabel}]overlay=x='${x}-${rotation?.offsetX ?? anchorX}':y='${y}-${rotation?.offsetY ?? anchorY}':enable='between(t,${overlay.start},${overlay.end})'[${outputLabel}]`
         );
       } else {
-        filterParts.push(
-          `${currentStream}drawtext=text='${escapedText}':fontsize=${fontSize}:fontcolor=${fontColor}@${opacity}:box=1:boxcolor=${bgColor}:boxborderw=5:x=${x}:y=${y}:enable='${enable}'[${outputLabel}]`
-        );
+        const x = slidePosition(overlay, 'x', positionX, 'tw', 'W');
+        const y = slidePosition(overlay, 'y', positionY, `${lines.length}*${lineHeight}`, 'H');
+        filterParts.push(`${currentStream}${drawtexts(x, y).join(',')}[${outputLabel}]`);
       }
       currentStream = `[${outputLabel}]`;
       
-    } else if (overlay.type === 'image' && imageInputIndex - 1 < imagePaths.length) {
-      const widthPixels = overlay.width || 200;
-      const heightPixels = overlay.height || 200;
-      const _opacity = overlay.opacity ?? 1; // TODO: Add opacity support to overlay filter
+    } else if ((overlay.type === 'image' || isRasterizedShape(overlay)) && imageInputIndex - 1 < imagePaths.length) {
+      // Animated images are scaled once to their largest size and sampled down per frame
+      const maxScale = getMaxScale(overlay);
+      const widthPixels = scaled((overlay.width || 200) * maxScale);
+      const heightPixels = scaled((overlay.height || 200) * maxScale);
+      const opacity = overlay.opacity ?? 1;
       
-      console.log(`[Image Overlay] id=${overlay.id}, width=${widthPixels}px, height=${heightPixels}px, x=${overlay.x}%, y=${overlay.y}%`);
+      console.log(`[${overlay.type === 'image' ? 'Image' : 'Shape'} Overlay] id=${overlay.id}, width=${widthPixels}px, height=${heightPixels}px, x=${overlay.x}%, y=${overlay.y}%`);
       
-      const x = `W*${overlay.x}/100`;
-      const y = `H*${overlay.y}/100`;
+      const rotation = overlay.rotation ? buildRotation(overlay.rotation, widthPixels, heightPixels) : null;
+      const x = slidePosition(overlay, 'x', `W*${animatedValue(overlay, 'x', overlay.x)}/100`, 'w', 'W');
+      const y = slidePosition(overlay, 'y', `H*${animatedValue(overlay, 'y', overlay.y)}/100`, 'h', 'H');
+      const anchorX = rotation ? `-${rotation.offsetX}` : '';
+      const anchorY = rotation ? `-${rotation.offsetY}` : '';
       const enable = `between(t,${overlay.start},${overlay.end})`;
       
       const imgInput = `[${imageInputIndex}:v]`;
@@ -99,19 +412,39 @@ export function buildOverlayFilters(
       const loopSize = Math.ceil(videoDuration * 30);
       const _currentStreamName = currentStream.replace(/^\[/, '').replace(/\]$/, '');
       
+      // A single looped frame would be animated once only, so animated images repeat it with fresh timestamps
+      const isLayerAnimated = hasLayerAnimation(overlay);
+      const loop = isLayerAnimated ? `loop=loop=${loopSize}:size=1:start=0` : `loop=loop=-1:size=${loopSize}:start=0`;
+      const layerFilters = [`scale=w=${widthPixels}:h=${heightPixels}:force_original_aspect_ratio=decrease`];
+      if (rotation || (!isLayerAnimated && opacity < 1)) {
+        layerFilters.push('format=rgba');
+      }
+      if (rotation) {
+        // Pad to the full box so the rotation pivot is known
+        layerFilters.push(`pad=${widthPixels}:${heightPixels}:0:0:color=black@0`);
+      }
+      if (isLayerAnimated) {
+        layerFilters.push(buildAnimatedLayerFilter(overlay, maxScale));
+      } else if (opacity < 1) {
+        layerFilters.push(`colorchannelmixer=aa=${opacity}`);
+      }
+      if (rotation) {
+        layerFilters.push(rotation.filter);
+      }
+      
       filterParts.push(
-        `${imgInput}loop=loop=-1:size=${loopSize}:start=0[${loopedImgLabel}];[${loopedImgLabel}]scale=w=${widthPixels}:h=${heightPixels}:force_original_aspect_ratio=decrease[${scaledImgLabel}];${currentStream}[${scaledImgLabel}]overlay=${x}:${y}:enable='${enable}'[${outputLabel}]`
+        `${imgInput}${loop}[${loopedImgLabel}];[${loopedImgLabel}]${layerFilters.join(',')}[${scaledImgLabel}];${currentStream}[${scaledImgLabel}]overlay=x='${x}${anchorX}':y='${y}${anchorY}':enable='${enable}'[${outputLabel}]`
       );
       currentStream = `[${outputLabel}]`;
       imageInputIndex++;
       
     } else if (overlay.type === 'shape') {
-      const widthPixels = overlay.width || 200;
-      const heightPixels = overlay.height || 200;
+      const widthPixels = scaled(overlay.width || 200);
+      const heightPixels = scaled(overlay.height || 200);
       console.log(`[Shape Overlay] id=${overlay.id}, width=${widthPixels}px, height=${heightPixels}px, x=${overlay.x}%, y=${overlay.y}%, fill=${overlay.fill || false}`);
       
       const color = overlay.color || '#FF0000';
-      const strokeWidth = overlay.strokeWidth || 3;
+      const strokeWidth = scaled(overlay.strokeWidth || 3);
       const fill = overlay.fill || false;
       const opacity = overlay.opacity ?? 1;
       
@@ -125,7 +458,28 @@ export function buildOverlayFilters(
       const enable = `between(t,${overlay.start},${overlay.end})`;
       const outputLabel = `v${filterParts.length + 1}`;
       
-      if (fill) {
+      const hasKeyframes = overlay.keyframes && Object.values(overlay.keyframes).some(track => track && track.length > 0);
+      if (hasKeyframes || overlay.entranceEffect || overlay.exitEffect || overlay.rotation) {
+        // drawbox can't animate or rotate, so such shapes are drawn as a generated layer like an image
+        const maxScale = getMaxScale(overlay);
+        const layerWidth = Math.round(widthPixels * maxScale);
+        const layerHeight = Math.round(heightPixels * maxScale);
+        const border = Math.round(strokeWidth * maxScale);
+        const layerColor = hexToRgb(color, 1);
+        const outline = (x: string, y: string): string =>
+          `(lt(${x},${border})+lt(${y},${border})+gte(${x},W-${border})+gte(${y},H-${border}))`;
+        const shapeLabel = `shape${overlay.id}`;
+        const x = slidePosition(overlay, 'x', `W*${animatedValue(overlay, 'x', overlay.x)}/100`, 'w', 'W');
+        const y = slidePosition(overlay, 'y', `H*${animatedValue(overlay, 'y', overlay.y)}/100`, 'h', 'H');
+        const rotation = overlay.rotation ? buildRotation(overlay.rotation, layerWidth, layerHeight) : null;
+        const rotate = rotation ? `,${rotation.filter}` : '';
+        const anchorX = rotation ? `-${rotation.offsetX}` : '';
+        const anchorY = rotation ? `-${rotation.offsetY}` : '';
+        
+        filterParts.push(
+          `color=c=${layerColor}:s=${layerWidth}x${layerHeight}:r=25:d=${videoDuration},${buildAnimatedLayerFilter(overlay, maxScale, fill ? undefined : outline)}${rotate}[${shapeLabel}];${currentStream}[${shapeLabel}]overlay=x='${x}${anchorX}':y='${y}${anchorY}':enable='${enable}'[${outputLabel}]`
+        );
+      } else if (fill) {
         filterParts.push(
           `${currentStream}drawbox=x=${drawboxX}:y=${drawboxY}:w=${drawboxWidth}:h=${drawboxHeight}:color=${rgbColor}:t=-1:enable='${enable}'[${outputLabel}]`
         );
@@ -0,0 +1,236 @@
+import path from 'path';
+import { promises as fsp } from 'fs';
+import { v4 as uuid } from 'uuid';
+import { serverConfig } from '../utils/config.utils';
+import { runFfmpegWithTimeout } from '../utils/ffmpeg.utils';
+import { resolveUploadPath } from '../utils/file.utils';
+import type { EditorProject, ProjectSummary, StoredProject } from '../types';
+
+/**
+ * File-backed project store - one JSON document per project under dataDir/projects, which is not served.
+ * Thumbnails go to outputDir/projects so the listing can link them.
+ */
+
+const projectsDir = path.join(serverConfig.dataDir, 'projects');
+const thumbnailsDir = path.join(serverConfig.outputDir, 'projects');
+const uploadsDir = path.join(serverConfig.outputDir, 'uploads');
+const PROJECT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const THUMBNAIL_TIMEOUT_MS = 30000;
+
+/**
+ * Pending write per project id, so a read-check-write of one project never interleaves with another
+ */
+const projectLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * List stored projects, most recently updated first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+  let files: string[];
+  try {
+    files = await fsp.readdir(projectsDir);
+  } catch {
+    return [];
+  }
+
+  const projects = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => readProject(path.basename(file, '.json')))
+  );
+
+  return projects
+    .filter((project): project is StoredProject => project !== undefined)
+    .map(({ project: _project, ...summary }) => summary)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Get a stored project by id
+ */
+export function getProject(id: string): Promise<StoredProject | undefined> {
+  return readProject(id);
+}
+
+/**
+ * Store a new project at version 1
+ */
+export async function createProject(project: EditorProject): Promise<StoredProject> {
+  const now = new Date().toISOString();
+  const id = uuid();
+  const stored: StoredProject = {
+    id,
+    name: project.name,
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    thumbnailUrl: await createThumbnail(id, project),
+    project
+  };
+
+  await fsp.mkdir(projectsDir, { recursive: true });
+  await writeProject(stored);
+  console.log(`[Projects] Created ${id} ("${project.name}")`);
+  return stored;
+}
+
+/**
+ * Replace a stored project if `expectedVersion` is still the current version.
+ * On a version conflict the current project is returned with the error.
+ */
+export function updateProject(
+  id: string,
+  expectedVersion: number,
+  project: EditorProject
+): Promise<{ success: boolean; project?: StoredProject; error?: string }> {
+  return withProjectLock(id, async () => {
+    const current = await readProject(id);
+    if (!current) {
+      return { success: false, error: 'Project not found' };
+    }
+    if (current.version !== expectedVersion) {
+      return {
+        success: false,
+        project: current,
+        error: `Project was modified (version ${current.version}, expected ${expectedVersion})`
+      };
+    }
+
+    // The thumbnail only depends on the first frame of the edit
+    const thumbnailChanged = project.sources[0]?.url !== current.project.sources[0]?.url
+      || project.timeline.trimStart !== current.project.timeline.trimStart;
+
+    const stored: StoredProject = {
+      ...current,
+      name: project.name,
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      thumbnailUrl: thumbnailChanged ? await createThumbnail(id, project) : current.thumbnailUrl,
+      project
+    };
+
+    await writeProject(stored);
+    console.log(`[Projects] Updated ${id} to version ${stored.version}`);
+    return { success: true, project: stored };
+  });
+}
+
+/**
+ * Delete a stored project and its thumbnail. When `expectedVersion` is given it must match.
+ */
+export function deleteProject(
+  id: string,
+  expectedVersion?: number
+): Promise<{ success: boolean; project?: StoredProject; error?: string }> {
+  return withProjectLock(id, async () => {
+    const current = await readProject(id);
+    if (!current) {
+      return { success: false, error: 'Project not found' };
+    }
+    if (expectedVersion !== undefined && current.version !== expectedVersion) {
+      return {
+        success: false,
+        project: current,
+        error: `Project was modified (version ${current.version}, expected ${expectedVersion})`
+      };
+    }
+
+    await fsp.rm(getProjectFile(id), { force: true });
+    await fsp.rm(getThumbnailFile(id), { force: true });
+    console.log(`[Projects] Deleted ${id}`);
+    return { success: true, project: current };
+  });
+}
+
+/**
+ * Run a task after any pending task for the same project
+ */
+function withProjectLock<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = projectLocks.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  projectLocks.set(id, next);
+
+  const release = (): void => {
+    if (projectLocks.get(id) === next) {
+      projectLocks.delete(id);
+    }
+  };
+  next.then(release, release);
+
+  return next;
+}
+
+async function readProject(id: string): Promise<StoredProject | undefined> {
+  // Ids are generated by the store; anything else could point outside the projects directory
+  if (!PROJECT_ID_PATTERN.test(id)) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(await fsp.readFile(getProjectFile(id), 'utf8')) as StoredProject;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Write through a temporary file so readers never see a half-written document
+ */
+async function writeProject(stored: StoredProject): Promise<void> {
+  const file = getProjectFile(stored.id);
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await fsp.writeFile(tempFile, JSON.stringify(stored, null, 2));
+  await fsp.rename(tempFile, file);
+}
+
+/**
+ * Grab the first frame of the edit as a small JPEG. Failures only mean the listing has no thumbnail.
+ * Uploads are read from disk; other sources only over http(s), so a project can't publish local files.
+ */
+async function createThumbnail(id: string, project: EditorProject): Promise<string | undefined> {
+  const source = project.sources[0];
+  if (!source || !/^https?:/i.test(source.url)) {
+    return undefined;
+  }
+
+  const uploadPath = await resolveUploadPath(source.url, uploadsDir);
+  if (uploadPath === null) {
+    return undefined;
+  }
+  const inputArgs = uploadPath === undefined
+    ? ['-protocol_whitelist', 'http,https,tcp,tls', '-i', source.url]
+    : ['-i', uploadPath];
+
+  await fsp.mkdir(thumbnailsDir, { recursive: true });
+  const seekArgs = source.type === 'video' ? ['-ss', project.timeline.trimStart.toFixed(3)] : [];
+
+  try {
+    await runFfmpegWithTimeout(
+      [
+        '-y',
+        '-loglevel', 'error',
+        ...seekArgs,
+        ...inputArgs,
+        '-frames:v', '1',
+        '-vf', 'scale=320:-2',
+        getThumbnailFile(id)
+      ],
+      THUMBNAIL_TIMEOUT_MS
+    );
+  } catch (error) {
+    console.warn(`[Projects] Thumbnail failed for ${id}:`, error instanceof Error ? error.message : error);
+    await fsp.rm(getThumbnailFile(id), { force: true });
+    return undefined;
+  }
+
+  // The timestamp query keeps browsers from showing a cached thumbnail after an update
+  return `/output/projects/${id}.jpg?t=${Date.now()}`;
+}
+
+function getProjectFile(id: string): string {
+  return path.join(projectsDir, `${id}.json`);
+}
+
+function getThumbnailFile(id: string): string {
+  return path.join(thumbnailsDir, `${id}.jpg`);
+}
@@ -0,0 +1,231 @@
+import path from 'path';
+import { EventEmitter } from 'events';
+import { promises as fsp } from 'fs';
+import { v4 as uuid } from 'uuid';
+import { serverConfig } from '../utils/config.utils';
+import { killJobProcesses, releaseJobProcesses } from '../utils/ffmpeg.utils';
+import { getOutputFormatProfile } from '../utils/output-format.utils';
+import { renderVideo } from './video-processor.service';
+import type { RenderRequest, RenderJobState, RenderJobStatus, RenderResponse, RenderPhase } from '../types';
+
+/**
+ * Render job queue - runs renders in the background with limited concurrency
+ */
+
+interface RenderJob {
+  id: string;
+  request: RenderRequest;
+  state: RenderJobState;
+  progress: number;
+  phase?: RenderPhase | undefined;
+  phaseProgress?: number | undefined;
+  cancelRequested: boolean;
+  createdAt: Date;
+  startedAt?: Date | undefined;
+  finishedAt?: Date | undefined;
+  result?: RenderResponse | undefined;
+  error?: string | undefined;
+}
+
+const jobs = new Map<string, RenderJob>();
+const pendingJobIds: string[] = [];
+let runningJobs = 0;
+
+/**
+ * Emits a job's status under its id whenever the job changes
+ */
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Add a render request to the queue and return its initial status
+ */
+export function enqueueRenderJob(request: RenderRequest): RenderJobStatus {
+  const job: RenderJob = {
+    id: uuid(),
+    request,
+    state: 'queued',
+    progress: 0,
+    cancelRequested: false,
+    createdAt: new Date()
+  };
+
+  jobs.set(job.id, job);
+  pendingJobIds.push(job.id);
+  console.log(`[${job.id}] Job queued (${pendingJobIds.length} waiting, ${runningJobs} running)`);
+
+  processQueue();
+  return toJobStatus(job);
+}
+
+/**
+ * Listen to status updates of a job. Returns a function that removes the listener.
+ */
+export function subscribeToRenderJob(jobId: string, listener: (status: RenderJobStatus) => void): () => void {
+  jobEvents.on(jobId, listener);
+  return () => {
+    jobEvents.off(jobId, listener);
+  };
+}
+
+/**
+ * Whether a job state is final (no further updates will follow)
+ */
+export function isFinalJobState(state: RenderJobState): boolean {
+  return state === 'succeeded' || state === 'failed' || state === 'cancelled';
+}
+
+/**
+ * Get the current status of a job
+ */
+export function getRenderJob(jobId: string): RenderJobStatus | undefined {
+  const job = jobs.get(jobId);
+  return job ? toJobStatus(job) : undefined;
+}
+
+/**
+ * Cancel a queued or running job
+ */
+export function cancelRenderJob(jobId: string): { success: boolean; status?: RenderJobStatus; error?: string } {
+  const job = jobs.get(jobId);
+  if (!job) {
+    return { success: false, error: 'Job not found' };
+  }
+
+  if (isFinalJobState(job.state)) {
+    return { success: false, status: toJobStatus(job), error: `Job already ${job.state}` };
+  }
+
+  if (job.state === 'queued') {
+    const index = pendingJobIds.indexOf(jobId);
+    if (index !== -1) {
+      pendingJobIds.splice(index, 1);
+    }
+    finishJob(job, 'cancelled');
+  } else {
+    // The running render rejects once its FFmpeg process is killed
+    job.cancelRequested = true;
+    killJobProcesses(jobId);
+    notifyJobChanged(job);
+  }
+
+  console.log(`[${jobId}] Job cancelled`);
+  return { success: true, status: toJobStatus(job) };
+}
+
+/**
+ * Start queued jobs while there are free slots
+ */
+function processQueue(): void {
+  while (runningJobs < serverConfig.renderConcurrency && pendingJobIds.length > 0) {
+    const jobId = pendingJobIds.shift()!;
+    const job = jobs.get(jobId);
+    if (job && job.state === 'queued') {
+      void runJob(job);
+    }
+  }
+
+  // Queue positions changed for everyone still waiting
+  for (const jobId of pendingJobIds) {
+    const job = jobs.get(jobId);
+    if (job) notifyJobChanged(job);
+  }
+}
+
+/**
+ * Run a single job and record its outcome
+ */
+async function runJob(job: RenderJob): Promise<void> {
+  runningJobs++;
+  job.state = 'running';
+  job.startedAt = new Date();
+  notifyJobChanged(job);
+
+  try {
+    const result = await renderVideo(job.request, ({ phase, phaseProgress, progress }, jobId) => {
+      if (job.phase === phase && job.phaseProgress === phaseProgress && job.progress === progress) {
+        return;
+      }
+      job.phase = phase;
+      job.phaseProgress = phaseProgress;
+      job.progress = progress;
+      process.stdout.write(`\r[${jobId}] Progress: ${progress}% (${phase} ${phaseProgress}%)`);
+      notifyJobChanged(job);
+    }, job.id);
+
+    if (job.cancelRequested) {
+      await removeJobOutput(job);
+      finishJob(job, 'cancelled');
+    } else {
+      job.result = result;
+      job.progress = 100;
+      finishJob(job, 'succeeded');
+    }
+  } catch (error) {
+    if (job.cancelRequested) {
+      await removeJobOutput(job);
+      finishJob(job, 'cancelled');
+    } else {
+      console.error('[Render Error]', error);
+      job.error = error instanceof Error ? error.message : 'Internal server error';
+      finishJob(job, 'failed');
+    }
+  } finally {
+    runningJobs--;
+    releaseJobProcesses(job.id);
+    processQueue();
+  }
+}
+
+/**
+ * Move a job to a final state and schedule its removal from the registry
+ */
+function finishJob(job: RenderJob, state: RenderJobState): void {
+  job.state = state;
+  job.finishedAt = new Date();
+  notifyJobChanged(job);
+
+  setTimeout(() => {
+    jobs.delete(job.id);
+  }, serverConfig.jobRetentionMs).unref();
+}
+
+/**
+ * Publish the current status of a job to its listeners
+ */
+function notifyJobChanged(job: RenderJob): void {
+  jobEvents.emit(job.id, toJobStatus(job));
+}
+
+/**
+ * Delete a partially written output file, and any caption sidecars, of a cancelled job
+ */
+async function removeJobOutput(job: RenderJob): Promise<void> {
+  const { extension } = getOutputFormatProfile(job.request.format);
+  for (const fileExtension of [extension, 'srt', 'vtt']) {
+    const outputFile = path.join(serverConfig.outputDir, `${job.id}.${fileExtension}`);
+    await fsp.rm(outputFile, { force: true }).catch(err =>
+      console.error(`[${job.id}] Failed to remove output of cancelled job: ${err}`)
+    );
+  }
+}
+
+/**
+ * Convert an internal job to its public status
+ */
+function toJobStatus(job: RenderJob): RenderJobStatus {
+  const queueIndex = pendingJobIds.indexOf(job.id);
+  return {
+    jobId: job.id,
+    state: job.state,
+    progress: job.progress,
+    phase: job.phase,
+    phaseProgress: job.phaseProgress,
+    queuePosition: queueIndex === -1 ? undefined : queueIndex + 1,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt?.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    result: job.result,
+    error: job.error
+  };
+}
@@ -1,10 +1,13 @@
 import path from 'path';
 import { promises as fsp } from 'fs';
 import { downloadFile, getImageExtension } from '../utils/file.utils';
-import { runFfmpeg, runFfmpegWithTimeout, convertWebpToPng } from '../utils/ffmpeg.utils';
+import { runFfmpeg, runFfmpegWithTimeout, convertWebpToPng, probeMediaInfo } from '../utils/ffmpeg.utils';
 import { validateMpdRestrictions, isMpdUrl } from '../utils/video.utils';
 import { serverConfig, mpdConfig } from '../utils/config.utils';
-import type { VideoSource } from '../types';
+import { getIntermediateEncoding, getQualityProfile } from '../utils/quality.utils';
+import { buildColorFilter, hasColorCorrection } from './color.service';
+import { buildKenBurnsFilter, buildTransformFilter, getTransformedSize, hasSourceTransform } from './transform.service';
+import type { QualityOptions, VideoSource } from '../types';
 
 /**
  * Source handler service - processes and concatenates video sources
@@ -16,7 +19,15 @@ export interface ProcessedSource {
 }
 
 /**
- * Process a single video source (download, convert, or transcode)
+ * Whether a source has a transform or color correction, which needs its own encoding pass
+ */
+export function hasSourceFilters(source: VideoSource): boolean {
+  return hasSourceTransform(source.transform) || hasColorCorrection(source.color);
+}
+
+/**
+ * Process a single video source (download, convert, or transcode).
+ * The transform and color correction are applied while converting or transcoding; a plain video is re-encoded for them.
  */
 export async function processSingleSource(
   source: VideoSource,
@@ -24,18 +35,28 @@ export async function processSingleSource(
   totalSources: number,
   tempDir: string,
   jobId: string,
-  isMultiSource: boolean
+  isMultiSource: boolean,
+  quality: QualityOptions
 ): Promise<ProcessedSource> {
   const sourcePath = path.join(tempDir, `source-${index}.mp4`);
   let needsTranscode = false;
   
   console.log(`[${jobId}] Processing source ${index + 1}/${totalSources}...`);
+
+  const colorFilter = await prepareColorFilter(source, index, tempDir, jobId);
+  const transformFilter = source.transform ? buildTransformFilter(source.transform) : null;
+  const sourceFilter = [transformFilter, colorFilter].filter(Boolean).join(',') || null;
   
   if (source.type === 'image') {
-    await processImageSource(source, sourcePath, tempDir, jobId);
+    await processImageSource(source, sourcePath, tempDir, jobId, transformFilter, colorFilter);
     needsTranscode = true;
   } else if (isMpdUrl(source.url)) {
-    await processMpdSource(source, sourcePath, jobId, isMultiSource);
+    await processMpdSource(source, sourcePath, jobId, isMultiSource, quality, sourceFilter);
+    needsTranscode = true;
+  } else if (sourceFilter) {
+    const downloadPath = path.join(tempDir, `download-${index}.mp4`);
+    await downloadFile(source.url, downloadPath);
+    await filterVideoSource(downloadPath, sourcePath, sourceFilter, jobId, isMultiSource, quality);
     needsTranscode = true;
   } else {
     await downloadFile(source.url, sourcePath);
@@ -45,13 +66,42 @@ export async function processSingleSource(
 }
 
 /**
- * Process an image source - convert to video
+ * Build the color correction filter of a source, downloading its LUT file first
+ */
+async function prepareColorFilter(
+  source: VideoSource,
+  index: number,
+  tempDir: string,
+  jobId: string
+): Promise<string | null> {
+  if (!source.color || !hasColorCorrection(source.color)) {
+    return null;
+  }
+
+  let lutPath: string | undefined;
+  if (source.color.lutUrl) {
+    lutPath = path.join(tempDir, `lut-${index}.cube`);
+    try {
+      await downloadFile(source.color.lutUrl, lutPath);
+    } catch (error) {
+      console.error(`[${jobId}] Failed to download LUT ${source.color.lutUrl}:`, error);
+      throw new Error(`Failed to download LUT: ${source.color.lutUrl}`);
+    }
+  }
+
+  return buildColorFilter(source.color, lutPath);
+}
+
+/**
+ * Process an image source - convert to video (a pan/zoom animates the single image frame instead of looping it)
  */
 async function processImageSource(
   source: VideoSource,
   sourcePath: string,
   tempDir: string,
-  jobId: string
+  jobId: string,
+  transformFilter: string | null,
+  colorFilter: string | null
 ): Promise<void> {
   const imageDuration = source.duration || 5;
   const ext = getImageExtension(source.url);
@@ -68,14 +118,27 @@ async function processImageSource(
     finalImagePath = pngPath;
   }
   
-  console.log(`[${jobId}] Converting image to video (${imageDuration}s)...`);
+  let kenBurnsFilter: string | null = null;
+  const kenBurns = source.transform?.kenBurns;
+  if (kenBurns) {
+    const { width, height } = await probeMediaInfo(finalImagePath, jobId);
+    if (!width || !height) {
+      throw new Error(`Failed to read the image size for the pan/zoom: ${source.url}`);
+    }
+    const size = getTransformedSize(width, height, source.transform!);
+    kenBurnsFilter = buildKenBurnsFilter(kenBurns, size.width, size.height, imageDuration);
+  }
+  const imageFilter = [transformFilter, kenBurnsFilter, colorFilter].filter(Boolean).join(',');
+  
+  console.log(`[${jobId}] Converting image to video (${imageDuration}s${kenBurns ? ', pan/zoom' : ''})...`);
   await runFfmpeg([
     '-hide_banner',
     '-y',
-    '-loop', '1',
+    ...(kenBurns ? [] : ['-loop', '1']),
     '-i', finalImagePath,
     '-f', 'lavfi',
     '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100',
+    ...(imageFilter ? ['-vf', imageFilter] : []),
     '-c:v', 'libx264',
     '-t', String(imageDuration),
     '-pix_fmt', 'yuv420p',
@@ -87,7 +150,7 @@ async function processImageSource(
     '-ac', '2',
     '-shortest',
     sourcePath
-  ]);
+  ], jobId);
 }
 
 /**
@@ -97,32 +160,36 @@ async function processMpdSource(
   source: VideoSource,
   sourcePath: string,
   jobId: string,
-  isMultiSource: boolean
+  isMultiSource: boolean,
+  quality: QualityOptions,
+  sourceFilter: string | null
 ): Promise<void> {
   console.log(`[${jobId}] Processing MPD stream: ${source.url}`);
   
   await validateMpdRestrictions(source.url);
   
-  const mpdCrf = isMultiSource ? mpdConfig.transcodeCrfMulti : mpdConfig.transcodeCrfSingle;
-  console.log(`[${jobId}] Transcoding MPD stream to MP4 (CRF ${mpdCrf})...`);
+  const { preset, crf } = getIntermediateEncoding(quality, isMultiSource);
+  const { audioBitrate } = getQualityProfile(quality.profile);
+  console.log(`[${jobId}] Transcoding MPD stream to MP4 (${quality.profile}: CRF ${crf}, ${preset})...`);
   
   await runFfmpegWithTimeout([
     '-hide_banner',
     '-y',
     '-i', source.url,
+    ...(sourceFilter ? ['-vf', sourceFilter] : []),
     '-c:v', 'libx264',
-    '-preset', mpdConfig.transcodePreset,
-    '-crf', mpdCrf,
+    '-preset', preset,
+    '-crf', crf,
     '-r', '25',
     '-pix_fmt', 'yuv420p',
     '-vsync', 'cfr',
     '-c:a', 'aac',
-    '-b:a', serverConfig.transcodeAudioBitrate,
+    '-b:a', audioBitrate,
     '-ar', '44100',
     '-ac', '2',
     '-movflags', '+faststart',
     sourcePath
-  ], mpdConfig.enableRestrictions ? mpdConfig.transcodeTimeoutMs : 0);
+  ], mpdConfig.enableRestrictions ? mpdConfig.transcodeTimeoutMs : 0, jobId);
   
   if (mpdConfig.enableRestrictions) {
     const stats = await fsp.stat(sourcePath);
@@ -139,6 +206,41 @@ async function processMpdSource(
   }
 }
 
+/**
+ * Re-encode a downloaded video with its transform and color correction filters
+ */
+async function filterVideoSource(
+  inputPath: string,
+  sourcePath: string,
+  sourceFilter: string,
+  jobId: string,
+  isMultiSource: boolean,
+  quality: QualityOptions
+): Promise<void> {
+  const { preset, crf } = getIntermediateEncoding(quality, isMultiSource);
+  const { audioBitrate } = getQualityProfile(quality.profile);
+  console.log(`[${jobId}] Transforming and color correcting source (CRF ${crf}, ${preset})...`);
+
+  await runFfmpeg([
+    '-hide_banner',
+    '-y',
+    '-i', inputPath,
+    '-vf', sourceFilter,
+    '-c:v', 'libx264',
+    '-preset', preset,
+    '-crf', crf,
+    '-r', '25',
+    '-pix_fmt', 'yuv420p',
+    '-vsync', 'cfr',
+    '-c:a', 'aac',
+    '-b:a', audioBitrate,
+    '-ar', '44100',
+    '-ac', '2',
+    '-movflags', '+faststart',
+    sourcePath
+  ], jobId);
+}
+
 /**
  * Concatenate multiple sources into a single video
  */
@@ -148,7 +250,8 @@ export async function concatenateSources(
   tempDir: string,
   jobId: string,
   hasMpdSource: boolean,
-  hasImageSource: boolean
+  hasImageSource: boolean,
+  quality: QualityOptions
 ): Promise<string> {
   const concatListPath = path.join(tempDir, 'concat-list.txt');
   const concatenatedPath = path.join(tempDir, 'concatenated.mp4');
@@ -161,13 +264,19 @@ export async function concatenateSources(
   }).join('\n');
   await fsp.writeFile(concatListPath, concatLines, 'utf-8');
   
-  const needsReencode = hasMpdSource || (hasImageSource && sources.length > 1);
+  // Transformed and color corrected sources were re-encoded, so they no longer match the stream-copied ones
+  const needsReencode = hasMpdSource ||
+    (hasImageSource && sources.length > 1) ||
+    sources.some(hasSourceFilters);
   
   console.log(`[${jobId}] Concatenating sources...`);
   
   if (needsReencode) {
-    const concatPreset = hasMpdSource ? 'medium' : serverConfig.transcodePreset;
-    const concatCrf = hasMpdSource ? '18' : serverConfig.transcodeCrf;
+    const profile = getQualityProfile(quality.profile);
+    // MPD content was already transcoded once, so keep this pass at intermediate quality
+    const { preset: concatPreset, crf: concatCrf } = hasMpdSource
+      ? getIntermediateEncoding(quality, false)
+      : profile;
     console.log(`[${jobId}] Mixed source types detected - re-encoding for compatibility (CRF ${concatCrf}, ${concatPreset})...`);
     
     await runFfmpeg([
@@ -184,12 +293,12 @@ export async function concatenateSources(
       '-pix_fmt', 'yuv420p',
       '-vsync', 'cfr',
       '-c:a', 'aac',
-      '-b:a', serverConfig.transcodeAudioBitrate,
+      '-b:a', profile.audioBitrate,
       '-ar', '44100',
       '-ac', '2',
       '-movflags', '+faststart',
       concatenatedPath
-    ]);
+    ], jobId);
   } else {
     await runFfmpeg([
       '-hide_banner',
@@ -199,7 +308,7 @@ export async function concatenateSources(
       '-i', concatListPath,
       '-c', 'copy',
       concatenatedPath
-    ]);
+    ], jobId);
   }
   
   return concatenatedPath;
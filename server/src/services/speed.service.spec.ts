@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildFreezeFrameFilter,
+  buildSegmentEffectFilter,
+  buildSpeedAudioFilter,
+  buildSpeedVideoFilter
+} from './speed.service';
+
+describe('buildSpeedVideoFilter', () => {
+  it('rescales the timestamps by the playback rate', () => {
+    expect(buildSpeedVideoFilter(2)).toBe('setpts=(PTS-STARTPTS)/2.0000');
+  });
+});
+
+describe('buildSpeedAudioFilter', () => {
+  it('uses one atempo stage for rates it supports', () => {
+    expect(buildSpeedAudioFilter(1.5)).toBe('atempo=1.5000');
+  });
+
+  it('chains stages for rates outside one stage', () => {
+    expect(buildSpeedAudioFilter(4)).toBe('atempo=2,atempo=2.0000');
+    expect(buildSpeedAudioFilter(0.25)).toBe('atempo=0.5,atempo=0.5000');
+  });
+});
+
+describe('buildFreezeFrameFilter', () => {
+  it('repeats the first frame for a whole number of frames', () => {
+    expect(buildFreezeFrameFilter(2, '[0:v]', 'vfreeze'))
+      .toBe('[0:v]trim=end_frame=1,loop=loop=49:size=1:start=0,setpts=N/25/TB[vfreeze]');
+    // 0.5 s is 12.5 frames, rounded up
+    expect(buildFreezeFrameFilter(0.5, '[0:v]', 'vfreeze')).toContain('loop=loop=12:');
+  });
+});
+
+describe('buildSegmentEffectFilter', () => {
+  it('reverses video and audio with their own filters', () => {
+    expect(buildSegmentEffectFilter('reverse', 'video', '[v0]', 'vrev')).toBe('[v0]reverse[vrev]');
+    expect(buildSegmentEffectFilter('reverse', 'audio', '[a0]', 'arev')).toBe('[a0]areverse[arev]');
+  });
+
+  it('plays a boomerang forwards and then backwards', () => {
+    expect(buildSegmentEffectFilter('boomerang', 'video', '[v0]', 'vb')).toBe(
+      '[v0]split[vbfwd][vbsrc];[vbsrc]reverse[vbback];[vbfwd][vbback]concat=n=2:v=1:a=0[vb]'
+    );
+    expect(buildSegmentEffectFilter('boomerang', 'audio', '[a0]', 'ab')).toBe(
+      '[a0]asplit[abfwd][absrc];[absrc]areverse[abback];[abfwd][abback]concat=n=2:v=0:a=1[ab]'
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import type { SegmentEffect } from '../types';
+
+/**
+ * Speed service - builds the FFmpeg filters that change the playback rate of a segment, reverse it or freeze its first frame
+ */
+
+/**
+ * Range of a single atempo stage (older FFmpeg builds reject factors outside it)
+ */
+const ATEMPO_RANGE = { min: 0.5, max: 2 };
+
+/**
+ * Frame rate timed segments are re-encoded at, which the frames of a freeze frame are counted in
+ */
+const FREEZE_FRAME_RATE = 25;
+
+/**
+ * Build the video filter that plays a segment at the given rate
+ */
+export function buildSpeedVideoFilter(speed: number): string {
+  return `setpts=(PTS-STARTPTS)/${speed.toFixed(4)}`;
+}
+
+/**
+ * Build the audio filter that plays a segment at the given rate without changing its pitch.
+ * Rates outside one atempo stage are split over a chain of stages.
+ */
+export function buildSpeedAudioFilter(speed: number): string {
+  const stages: string[] = [];
+  let remaining = speed;
+
+  while (remaining > ATEMPO_RANGE.max) {
+    stages.push(`atempo=${ATEMPO_RANGE.max}`);
+    remaining /= ATEMPO_RANGE.max;
+  }
+  while (remaining < ATEMPO_RANGE.min) {
+    stages.push(`atempo=${ATEMPO_RANGE.min}`);
+    remaining /= ATEMPO_RANGE.min;
+  }
+  stages.push(`atempo=${remaining.toFixed(4)}`);
+
+  return stages.join(',');
+}
+
+/**
+ * Build the filter that plays a stream backwards ('reverse') or forwards and then backwards ('boomerang').
+ * The reverse filters buffer the whole segment in memory.
+ */
+export function buildSegmentEffectFilter(
+  effect: SegmentEffect,
+  kind: 'video' | 'audio',
+  inputStream: string,
+  outputLabel: string
+): string {
+  const reverse = kind === 'video' ? 'reverse' : 'areverse';
+  if (effect === 'reverse') {
+    return `${inputStream}${reverse}[${outputLabel}]`;
+  }
+
+  const split = kind === 'video' ? 'split' : 'asplit';
+  const concat = kind === 'video' ? 'concat=n=2:v=1:a=0' : 'concat=n=2:v=0:a=1';
+  return [
+    `${inputStream}${split}[${outputLabel}fwd][${outputLabel}src]`,
+    `[${outputLabel}src]${reverse}[${outputLabel}back]`,
+    `[${outputLabel}fwd][${outputLabel}back]${concat}[${outputLabel}]`
+  ].join(';');
+}
+
+/**
+ * Build the filter that holds the first frame of the input for the given duration.
+ * The frame is repeated with loop and given fresh timestamps, so the length is an exact number of frames.
+ */
+export function buildFreezeFrameFilter(duration: number, inputStream: string, outputLabel: string): string {
+  const frames = Math.max(1, Math.ceil(duration * FREEZE_FRAME_RATE));
+  return `${inputStream}trim=end_frame=1,loop=loop=${frames - 1}:size=1:start=0,setpts=N/${FREEZE_FRAME_RATE}/TB[${outputLabel}]`;
+}
@@ -0,0 +1,157 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fsp } from 'fs';
+import { serverConfig } from '../utils/config.utils';
+import { probeMediaInfo, runFfmpegWithTimeout } from '../utils/ffmpeg.utils';
+import { resolveUploadPath } from '../utils/file.utils';
+import type { ThumbnailStrip } from '../types';
+
+/**
+ * Thumbnail service - grabs frames of a source at a fixed interval and tiles them into sprite sheets
+ * for the editor's filmstrip. Strips are cached under outputDir/thumbnails: those of uploads in a folder named
+ * after the file (so cleaning up an upload can delete its frames), those of other files by URL and interval.
+ */
+
+export const THUMBNAIL_HEIGHT = 90;
+const THUMBNAIL_COLUMNS = 10;
+const THUMBNAIL_ROWS = 10;
+const MAX_THUMBNAILS = 500; // Longer sources get a wider interval
+const THUMBNAIL_TIMEOUT_MS = 300000; // MPD streams are read in full
+
+const uploadsDir = path.join(serverConfig.outputDir, 'uploads');
+const thumbnailsDir = path.join(serverConfig.outputDir, 'thumbnails');
+const uploadThumbnailsDir = path.join(thumbnailsDir, 'uploads');
+
+/**
+ * Where a strip is read from and cached: sheets are `<dir>/<name>-NNN.jpg`, served under `publicPath`
+ */
+interface StripLocation {
+  input: string;
+  dir: string;
+  name: string;
+  publicPath: string;
+}
+
+/**
+ * Strips being created, so concurrent requests for one source share the work
+ */
+const pendingStrips = new Map<string, Promise<ThumbnailStrip>>();
+
+/**
+ * Get the thumbnail strip of a video or image source, creating it on the first request.
+ * Uploads are read from disk, other URLs (MP4 or MPD) by FFmpeg directly.
+ * Returns null when the URL names an upload that does not exist.
+ */
+export async function getThumbnailStrip(url: string, interval: number): Promise<ThumbnailStrip | null> {
+  const location = await resolveStripLocation(url, interval);
+  if (!location) {
+    return null;
+  }
+
+  const cacheFile = path.join(location.dir, `${location.name}.json`);
+  try {
+    return JSON.parse(await fsp.readFile(cacheFile, 'utf8')) as ThumbnailStrip;
+  } catch {
+    // Not cached yet
+  }
+
+  let strip = pendingStrips.get(cacheFile);
+  if (!strip) {
+    strip = createThumbnailStrip(location, interval).finally(() => pendingStrips.delete(cacheFile));
+    pendingStrips.set(cacheFile, strip);
+  }
+  return strip;
+}
+
+/**
+ * Delete the cached strips of an upload (when the upload itself is deleted)
+ */
+export async function deleteUploadThumbnails(filename: string): Promise<void> {
+  // Only plain file names, so this never removes more than one upload's folder
+  if (!filename || filename !== path.basename(filename) || filename.startsWith('.')) {
+    return;
+  }
+  await fsp.rm(path.join(uploadThumbnailsDir, filename), { recursive: true, force: true });
+}
+
+/**
+ * Key uploads by file name (whatever host the URL names) and interval; other URLs by a hash of both
+ */
+async function resolveStripLocation(url: string, interval: number): Promise<StripLocation | null> {
+  const uploadPath = await resolveUploadPath(url, uploadsDir);
+  if (uploadPath === null) {
+    return null;
+  }
+
+  if (uploadPath !== undefined) {
+    const filename = path.basename(uploadPath);
+    return {
+      input: uploadPath,
+      dir: path.join(uploadThumbnailsDir, filename),
+      name: String(interval),
+      publicPath: `/output/thumbnails/uploads/${encodeURIComponent(filename)}`
+    };
+  }
+
+  return {
+    input: url,
+    dir: thumbnailsDir,
+    name: createHash('sha1').update(`${url}#${interval}`).digest('hex'),
+    publicPath: '/output/thumbnails'
+  };
+}
+
+async function createThumbnailStrip(location: StripLocation, requestedInterval: number): Promise<ThumbnailStrip> {
+  const { input, dir, name } = location;
+  const { duration, width, height } = await probeMediaInfo(input);
+  if (!width || !height) {
+    throw new Error('Source has no video stream');
+  }
+
+  const interval = Math.max(requestedInterval, duration / MAX_THUMBNAILS);
+  const count = Math.max(1, Math.ceil(duration / interval));
+  const frameHeight = THUMBNAIL_HEIGHT;
+  const frameWidth = Math.max(2, Math.round((THUMBNAIL_HEIGHT * width) / height / 2) * 2);
+  const scale = `scale=${frameWidth}:${frameHeight}`;
+
+  // The tile filter writes one sheet per columns * rows frames; the last one may be partly empty.
+  // Images and sources shorter than the interval only need their first frame (fps drops a lone frame).
+  const [columns, rows] = count > 1 ? [THUMBNAIL_COLUMNS, THUMBNAIL_ROWS] : [1, 1];
+  const filter = count > 1 ? `fps=1/${interval},${scale},tile=${columns}x${rows}` : scale;
+
+  await fsp.mkdir(dir, { recursive: true });
+  await runFfmpegWithTimeout(
+    [
+      '-y',
+      '-loglevel', 'error',
+      '-i', input,
+      '-an', '-sn',
+      '-vf', filter,
+      '-frames:v', String(Math.ceil(count / (columns * rows))),
+      '-q:v', '5',
+      path.join(dir, `${name}-%03d.jpg`)
+    ],
+    THUMBNAIL_TIMEOUT_MS
+  );
+
+  const sheets = (await fsp.readdir(dir))
+    .filter(file => file.startsWith(`${name}-`) && file.endsWith('.jpg'))
+    .sort()
+    .map(file => `${location.publicPath}/${file}`);
+  if (sheets.length === 0) {
+    throw new Error('FFmpeg produced no thumbnails');
+  }
+
+  const strip: ThumbnailStrip = {
+    duration,
+    interval,
+    count: Math.min(count, sheets.length * columns * rows),
+    columns,
+    rows,
+    frameWidth,
+    frameHeight,
+    sheets
+  };
+  await fsp.writeFile(path.join(dir, `${name}.json`), JSON.stringify(strip), 'utf8');
+  return strip;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildKenBurnsFilter, buildTransformFilter, getTransformedSize } from './transform.service';
+
+describe('buildTransformFilter', () => {
+  it('crops to even sizes, then rotates and flips', () => {
+    expect(buildTransformFilter({ crop: { x: 10, y: 0, width: 50, height: 100 }, rotation: 90, flipH: true }))
+      .toBe('crop=w=trunc(iw*0.5/2)*2:h=trunc(ih*1/2)*2:x=iw*0.1:y=ih*0,transpose=clock,hflip');
+  });
+
+  it('turns half a turn with both flips', () => {
+    expect(buildTransformFilter({ rotation: 180 })).toBe('hflip,vflip');
+  });
+
+  it('returns null when the source is unchanged', () => {
+    expect(buildTransformFilter({ crop: { x: 0, y: 0, width: 100, height: 100 }, rotation: 0 })).toBeNull();
+  });
+});
+
+describe('getTransformedSize', () => {
+  it('swaps the cropped width and height for a quarter turn', () => {
+    expect(getTransformedSize(1920, 1080, { crop: { x: 0, y: 0, width: 50, height: 50 }, rotation: 90 }))
+      .toEqual({ width: 540, height: 960 });
+  });
+
+  it('rounds down to even pixels', () => {
+    expect(getTransformedSize(101, 101, { crop: { x: 0, y: 0, width: 50, height: 50 } })).toEqual({ width: 50, height: 50 });
+  });
+});
+
+describe('buildKenBurnsFilter', () => {
+  it('interpolates the zoom and centre over the frames of the duration', () => {
+    const kenBurns = { startZoom: 1, endZoom: 2, startX: 50, startY: 50, endX: 50, endY: 50 };
+    expect(buildKenBurnsFilter(kenBurns, 1280, 720, 2)).toBe(
+      "zoompan=z='(1+(1)*on/49)':x='(50+(0)*on/49)/100*iw-iw/zoom/2':y='(50+(0)*on/49)/100*ih-ih/zoom/2':d=50:s=1280x720:fps=25"
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import type { KenBurns, SourceTransform } from '../types';
+
+/**
+ * Transform service - builds the FFmpeg filters that crop, rotate and flip a source and pan/zoom over images
+ */
+
+/**
+ * transpose filter for each clockwise rotation (180° is both flips)
+ */
+const ROTATION_FILTERS: Record<NonNullable<SourceTransform['rotation']>, string | null> = {
+  0: null,
+  90: 'transpose=clock',
+  180: 'hflip,vflip',
+  270: 'transpose=cclock'
+};
+
+/**
+ * Whether a source changes geometry (crop, rotation, flips or pan/zoom)
+ */
+export function hasSourceTransform(transform: SourceTransform | undefined): boolean {
+  if (!transform) {
+    return false;
+  }
+  const { crop } = transform;
+  const cropped = crop !== undefined && (crop.x > 0 || crop.y > 0 || crop.width < 100 || crop.height < 100);
+  return cropped || Boolean(transform.rotation) || Boolean(transform.flipH) || Boolean(transform.flipV) ||
+    transform.kenBurns !== undefined;
+}
+
+/**
+ * Build the crop, rotation and flip filters of a source (the pan/zoom is built separately).
+ * Crop sizes are rounded down to even pixels for yuv420p. Returns null when nothing changes.
+ */
+export function buildTransformFilter(transform: SourceTransform): string | null {
+  const filters: string[] = [];
+
+  const { crop } = transform;
+  if (crop && (crop.x > 0 || crop.y > 0 || crop.width < 100 || crop.height < 100)) {
+    filters.push(
+      `crop=w=trunc(iw*${crop.width / 100}/2)*2:h=trunc(ih*${crop.height / 100}/2)*2:x=iw*${crop.x / 100}:y=ih*${crop.y / 100}`
+    );
+  }
+
+  const rotation = ROTATION_FILTERS[transform.rotation ?? 0];
+  if (rotation) {
+    filters.push(rotation);
+  }
+  if (transform.flipH) {
+    filters.push('hflip');
+  }
+  if (transform.flipV) {
+    filters.push('vflip');
+  }
+
+  return filters.length > 0 ? filters.join(',') : null;
+}
+
+/**
+ * Size of a frame after the crop and rotation of its transform (even pixels)
+ */
+export function getTransformedSize(
+  width: number,
+  height: number,
+  transform: SourceTransform
+): { width: number; height: number } {
+  const even = (value: number): number => Math.max(2, Math.floor(value / 2) * 2);
+  const cropped = {
+    width: even(width * (transform.crop?.width ?? 100) / 100),
+    height: even(height * (transform.crop?.height ?? 100) / 100)
+  };
+  return transform.rotation === 90 || transform.rotation === 270
+    ? { width: cropped.height, height: cropped.width }
+    : cropped;
+}
+
+/**
+ * Build the zoompan filter that turns a single image frame into a pan/zoom of the given length at 25 fps.
+ * The view is centred on the interpolated x/y; zoompan keeps it inside the frame.
+ */
+export function buildKenBurnsFilter(kenBurns: KenBurns, width: number, height: number, duration: number): string {
+  const frames = Math.max(1, Math.round(duration * 25));
+  const progress = `on/${Math.max(1, frames - 1)}`;
+  const lerp = (start: number, end: number): string => `(${start}+(${end - start})*${progress})`;
+
+  const zoom = lerp(kenBurns.startZoom, kenBurns.endZoom);
+  const x = `${lerp(kenBurns.startX, kenBurns.endX)}/100*iw-iw/zoom/2`;
+  const y = `${lerp(kenBurns.startY, kenBurns.endY)}/100*ih-ih/zoom/2`;
+  return `zoompan=z='${zoom}':x='${x}':y='${y}':d=${frames}:s=${width}x${height}:fps=25`;
+}
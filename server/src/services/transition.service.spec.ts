@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { buildTransitionFilters } from './transition.service';
+
+describe('buildTransitionFilters', () => {
+  it('passes the streams through without transitions', () => {
+    expect(buildTransitionFilters([], 10, '[0:v]', '[0:a]')).toEqual({
+      filterComplex: '',
+      videoStream: '[0:v]',
+      audioStream: '[0:a]'
+    });
+  });
+
+  it('overlaps the clip ends at the joint instead of holding frames', () => {
+    const { filterComplex, videoStream } = buildTransitionFilters([{ time: 4, type: 'fade', duration: 1 }], 10, '[0:v]', null);
+
+    expect(videoStream).toBe('[vtrans]');
+    // Before the crossfade, the outgoing end, the incoming start and the rest of the incoming clip
+    expect(filterComplex).toContain('trim=start=0:end=3,');
+    expect(filterComplex).toContain('trim=start=3:end=4,');
+    expect(filterComplex).toContain('trim=start=4:end=5,');
+    expect(filterComplex).toContain('trim=start=5,');
+    expect(filterComplex).not.toContain('tpad');
+    expect(filterComplex).toContain('concat=n=3:v=1:a=0[vtrans]');
+  });
+
+  it('joins the audio between the joints with acrossfade', () => {
+    const { filterComplex, videoStream, audioStream } = buildTransitionFilters(
+      [{ time: 4, type: 'dissolve', duration: 1 }, { time: 7, type: 'wipe', duration: 0.5 }],
+      10,
+      null,
+      '[0:a]'
+    );
+
+    expect(videoStream).toBeNull();
+    expect(audioStream).toBe('[ax1]');
+    expect(filterComplex).toContain('[0:a]asplit=3');
+    expect(filterComplex).toContain('atrim=start=4:end=7,');
+    expect(filterComplex).toContain('[ac0][ac1]acrossfade=d=1[ax0]');
+    expect(filterComplex).toContain('[ax0][ac2]acrossfade=d=0.5[ax1]');
+  });
+
+  it('fades through black over the two halves of the overlap', () => {
+    const { filterComplex } = buildTransitionFilters([{ time: 4, type: 'fadeblack', duration: 2 }], 10, '[0:v]', null);
+
+    expect(filterComplex).toContain('fade=t=out:st=0:d=1');
+    expect(filterComplex).toContain('fade=t=in:st=1:d=1');
+  });
+});
@@ -0,0 +1,132 @@
+import type { Transition } from '../types';
+import { resolveTransitionOverlaps } from '../utils/video.utils';
+
+/**
+ * Transition rendering service - builds FFmpeg filter chains for transitions at joints.
+ * Like xfade/acrossfade, a transition overlaps the end of the outgoing clip with the start of the incoming one,
+ * so the output is shorter by the length of each transition. The bundled FFmpeg predates xfade, so the video
+ * effects are built from blend and overlay.
+ */
+
+/**
+ * Dissolve pattern: pixels switch from the outgoing to the incoming clip in a pseudo-random order.
+ * Blocks are 8px on the luma plane and 4px on the (4:2:0) chroma planes so both planes agree.
+ */
+function dissolveExpression(blockSize: number, duration: number): string {
+  const block = `mod(floor(X/${blockSize})*7919+floor(Y/${blockSize})*104729,1000)/1000`;
+  return `if(gte(${block},T/${duration}),A,B)`;
+}
+
+/**
+ * Filter chain combining the outgoing [a] and incoming [b] clips (both `duration` long) into [out]
+ */
+function buildTransitionEffect(transition: Transition, a: string, b: string, out: string, duration: number): string {
+  switch (transition.type) {
+    case 'dissolve':
+      return `[${a}][${b}]blend=c0_expr='${dissolveExpression(8, duration)}':c1_expr='${dissolveExpression(4, duration)}':c2_expr='${dissolveExpression(4, duration)}'[${out}]`;
+    case 'wipe':
+      return `[${a}][${b}]blend=all_expr='if(lt(X,W*T/${duration}),B,A)'[${out}]`;
+    case 'slide':
+      return `[${a}][${b}]overlay=x='W*(1-t/${duration})':y=0[${out}]`;
+    default:
+      return `[${b}]format=yuva420p,fade=t=in:st=0:d=${duration}:alpha=1[${b}f];[${a}][${b}f]overlay=format=yuv420[${out}]`;
+  }
+}
+
+/**
+ * Build FFmpeg filters that apply transitions to a continuous video and/or audio stream of `totalDuration`.
+ * The video is split at the transitions and the overlapping clip ends of each are combined before the pieces
+ * are concatenated again; the audio clips between the joints are joined with acrossfade.
+ * Pass null for a stream that is not rendered.
+ */
+export function buildTransitionFilters(
+  transitions: Transition[],
+  totalDuration: number,
+  videoStream: string | null,
+  audioStream: string | null
+): { filterComplex: string; videoStream: string | null; audioStream: string | null } {
+  const overlaps = resolveTransitionOverlaps(transitions, totalDuration);
+  if (overlaps.length === 0) {
+    return { filterComplex: '', videoStream, audioStream };
+  }
+
+  const filterParts: string[] = [];
+  let outputVideo = videoStream;
+  let outputAudio = audioStream;
+
+  if (videoStream) {
+    const pieces: string[] = [];
+    const trims: string[] = [];
+    const trim = (start: number, end: number | null): string => {
+      const label = `tr${trims.length}`;
+      const range = end === null ? `start=${start}` : `start=${start}:end=${end}`;
+      trims.push(`[${label}in]trim=${range},setpts=PTS-STARTPTS[${label}]`);
+      return label;
+    };
+
+    let cursor = 0;
+    overlaps.forEach((transition, index) => {
+      const { time, duration } = transition;
+      const start = time - duration;
+
+      if (start - cursor > 0.001) {
+        pieces.push(trim(cursor, start));
+      }
+
+      // The outgoing clip's last frames play under the incoming clip's first
+      const outgoing = trim(start, time);
+      const incoming = trim(time, time + duration);
+      const out = `tx${index}`;
+
+      if (transition.type === 'fadeblack') {
+        // The outgoing clip fades to black over the first half, the incoming one in from black over the second
+        const half = duration / 2;
+        filterParts.push(
+          `[${outgoing}]fade=t=out:st=0:d=${half}[${outgoing}f];` +
+          `[${incoming}]fade=t=in:st=${half}:d=${half}[${incoming}f];` +
+          `[${outgoing}f][${incoming}f]blend=all_expr='if(lt(T,${half}),A,B)'[${out}]`
+        );
+      } else {
+        filterParts.push(buildTransitionEffect(transition, outgoing, incoming, out, duration));
+      }
+
+      pieces.push(out);
+      cursor = time + duration;
+    });
+
+    if (totalDuration - cursor > 0.001) {
+      pieces.push(trim(cursor, null));
+    }
+
+    const splitOutputs = trims.map((_, index) => `[tr${index}in]`).join('');
+    filterParts.unshift(
+      `${videoStream}format=yuv420p,split=${trims.length}${splitOutputs}`,
+      ...trims
+    );
+    filterParts.push(`${pieces.map(piece => `[${piece}]`).join('')}concat=n=${pieces.length}:v=1:a=0[vtrans]`);
+    outputVideo = '[vtrans]';
+  }
+
+  if (audioStream) {
+    // One clip between each pair of joints; each crossfade overlaps the ends of two neighbours
+    const joints = [0, ...overlaps.map(transition => transition.time), totalDuration];
+    const clips = joints.slice(1).map((end, index) => {
+      const start = joints[index] as number;
+      const range = index === overlaps.length ? `start=${start}` : `start=${start}:end=${end}`;
+      return `[ac${index}in]atrim=${range},asetpts=PTS-STARTPTS[ac${index}]`;
+    });
+    const splitOutputs = clips.map((_, index) => `[ac${index}in]`).join('');
+    filterParts.push(`${audioStream}asplit=${clips.length}${splitOutputs}`, ...clips);
+
+    let joined = 'ac0';
+    overlaps.forEach((transition, index) => {
+      const out = `ax${index}`;
+      filterParts.push(`[${joined}][ac${index + 1}]acrossfade=d=${transition.duration}[${out}]`);
+      joined = out;
+    });
+    outputAudio = `[${joined}]`;
+  }
+
+  console.log(`[buildTransitionFilters] ${overlaps.length} transition(s): ${overlaps.map(t => `${t.type}@${t.time.toFixed(2)}s (${t.duration.toFixed(2)}s)`).join(', ')}`);
+  return { filterComplex: filterParts.join(';'), videoStream: outputVideo, audioStream: outputAudio };
+}
@@ -1,28 +1,101 @@
+import os from 'os';
 import path from 'path';
 import { promises as fsp } from 'fs';
 import { v4 as uuid } from 'uuid';
 import { serverConfig } from '../utils/config.utils';
-import { createTempDir, removeDir, downloadFile, getImageExtension } from '../utils/file.utils';
-import { runFfmpegWithProgress, convertWebpToPng } from '../utils/ffmpeg.utils';
-import { calculateKeepSegments, isMpdUrl } from '../utils/video.utils';
-import { processSingleSource, concatenateSources, checkQualityWarnings } from './source-handler.service';
-import { buildOverlayFilters } from './overlay.service';
-import type { RenderRequest, RenderResponse, VideoSource, TimeRange } from '../types';
+import { createTempDir, removeDir, downloadFile, getFontExtension, getImageExtension } from '../utils/file.utils';
+import { runFfmpegWithProgress, convertWebpToPng, probeMediaInfo } from '../utils/ffmpeg.utils';
+import {
+  calculateKeepSegments,
+  applySegmentTiming,
+  getSegmentOutputDuration,
+  resolveTransitionOverlaps,
+  removeTransitionOverlaps,
+  isTimedSegment,
+  isMpdUrl
+} from '../utils/video.utils';
+import { isRasterizedShape, rasterizeShapeInWorker } from '../utils/shape.utils';
+import { clampCues, formatSrt, formatVtt } from '../utils/caption.utils';
+import { getOutputFormatProfile, buildGifPaletteFilter, type EncodingSettings } from '../utils/output-format.utils';
+import {
+  resolveQualityOptions,
+  getQualityProfile,
+  getIntermediateEncoding,
+  getTargetVideoBitrateKbps,
+  parseBitrateKbps
+} from '../utils/quality.utils';
+import { processSingleSource, concatenateSources, checkQualityWarnings, hasSourceFilters } from './source-handler.service';
+import { buildOverlayFilters, getMaxScale } from './overlay.service';
+import { buildCanvasFilter, getCanvasContentScale, getCanvasSize } from './canvas.service';
+import { buildTransitionFilters } from './transition.service';
+import { buildCaptionFilter } from './caption.service';
+import {
+  buildSpeedVideoFilter,
+  buildSpeedAudioFilter,
+  buildSegmentEffectFilter,
+  buildFreezeFrameFilter
+} from './speed.service';
+import type {
+  RenderRequest,
+  RenderResponse,
+  VideoSource,
+  SegmentTiming,
+  RenderPhase,
+  RenderProgressUpdate,
+  OutputFormat,
+  OutputCanvas,
+  QualityOptions,
+  EffectiveEncoding,
+  Transition,
+  RenderCaptions,
+  RenderArtifact,
+  CaptionCue
+} from '../types';
 
 /**
  * Main video processing orchestrator
  */
 
+/**
+ * Share of the overall progress taken by each render phase (sums to 100)
+ */
+const RENDER_PHASE_WEIGHTS: Record<RenderPhase, number> = {
+  'source-processing': 15,
+  'segment-extraction': 15,
+  'overlay-preparation': 5,
+  'audio-preparation': 10,
+  'final-encode': 55
+};
+
+const RENDER_PHASE_ORDER: RenderPhase[] = [
+  'source-processing',
+  'segment-extraction',
+  'overlay-preparation',
+  'audio-preparation',
+  'final-encode'
+];
+
 /**
  * Render a video with sources, trims, cuts, and overlays
  */
 export async function renderVideo(
   request: RenderRequest,
-  onProgress?: (progress: number, jobId: string) => void
+  onProgress?: (update: RenderProgressUpdate, jobId: string) => void,
+  jobId: string = uuid()
 ): Promise<RenderResponse> {
-  const jobId = uuid();
   const tempDir = await createTempDir(`video-job-${jobId}-`);
 
+  // Report phase progress (0-100) together with the weighted overall progress
+  const reportPhase = (phase: RenderPhase) => (phaseProgress: number): void => {
+    if (!onProgress) return;
+    const clamped = Math.max(0, Math.min(100, Math.round(phaseProgress)));
+    const completedWeight = RENDER_PHASE_ORDER
+      .slice(0, RENDER_PHASE_ORDER.indexOf(phase))
+      .reduce((sum, previous) => sum + RENDER_PHASE_WEIGHTS[previous], 0);
+    const progress = Math.round(completedWeight + (RENDER_PHASE_WEIGHTS[phase] * clamped) / 100);
+    onProgress({ phase, phaseProgress: clamped, progress }, jobId);
+  };
+
   try {
     // Prepare sources
     const sources = request.sources || (request.sourceUrl ? [{ url: request.sourceUrl, type: 'video' as const }] : []);
@@ -35,8 +108,11 @@ export async function renderVideo(
       throw new Error('trimStart must be before trimEnd');
     }
 
-    // Calculate segments to keep
-    const keepSegments = calculateKeepSegments(request.trimStart, request.trimEnd, request.cuts);
+    // Calculate segments to keep, split where their playback rate changes
+    const keepSegments = applySegmentTiming(
+      calculateKeepSegments(request.trimStart, request.trimEnd, request.cuts),
+      request.segmentTiming || []
+    );
 
     if (keepSegments.length === 0) {
       throw new Error('No video content would remain after trimming/cuts');
@@ -44,37 +120,47 @@ export async function renderVideo(
 
     // Check for quality warnings
     const qualityWarning = checkQualityWarnings(sources);
+    const quality = resolveQualityOptions(request.quality, sources.some(s => isMpdUrl(s.url)));
 
-    // Calculate total duration for progress
-    const totalDuration = keepSegments.reduce((sum, seg) => sum + (seg.end - seg.start), 0);
+    // Calculate the output duration (speed changes and freeze frames included) for progress.
+    // Transitions overlap the joined segments at their joints, which shortens the output by their length.
+    const joinedDuration = keepSegments.reduce((sum, seg) => sum + getSegmentOutputDuration(seg), 0);
+    const transitions = resolveTransitionOverlaps(request.transitions || [], joinedDuration);
+    const totalDuration = removeTransitionOverlaps(joinedDuration, transitions);
 
     console.log(`[${jobId}] Starting render with ${sources.length} source(s): ${keepSegments.length} segment(s), total duration: ${totalDuration.toFixed(2)}s`);
 
-    if (onProgress) onProgress(1, jobId);
+    // Caption cues are on the output timeline; the keep segments set how long it is
+    const captions: RenderCaptions | undefined = request.captions && {
+      ...request.captions,
+      cues: clampCues(request.captions.cues, totalDuration)
+    };
 
     // Process sources
     const { sourceUrl, needsTranscodeFromSource } = await processSources(
       sources,
       tempDir,
       jobId,
-      onProgress
+      quality,
+      reportPhase('source-processing')
     );
 
     // Extract segments
     const segmentPaths = await extractSegments(
       sourceUrl,
       keepSegments,
+      quality,
       tempDir,
       jobId,
-      totalDuration,
-      onProgress
+      reportPhase('segment-extraction')
     );
 
     // Prepare overlays
-    const { imageOverlayPaths, hasOverlays } = await prepareOverlays(
+    const { imageOverlayPaths, fontPaths, hasOverlays } = await prepareOverlays(
       request.overlays,
       tempDir,
-      jobId
+      jobId,
+      reportPhase('overlay-preparation')
     );
 
     // Prepare audio sources
@@ -83,29 +169,39 @@ export async function renderVideo(
       tempDir,
       jobId,
       totalDuration,
-      onProgress
+      reportPhase('audio-preparation')
     );
 
     // Final render
-    const outputFile = await finalRender(
+    const { outputFile, encoding } = await finalRender(
       segmentPaths,
       imageOverlayPaths,
+      fontPaths,
       request.overlays,
+      transitions,
       keepSegments,
       totalDuration,
       hasOverlays,
       needsTranscodeFromSource,
-      sources,
+      quality,
       tempDir,
       jobId,
       request.format,
       audioPaths,
       hasAudio,
       request.audioMixMode || 'mix',
-      onProgress
+      request.canvas,
+      captions,
+      reportPhase('final-encode')
     );
 
-    if (onProgress) onProgress(100, jobId);
+    const artifacts = captions && captions.cues.length > 0
+      ? await writeCaptionSidecars(captions.cues, jobId)
+      : undefined;
+
+    reportPhase('final-encode')(100);
+
+    const sizeWarning = await checkFileSizeBudget(outputFile, quality, jobId);
 
     console.log(`[${jobId}] Progress: 100% - Done`);
     console.log(`[${jobId}] Sending response...`);
@@ -114,9 +210,12 @@ export async function renderVideo(
     return {
       jobId,
       outputFile: publicPath,
+      format: request.format,
+      encoding,
       segments: keepSegments,
+      artifacts,
       transcoded: needsTranscodeFromSource,
-      warning: qualityWarning
+      warning: [qualityWarning, sizeWarning].filter(Boolean).join(' ') || undefined
     };
 
   } finally {
@@ -136,21 +235,27 @@ async function processSources(
   sources: VideoSource[],
   tempDir: string,
   jobId: string,
-  _onProgress?: (progress: number, jobId: string) => void
+  quality: QualityOptions,
+  onProgress?: (progress: number) => void
 ): Promise<{ sourceUrl: string; needsTranscodeFromSource: boolean }> {
   const hasMpdSource = sources.some(s => isMpdUrl(s.url));
 
+  onProgress?.(0);
+
   if (sources.length === 1) {
     // Single source
     const source = sources[0]!;
 
     if (source.type === 'image') {
-      const { sourcePath } = await processSingleSource(source, 0, 1, tempDir, jobId, false);
+      const { sourcePath } = await processSingleSource(source, 0, 1, tempDir, jobId, false, quality);
+      onProgress?.(100);
       return { sourceUrl: sourcePath, needsTranscodeFromSource: true };
-    } else if (isMpdUrl(source.url)) {
-      const { sourcePath } = await processSingleSource(source, 0, 1, tempDir, jobId, false);
+    } else if (isMpdUrl(source.url) || hasSourceFilters(source)) {
+      const { sourcePath } = await processSingleSource(source, 0, 1, tempDir, jobId, false, quality);
+      onProgress?.(100);
       return { sourceUrl: sourcePath, needsTranscodeFromSource: true };
     } else {
+      onProgress?.(100);
       return { sourceUrl: source.url, needsTranscodeFromSource: false };
     }
   } else {
@@ -165,9 +270,12 @@ async function processSources(
         sources.length,
         tempDir,
         jobId,
-        true
+        true,
+        quality
       );
       sourcePaths.push(sourcePath);
+      // Leave the last 10% for the concatenation step
+      onProgress?.(((index + 1) / sources.length) * 90);
     }
 
     const hasImageSource = sources.some(s => s.type === 'image');
@@ -177,32 +285,46 @@ async function processSources(
       tempDir,
       jobId,
       hasMpdSource,
-      hasImageSource
+      hasImageSource,
+      quality
     );
+    onProgress?.(100);
 
     return { sourceUrl: concatenatedPath, needsTranscodeFromSource: true };
   }
 }
 
 /**
- * Extract segments from source video
+ * Extract segments from source video.
+ * Segments are stream copied unless one of them changes speed, is reversed or is a freeze frame; then every
+ * segment is re-encoded with the same settings so the concat demuxer can join them.
  */
 async function extractSegments(
   sourceUrl: string,
-  keepSegments: TimeRange[],
+  keepSegments: SegmentTiming[],
+  quality: QualityOptions,
   tempDir: string,
   jobId: string,
-  totalDuration: number,
-  onProgress?: (progress: number, jobId: string) => void
+  onProgress?: (progress: number) => void
 ): Promise<string[]> {
   const segmentPaths: string[] = [];
+  const totalDuration = keepSegments.reduce((sum, seg) => sum + getSegmentOutputDuration(seg), 0);
+  const reencode = keepSegments.some(isTimedSegment);
+  const sourceHasAudio = reencode && (await probeMediaInfo(sourceUrl, jobId)).hasAudio === true;
+  let extractedDuration = 0;
+
+  if (reencode) {
+    console.log(`[${jobId}] Segments change speed, reverse or freeze, re-encoding ${keepSegments.length} segment(s)...`);
+  }
+
+  onProgress?.(0);
 
   for (const [index, segment] of keepSegments.entries()) {
     const segmentPath = path.join(tempDir, `segment-${index}.mp4`);
-    const duration = segment.end - segment.start;
-
-    await runFfmpegWithProgress(
-      [
+    const duration = getSegmentOutputDuration(segment);
+    const args = reencode
+      ? buildTimedSegmentArgs(sourceUrl, segment, sourceHasAudio, quality, segmentPath)
+      : [
         '-hide_banner',
         '-y',
         '-ss',
@@ -218,40 +340,138 @@ async function extractSegments(
         '-c',
         'copy',
         segmentPath
-      ],
+      ];
+
+    await runFfmpegWithProgress(
+      args,
       jobId,
       (progress: number) => {
-        const percentage = Math.max(1, Math.min(progress, 100));
-        if (onProgress) onProgress(percentage, jobId);
+        onProgress?.(((extractedDuration + (duration * progress) / 100) / totalDuration) * 100);
       },
-      totalDuration
+      duration
     );
 
     segmentPaths.push(segmentPath);
+    extractedDuration += duration;
+    onProgress?.((extractedDuration / totalDuration) * 100);
   }
 
   return segmentPaths;
 }
 
 /**
- * Download and prepare image overlays
+ * FFmpeg arguments that re-encode one segment at its playback rate (reversed or as a boomerang),
+ * or hold its first frame (with silence when the source has audio)
+ */
+function buildTimedSegmentArgs(
+  sourceUrl: string,
+  segment: SegmentTiming,
+  sourceHasAudio: boolean,
+  quality: QualityOptions,
+  segmentPath: string
+): string[] {
+  const { preset, crf } = getIntermediateEncoding(quality, true);
+  const { audioBitrate } = getQualityProfile(quality.profile);
+  const args = ['-hide_banner', '-y', '-ss', segment.start.toFixed(3)];
+
+  if (segment.freezeDuration !== undefined) {
+    args.push('-i', sourceUrl);
+    if (sourceHasAudio) {
+      args.push('-f', 'lavfi', '-i', 'anullsrc=channel_layout=stereo:sample_rate=44100');
+    }
+    args.push(
+      '-filter_complex', buildFreezeFrameFilter(segment.freezeDuration, '[0:v]', 'vfreeze'),
+      '-map', '[vfreeze]',
+      ...(sourceHasAudio ? ['-map', '1:a'] : []),
+      '-t', segment.freezeDuration.toFixed(3)
+    );
+  } else {
+    // The input is limited to the source range; audio is padded so both streams end at the output length
+    const filterParts = [`[0:v]${buildSpeedVideoFilter(segment.speed)}[vspeed]`];
+    let videoStream = '[vspeed]';
+    if (segment.effect) {
+      filterParts.push(buildSegmentEffectFilter(segment.effect, 'video', videoStream, 'veffect'));
+      videoStream = '[veffect]';
+    }
+    if (sourceHasAudio) {
+      filterParts.push(`[0:a]${buildSpeedAudioFilter(segment.speed)}[aspeed]`);
+      let audioStream = '[aspeed]';
+      if (segment.effect) {
+        filterParts.push(buildSegmentEffectFilter(segment.effect, 'audio', audioStream, 'aeffect'));
+        audioStream = '[aeffect]';
+      }
+      filterParts.push(`${audioStream}apad[apadded]`);
+    }
+
+    args.push(
+      '-t', (segment.end - segment.start).toFixed(3),
+      '-i', sourceUrl,
+      '-filter_complex', filterParts.join(';'),
+      '-map', videoStream,
+      ...(sourceHasAudio ? ['-map', '[apadded]'] : []),
+      '-t', getSegmentOutputDuration(segment).toFixed(3)
+    );
+  }
+
+  return [
+    ...args,
+    '-c:v', 'libx264',
+    '-preset', preset,
+    '-crf', crf,
+    '-r', '25',
+    '-pix_fmt', 'yuv420p',
+    '-vsync', 'cfr',
+    ...(sourceHasAudio ? ['-c:a', 'aac', '-b:a', audioBitrate, '-ar', '44100', '-ac', '2'] : []),
+    segmentPath
+  ];
+}
+
+/**
+ * Download and prepare image overlays, rasterize shapes drawbox can't draw, and download the font files of text overlays.
+ * Layer paths are in overlay start order, the order buildOverlayFilters uses them in.
  */
 async function prepareOverlays(
   overlays: RenderRequest['overlays'],
   tempDir: string,
-  jobId: string
-): Promise<{ imageOverlayPaths: string[]; hasOverlays: boolean }> {
+  jobId: string,
+  onProgress?: (progress: number) => void
+): Promise<{ imageOverlayPaths: string[]; fontPaths: Map<string, string>; hasOverlays: boolean }> {
   const hasOverlays = overlays && overlays.length > 0;
   const imageOverlayPaths: string[] = [];
+  const fontPaths = new Map<string, string>(); // Font URL -> downloaded file
 
   if (!hasOverlays) {
-    return { imageOverlayPaths, hasOverlays: false };
+    onProgress?.(100);
+    return { imageOverlayPaths, fontPaths, hasOverlays: false };
   }
 
-  console.log(`[${jobId}] Downloading ${overlays.filter(o => o.type === 'image').length} image overlay(s)...`);
-
   for (const overlay of overlays) {
-    if (overlay.type === 'image') {
+    if (overlay.type === 'text' && overlay.fontUrl && !fontPaths.has(overlay.fontUrl)) {
+      const fontPath = path.join(tempDir, `font-${fontPaths.size}.${getFontExtension(overlay.fontUrl)}`);
+      try {
+        await downloadFile(overlay.fontUrl, fontPath);
+        fontPaths.set(overlay.fontUrl, fontPath);
+      } catch (error) {
+        console.error(`[${jobId}] Failed to download font ${overlay.fontUrl}:`, error);
+        throw new Error(`Failed to download font: ${overlay.fontUrl}`);
+      }
+    }
+  }
+
+  const imageOverlayCount = overlays.filter(o => o.type === 'image' || isRasterizedShape(o)).length;
+  console.log(`[${jobId}] Preparing ${imageOverlayCount} image overlay(s)...`);
+  onProgress?.(0);
+
+  const sortedOverlays = [...overlays].sort((a, b) => a.start - b.start);
+  for (const overlay of sortedOverlays) {
+    if (isRasterizedShape(overlay)) {
+      // At the largest keyframed scale so the shape stays sharp when it grows
+      const shapePath = path.join(tempDir, `shape-${overlay.id}.png`);
+      await fsp.writeFile(shapePath, await rasterizeShapeInWorker(overlay, getMaxScale(overlay)));
+      imageOverlayPaths.push(shapePath);
+      console.log(`[${jobId}] Rasterized ${overlay.shapeType} overlay: ${shapePath}`);
+      onProgress?.((imageOverlayPaths.length / imageOverlayCount) * 100);
+    } else if (overlay.type === 'image') {
       const originalExt = getImageExtension(overlay.imageUrl);
       const imagePath = path.join(tempDir, `overlay-${overlay.id}.${originalExt}`);
 
@@ -269,6 +489,7 @@ async function prepareOverlays(
 
         imageOverlayPaths.push(finalImagePath);
         console.log(`[${jobId}] Using image overlay: ${finalImagePath}`);
+        onProgress?.((imageOverlayPaths.length / imageOverlayCount) * 100);
       } catch (error) {
         console.error(`[${jobId}] Failed to download/convert image overlay ${overlay.imageUrl}:`, error);
         throw new Error(`Failed to download image overlay: ${overlay.imageUrl}`);
@@ -276,7 +497,8 @@ async function prepareOverlays(
     }
   }
 
-  return { imageOverlayPaths, hasOverlays: true };
+  onProgress?.(100);
+  return { imageOverlayPaths, fontPaths, hasOverlays: true };
 }
 
 /**
@@ -287,9 +509,10 @@ async function prepareAudioSources(
   tempDir: string,
   jobId: string,
   totalDuration: number,
-  _onProgress?: (progress: number, jobId: string) => void
+  onProgress?: (progress: number) => void
 ): Promise<{ audioPaths: { path: string; startTime: number; volume: number }[]; hasAudio: boolean }> {
   if (!audioSources || audioSources.length === 0) {
+    onProgress?.(100);
     return { audioPaths: [], hasAudio: false };
   }
 
@@ -303,10 +526,17 @@ async function prepareAudioSources(
   });
 
   if (activeAudio.length === 0) {
+    onProgress?.(100);
     return { audioPaths: [], hasAudio: false };
   }
 
   console.log(`[${jobId}] Processing ${activeAudio.length} audio source(s)...`);
+  onProgress?.(0);
+
+  // Report progress of the track at the given index (trackProgress 0-100)
+  const reportTrack = (index: number, trackProgress: number): void => {
+    onProgress?.(((index + trackProgress / 100) / activeAudio.length) * 100);
+  };
 
   const audioPaths: { path: string; startTime: number; volume: number }[] = [];
 
@@ -389,7 +619,7 @@ async function prepareAudioSources(
         await runFfmpegWithProgress(
           ffmpegArgs,
           jobId,
-          () => { },
+          progress => reportTrack(index, progress),
           extractDuration
         );
         finalAudioPath = processedPath;
@@ -409,35 +639,61 @@ async function prepareAudioSources(
       });
 
       console.log(`[${jobId}] Processed audio ${index + 1}/${activeAudio.length}: start=${audio.startTime}s, duration=${audio.duration}s, volume=${audio.volume}`);
+      reportTrack(index, 100);
     } catch (error) {
       console.error(`[${jobId}] Failed to process audio ${audio.url}:`, error);
       throw new Error(`Failed to process audio: ${audio.url}`);
     }
   }
 
+  onProgress?.(100);
   return { audioPaths, hasAudio: audioPaths.length > 0 };
 }
 
+/**
+ * Write the captions as SRT and WebVTT files next to the output
+ */
+async function writeCaptionSidecars(cues: CaptionCue[], jobId: string): Promise<RenderArtifact[]> {
+  const sidecars: { format: RenderArtifact['format']; content: string }[] = [
+    { format: 'srt', content: formatSrt(cues) },
+    { format: 'vtt', content: formatVtt(cues) }
+  ];
+
+  const artifacts: RenderArtifact[] = [];
+  for (const { format, content } of sidecars) {
+    const fileName = `${jobId}.${format}`;
+    await fsp.writeFile(path.join(serverConfig.outputDir, fileName), content, 'utf8');
+    artifacts.push({ kind: 'captions', format, file: `/output/${fileName}` });
+  }
+
+  console.log(`[${jobId}] Wrote ${cues.length} caption(s) as SRT and WebVTT sidecars`);
+  return artifacts;
+}
+
 /**
  * Final render with concatenation, overlays, and audio
  */
 async function finalRender(
   segmentPaths: string[],
   imageOverlayPaths: string[],
+  fontPaths: Map<string, string>,
   overlays: RenderRequest['overlays'],
-  keepSegments: TimeRange[],
+  transitions: Transition[],
+  keepSegments: SegmentTiming[],
   totalDuration: number,
   hasOverlays: boolean,
   needsTranscodeFromSource: boolean,
-  sources: VideoSource[],
+  quality: QualityOptions,
   tempDir: string,
   jobId: string,
-  format: string,
+  format: OutputFormat,
   audioPaths: { path: string; startTime: number; volume: number }[],
   hasAudio: boolean,
   audioMixMode: 'mix' | 'replace',
-  onProgress?: (progress: number, jobId: string) => void
-): Promise<string> {
+  canvas: OutputCanvas | undefined,
+  captions: RenderCaptions | undefined,
+  onProgress?: (progress: number) => void
+): Promise<{ outputFile: string; encoding: EffectiveEncoding }> {
   // Create concat list
   const concatFile = path.join(tempDir, 'concat.txt');
   await fsp.writeFile(
@@ -449,11 +705,44 @@ async function finalRender(
     'utf8'
   );
 
-  const outputFile = path.join(serverConfig.outputDir, `${jobId}.${format}`);
+  const profile = getOutputFormatProfile(format);
+  const outputFile = path.join(serverConfig.outputDir, `${jobId}.${profile.extension}`);
+
+  // Overlays and the output canvas only apply to formats that carry video
+  const applyOverlays = hasOverlays && profile.hasVideo;
+  const applyCanvas = canvas !== undefined && profile.hasVideo;
+  const applyTransitions = transitions.length > 0;
+
+  // Captions are burned into the video or muxed as a subtitle stream, both from an SRT file.
+  // Cues are already clamped to the output, so a subtitle stream never outlasts the video.
+  const captionCues = captions?.cues ?? [];
+  const applyBurnIn = captions?.mode === 'burn-in' && captionCues.length > 0 && profile.hasVideo;
+  const applySoftSubs = captions?.mode === 'soft' && captionCues.length > 0 && profile.subtitleCodec !== undefined;
+  const captionFile = path.join(tempDir, 'captions.srt');
+  if (applyBurnIn || applySoftSubs) {
+    await fsp.writeFile(captionFile, formatSrt(captionCues), 'utf8');
+  }
+
+  // Encoder settings of the quality profile; the 'target' profile encodes to a bitrate instead of a CRF
+  const qualityProfile = getQualityProfile(quality.profile);
+  const encodingSettings: EncodingSettings = {
+    preset: qualityProfile.preset,
+    crf: qualityProfile.crf,
+    audioBitrate: qualityProfile.audioBitrate
+  };
+  if (quality.profile === 'target' && profile.supportsTargetBitrate) {
+    const audioKbps = profile.hasAudio ? parseBitrateKbps(encodingSettings.audioBitrate) : 0;
+    encodingSettings.videoBitrateKbps = getTargetVideoBitrateKbps(quality, totalDuration, audioKbps);
+  }
 
   // Determine if transcoding is needed
   const needsTranscode =
-    hasOverlays ||
+    !profile.canStreamCopy ||
+    encodingSettings.videoBitrateKbps !== undefined ||
+    applyOverlays ||
+    applyCanvas ||
+    applyTransitions ||
+    applyBurnIn ||
     keepSegments.length > 1 ||
     keepSegments.some(segment => segment.end - segment.start < serverConfig.minTranscodeSegmentSeconds);
 
@@ -471,7 +760,7 @@ async function finalRender(
   ];
 
   // Add image overlay inputs
-  if (hasOverlays && imageOverlayPaths.length > 0) {
+  if (applyOverlays && imageOverlayPaths.length > 0) {
     for (const imagePath of imageOverlayPaths) {
       concatArgs.push('-i', imagePath);
     }
@@ -484,15 +773,74 @@ async function finalRender(
     }
   }
 
-  if (needsTranscode || hasAudio) {
+  // The subtitle input comes after the image and audio inputs
+  const subtitleInputIndex = 1 +
+    (applyOverlays ? imageOverlayPaths.length : 0) +
+    (hasAudio ? audioPaths.length : 0);
+  if (applySoftSubs) {
+    concatArgs.push('-i', captionFile);
+  }
+
+  // Segments are joined without re-encoding unless something changes the streams
+  const streamCopy = !needsTranscode && !hasAudio;
+  let codecArgs = ['-c', 'copy'];
+  let containerArgs: string[] = [];
+  const subtitleArgs = applySoftSubs ? ['-c:s', profile.subtitleCodec as string] : [];
+
+  if (streamCopy && applySoftSubs) {
+    concatArgs.push('-map', '0:v', '-map', '0:a?', '-map', `${subtitleInputIndex}:s`);
+    codecArgs = [...codecArgs, ...subtitleArgs];
+  }
+
+  if (!streamCopy) {
     const filterParts: string[] = [];
     let videoStream = '[0:v]';
+    let sourceAudioStream = '[0:a]';
     let audioStreams: string[] = [];
     let needsVideoFilter = false;
+    let overlaySizeScale = 1;
+
+    // Transitions work on the joined segments, so they come before the canvas and overlays
+    if (applyTransitions) {
+      const sourceHasAudio = profile.hasAudio && (await probeMediaInfo(segmentPaths[0]!, jobId)).hasAudio === true;
+      // The transitions are resolved already; the joined segments are longer than the output by their overlap
+      const joinedDuration = transitions.reduce((sum, transition) => sum + transition.duration, totalDuration);
+      const transitionFilters = buildTransitionFilters(
+        transitions,
+        joinedDuration,
+        profile.hasVideo ? videoStream : null,
+        sourceHasAudio ? sourceAudioStream : null
+      );
+      if (transitionFilters.filterComplex) {
+        filterParts.push(transitionFilters.filterComplex);
+        videoStream = transitionFilters.videoStream ?? videoStream;
+        sourceAudioStream = transitionFilters.audioStream ?? sourceAudioStream;
+        needsVideoFilter = profile.hasVideo;
+      }
+    }
+
+    // Fit the video into the output canvas before any overlay is drawn
+    if (applyCanvas && canvas) {
+      const { width, height } = getCanvasSize(canvas);
+      const sourceInfo = await probeMediaInfo(segmentPaths[0]!, jobId);
+      overlaySizeScale = getCanvasContentScale(canvas, sourceInfo.width, sourceInfo.height);
+      console.log(`[${jobId}] Output canvas: ${width}x${height} (${canvas.aspectRatio}, ${canvas.fit}) from ${sourceInfo.width}x${sourceInfo.height}`);
+
+      filterParts.push(buildCanvasFilter(canvas, videoStream, 'canvas'));
+      videoStream = '[canvas]';
+      needsVideoFilter = true;
+    }
 
     // Build overlay filters
-    if (hasOverlays && overlays && overlays.length > 0) {
-      const { filterComplex, outputStream } = buildOverlayFilters(overlays, imageOverlayPaths, totalDuration);
+    if (applyOverlays && overlays && overlays.length > 0) {
+      const { filterComplex, outputStream } = buildOverlayFilters(
+        overlays,
+        imageOverlayPaths,
+        totalDuration,
+        videoStream,
+        overlaySizeScale,
+        fontPaths
+      );
       if (filterComplex) {
         filterParts.push(filterComplex);
         videoStream = `[${outputStream}]`;
@@ -502,9 +850,9 @@ async function finalRender(
 
     // Handle audio mixing
     if (hasAudio && audioPaths.length > 0) {
-      // Video audio is always from input 0 (the concat input)
-      const videoAudioStream = '[0:a]';
-      const audioInputStartIndex = hasOverlays && imageOverlayPaths.length > 0
+      // Video audio is from input 0 (the concat input), after any transitions
+      const videoAudioStream = sourceAudioStream;
+      const audioInputStartIndex = applyOverlays && imageOverlayPaths.length > 0
         ? imageOverlayPaths.length + 1
         : 1;
 
@@ -561,11 +909,25 @@ async function finalRender(
       }
     } else {
       // No additional audio - use video audio if available
-      audioStreams.push('[0:a]');
+      audioStreams.push(sourceAudioStream);
+    }
+
+    // Burned-in captions are drawn over the overlays, on the output timeline
+    if (applyBurnIn && captions) {
+      filterParts.push(buildCaptionFilter(captionFile, captions.style ?? 'classic', videoStream, 'captions'));
+      videoStream = '[captions]';
+      needsVideoFilter = true;
+    }
+
+    // GIF output needs a generated palette at the end of the video chain
+    if (format === 'gif') {
+      filterParts.push(buildGifPaletteFilter(videoStream, 'vgif'));
+      videoStream = '[vgif]';
+      needsVideoFilter = true;
     }
 
     // If we have audio filters but no video filter, we need to add a passthrough for video
-    if (filterParts.length > 0 && !needsVideoFilter) {
+    if (filterParts.length > 0 && !needsVideoFilter && profile.hasVideo) {
       filterParts.unshift(`[0:v]null[vout]`);
       videoStream = '[vout]';
     }
@@ -573,50 +935,104 @@ async function finalRender(
     // Build filter_complex
     if (filterParts.length > 0) {
       concatArgs.push('-filter_complex', filterParts.join(';'));
-
-      // Map video and audio from filter outputs
-      concatArgs.push('-map', videoStream);
-      if (audioStreams.length > 0 && audioStreams[0]) {
-        concatArgs.push('-map', audioStreams[0]);
-      }
-    } else {
-      // No filters needed, map directly from inputs
-      concatArgs.push('-map', '0:v');
-      concatArgs.push('-map', '0:a?');
     }
 
-    const hasMpdSource = sources.some(s => isMpdUrl(s.url));
-    const finalPreset = hasMpdSource ? 'medium' : serverConfig.transcodePreset;
-    const finalCrf = hasMpdSource ? '18' : serverConfig.transcodeCrf;
+    // Map video and audio; the untouched source audio is mapped directly (it is not a filter output)
+    const audioStream = audioStreams[0];
+    if (profile.hasVideo) {
+      concatArgs.push('-map', filterParts.length > 0 ? videoStream : '0:v');
+    }
+    if (profile.hasAudio && audioStream) {
+      concatArgs.push('-map', audioStream === '[0:a]' ? '0:a?' : audioStream);
+    }
+    if (applySoftSubs) {
+      concatArgs.push('-map', `${subtitleInputIndex}:s`);
+    }
 
-    console.log(`[${jobId}] Final output quality: CRF ${finalCrf}, Preset ${finalPreset}${hasMpdSource ? ' (MPD detected)' : ''}`);
+    const rateControl = encodingSettings.videoBitrateKbps !== undefined
+      ? `${encodingSettings.videoBitrateKbps}k two-pass`
+      : `CRF ${encodingSettings.crf}`;
+    console.log(`[${jobId}] Final output: ${format.toUpperCase()}, ${quality.profile} profile (${rateControl}, Preset ${encodingSettings.preset})`);
     if (hasAudio) {
       console.log(`[${jobId}] Audio mode: ${audioMixMode}, ${audioPaths.length} track(s)`);
     }
 
-    concatArgs.push(
-      '-c:v', 'libx264',
-      '-preset', finalPreset,
-      '-crf', finalCrf,
-      '-c:a', 'aac',
-      '-b:a', serverConfig.transcodeAudioBitrate,
-      '-shortest', // Stop encoding when the shortest input stream ends (video)
-      '-movflags', '+faststart',
-      outputFile
+    codecArgs = [
+      ...(profile.hasVideo ? profile.videoCodecArgs(encodingSettings) : ['-vn']),
+      ...(profile.hasAudio ? profile.audioCodecArgs(encodingSettings) : ['-an']),
+      // Stop encoding when the shortest stream ends (the video, unless the output is audio-only).
+      // A subtitle stream ends at its last cue, so the duration is set explicitly instead.
+      ...(profile.hasVideo && profile.hasAudio && !applySoftSubs ? ['-shortest'] : []),
+      ...(applySoftSubs ? ['-t', totalDuration.toFixed(3)] : []),
+      ...subtitleArgs
+    ];
+    containerArgs = profile.containerArgs;
+  }
+
+  const twoPass = !streamCopy && encodingSettings.videoBitrateKbps !== undefined;
+  if (twoPass) {
+    // The first pass only analyses the video; its log steers the bitrate distribution of the second pass
+    const passLogFile = path.join(tempDir, 'ffmpeg2pass');
+    await runFfmpegWithProgress(
+      [...concatArgs, ...codecArgs, '-pass', '1', '-passlogfile', passLogFile, '-f', 'null', os.devNull],
+      jobId,
+      (progress) => {
+        onProgress?.(Math.min(99, progress) / 2);
+      },
+      totalDuration
+    );
+    await runFfmpegWithProgress(
+      [...concatArgs, ...codecArgs, '-pass', '2', '-passlogfile', passLogFile, ...containerArgs, outputFile],
+      jobId,
+      (progress) => {
+        onProgress?.(50 + Math.min(99, progress) / 2);
+      },
+      totalDuration
     );
   } else {
-    concatArgs.push('-c', 'copy', outputFile);
+    await runFfmpegWithProgress(
+      [...concatArgs, ...codecArgs, ...containerArgs, outputFile],
+      jobId,
+      (progress) => {
+        onProgress?.(Math.min(99, progress));
+      },
+      totalDuration
+    );
   }
 
-  await runFfmpegWithProgress(
-    concatArgs,
-    jobId,
-    (progress) => {
-      if (onProgress) onProgress(Math.min(99, progress), jobId);
-    },
-    totalDuration
-  );
+  return {
+    outputFile,
+    encoding: {
+      profile: quality.profile,
+      streamCopy,
+      twoPass,
+      preset: encodingSettings.preset,
+      crf: !streamCopy && encodingSettings.videoBitrateKbps === undefined ? encodingSettings.crf : undefined,
+      videoBitrateKbps: encodingSettings.videoBitrateKbps,
+      audioBitrate: encodingSettings.audioBitrate,
+      codecArgs: [...codecArgs, ...containerArgs]
+    }
+  };
+}
+
+/**
+ * Warn when the output of the 'target' profile ended up larger than its file size budget
+ */
+async function checkFileSizeBudget(
+  outputFile: string,
+  quality: QualityOptions,
+  jobId: string
+): Promise<string | undefined> {
+  if (quality.maxFileSizeMb === undefined) {
+    return undefined;
+  }
+
+  const sizeMb = (await fsp.stat(outputFile)).size / (1024 * 1024);
+  if (sizeMb <= quality.maxFileSizeMb) {
+    return undefined;
+  }
 
-  return outputFile;
+  console.warn(`[${jobId}] Output is ${sizeMb.toFixed(1)}MB, over the ${quality.maxFileSizeMb}MB budget`);
+  return `Output is ${sizeMb.toFixed(1)}MB, over the requested maximum of ${quality.maxFileSizeMb}MB`;
 }
 
@@ -0,0 +1,87 @@
+import path from 'path';
+import { createHash } from 'crypto';
+import { promises as fsp } from 'fs';
+import { serverConfig } from '../utils/config.utils';
+import { extractAudioPeaks, probeMediaInfo } from '../utils/ffmpeg.utils';
+import { resolveUploadPath } from '../utils/file.utils';
+import type { WaveformData } from '../types';
+
+/**
+ * Waveform service - computes the peak levels of an audio or video file for the editor's timeline.
+ * Waveforms are cached under dataDir/waveforms, which is not served: those of uploads by file name (so cleaning up
+ * an upload can delete its waveform), those of other files by URL.
+ */
+
+export const WAVEFORM_PEAKS_PER_SECOND = 50;
+const WAVEFORM_TIMEOUT_MS = 120000;
+
+const uploadsDir = path.join(serverConfig.outputDir, 'uploads');
+const waveformsDir = path.join(serverConfig.dataDir, 'waveforms');
+const uploadWaveformsDir = path.join(waveformsDir, 'uploads');
+
+/**
+ * Waveforms being computed, so concurrent requests for one file share the work
+ */
+const pendingWaveforms = new Map<string, Promise<WaveformData>>();
+
+/**
+ * Get the waveform of a file, computing it on the first request.
+ * Returns null when the URL names an upload that does not exist.
+ */
+export async function getWaveform(url: string): Promise<WaveformData | null> {
+  const source = await resolveWaveformSource(url);
+  if (!source) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(await fsp.readFile(source.cacheFile, 'utf8')) as WaveformData;
+  } catch {
+    // Not cached yet
+  }
+
+  let waveform = pendingWaveforms.get(source.cacheFile);
+  if (!waveform) {
+    waveform = computeWaveform(source.input, source.cacheFile).finally(() => pendingWaveforms.delete(source.cacheFile));
+    pendingWaveforms.set(source.cacheFile, waveform);
+  }
+  return waveform;
+}
+
+/**
+ * Delete the cached waveform of an upload (when the upload itself is deleted)
+ */
+export async function deleteUploadWaveform(filename: string): Promise<void> {
+  await fsp.rm(getUploadWaveformFile(filename), { force: true });
+}
+
+/**
+ * Read uploads from disk (whatever host the URL names); other URLs are read by FFmpeg directly
+ */
+async function resolveWaveformSource(url: string): Promise<{ input: string; cacheFile: string } | null> {
+  const uploadPath = await resolveUploadPath(url, uploadsDir);
+  if (uploadPath !== undefined) {
+    if (uploadPath === null) {
+      return null;
+    }
+    await fsp.mkdir(uploadWaveformsDir, { recursive: true });
+    return { input: uploadPath, cacheFile: getUploadWaveformFile(path.basename(uploadPath)) };
+  }
+
+  await fsp.mkdir(waveformsDir, { recursive: true });
+  const key = createHash('sha1').update(url).digest('hex');
+  return { input: url, cacheFile: path.join(waveformsDir, `${key}.json`) };
+}
+
+async function computeWaveform(input: string, cacheFile: string): Promise<WaveformData> {
+  const { duration, hasAudio } = await probeMediaInfo(input);
+  const peaks = hasAudio ? await extractAudioPeaks(input, WAVEFORM_PEAKS_PER_SECOND, WAVEFORM_TIMEOUT_MS) : [];
+  const waveform: WaveformData = { duration, peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND, peaks };
+
+  await fsp.writeFile(cacheFile, JSON.stringify(waveform), 'utf8');
+  return waveform;
+}
+
+function getUploadWaveformFile(filename: string): string {
+  return path.join(uploadWaveformsDir, `${filename}.json`);
+}
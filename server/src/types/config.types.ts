@@ -5,10 +5,13 @@
 export interface ServerConfig {
   port: number;
   outputDir: string;
+  dataDir: string; // Server-side files that are not served (outputDir is public under /output)
   minTranscodeSegmentSeconds: number;
   transcodePreset: string;
   transcodeCrf: string;
   transcodeAudioBitrate: string;
+  renderConcurrency: number;
+  jobRetentionMs: number;
 }
 
 export interface MpdConfig {
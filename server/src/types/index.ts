@@ -4,4 +4,7 @@
 
 export * from './render.types';
 export * from './config.types';
-
+export * from './job.types';
+export * from './project.types';
+export * from './waveform.types';
+export * from './thumbnail.types';
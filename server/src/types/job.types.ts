@@ -0,0 +1,34 @@
+import type { RenderResponse } from './render.types';
+
+/**
+ * Render job queue types
+ */
+
+export type RenderJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type RenderPhase =
+  | 'source-processing'
+  | 'segment-extraction'
+  | 'overlay-preparation'
+  | 'audio-preparation'
+  | 'final-encode';
+
+export interface RenderProgressUpdate {
+  phase: RenderPhase;
+  phaseProgress: number;
+  progress: number;
+}
+
+export interface RenderJobStatus {
+  jobId: string;
+  state: RenderJobState;
+  progress: number;
+  phase?: RenderPhase | undefined;
+  phaseProgress?: number | undefined;
+  queuePosition?: number | undefined;
+  createdAt: string;
+  startedAt?: string | undefined;
+  finishedAt?: string | undefined;
+  result?: RenderResponse | undefined;
+  error?: string | undefined;
+}
@@ -0,0 +1,104 @@
+import type {
+  CaptionCue,
+  CaptionOptions,
+  ColorCorrection,
+  OutputCanvas,
+  OutputFormat,
+  Overlay,
+  QualityOptions,
+  SegmentEffect,
+  SourceTransform,
+  TimeRange,
+  Transition
+} from './render.types';
+
+/**
+ * Saved editor project types (the versioned document written by the editor)
+ */
+
+export interface ProjectSource {
+  url: string;
+  type: 'video' | 'image';
+  duration?: number | undefined;
+  color?: ColorCorrection | undefined;
+  transform?: SourceTransform | undefined;
+}
+
+/**
+ * Segment kept in keep mode, with the playback rate it is rendered at
+ */
+export interface ProjectSegment extends TimeRange {
+  speed?: number | undefined; // Missing in older projects (1x)
+  freezeDuration?: number | undefined; // Hold the first frame instead of playing the segment
+  effect?: SegmentEffect | undefined;
+}
+
+export interface ProjectTimeline {
+  mode: 'cut' | 'keep';
+  trimStart: number;
+  trimEnd: number;
+  cuts: TimeRange[];
+  segments: ProjectSegment[];
+  transitions?: Transition[] | undefined; // Joint times on the original timeline; absent in older projects
+}
+
+export interface ProjectAudioTrack {
+  url: string;
+  startTime: number;
+  duration: number;
+  originalDuration: number;
+  originalStartTime?: number | undefined;
+  audioTrimStart: number;
+  audioTrimEnd: number;
+  volume: number;
+  muted: boolean;
+}
+
+export interface ProjectAudio {
+  tracks: ProjectAudioTrack[];
+  mixMode: 'mix' | 'replace';
+  masterVolume: number;
+}
+
+export interface ProjectCaptions {
+  name: string; // Imported file name
+  cues: CaptionCue[]; // Times on the original timeline
+}
+
+export interface ProjectOutput {
+  format: OutputFormat;
+  canvas?: OutputCanvas | undefined;
+  quality?: QualityOptions | undefined;
+  captions?: CaptionOptions | undefined; // Omitted = captions are not rendered
+}
+
+export interface EditorProject {
+  schemaVersion: number;
+  name: string;
+  savedAt: string;
+  sources: ProjectSource[];
+  timeline: ProjectTimeline;
+  overlays: Overlay[];
+  audio: ProjectAudio;
+  captions?: ProjectCaptions | undefined; // Absent in projects without captions
+  output: ProjectOutput;
+}
+
+/**
+ * Project listing entry returned by GET /api/projects
+ */
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+  thumbnailUrl?: string | undefined;
+}
+
+/**
+ * Project saved on the server; `version` increases on every update (optimistic concurrency)
+ */
+export interface StoredProject extends ProjectSummary {
+  project: EditorProject;
+}
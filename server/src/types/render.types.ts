@@ -7,10 +7,67 @@ export interface TimeRange {
   end: number;
 }
 
+/**
+ * Playback effect of a segment: played backwards, or forwards and then backwards (twice as long)
+ */
+export type SegmentEffect = 'reverse' | 'boomerang';
+
+/**
+ * Playback rate of a range on the source timeline (a kept segment in the editor's keep mode).
+ * A freeze frame holds the first frame of the range for freezeDuration seconds instead of playing it.
+ */
+export interface SegmentTiming extends TimeRange {
+  speed: number; // 0.25-4; audio keeps its pitch
+  freezeDuration?: number | undefined; // Seconds the frame is held, without sound
+  effect?: SegmentEffect | undefined; // Not combined with a freeze frame
+}
+
+export type OutputFormat = 'mp4' | 'webm' | 'mov' | 'gif' | 'm4a' | 'mp3';
+
+export interface OutputCanvas {
+  aspectRatio: '16:9' | '9:16' | '1:1';
+  resolution: '720p' | '1080p' | '2160p';
+  fit: 'letterbox' | 'crop' | 'blur';
+}
+
+export type QualityProfileName = 'draft' | 'standard' | 'high' | 'archival' | 'target';
+
+export interface QualityOptions {
+  profile: QualityProfileName;
+  targetBitrateKbps?: number | undefined; // 'target' only: average video bitrate
+  maxFileSizeMb?: number | undefined; // 'target' only: bitrate is derived from the size budget
+}
+
+/**
+ * Encoder settings a render actually used, so the output can be reproduced
+ */
+export interface EffectiveEncoding {
+  profile: QualityProfileName;
+  streamCopy: boolean;
+  twoPass: boolean;
+  preset: string;
+  crf?: string | undefined;
+  videoBitrateKbps?: number | undefined;
+  audioBitrate: string;
+  codecArgs: string[];
+}
+
+/**
+ * Extra file written next to the output, e.g. the caption sidecars
+ */
+export interface RenderArtifact {
+  kind: 'captions';
+  format: 'srt' | 'vtt';
+  file: string; // Public path, like outputFile
+}
+
 export interface RenderResponse {
   jobId: string;
   outputFile: string;
-  segments: TimeRange[];
+  format: OutputFormat;
+  encoding: EffectiveEncoding;
+  segments: SegmentTiming[];
+  artifacts?: RenderArtifact[] | undefined;
   transcoded?: boolean | undefined;
   warning?: string | undefined;
 }
@@ -19,12 +76,48 @@ export interface VideoMetadata {
   duration: number;
   width: number;
   height: number;
+  hasAudio?: boolean | undefined;
+}
+
+export type KeyframeEasing = 'linear' | 'ease-in-out' | 'hold';
+
+/**
+ * Value of an animated overlay property at a point in time
+ */
+export interface OverlayKeyframe {
+  time: number; // Seconds from the overlay start
+  value: number;
+  easing: KeyframeEasing; // Interpolation towards the next keyframe
+}
+
+/**
+ * Keyframe tracks; an animated property ignores its static value.
+ * Scale multiplies the size (font size for text) with the top-left corner kept in place.
+ */
+export interface OverlayKeyframes {
+  x?: OverlayKeyframe[] | undefined; // Percentage
+  y?: OverlayKeyframe[] | undefined; // Percentage
+  scale?: OverlayKeyframe[] | undefined;
+  opacity?: OverlayKeyframe[] | undefined; // 0-1
 }
 
+export type OverlayEffectType = 'fade' | 'slide' | 'zoom' | 'typewriter';
+
+/**
+ * Entrance or exit effect of an overlay, played inside its start/end window
+ */
+export interface OverlayEffect {
+  type: OverlayEffectType; // 'typewriter' is for text overlays only
+  duration: number;
+  edge?: 'left' | 'right' | 'top' | 'bottom' | undefined; // Frame edge a slide enters from / exits to (default 'left')
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
 export interface TextOverlay {
   id: number;
   type: 'text';
-  text: string;
+  text: string; // Lines separated by \n
   start: number;
   end: number;
   x: number;
@@ -32,7 +125,22 @@ export interface TextOverlay {
   fontSize?: number | undefined;
   fontColor?: string | undefined;
   backgroundColor?: string | undefined;
+  fontUrl?: string | undefined; // TTF/OTF file, e.g. an upload; FFmpeg's default font when unset
+  bold?: boolean | undefined;
+  italic?: boolean | undefined;
+  strokeColor?: string | undefined;
+  strokeWidth?: number | undefined; // Outline width in pixels
+  shadowColor?: string | undefined; // Drop shadow when set
+  shadowX?: number | undefined; // Shadow offset in pixels (default 2)
+  shadowY?: number | undefined;
+  lineSpacing?: number | undefined; // Line height as a multiple of the font size (default 1.2)
+  textAlign?: TextAlign | undefined; // Which side of the text x marks (default 'left')
+  boxPadding?: number | undefined; // Background box padding in pixels (default 5)
   opacity?: number | undefined;
+  rotation?: number | undefined; // Degrees clockwise around the top-left corner
+  keyframes?: OverlayKeyframes | undefined;
+  entranceEffect?: OverlayEffect | undefined;
+  exitEffect?: OverlayEffect | undefined;
 }
 
 export interface ImageOverlay {
@@ -46,12 +154,26 @@ export interface ImageOverlay {
   width?: number | undefined;
   height?: number | undefined;
   opacity?: number | undefined;
+  rotation?: number | undefined; // Degrees clockwise around the top-left corner
+  keyframes?: OverlayKeyframes | undefined;
+  entranceEffect?: OverlayEffect | undefined;
+  exitEffect?: OverlayEffect | undefined;
+}
+
+export type ShapeType = 'rectangle' | 'rounded-rectangle' | 'ellipse' | 'line' | 'arrow' | 'polygon';
+
+/**
+ * Point of a line, arrow or polygon as a percentage of the shape's box
+ */
+export interface ShapePoint {
+  x: number;
+  y: number;
 }
 
 export interface ShapeOverlay {
   id: number;
   type: 'shape';
-  shapeType: 'rectangle';
+  shapeType: ShapeType;
   start: number;
   end: number;
   x: number;
@@ -60,16 +182,96 @@ export interface ShapeOverlay {
   height?: number | undefined;
   color?: string | undefined;
   strokeWidth?: number | undefined;
-  fill?: boolean | undefined;
+  fill?: boolean | undefined; // Lines and arrows are always stroked
+  cornerRadius?: number | undefined; // 'rounded-rectangle' only, pixels
+  points?: ShapePoint[] | undefined; // Line/arrow start and end (arrow head at the end), polygon vertices
   opacity?: number | undefined;
+  rotation?: number | undefined; // Degrees clockwise around the top-left corner
+  keyframes?: OverlayKeyframes | undefined;
+  entranceEffect?: OverlayEffect | undefined;
+  exitEffect?: OverlayEffect | undefined;
 }
 
 export type Overlay = TextOverlay | ImageOverlay | ShapeOverlay;
 
+export type TransitionType = 'fade' | 'dissolve' | 'wipe' | 'slide' | 'fadeblack';
+
+/**
+ * Transition at a joint between two sources or two kept segments
+ */
+export interface Transition {
+  time: number; // Joint on the joined video before any transition overlaps it (seconds from its start)
+  type: TransitionType;
+  duration: number; // Overlap of the clips on either side of the joint; the output is this much shorter
+}
+
+export type CaptionStylePreset = 'classic' | 'boxed' | 'yellow' | 'top';
+
+/**
+ * Subtitle cue; times are on the output timeline in render requests, on the original one in projects
+ */
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string; // Lines separated by \n
+}
+
+/**
+ * How captions are rendered: burned into the picture, muxed as a subtitle stream, or only
+ * written as sidecar files (every mode also returns the sidecar files)
+ */
+export interface CaptionOptions {
+  mode: 'burn-in' | 'soft' | 'sidecar'; // Soft subtitles are mov_text in MP4/MOV and WebVTT in WebM
+  style?: CaptionStylePreset | undefined; // Burn-in only (default 'classic')
+}
+
+export interface RenderCaptions extends CaptionOptions {
+  cues: CaptionCue[];
+}
+
+/**
+ * Color correction of a source; unset fields leave the picture unchanged
+ */
+export interface ColorCorrection {
+  brightness?: number | undefined; // -1 to 1 (0 = unchanged)
+  contrast?: number | undefined; // 0 to 2 (1 = unchanged)
+  saturation?: number | undefined; // 0 to 3 (1 = unchanged)
+  gamma?: number | undefined; // 0.1 to 10 (1 = unchanged)
+  temperature?: number | undefined; // White balance, -1 (cooler) to 1 (warmer)
+  tint?: number | undefined; // White balance, -1 (greener) to 1 (more magenta)
+  lutUrl?: string | undefined; // .cube 3D LUT applied after the adjustments
+}
+
+/**
+ * Animated pan/zoom over an image source; x/y are the centre of the view in percent of the
+ * (cropped and rotated) frame, and the view is kept inside the frame
+ */
+export interface KenBurns {
+  startZoom: number; // 1 (whole frame) to 4
+  endZoom: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Geometry of a source, applied in this order: crop, rotation, flips, pan/zoom
+ */
+export interface SourceTransform {
+  crop?: { x: number; y: number; width: number; height: number } | undefined; // Percent of the source frame
+  rotation?: 0 | 90 | 180 | 270 | undefined; // Clockwise
+  flipH?: boolean | undefined;
+  flipV?: boolean | undefined;
+  kenBurns?: KenBurns | undefined; // Image sources only
+}
+
 export interface VideoSource {
   url: string;
   type: 'video' | 'image';
   duration?: number | undefined;
+  color?: ColorCorrection | undefined;
+  transform?: SourceTransform | undefined;
 }
 
 export interface AudioSource {
@@ -90,9 +292,14 @@ export interface RenderRequest {
   trimStart: number;
   trimEnd: number;
   cuts: TimeRange[];
+  segmentTiming?: SegmentTiming[] | undefined; // Source timeline; ranges not listed play at 1x
   overlays: Overlay[];
+  transitions?: Transition[] | undefined;
   audioSources?: AudioSource[] | undefined;
   audioMixMode?: 'mix' | 'replace' | undefined;
-  format: 'mp4';
+  format: OutputFormat;
+  canvas?: OutputCanvas | undefined;
+  quality?: QualityOptions | undefined;
+  captions?: RenderCaptions | undefined;
 }
 
@@ -0,0 +1,14 @@
+/**
+ * Thumbnail types
+ */
+
+export interface ThumbnailStrip {
+  duration: number; // Seconds
+  interval: number; // Seconds between frames; frame i shows the source at i * interval
+  count: number; // Frames over all sheets
+  columns: number; // Frames per row of a sheet
+  rows: number; // Rows of a full sheet
+  frameWidth: number; // Pixels
+  frameHeight: number;
+  sheets: string[]; // Sprite sheet URLs (/output/thumbnails/...), columns * rows frames each, left to right
+}
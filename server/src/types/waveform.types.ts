@@ -0,0 +1,9 @@
+/**
+ * Waveform types
+ */
+
+export interface WaveformData {
+  duration: number; // Seconds
+  peaksPerSecond: number;
+  peaks: number[]; // Peak level of each window, 0-1 (empty when the file has no audio)
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { clampCues, formatSrt, formatVtt, parseCaptions } from './caption.utils';
+
+describe('parseCaptions', () => {
+  it('parses SRT cues with multi-line text', () => {
+    const srt = '1\n00:00:01,500 --> 00:00:03,000\nHello\nthere\n\n2\n01:02:03,004 --> 01:02:05,000\n<i>Bye</i>\n';
+    expect(parseCaptions(srt)).toEqual([
+      { start: 1.5, end: 3, text: 'Hello\nthere' },
+      { start: 3723.004, end: 3725, text: '<i>Bye</i>' }
+    ]);
+  });
+
+  it('parses WebVTT with short timestamps, cue settings, headers and notes', () => {
+    const vtt = 'WEBVTT\n\nNOTE a comment\n\nintro\n00:01.5 --> 00:03.250 align:start line:0\nHello\n';
+    expect(parseCaptions(vtt)).toEqual([{ start: 1.5, end: 3.25, text: 'Hello' }]);
+  });
+
+  it('handles a byte order mark and Windows line endings', () => {
+    expect(parseCaptions('\uFEFF1\r\n00:00:00,000 --> 00:00:01,000\r\nHi\r\n')).toEqual([{ start: 0, end: 1, text: 'Hi' }]);
+  });
+
+  it('skips cues with bad timing or no text and sorts the rest', () => {
+    const srt = [
+      '1\n00:00:05,000 --> 00:00:06,000\nLater',
+      '2\n00:00:04,000 --> 00:00:03,000\nBackwards',
+      '3\n00:00:01,000 --> 00:00:02,000\n',
+      '4\nnot a time --> 00:00:02,000\nBroken',
+      '5\n00:00:01,000 --> 00:00:02,000\nEarlier'
+    ].join('\n\n');
+    expect(parseCaptions(srt).map(cue => cue.text)).toEqual(['Earlier', 'Later']);
+  });
+});
+
+describe('formatSrt and formatVtt', () => {
+  const cues = [{ start: 1.5, end: 3, text: 'Hello' }, { start: 3661.25, end: 3662, text: 'Bye' }];
+
+  it('writes numbered SRT blocks with comma timestamps', () => {
+    expect(formatSrt(cues)).toBe('1\n00:00:01,500 --> 00:00:03,000\nHello\n\n2\n01:01:01,250 --> 01:01:02,000\nBye\n');
+  });
+
+  it('writes a WebVTT header and dot timestamps', () => {
+    expect(formatVtt(cues)).toBe('WEBVTT\n\n00:00:01.500 --> 00:00:03.000\nHello\n\n01:01:01.250 --> 01:01:02.000\nBye\n');
+  });
+
+  it('round-trips through parseCaptions', () => {
+    expect(parseCaptions(formatSrt(cues))).toEqual(cues);
+    expect(parseCaptions(formatVtt(cues))).toEqual(cues);
+  });
+});
+
+describe('clampCues', () => {
+  it('clamps cues to the output and drops the ones outside it', () => {
+    expect(clampCues([{ start: -1, end: 2, text: 'a' }, { start: 9, end: 12, text: 'b' }, { start: 11, end: 12, text: 'c' }], 10))
+      .toEqual([{ start: 0, end: 2, text: 'a' }, { start: 9, end: 10, text: 'b' }]);
+  });
+});
@@ -0,0 +1,90 @@
+import type { CaptionCue } from '../types';
+
+/**
+ * SubRip (SRT) and WebVTT caption utilities
+ */
+
+/**
+ * Caption file extensions accepted by the upload endpoint
+ */
+export const CAPTION_EXTENSIONS = ['.srt', '.vtt'];
+
+/**
+ * Parse a cue timestamp: `HH:MM:SS,mmm` (SRT) or `[HH:]MM:SS.mmm` (WebVTT), in seconds
+ */
+function parseTimestamp(value: string): number | null {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number((fraction ?? '0').padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Format seconds as an SRT (`00:00:01,500`) or WebVTT (`00:00:01.500`) timestamp
+ */
+function formatTimestamp(seconds: number, separator: ',' | '.' = ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+/**
+ * Parse SRT or WebVTT content into cues sorted by start time.
+ * Blocks without a timing line (the WEBVTT header, NOTE, STYLE, REGION) are skipped,
+ * as are WebVTT cue settings after the end time. Cue text keeps basic tags like <i>.
+ */
+export function parseCaptions(content: string): CaptionCue[] {
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) {
+      continue;
+    }
+
+    const [startText = '', endPart = ''] = (lines[timingIndex] as string).split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endPart.trim().split(/\s+/)[0] ?? '');
+    const text = lines.slice(timingIndex + 1).join('\n').trim();
+    if (start === null || end === null || end <= start || !text) {
+      continue;
+    }
+    cues.push({ start, end, text });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Write cues as an SRT file
+ */
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}\n`)
+    .join('\n');
+}
+
+/**
+ * Write cues as a WebVTT file
+ */
+export function formatVtt(cues: CaptionCue[]): string {
+  return ['WEBVTT\n', ...cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)]
+    .join('\n');
+}
+
+/**
+ * Clamp cues to an output of the given length, dropping cues that end up empty
+ */
+export function clampCues(cues: CaptionCue[], duration: number): CaptionCue[] {
+  return cues
+    .map(cue => ({ ...cue, start: Math.max(0, cue.start), end: Math.min(cue.end, duration) }))
+    .filter(cue => cue.end > cue.start);
+}
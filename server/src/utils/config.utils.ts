@@ -7,10 +7,13 @@ import type { ServerConfig, MpdConfig } from '../types';
 export const serverConfig: ServerConfig = {
   port: Number(process.env.PORT ?? 4000),
   outputDir: path.resolve(process.env.OUTPUT_DIR ?? path.join(process.cwd(), 'output')),
+  dataDir: path.resolve(process.env.DATA_DIR ?? path.join(process.cwd(), 'data')),
   minTranscodeSegmentSeconds: Number(process.env.MIN_TRANSCODE_SEGMENT_SECONDS ?? 0.35),
   transcodePreset: process.env.FFMPEG_PRESET ?? 'veryfast',
   transcodeCrf: process.env.FFMPEG_CRF ?? '20',
-  transcodeAudioBitrate: process.env.FFMPEG_AUDIO_BITRATE ?? '192k'
+  transcodeAudioBitrate: process.env.FFMPEG_AUDIO_BITRATE ?? '192k',
+  renderConcurrency: Math.max(1, Number(process.env.RENDER_CONCURRENCY ?? 1)),
+  jobRetentionMs: Number(process.env.JOB_RETENTION_MS ?? 3600000)
 };
 
 /**
@@ -1,4 +1,4 @@
-import { spawn } from 'child_process';
+import { spawn, type ChildProcess, type SpawnOptions } from 'child_process';
 import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
 import type { VideoMetadata } from '../types';
 
@@ -20,13 +20,72 @@ export function getFfprobePath(): string {
   return ffmpegInstaller.path.replace('ffmpeg', 'ffprobe');
 }
 
+/**
+ * FFmpeg child processes currently running for each job
+ */
+const jobProcesses = new Map<string, Set<ChildProcess>>();
+
+/**
+ * Jobs whose processes have been killed; no new processes may start for them
+ */
+const cancelledJobs = new Set<string>();
+
+/**
+ * Spawn FFmpeg and register the child process under its job
+ */
+function spawnFfmpeg(args: string[], options: SpawnOptions, jobId?: string): ChildProcess {
+  if (jobId && cancelledJobs.has(jobId)) {
+    throw new Error('Job was cancelled');
+  }
+
+  const child = spawn(getFfmpegPath(), args, options);
+
+  if (jobId) {
+    const processes = jobProcesses.get(jobId) ?? new Set<ChildProcess>();
+    processes.add(child);
+    jobProcesses.set(jobId, processes);
+
+    child.on('exit', () => {
+      processes.delete(child);
+      if (processes.size === 0) {
+        jobProcesses.delete(jobId);
+      }
+    });
+  }
+
+  return child;
+}
+
+/**
+ * Kill all FFmpeg processes of a job and prevent new ones from starting
+ */
+export function killJobProcesses(jobId: string): void {
+  cancelledJobs.add(jobId);
+  const processes = jobProcesses.get(jobId);
+  if (!processes) {
+    return;
+  }
+
+  console.log(`[${jobId}] Killing ${processes.size} FFmpeg process(es)...`);
+  for (const child of processes) {
+    child.kill('SIGKILL');
+  }
+}
+
+/**
+ * Forget the cancellation state of a finished job
+ */
+export function releaseJobProcesses(jobId: string): void {
+  cancelledJobs.delete(jobId);
+  jobProcesses.delete(jobId);
+}
+
 /**
  * Run FFmpeg with given arguments
  */
-export function runFfmpeg(args: string[]): Promise<void> {
+export function runFfmpeg(args: string[], jobId?: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ffmpegPath = getFfmpegPath();
-    const child = spawn(ffmpegPath, args, { stdio: 'inherit' });
+    const child = spawnFfmpeg(args, { stdio: 'inherit' }, jobId);
     child.on('error', reject);
     child.on('exit', code => {
       if (code === 0) {
@@ -41,10 +100,9 @@ export function runFfmpeg(args: string[]): Promise<void> {
 /**
  * Run FFmpeg with timeout
  */
-export function runFfmpegWithTimeout(args: string[], timeoutMs: number): Promise<void> {
+export function runFfmpegWithTimeout(args: string[], timeoutMs: number, jobId?: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ffmpegPath = getFfmpegPath();
-    const child = spawn(ffmpegPath, args, { stdio: 'inherit' });
+    const child = spawnFfmpeg(args, { stdio: 'inherit' }, jobId);
     
     let timeoutHandle: NodeJS.Timeout | null = null;
     let isTimedOut = false;
@@ -85,10 +143,9 @@ export function runFfmpegWithProgress(
   estimatedDuration: number
 ): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ffmpegPath = getFfmpegPath();
-    const child = spawn(ffmpegPath, args, {
+    const child = spawnFfmpeg(args, {
       stdio: ['ignore', 'pipe', 'pipe']
-    });
+    }, jobId);
 
     let errorOutput = '';
     const timeRegex = /time=(\d{1,2}:\d{2}:\d{2}\.\d{2}|\d{1,2}:\d{2}\.\d{2})/;
@@ -174,20 +231,128 @@ export function probeMpdMetadata(url: string): Promise<VideoMetadata> {
   });
 }
 
+/**
+ * Read duration and video dimensions from FFmpeg's input summary.
+ * Works without ffprobe, which is not shipped by every FFmpeg installer.
+ */
+export function probeMediaInfo(input: string, jobId?: string): Promise<VideoMetadata> {
+  return new Promise((resolve, reject) => {
+    const child = spawnFfmpeg(['-hide_banner', '-i', input], {
+      stdio: ['ignore', 'ignore', 'pipe']
+    }, jobId);
+
+    let stderr = '';
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', reject);
+    // FFmpeg exits with an error because no output is given; only the summary matters
+    child.on('exit', () => {
+      const durationMatch = stderr.match(/Duration: (\d{2}:\d{2}:\d{2}\.\d+)/);
+      const sizeMatch = stderr.match(/Stream #\d+:\d+.*?: Video: .*?, (\d{2,5})x(\d{2,5})/);
+
+      if (!durationMatch && !sizeMatch) {
+        reject(new Error(`Failed to read media info: ${stderr.split('\n').slice(-3).join(' ')}`));
+        return;
+      }
+
+      resolve({
+        duration: durationMatch?.[1] ? parseTime(durationMatch[1]) : 0,
+        width: sizeMatch?.[1] ? Number(sizeMatch[1]) : 0,
+        height: sizeMatch?.[2] ? Number(sizeMatch[2]) : 0,
+        hasAudio: /Stream #\d+:\d+.*?: Audio: /.test(stderr)
+      });
+    });
+  });
+}
+
+/**
+ * Sample rate the audio is decoded at for peak levels (enough for a waveform, and cheap to read)
+ */
+const PEAK_SAMPLE_RATE = 8000;
+
+/**
+ * Read the peak level (0-1) of an input's audio in windows of 1/peaksPerSecond seconds. The audio is
+ * decoded to mono 16-bit PCM and reduced while it streams, so long files are never held in memory.
+ */
+export function extractAudioPeaks(input: string, peaksPerSecond: number, timeoutMs: number): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawnFfmpeg([
+      '-hide_banner',
+      '-nostdin',
+      '-i', input,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(PEAK_SAMPLE_RATE),
+      '-f', 's16le',
+      '-'
+    ], {
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    const samplesPerPeak = PEAK_SAMPLE_RATE / peaksPerSecond;
+    const peaks: number[] = [];
+    const pushPeak = (peak: number): void => {
+      peaks.push(Math.round((peak / 32768) * 1000) / 1000);
+    };
+    let peak = 0;
+    let count = 0;
+    let remainder: Buffer | null = null; // Odd byte left over between chunks
+
+    child.stdout?.on('data', (chunk: Buffer) => {
+      const data: Buffer = remainder ? Buffer.concat([remainder, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let offset = 0; offset < usable; offset += 2) {
+        peak = Math.max(peak, Math.abs(data.readInt16LE(offset)));
+        if (++count >= samplesPerPeak) {
+          pushPeak(peak);
+          peak = 0;
+          count = 0;
+        }
+      }
+      remainder = usable < data.length ? data.subarray(usable) : null;
+    });
+
+    let stderr = '';
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+
+    const timeout = setTimeout(() => child.kill('SIGKILL'), timeoutMs);
+    child.on('error', error => {
+      clearTimeout(timeout);
+      reject(error);
+    });
+    child.on('exit', (code, signal) => {
+      clearTimeout(timeout);
+      if (code === 0) {
+        if (count > 0) {
+          pushPeak(peak);
+        }
+        resolve(peaks);
+      } else if (signal === 'SIGKILL') {
+        reject(new Error(`Waveform extraction timed out after ${timeoutMs / 1000}s`));
+      } else {
+        reject(new Error(`Waveform extraction failed: ${stderr.trim().split('\n').slice(-2).join(' ')}`));
+      }
+    });
+  });
+}
+
 /**
  * Convert WebP image to PNG
  */
-export function convertWebpToPng(inputPath: string, outputPath: string, _jobId: string): Promise<void> {
+export function convertWebpToPng(inputPath: string, outputPath: string, jobId: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const ffmpegPath = getFfmpegPath();
-    const child = spawn(ffmpegPath, [
+    const child = spawnFfmpeg([
       '-hide_banner',
       '-y',
       '-i', inputPath,
       outputPath
     ], {
       stdio: ['ignore', 'pipe', 'pipe']
-    });
+    }, jobId);
 
     let errorOutput = '';
     child.stderr?.on('data', (data: Buffer) => {
@@ -92,6 +92,15 @@ export function getImageExtension(url: string): string {
   return match && match[1] ? match[1].toLowerCase() : 'png';
 }
 
+/**
+ * Get font file extension from URL
+ */
+export function getFontExtension(url: string): string {
+  const cleanUrl = url.split('?')[0] || url;
+  const match = cleanUrl.match(/\.(ttf|otf)$/i);
+  return match && match[1] ? match[1].toLowerCase() : 'ttf';
+}
+
 /**
  * Check if file size exceeds limit
  */
@@ -103,3 +112,45 @@ export async function checkFileSize(filePath: string, maxSizeMb: number): Promis
   }
 }
 
+
+/**
+ * Whether the path of a URL can be percent-decoded (`%E0%A4%A` can't)
+ */
+export function isDecodableUrl(url: string): boolean {
+  try {
+    decodeURIComponent(new URL(url).pathname);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Local path of an upload named by a URL (`/output/uploads/<file>` on whatever host).
+ * Returns undefined for URLs of other files and null when the upload does not exist or its name is malformed.
+ */
+export async function resolveUploadPath(url: string, uploadsDir: string): Promise<string | null | undefined> {
+  const prefix = '/output/uploads/';
+  const { pathname } = new URL(url);
+  if (!pathname.startsWith(prefix)) {
+    return undefined;
+  }
+
+  let filename: string;
+  try {
+    filename = decodeURIComponent(pathname.slice(prefix.length));
+  } catch {
+    return null; // Malformed percent-encoding
+  }
+  // Only plain file names; anything else could leave the uploads directory
+  if (filename !== path.basename(filename) || filename.startsWith('.')) {
+    return null;
+  }
+  const filePath = path.join(uploadsDir, filename);
+  try {
+    await fsp.access(filePath);
+  } catch {
+    return null;
+  }
+  return filePath;
+}
@@ -6,6 +6,12 @@ export * from './config.utils';
 export * from './ffmpeg.utils';
 export * from './file.utils';
 export * from './video.utils';
+export * from './output-format.utils';
+export * from './quality.utils';
+export * from './project.utils';
+export * from './keyframe.utils';
+export * from './shape.utils';
+export * from './caption.utils';
 
 // Re-export convertWebpToPng from ffmpeg utils for convenience
 export { convertWebpToPng } from './ffmpeg.utils';
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { buildKeyframeExpression } from './keyframe.utils';
+
+describe('buildKeyframeExpression', () => {
+  it('nests one segment per pair of keyframes and holds the last value', () => {
+    expect(buildKeyframeExpression([
+      { time: 2, value: 10, easing: 'hold' },
+      { time: 0, value: 0, easing: 'linear' },
+      { time: 4, value: 0, easing: 'linear' }
+    ], 't')).toBe('if(lt(t,2),0+10*clip((t-0)/2,0,1),if(lt(t,4),10,0))');
+  });
+
+  it('eases in and out with a smoothstep', () => {
+    expect(buildKeyframeExpression([{ time: 0, value: 0, easing: 'ease-in-out' }, { time: 1, value: 1, easing: 'linear' }], '(t-2)'))
+      .toBe('if(lt((t-2),1),0+1*pow(clip(((t-2)-0)/1,0,1),2)*(3-2*clip(((t-2)-0)/1,0,1)),1)');
+  });
+
+  it('keeps the last of several keyframes at the same time', () => {
+    expect(buildKeyframeExpression([{ time: 1, value: 5, easing: 'linear' }, { time: 1, value: 7, easing: 'linear' }], 't')).toBe('7');
+    expect(buildKeyframeExpression([], 't')).toBe('0');
+  });
+});
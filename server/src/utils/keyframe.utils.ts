@@ -0,0 +1,47 @@
+import type { OverlayKeyframe } from '../types';
+
+/**
+ * Overlay keyframe utilities - FFmpeg expressions matching the editor's keyframe interpolation
+ */
+
+/**
+ * Keyframes in time order; of several keyframes at the same time the last one wins
+ */
+function sortKeyframes(track: OverlayKeyframe[]): OverlayKeyframe[] {
+  const sorted = [...track].sort((a, b) => a.time - b.time);
+  return sorted.filter((keyframe, index) => sorted[index + 1]?.time !== keyframe.time);
+}
+
+/**
+ * FFmpeg expression for the value of a keyframe track; before the first keyframe the first value holds,
+ * after the last keyframe the last value.
+ * `timeExpression` gives the seconds from the overlay start, e.g. `(t-2.5)`.
+ */
+export function buildKeyframeExpression(track: OverlayKeyframe[], timeExpression: string): string {
+  const keyframes = sortKeyframes(track);
+  const last = keyframes[keyframes.length - 1];
+  if (!last) {
+    return '0';
+  }
+
+  // Nest one if() per segment, innermost is the value after the last keyframe
+  let expression = String(last.value);
+  for (let index = keyframes.length - 2; index >= 0; index--) {
+    const from = keyframes[index] as OverlayKeyframe;
+    const to = keyframes[index + 1] as OverlayKeyframe;
+    const progress = `clip((${timeExpression}-${from.time})/${to.time - from.time},0,1)`;
+
+    let segment: string;
+    if (from.easing === 'hold') {
+      segment = String(from.value);
+    } else if (from.easing === 'ease-in-out') {
+      segment = `${from.value}+${to.value - from.value}*pow(${progress},2)*(3-2*${progress})`;
+    } else {
+      segment = `${from.value}+${to.value - from.value}*${progress}`;
+    }
+
+    expression = `if(lt(${timeExpression},${to.time}),${segment},${expression})`;
+  }
+
+  return expression;
+}
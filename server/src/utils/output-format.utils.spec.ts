@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { getOutputFormatProfile, type EncodingSettings } from './output-format.utils';
+
+const settings: EncodingSettings = { preset: 'medium', crf: '18', audioBitrate: '192k' };
+
+describe('getOutputFormatProfile', () => {
+  it('encodes mp4 with x264 at the CRF, or at the bitrate when one is set', () => {
+    const profile = getOutputFormatProfile('mp4');
+    expect(profile.videoCodecArgs(settings)).toEqual(['-c:v', 'libx264', '-preset', 'medium', '-crf', '18']);
+    expect(profile.videoCodecArgs({ ...settings, videoBitrateKbps: 2500 })).toContain('2500k');
+    expect(profile.audioCodecArgs(settings)).toEqual(['-c:a', 'aac', '-b:a', '192k']);
+  });
+
+  it('maps the CRF onto the VP9 scale for webm and uses constant quality mode', () => {
+    const args = getOutputFormatProfile('webm').videoCodecArgs(settings);
+    expect(args.slice(args.indexOf('-crf'), args.indexOf('-crf') + 4)).toEqual(['-crf', '29', '-b:v', '0']);
+    expect(getOutputFormatProfile('webm').videoCodecArgs({ ...settings, crf: '60' })).toContain('63');
+  });
+
+  it('encodes webm audio at the quality profile bitrate', () => {
+    expect(getOutputFormatProfile('webm').audioCodecArgs(settings)).toEqual(['-c:a', 'libopus', '-b:a', '192k']);
+  });
+
+  it('drops audio from gif and video from the audio-only formats', () => {
+    expect(getOutputFormatProfile('gif')).toMatchObject({ hasVideo: true, hasAudio: false });
+    expect(getOutputFormatProfile('m4a')).toMatchObject({ hasVideo: false, hasAudio: true });
+    expect(getOutputFormatProfile('mp3').audioCodecArgs(settings)).toEqual(['-c:a', 'libmp3lame', '-b:a', '192k']);
+  });
+
+  it('only offers stream copy and target bitrates where the codecs allow them', () => {
+    expect(getOutputFormatProfile('mp4').canStreamCopy).toBe(true);
+    expect(getOutputFormatProfile('mov')).toMatchObject({ canStreamCopy: false, supportsTargetBitrate: false });
+    expect(getOutputFormatProfile('webm').supportsTargetBitrate).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import type { OutputFormat } from '../types';
+
+/**
+ * Output container and codec profiles
+ */
+
+export interface EncodingSettings {
+  preset: string;
+  crf: string;
+  audioBitrate: string;
+  /** Average video bitrate; replaces constant quality (CRF) when set */
+  videoBitrateKbps?: number | undefined;
+}
+
+export interface OutputFormatProfile {
+  extension: string;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  /** Whether segments can be joined with `-c copy` when nothing else requires a transcode */
+  canStreamCopy: boolean;
+  /** Whether the video codec can encode to a target bitrate in two passes */
+  supportsTargetBitrate: boolean;
+  /** Codec of a soft subtitle stream; formats without one can only burn captions in */
+  subtitleCodec?: string | undefined;
+  videoCodecArgs: (settings: EncodingSettings) => string[];
+  audioCodecArgs: (settings: EncodingSettings) => string[];
+  containerArgs: string[];
+}
+
+/**
+ * GIF frame rate and maximum width (height follows the aspect ratio)
+ */
+const GIF_FPS = 12;
+const GIF_WIDTH = 480;
+
+/**
+ * Codec profile for each supported output format
+ */
+export const outputFormatProfiles: Record<OutputFormat, OutputFormatProfile> = {
+  mp4: {
+    extension: 'mp4',
+    hasVideo: true,
+    hasAudio: true,
+    canStreamCopy: true,
+    supportsTargetBitrate: true,
+    videoCodecArgs: ({ preset, crf, videoBitrateKbps }) => [
+      '-c:v', 'libx264',
+      '-preset', preset,
+      ...(videoBitrateKbps !== undefined ? ['-b:v', `${videoBitrateKbps}k`] : ['-crf', crf])
+    ],
+    audioCodecArgs: ({ audioBitrate }) => ['-c:a', 'aac', '-b:a', audioBitrate],
+    containerArgs: ['-movflags', '+faststart'],
+    subtitleCodec: 'mov_text'
+  },
+  webm: {
+    extension: 'webm',
+    hasVideo: true,
+    hasAudio: true,
+    canStreamCopy: false,
+    supportsTargetBitrate: true,
+    // Constant quality mode (-b:v 0) unless a bitrate is set; VP9 CRF runs 0-63, roughly x264 CRF + 11
+    videoCodecArgs: ({ crf, videoBitrateKbps }) => [
+      '-c:v', 'libvpx-vp9',
+      ...(videoBitrateKbps !== undefined
+        ? ['-b:v', `${videoBitrateKbps}k`]
+        : ['-crf', String(Math.min(63, Number(crf) + 11)), '-b:v', '0']),
+      '-deadline', 'good',
+      '-cpu-used', '2',
+      '-row-mt', '1',
+      '-pix_fmt', 'yuv420p'
+    ],
+    audioCodecArgs: ({ audioBitrate }) => ['-c:a', 'libopus', '-b:a', audioBitrate],
+    containerArgs: [],
+    subtitleCodec: 'webvtt'
+  },
+  mov: {
+    extension: 'mov',
+    hasVideo: true,
+    hasAudio: true,
+    canStreamCopy: false,
+    supportsTargetBitrate: false,
+    // ProRes 422 HQ with uncompressed audio for handoff to editing software
+    videoCodecArgs: () => ['-c:v', 'prores_ks', '-profile:v', '3', '-vendor', 'apl0', '-pix_fmt', 'yuv422p10le'],
+    audioCodecArgs: () => ['-c:a', 'pcm_s16le'],
+    containerArgs: []
+  },
+  gif: {
+    extension: 'gif',
+    hasVideo: true,
+    hasAudio: false,
+    canStreamCopy: false,
+    supportsTargetBitrate: false,
+    // Palette filters are added to the filter graph by buildGifPaletteFilter
+    videoCodecArgs: () => ['-c:v', 'gif'],
+    audioCodecArgs: () => [],
+    containerArgs: ['-loop', '0']
+  },
+  m4a: {
+    extension: 'm4a',
+    hasVideo: false,
+    hasAudio: true,
+    canStreamCopy: false,
+    supportsTargetBitrate: false,
+    videoCodecArgs: () => [],
+    audioCodecArgs: ({ audioBitrate }) => ['-c:a', 'aac', '-b:a', audioBitrate],
+    containerArgs: ['-movflags', '+faststart']
+  },
+  mp3: {
+    extension: 'mp3',
+    hasVideo: false,
+    hasAudio: true,
+    canStreamCopy: false,
+    supportsTargetBitrate: false,
+    videoCodecArgs: () => [],
+    audioCodecArgs: ({ audioBitrate }) => ['-c:a', 'libmp3lame', '-b:a', audioBitrate],
+    containerArgs: []
+  }
+};
+
+/**
+ * Get the codec profile of an output format
+ */
+export function getOutputFormatProfile(format: OutputFormat): OutputFormatProfile {
+  return outputFormatProfiles[format];
+}
+
+/**
+ * Build the palette filter chain for GIF output (generates a palette from the clip, then applies it)
+ */
+export function buildGifPaletteFilter(inputStream: string, outputLabel: string): string {
+  return `${inputStream}fps=${GIF_FPS},scale='min(${GIF_WIDTH},iw)':-2:flags=lanczos,split[gifsrc][gifpal];` +
+    `[gifpal]palettegen=stats_mode=diff[gifpalette];` +
+    `[gifsrc][gifpalette]paletteuse=dither=bayer:bayer_scale=5[${outputLabel}]`;
+}
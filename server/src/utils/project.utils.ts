@@ -0,0 +1,230 @@
+import type {
+  AudioSource,
+  CaptionCue,
+  EditorProject,
+  Overlay,
+  RenderCaptions,
+  RenderRequest,
+  SegmentTiming,
+  TimeRange,
+  Transition
+} from '../types';
+import {
+  calculateAdjustedTime,
+  calculateOriginalTime,
+  removeTransitionOverlaps,
+  resolveTransitionOverlaps,
+  segmentsToCuts
+} from './video.utils';
+
+/**
+ * Saved project migration and conversion utilities (mirrors the editor's project.utils)
+ */
+
+/**
+ * Version written by the current editor. Bump it together with a new entry in `projectMigrations`.
+ */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+type ProjectDocument = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns the document at the next version.
+ * The editor migrates files it opens with a twin of these (src/app/video-editor/utils/project.utils.ts):
+ * change both together, project.utils.spec.ts on each side checks the same v0 document.
+ */
+const projectMigrations: Record<number, (document: ProjectDocument) => ProjectDocument> = {
+  0: migrateLegacyRenderPayload
+};
+
+/**
+ * Upgrade a project document to the current schema version.
+ * The result still needs to be validated with projectSchema.
+ * @throws Error when the document is not an object or was written by a newer version
+ */
+export function migrateProject(raw: unknown): ProjectDocument {
+  if (!isRecord(raw)) {
+    throw new Error('Project must be a JSON object');
+  }
+
+  // Documents without a version are render payloads saved before projects existed
+  let document: ProjectDocument = raw;
+  let version = typeof raw['schemaVersion'] === 'number' ? raw['schemaVersion'] : 0;
+
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project schema version ${version} is newer than supported version ${PROJECT_SCHEMA_VERSION}`);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = projectMigrations[version];
+    if (!migrate) {
+      throw new Error(`Cannot migrate project from schema version ${version}`);
+    }
+    document = migrate(document);
+    version = document['schemaVersion'] as number;
+  }
+
+  return document;
+}
+
+/**
+ * Build the render request for a project, the same way the editor does before POST /api/render:
+ * keep-mode segments become cuts (their speed and effect become segment timing), and overlay/audio/caption times
+ * are shifted onto the output timeline.
+ */
+export function projectToRenderRequest(project: EditorProject): RenderRequest {
+  const { timeline, audio, output } = project;
+  const cuts: TimeRange[] = timeline.mode === 'keep'
+    ? segmentsToCuts(timeline.segments, timeline.trimStart, timeline.trimEnd)
+    : timeline.cuts;
+  // Only keep-mode segments carry a playback rate
+  const segmentTiming: SegmentTiming[] = timeline.mode === 'keep'
+    ? timeline.segments
+      .filter(segment => (segment.speed ?? 1) !== 1 || segment.freezeDuration !== undefined || segment.effect !== undefined)
+      .map(({ start, end, speed, freezeDuration, effect }) => ({ start, end, speed: speed ?? 1, freezeDuration, effect }))
+    : [];
+
+  // Transitions are placed on the rendered video, which starts at trimStart. They overlap the clips at their
+  // joints, so everything after one moves earlier by its length; overlay and audio times are not offset by trimStart.
+  const outputStart = calculateAdjustedTime(timeline.trimStart, cuts, segmentTiming);
+  const joinedDuration = calculateAdjustedTime(timeline.trimEnd, cuts, segmentTiming) - outputStart;
+  const transitions: Transition[] = resolveTransitionOverlaps(
+    (timeline.transitions ?? []).map(transition => ({
+      ...transition,
+      time: calculateAdjustedTime(transition.time, cuts, segmentTiming) - outputStart
+    })),
+    joinedDuration
+  );
+  const toOutputTime = (time: number): number =>
+    removeTransitionOverlaps(calculateAdjustedTime(time, cuts, segmentTiming) - outputStart, transitions);
+
+  const overlays: Overlay[] = project.overlays.map(overlay => ({
+    ...overlay,
+    start: toOutputTime(overlay.start) + outputStart,
+    end: toOutputTime(overlay.end) + outputStart
+  }));
+
+  const audioSources: AudioSource[] = audio.tracks
+    .map(track => {
+      const startTime = toOutputTime(track.startTime) + outputStart;
+      const endTime = toOutputTime(track.startTime + track.duration) + outputStart;
+      return {
+        url: track.url,
+        startTime,
+        duration: Math.max(0, endTime - startTime),
+        originalDuration: track.originalDuration,
+        audioTrimStart: track.audioTrimStart,
+        audioTrimEnd: track.audioTrimEnd,
+        volume: track.volume,
+        muted: track.muted
+      };
+    })
+    .filter(track => track.duration > 0); // Audio entirely inside cuts has nothing to play
+
+  // Captions are timed like transitions; cues cut away entirely are dropped
+  let captions: RenderCaptions | undefined;
+  if (output.captions && project.captions && project.captions.cues.length > 0) {
+    const outputEnd = toOutputTime(timeline.trimEnd);
+    const cues: CaptionCue[] = project.captions.cues
+      .map(cue => ({
+        start: Math.max(0, toOutputTime(cue.start)),
+        end: Math.min(outputEnd, toOutputTime(cue.end)),
+        text: cue.text
+      }))
+      .filter(cue => cue.end > cue.start);
+    captions = { ...output.captions, cues };
+  }
+
+  return {
+    sources: project.sources.map(source => ({
+      url: source.url,
+      type: source.type,
+      duration: source.type === 'image' ? source.duration : undefined,
+      color: source.color,
+      transform: source.transform
+    })),
+    trimStart: timeline.trimStart,
+    trimEnd: timeline.trimEnd,
+    cuts: cuts.map(({ start, end }) => ({ start, end })),
+    segmentTiming,
+    overlays,
+    transitions,
+    audioSources,
+    audioMixMode: audio.mixMode,
+    format: output.format,
+    canvas: output.canvas,
+    quality: output.quality,
+    captions
+  };
+}
+
+/**
+ * v0 -> v1: the JSON body of POST /api/render. Overlay and audio times in it were already shifted
+ * for the cuts, so they are mapped back to the original timeline.
+ */
+function migrateLegacyRenderPayload(document: ProjectDocument): ProjectDocument {
+  const cuts = asArray(document['cuts']).filter(isRecord).map(cut => ({
+    start: Number(cut['start']),
+    end: Number(cut['end'])
+  }));
+
+  const overlays = asArray(document['overlays']).filter(isRecord).map(overlay => ({
+    ...overlay,
+    start: calculateOriginalTime(Number(overlay['start']), cuts),
+    end: calculateOriginalTime(Number(overlay['end']), cuts)
+  }));
+
+  const tracks = asArray(document['audioSources']).filter(isRecord).map(audio => {
+    const duration = Number(audio['duration']);
+    const originalDuration = Number(audio['originalDuration'] ?? duration);
+    return {
+      url: audio['url'],
+      startTime: calculateOriginalTime(Number(audio['startTime']), cuts),
+      duration,
+      originalDuration,
+      audioTrimStart: Number(audio['audioTrimStart'] ?? 0),
+      audioTrimEnd: Number(audio['audioTrimEnd'] ?? originalDuration),
+      volume: Number(audio['volume'] ?? 1),
+      muted: Boolean(audio['muted'])
+    };
+  });
+
+  // Single-source payloads could send only the legacy sourceUrl field
+  const sources = [...asArray(document['sources'])];
+  if (sources.length === 0 && typeof document['sourceUrl'] === 'string') {
+    sources.push({ url: document['sourceUrl'], type: 'video' });
+  }
+
+  return {
+    schemaVersion: 1,
+    name: 'Imported render',
+    savedAt: new Date().toISOString(),
+    sources,
+    timeline: {
+      mode: 'cut',
+      trimStart: document['trimStart'] ?? 0,
+      trimEnd: document['trimEnd'],
+      cuts,
+      segments: []
+    },
+    overlays,
+    audio: {
+      tracks,
+      mixMode: document['audioMixMode'] === 'replace' ? 'replace' : 'mix',
+      masterVolume: 1
+    },
+    output: {
+      format: document['format'],
+      canvas: document['canvas'],
+      quality: document['quality']
+    }
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
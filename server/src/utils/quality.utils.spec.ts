@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getIntermediateEncoding,
+  getTargetVideoBitrateKbps,
+  parseBitrateKbps,
+  resolveQualityOptions
+} from './quality.utils';
+
+describe('getTargetVideoBitrateKbps', () => {
+  it('uses the requested bitrate as is', () => {
+    expect(getTargetVideoBitrateKbps({ profile: 'target', targetBitrateKbps: 2500 }, 60, 192)).toBe(2500);
+  });
+
+  it('spreads a file size budget over the duration, minus headroom and the audio bitrate', () => {
+    // 10 MB over 80 s is 1024 kbit/s; 95% of it is 972.8, of which 128 goes to the audio
+    expect(getTargetVideoBitrateKbps({ profile: 'target', maxFileSizeMb: 10 }, 80, 128)).toBe(844);
+  });
+
+  it('takes the lower of the bitrate and the size budget', () => {
+    expect(getTargetVideoBitrateKbps({ profile: 'target', targetBitrateKbps: 500, maxFileSizeMb: 10 }, 80, 128)).toBe(500);
+    expect(getTargetVideoBitrateKbps({ profile: 'target', targetBitrateKbps: 5000, maxFileSizeMb: 10 }, 80, 128)).toBe(844);
+  });
+
+  it('never goes below the minimum bitrate', () => {
+    expect(getTargetVideoBitrateKbps({ profile: 'target', maxFileSizeMb: 1 }, 600, 192)).toBe(100);
+  });
+
+  it('returns undefined without a limit or without a duration to spread a budget over', () => {
+    expect(getTargetVideoBitrateKbps({ profile: 'target' }, 60, 192)).toBeUndefined();
+    expect(getTargetVideoBitrateKbps({ profile: 'target', maxFileSizeMb: 10 }, 0, 192)).toBeUndefined();
+  });
+});
+
+describe('parseBitrateKbps', () => {
+  it('reads kilobit, megabit and plain bit rates', () => {
+    expect(parseBitrateKbps('192k')).toBe(192);
+    expect(parseBitrateKbps('1.5M')).toBe(1500);
+    expect(parseBitrateKbps('64000')).toBe(64);
+  });
+
+  it('returns 0 for values it cannot read', () => {
+    expect(parseBitrateKbps('fast')).toBe(0);
+  });
+});
+
+describe('resolveQualityOptions', () => {
+  it('defaults to high for MPD sources and standard otherwise', () => {
+    expect(resolveQualityOptions(undefined, true)).toEqual({ profile: 'high' });
+    expect(resolveQualityOptions(undefined, false)).toEqual({ profile: 'standard' });
+    expect(resolveQualityOptions({ profile: 'draft' }, true)).toEqual({ profile: 'draft' });
+  });
+});
+
+describe('getIntermediateEncoding', () => {
+  it('uses the intermediate settings of profiles that have them', () => {
+    expect(getIntermediateEncoding({ profile: 'draft' }, false)).toEqual({ preset: 'veryfast', crf: '23' });
+    expect(getIntermediateEncoding({ profile: 'archival' }, true)).toEqual({ preset: 'slow', crf: '10' });
+  });
+});
@@ -0,0 +1,128 @@
+import { serverConfig, mpdConfig } from './config.utils';
+import type { QualityOptions, QualityProfileName } from '../types';
+
+/**
+ * Named quality profiles for intermediate and final encodes
+ */
+
+export interface QualityProfile {
+  preset: string;
+  crf: string;
+  audioBitrate: string;
+  /** Preset and CRF for MPD transcodes and mixed-source concatenation; MPD config when omitted */
+  intermediate?: { preset: string; crf: string } | undefined;
+}
+
+/**
+ * Share of the video bitrate budget actually requested, leaving room for container overhead
+ */
+const FILE_SIZE_HEADROOM = 0.95;
+
+/**
+ * Lowest video bitrate a size budget may resolve to
+ */
+const MIN_TARGET_BITRATE_KBPS = 100;
+
+/**
+ * Settings of each profile. 'standard' follows the FFMPEG_* environment variables;
+ * 'target' uses its CRF only for intermediate encodes, the final encode is two-pass ABR.
+ */
+export const qualityProfiles: Record<QualityProfileName, QualityProfile> = {
+  draft: {
+    preset: 'ultrafast',
+    crf: '28',
+    audioBitrate: '128k',
+    intermediate: { preset: 'veryfast', crf: '23' }
+  },
+  standard: {
+    preset: serverConfig.transcodePreset,
+    crf: serverConfig.transcodeCrf,
+    audioBitrate: serverConfig.transcodeAudioBitrate
+  },
+  high: {
+    preset: 'medium',
+    crf: '18',
+    audioBitrate: '192k'
+  },
+  archival: {
+    preset: 'slow',
+    crf: '14',
+    audioBitrate: '320k',
+    intermediate: { preset: 'slow', crf: '10' }
+  },
+  target: {
+    preset: 'medium',
+    crf: '18',
+    audioBitrate: '192k'
+  }
+};
+
+/**
+ * Quality used when the request does not pick one: 'high' for MPD sources, 'standard' otherwise
+ */
+export function resolveQualityOptions(quality: QualityOptions | undefined, hasMpdSource: boolean): QualityOptions {
+  return quality ?? { profile: hasMpdSource ? 'high' : 'standard' };
+}
+
+/**
+ * Get the settings of a quality profile
+ */
+export function getQualityProfile(name: QualityProfileName): QualityProfile {
+  return qualityProfiles[name];
+}
+
+/**
+ * Preset and CRF for intermediate encodes of MPD content
+ */
+export function getIntermediateEncoding(
+  quality: QualityOptions,
+  isMultiSource: boolean
+): { preset: string; crf: string } {
+  const { intermediate } = getQualityProfile(quality.profile);
+  if (intermediate) {
+    return intermediate;
+  }
+  // Sources that get re-encoded again after concatenation start from a higher quality
+  return {
+    preset: mpdConfig.transcodePreset,
+    crf: isMultiSource ? mpdConfig.transcodeCrfMulti : mpdConfig.transcodeCrfSingle
+  };
+}
+
+/**
+ * Average video bitrate for the 'target' profile. With a file size budget, the audio bitrate
+ * is subtracted from the budget spread over the duration; the lower of both limits wins.
+ */
+export function getTargetVideoBitrateKbps(
+  quality: QualityOptions,
+  durationSeconds: number,
+  audioBitrateKbps: number
+): number | undefined {
+  const limits: number[] = [];
+  if (quality.targetBitrateKbps !== undefined) {
+    limits.push(quality.targetBitrateKbps);
+  }
+  if (quality.maxFileSizeMb !== undefined && durationSeconds > 0) {
+    const totalKbps = (quality.maxFileSizeMb * 8 * 1024) / durationSeconds;
+    limits.push(totalKbps * FILE_SIZE_HEADROOM - audioBitrateKbps);
+  }
+  if (limits.length === 0) {
+    return undefined;
+  }
+  return Math.max(MIN_TARGET_BITRATE_KBPS, Math.floor(Math.min(...limits)));
+}
+
+/**
+ * Parse an FFmpeg bitrate such as '192k' into kbit/s
+ */
+export function parseBitrateKbps(bitrate: string): number {
+  const match = bitrate.trim().match(/^(\d+(?:\.\d+)?)([kKmM])?$/);
+  if (!match) {
+    return 0;
+  }
+  const value = Number(match[1]);
+  const unit = match[2]?.toLowerCase();
+  if (unit === 'm') return value * 1000;
+  if (unit === 'k') return value;
+  return value / 1000;
+}
@@ -0,0 +1,267 @@
+import path from 'path';
+import { Worker } from 'worker_threads';
+import zlib from 'zlib';
+import type { Overlay, ShapeOverlay, ShapePoint } from '../types';
+
+/**
+ * Shape rasterizing - shapes drawbox can't draw become transparent PNGs that are overlaid like images.
+ * The geometry matches the editor's SVG preview.
+ */
+
+/**
+ * Samples per pixel along each axis, for anti-aliased edges
+ */
+const SUPERSAMPLING = 4;
+
+/**
+ * Largest raster in pixels; bigger shapes are rasterized smaller and scaled up by FFmpeg
+ */
+const MAX_RASTER_PIXELS = 1024 * 1024;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Default points of lines, arrows and polygons (percentages of the shape box)
+ */
+const DEFAULT_POINTS: Partial<Record<ShapeOverlay['shapeType'], ShapePoint[]>> = {
+  line: [{ x: 0, y: 50 }, { x: 100, y: 50 }],
+  arrow: [{ x: 0, y: 50 }, { x: 100, y: 50 }],
+  polygon: [{ x: 50, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }]
+};
+
+/**
+ * Check whether a shape is rasterized (drawbox still draws plain rectangles)
+ */
+export function isRasterizedShape(overlay: Overlay): overlay is ShapeOverlay {
+  return overlay.type === 'shape' && overlay.shapeType !== 'rectangle';
+}
+
+/**
+ * Shape points in pixels, inset by half the stroke so round ends and joins stay inside the box
+ */
+function getShapePoints(shape: ShapeOverlay, width: number, height: number, inset: number): Point[] {
+  const points = shape.points && shape.points.length > 0 ? shape.points : DEFAULT_POINTS[shape.shapeType] ?? [];
+  return points.map(point => ({
+    x: inset + (point.x / 100) * Math.max(0, width - inset * 2),
+    y: inset + (point.y / 100) * Math.max(0, height - inset * 2)
+  }));
+}
+
+/**
+ * Distance from a point to a line segment
+ */
+function distanceToSegment(x: number, y: number, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, ((x - a.x) * dx + (y - a.y) * dy) / lengthSquared));
+  return Math.hypot(x - (a.x + t * dx), y - (a.y + t * dy));
+}
+
+/**
+ * Even-odd point in polygon test
+ */
+function isInsidePolygon(x: number, y: number, points: Point[]): boolean {
+  let inside = false;
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i] as Point;
+    const b = points[j] as Point;
+    if ((a.y > y) !== (b.y > y) && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Point in rounded rectangle test
+ */
+function isInsideRoundedRect(x: number, y: number, left: number, top: number, right: number, bottom: number, radius: number): boolean {
+  if (x < left || x > right || y < top || y > bottom) {
+    return false;
+  }
+  const cornerX = Math.min(Math.max(x, left + radius), right - radius);
+  const cornerY = Math.min(Math.max(y, top + radius), bottom - radius);
+  return Math.hypot(x - cornerX, y - cornerY) <= radius;
+}
+
+/**
+ * Arrow head size for a stroke width, at most half the arrow's length
+ */
+function getArrowHeadLength(strokeWidth: number, arrowLength: number): number {
+  return Math.min(strokeWidth * 3 + 10, arrowLength / 2);
+}
+
+/**
+ * Coverage test of a shape drawn in a width x height box with the given stroke width (all in pixels).
+ * Rectangles, rounded rectangles and ellipses stroke inside their box like drawbox;
+ * lines, arrows and polygon outlines are centred on their points with round ends and joins.
+ */
+function buildShapeTest(shape: ShapeOverlay, width: number, height: number, stroke: number): (x: number, y: number) => boolean {
+  const fill = shape.fill ?? false;
+  const halfStroke = stroke / 2;
+
+  switch (shape.shapeType) {
+    case 'ellipse': {
+      const inEllipse = (x: number, y: number, radiusX: number, radiusY: number): boolean =>
+        radiusX > 0 && radiusY > 0 && ((x - width / 2) / radiusX) ** 2 + ((y - height / 2) / radiusY) ** 2 <= 1;
+      return (x, y) => inEllipse(x, y, width / 2, height / 2) && (fill || !inEllipse(x, y, width / 2 - stroke, height / 2 - stroke));
+    }
+    case 'line':
+    case 'arrow': {
+      const [start, end] = getShapePoints(shape, width, height, halfStroke) as [Point, Point];
+      if (shape.shapeType === 'line') {
+        return (x, y) => distanceToSegment(x, y, start, end) <= halfStroke;
+      }
+      // The shaft stops inside the head so the tip stays sharp
+      const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+      const headLength = getArrowHeadLength(stroke, length);
+      const unitX = (end.x - start.x) / length;
+      const unitY = (end.y - start.y) / length;
+      const base = { x: end.x - unitX * headLength, y: end.y - unitY * headLength };
+      const shaftEnd = { x: end.x - unitX * headLength * 0.5, y: end.y - unitY * headLength * 0.5 };
+      const head = [
+        end,
+        { x: base.x - unitY * headLength * 0.6, y: base.y + unitX * headLength * 0.6 },
+        { x: base.x + unitY * headLength * 0.6, y: base.y - unitX * headLength * 0.6 }
+      ];
+      return (x, y) => distanceToSegment(x, y, start, shaftEnd) <= halfStroke || isInsidePolygon(x, y, head);
+    }
+    case 'polygon': {
+      const points = getShapePoints(shape, width, height, fill ? 0 : halfStroke);
+      if (fill) {
+        return (x, y) => isInsidePolygon(x, y, points);
+      }
+      return (x, y) => points.some((point, index) =>
+        distanceToSegment(x, y, point, points[(index + 1) % points.length] as Point) <= halfStroke);
+    }
+    default: {
+      const radius = shape.shapeType === 'rounded-rectangle'
+        ? Math.min(shape.cornerRadius ?? 20, width / 2, height / 2)
+        : 0;
+      const innerRadius = Math.max(0, radius - stroke);
+      return (x, y) => isInsideRoundedRect(x, y, 0, 0, width, height, radius) &&
+        (fill || !isInsideRoundedRect(x, y, stroke, stroke, width - stroke, height - stroke, innerRadius));
+    }
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 of a PNG chunk's type and data
+ */
+function crc32(data: Buffer): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = (crcTable[(crc ^ byte) & 0xff] as number) ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode RGBA pixels as a PNG file
+ */
+function encodePng(width: number, height: number, rgba: Buffer): Buffer {
+  const chunk = (type: string, data: Buffer): Buffer => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    return Buffer.concat([length, body, crc]);
+  };
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // Bit depth
+  header[9] = 6; // RGBA
+
+  // Every row starts with filter type 0 (none)
+  const rows = Buffer.alloc((width * 4 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    rgba.copy(rows, y * (width * 4 + 1) + 1, y * width * 4, (y + 1) * width * 4);
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Rasterize a shape to a transparent PNG of its box (width/height, default 200) times `scale`
+ */
+export function rasterizeShape(shape: ShapeOverlay, scale: number): Buffer {
+  const baseWidth = shape.width || 200;
+  const baseHeight = shape.height || 200;
+  const factor = Math.min(scale, Math.sqrt(MAX_RASTER_PIXELS / (baseWidth * baseHeight)));
+  const width = Math.max(1, Math.round(baseWidth * factor));
+  const height = Math.max(1, Math.round(baseHeight * factor));
+  const isCovered = buildShapeTest(shape, width, height, (shape.strokeWidth || 3) * factor);
+
+  const hex = /^#?[0-9A-Fa-f]{6}$/.test(shape.color ?? '') ? (shape.color as string).replace(/^#/, '') : 'FF0000';
+  const red = parseInt(hex.substring(0, 2), 16);
+  const green = parseInt(hex.substring(2, 4), 16);
+  const blue = parseInt(hex.substring(4, 6), 16);
+
+  const rgba = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let covered = 0;
+      for (let sampleY = 0; sampleY < SUPERSAMPLING; sampleY++) {
+        for (let sampleX = 0; sampleX < SUPERSAMPLING; sampleX++) {
+          if (isCovered(x + (sampleX + 0.5) / SUPERSAMPLING, y + (sampleY + 0.5) / SUPERSAMPLING)) {
+            covered++;
+          }
+        }
+      }
+      const offset = (y * width + x) * 4;
+      rgba[offset] = red;
+      rgba[offset + 1] = green;
+      rgba[offset + 2] = blue;
+      rgba[offset + 3] = Math.round((covered / (SUPERSAMPLING * SUPERSAMPLING)) * 255);
+    }
+  }
+
+  return encodePng(width, height, rgba);
+}
+
+/**
+ * Rasterize a shape on a worker thread, so large shapes don't block the event loop
+ * (and with it other requests and the progress of running renders)
+ */
+export function rasterizeShapeInWorker(shape: ShapeOverlay, scale: number): Promise<Buffer> {
+  // Under ts-node the worker is a .ts file too and needs the same loader
+  const isTypeScript = path.extname(__filename) === '.ts';
+  const worker = new Worker(path.join(__dirname, `shape.worker${path.extname(__filename)}`), {
+    workerData: { shape, scale },
+    execArgv: isTypeScript ? ['--require', 'ts-node/register/transpile-only'] : []
+  });
+
+  return new Promise((resolve, reject) => {
+    worker.once('message', (png: Uint8Array) => resolve(Buffer.from(png)));
+    worker.once('error', reject);
+    worker.once('exit', code => {
+      if (code !== 0) {
+        reject(new Error(`Shape worker stopped with exit code ${code}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,10 @@
+import { parentPort, workerData } from 'worker_threads';
+import type { ShapeOverlay } from '../types';
+import { rasterizeShape } from './shape.utils';
+
+/**
+ * Worker thread entry of rasterizeShapeInWorker: rasterizes one shape and posts the PNG back
+ */
+
+const { shape, scale } = workerData as { shape: ShapeOverlay; scale: number };
+parentPort?.postMessage(rasterizeShape(shape, scale));
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applySegmentTiming,
+  calculateAdjustedTime,
+  getSegmentOutputDuration,
+  removeTransitionOverlaps,
+  resolveTransitionOverlaps
+} from './video.utils';
+
+describe('applySegmentTiming', () => {
+  it('splits the keep segments at the edges of timed ranges', () => {
+    expect(applySegmentTiming([{ start: 0, end: 10 }], [{ start: 2, end: 4, speed: 2 }])).toEqual([
+      { start: 0, end: 2, speed: 1 },
+      { start: 2, end: 4, speed: 2 },
+      { start: 4, end: 10, speed: 1 }
+    ]);
+  });
+
+  it('shares a freeze frame split by a cut between its kept parts', () => {
+    const timing = [{ start: 2, end: 6, speed: 1, freezeDuration: 4 }];
+    expect(applySegmentTiming([{ start: 0, end: 3 }, { start: 5, end: 10 }], timing)).toEqual([
+      { start: 0, end: 2, speed: 1 },
+      { start: 2, end: 3, speed: 1, freezeDuration: 2 },
+      { start: 5, end: 6, speed: 1, freezeDuration: 2 },
+      { start: 6, end: 10, speed: 1 }
+    ]);
+  });
+
+  it('keeps the effect of a timed range', () => {
+    expect(applySegmentTiming([{ start: 0, end: 4 }], [{ start: 1, end: 2, speed: 1, effect: 'reverse' }])).toEqual([
+      { start: 0, end: 1, speed: 1 },
+      { start: 1, end: 2, speed: 1, effect: 'reverse' },
+      { start: 2, end: 4, speed: 1 }
+    ]);
+  });
+
+  it('leaves segments without timed ranges at 1x', () => {
+    expect(applySegmentTiming([{ start: 1, end: 3 }], [])).toEqual([{ start: 1, end: 3, speed: 1 }]);
+  });
+});
+
+describe('calculateAdjustedTime', () => {
+  it('removes the cuts before a time and snaps times inside a cut to its start', () => {
+    expect(calculateAdjustedTime(8, [{ start: 4, end: 6 }])).toBe(6);
+    expect(calculateAdjustedTime(5, [{ start: 4, end: 6 }])).toBe(4);
+  });
+
+  it('applies the playback rate of the ranges before a time', () => {
+    const timing = [{ start: 0, end: 2, speed: 2 }];
+    expect(calculateAdjustedTime(1, [], timing)).toBe(0.5);
+    expect(calculateAdjustedTime(8, [{ start: 4, end: 6 }], timing)).toBe(5);
+  });
+
+  it('stretches the range of a freeze frame over its hold', () => {
+    const timing = [{ start: 2, end: 3, speed: 1, freezeDuration: 3 }];
+    expect(calculateAdjustedTime(2.5, [], timing)).toBe(3.5);
+    expect(calculateAdjustedTime(5, [], timing)).toBe(7);
+  });
+
+  it('counts a boomerang range twice and a reversed range once', () => {
+    expect(calculateAdjustedTime(5, [], [{ start: 0, end: 2, speed: 1, effect: 'boomerang' }])).toBe(7);
+    expect(calculateAdjustedTime(1, [], [{ start: 0, end: 2, speed: 2, effect: 'boomerang' }])).toBe(1);
+    expect(calculateAdjustedTime(5, [], [{ start: 0, end: 2, speed: 1, effect: 'reverse' }])).toBe(5);
+  });
+});
+
+describe('getSegmentOutputDuration', () => {
+  it('divides the length by the speed, or uses the freeze duration', () => {
+    expect(getSegmentOutputDuration({ start: 0, end: 4, speed: 2 })).toBe(2);
+    expect(getSegmentOutputDuration({ start: 0, end: 4, speed: 0.5 })).toBe(8);
+    expect(getSegmentOutputDuration({ start: 0, end: 4, speed: 1, freezeDuration: 3 })).toBe(3);
+  });
+
+  it('doubles the length of a boomerang', () => {
+    expect(getSegmentOutputDuration({ start: 0, end: 4, speed: 2, effect: 'boomerang' })).toBe(4);
+    expect(getSegmentOutputDuration({ start: 0, end: 4, speed: 1, effect: 'reverse' })).toBe(4);
+  });
+});
+
+describe('resolveTransitionOverlaps', () => {
+  it('keeps transitions that fit and sorts them by time', () => {
+    expect(resolveTransitionOverlaps([{ time: 6, duration: 1 }, { time: 3, duration: 1 }], 10)).toEqual([
+      { time: 3, duration: 1 },
+      { time: 6, duration: 1 }
+    ]);
+  });
+
+  it('shortens a transition to the clips on either side of its joint', () => {
+    expect(resolveTransitionOverlaps([{ time: 0.5, duration: 2 }], 10)).toEqual([{ time: 0.5, duration: 0.5 }]);
+    expect(resolveTransitionOverlaps([{ time: 9, duration: 2 }], 10)).toEqual([{ time: 9, duration: 1 }]);
+  });
+
+  it('leaves each clip the frames for the crossfades at both of its ends', () => {
+    // The clip between the joints is 2 s long: each transition gets at most half of it
+    expect(resolveTransitionOverlaps([{ time: 4, duration: 3 }, { time: 6, duration: 3 }], 10)).toEqual([
+      { time: 4, duration: 1 },
+      { time: 6, duration: 1 }
+    ]);
+  });
+
+  it('drops transitions outside the video or too short to render', () => {
+    expect(resolveTransitionOverlaps([{ time: 0, duration: 1 }, { time: 10, duration: 1 }], 10)).toEqual([]);
+    expect(resolveTransitionOverlaps([{ time: 0.05, duration: 1 }], 10)).toEqual([]);
+  });
+
+  it('keeps the other fields of a transition', () => {
+    expect(resolveTransitionOverlaps([{ time: 5, duration: 1, type: 'wipe' }], 10)).toEqual([
+      { time: 5, duration: 1, type: 'wipe' }
+    ]);
+  });
+});
+
+describe('removeTransitionOverlaps', () => {
+  const overlaps = [{ time: 3, duration: 1 }, { time: 6, duration: 0.5 }];
+
+  it('moves times after each joint earlier by its overlap', () => {
+    expect(removeTransitionOverlaps(2, overlaps)).toBe(2);
+    expect(removeTransitionOverlaps(3, overlaps)).toBe(2);
+    expect(removeTransitionOverlaps(5, overlaps)).toBe(4);
+    expect(removeTransitionOverlaps(10, overlaps)).toBe(8.5);
+  });
+});
@@ -1,6 +1,6 @@
 import { probeMpdMetadata } from './ffmpeg.utils';
 import { mpdConfig } from './config.utils';
-import type { TimeRange } from '../types';
+import type { SegmentTiming, TimeRange } from '../types';
 
 /**
  * Video metadata and validation utilities
@@ -71,6 +71,51 @@ export function calculateKeepSegments(
   return segments;
 }
 
+/**
+ * Split the keep segments at the edges of the timed ranges and give every part its playback rate.
+ * A freeze frame split by a cut holds each part for its share of the freeze duration.
+ */
+export function applySegmentTiming(keepSegments: TimeRange[], timing: SegmentTiming[]): SegmentTiming[] {
+  const keptLength = (range: TimeRange): number => keepSegments.reduce(
+    (sum, segment) => sum + Math.max(0, Math.min(segment.end, range.end) - Math.max(segment.start, range.start)),
+    0
+  );
+
+  return keepSegments.flatMap(segment => {
+    const edges = timing
+      .flatMap(range => [range.start, range.end])
+      .filter(time => time > segment.start && time < segment.end);
+    const points = [segment.start, ...[...new Set(edges)].sort((a, b) => a - b), segment.end];
+
+    return points.slice(1).map((end, index) => {
+      const start = points[index]!;
+      const range = timing.find(r => start >= r.start && end <= r.end);
+      if (!range) {
+        return { start, end, speed: 1 };
+      }
+      if (range.freezeDuration !== undefined) {
+        return { start, end, speed: 1, freezeDuration: (range.freezeDuration * (end - start)) / keptLength(range) };
+      }
+      return { start, end, speed: range.speed, effect: range.effect };
+    });
+  });
+}
+
+/**
+ * Length of a segment in the output
+ */
+export function getSegmentOutputDuration(segment: SegmentTiming): number {
+  const plays = segment.effect === 'boomerang' ? 2 : 1;
+  return segment.freezeDuration ?? ((segment.end - segment.start) * plays) / segment.speed;
+}
+
+/**
+ * Whether a segment plays at a rate other than 1x, is a freeze frame or has an effect
+ */
+export function isTimedSegment(segment: SegmentTiming): boolean {
+  return segment.speed !== 1 || segment.freezeDuration !== undefined || segment.effect !== undefined;
+}
+
 /**
  * Format seconds as HH:MM:SS.mmm
  */
@@ -81,3 +126,139 @@ export function formatTimestamp(seconds: number): string {
   return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toFixed(3).padStart(6, '0')}`;
 }
 
+
+/**
+ * Map a time on the source timeline to the output timeline by removing the cuts before it
+ * (a time inside a cut snaps to the cut start) and applying the playback rate of the timed
+ * ranges before it. A time inside a freeze frame or boomerang maps proportionally into it.
+ */
+export function calculateAdjustedTime(originalTime: number, cuts: TimeRange[], timing: SegmentTiming[] = []): number {
+  let adjustedTime = removeCutTime(originalTime, cuts);
+
+  for (const range of timing) {
+    if (originalTime <= range.start) {
+      continue;
+    }
+    const kept = removeCutTime(Math.min(originalTime, range.end), cuts) - removeCutTime(range.start, cuts);
+    if (range.freezeDuration !== undefined) {
+      const rangeKept = removeCutTime(range.end, cuts) - removeCutTime(range.start, cuts);
+      adjustedTime += rangeKept > 0 ? (kept / rangeKept) * range.freezeDuration - kept : 0;
+    } else {
+      // A boomerang plays its range twice
+      const plays = range.effect === 'boomerang' ? 2 : 1;
+      adjustedTime += (kept * plays) / range.speed - kept;
+    }
+  }
+
+  return adjustedTime;
+}
+
+/**
+ * Shift a source time left by the cuts before it (a time inside a cut snaps to the cut start)
+ */
+function removeCutTime(originalTime: number, cuts: TimeRange[]): number {
+  let adjustment = 0;
+
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    if (originalTime <= cut.start) {
+      break;
+    }
+    if (originalTime < cut.end) {
+      return cut.start - adjustment;
+    }
+    adjustment += cut.end - cut.start;
+  }
+
+  return originalTime - adjustment;
+}
+
+/**
+ * Shortest transition that is still rendered (seconds)
+ */
+export const MIN_TRANSITION_SECONDS = 0.1;
+
+/**
+ * Crossfade lengths of transitions at joints of the joined video (`totalDuration` long). A crossfade overlaps
+ * the last `duration` seconds of the outgoing clip with the first of the incoming one, so each clip needs the
+ * frames of the crossfades at both of its ends: durations are shortened to fit and too short ones are dropped.
+ * @returns The transitions that are rendered, sorted by time, with their effective duration
+ */
+export function resolveTransitionOverlaps<T extends { time: number; duration: number }>(
+  transitions: T[],
+  totalDuration: number
+): T[] {
+  const sorted = [...transitions]
+    .filter(transition => transition.time > 0 && transition.time < totalDuration)
+    .sort((a, b) => a.time - b.time);
+
+  const resolved: T[] = [];
+  let previousEnd = 0; // The previous crossfade uses the incoming clip until here
+
+  sorted.forEach((transition, index) => {
+    const next = sorted[index + 1];
+    const duration = Math.min(
+      transition.duration,
+      transition.time - previousEnd,
+      totalDuration - transition.time,
+      next ? (next.time - transition.time) / 2 : Infinity
+    );
+
+    if (duration < MIN_TRANSITION_SECONDS) {
+      return;
+    }
+
+    resolved.push({ ...transition, duration });
+    previousEnd = transition.time + duration;
+  });
+
+  return resolved;
+}
+
+/**
+ * Map a time on the joined video to the output, which loses the overlap of every crossfade at or before it
+ * @param overlaps Transitions as returned by resolveTransitionOverlaps
+ */
+export function removeTransitionOverlaps(time: number, overlaps: { time: number; duration: number }[]): number {
+  return overlaps.reduce((shifted, overlap) => (overlap.time <= time ? shifted - overlap.duration : shifted), time);
+}
+
+/**
+ * Inverse of calculateAdjustedTime without timing: map an output time back to the source timeline
+ */
+export function calculateOriginalTime(adjustedTime: number, cuts: TimeRange[]): number {
+  let originalTime = adjustedTime;
+
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    if (originalTime < cut.start) {
+      break;
+    }
+    originalTime += cut.end - cut.start;
+  }
+
+  return originalTime;
+}
+
+/**
+ * Convert segments to keep into the cuts between them within the trim range
+ */
+export function segmentsToCuts(segments: TimeRange[], trimStart: number, trimEnd: number): TimeRange[] {
+  if (segments.length === 0) {
+    return [{ start: trimStart, end: trimEnd }];
+  }
+
+  const cuts: TimeRange[] = [];
+  let currentPos = trimStart;
+
+  for (const segment of [...segments].sort((a, b) => a.start - b.start)) {
+    if (currentPos < segment.start) {
+      cuts.push({ start: currentPos, end: segment.start });
+    }
+    currentPos = segment.end;
+  }
+
+  if (currentPos < trimEnd) {
+    cuts.push({ start: currentPos, end: trimEnd });
+  }
+
+  return cuts;
+}
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import {
+  canvasSchema,
+  captionCueSchema,
+  captionOptionsSchema,
+  outputFormatSchema,
+  overlaySchema,
+  qualitySchema,
+  segmentTimingSchema,
+  sourceSchema,
+  timeRangeSchema,
+  transitionSchema
+} from './render-request.validator';
+import { migrateProject } from '../utils/project.utils';
+
+/**
+ * Zod validation schema for saved editor projects (current schema version, after migration)
+ */
+
+/**
+ * Projects are stored and thumbnailed by the server, so only http(s) sources are accepted (no file: or concat:)
+ */
+const isHttpUrl = (url: string): boolean => /^https?:/i.test(url);
+
+export const projectAudioTrackSchema = z.object({
+  url: z.string().url().refine(isHttpUrl, 'Only http(s) URLs are supported'),
+  startTime: z.number().min(0),
+  duration: z.number().min(0),
+  originalDuration: z.number().positive(),
+  originalStartTime: z.number().min(0).optional(),
+  audioTrimStart: z.number().min(0),
+  audioTrimEnd: z.number().positive(),
+  volume: z.number().min(0).max(1),
+  muted: z.boolean()
+});
+
+export const projectSchema = z.object({
+  schemaVersion: z.number().int(),
+  name: z.string(),
+  savedAt: z.string(),
+  sources: z.array(
+    sourceSchema.refine(source => isHttpUrl(source.url), { message: 'Only http(s) URLs are supported', path: ['url'] })
+  ).min(1),
+  timeline: z.object({
+    mode: z.enum(['cut', 'keep']),
+    trimStart: z.number().min(0),
+    trimEnd: z.number().positive(),
+    cuts: z.array(timeRangeSchema),
+    segments: z.array(segmentTimingSchema),
+    transitions: z.array(transitionSchema).default([])
+  }),
+  overlays: z.array(overlaySchema),
+  audio: z.object({
+    tracks: z.array(projectAudioTrackSchema),
+    mixMode: z.enum(['mix', 'replace']),
+    masterVolume: z.number().min(0).max(1)
+  }),
+  captions: z.object({
+    name: z.string(),
+    cues: z.array(captionCueSchema).max(10000)
+  }).optional(),
+  output: z.object({
+    format: outputFormatSchema.default('mp4'),
+    canvas: canvasSchema.optional(),
+    quality: qualitySchema.optional(),
+    captions: captionOptionsSchema.optional()
+  })
+});
+
+/**
+ * Migrate a project document to the current schema version and validate it
+ */
+export function parseProject(
+  raw: unknown
+): { success: true; data: z.infer<typeof projectSchema> } | { success: false; error: string; details?: unknown } {
+  let migrated: unknown;
+  try {
+    migrated = migrateProject(raw);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid project' };
+  }
+
+  const parsed = projectSchema.safeParse(migrated);
+  if (!parsed.success) {
+    return { success: false, error: 'Invalid project', details: parsed.error.flatten() };
+  }
+
+  return { success: true, data: parsed.data };
+}
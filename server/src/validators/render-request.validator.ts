@@ -4,6 +4,44 @@ import { z } from 'zod';
  * Zod validation schemas for render requests
  */
 
+const keyframeFields = {
+  time: z.number().min(0), // Seconds from the overlay start
+  easing: z.enum(['linear', 'ease-in-out', 'hold']).default('linear') // Towards the next keyframe
+};
+
+export const overlayKeyframesSchema = z.object({
+  x: z.array(z.object({ ...keyframeFields, value: z.number().min(0).max(100) })).optional(),
+  y: z.array(z.object({ ...keyframeFields, value: z.number().min(0).max(100) })).optional(),
+  scale: z.array(z.object({ ...keyframeFields, value: z.number().min(0.1).max(10) })).optional(),
+  opacity: z.array(z.object({ ...keyframeFields, value: z.number().min(0).max(1) })).optional()
+});
+
+export const overlayEffectSchema = z.object({
+  type: z.enum(['fade', 'slide', 'zoom']),
+  duration: z.number().min(0.1).max(10),
+  edge: z.enum(['left', 'right', 'top', 'bottom']).optional() // Slide only, default 'left'
+});
+
+export const textOverlayEffectSchema = overlayEffectSchema.extend({
+  type: z.enum(['fade', 'slide', 'zoom', 'typewriter'])
+});
+
+/**
+ * Limits of the text style fields; the editor clamps to the same values (TEXT_STYLE_LIMITS there)
+ */
+export const TEXT_STYLE_LIMITS = {
+  strokeWidth: { min: 0, max: 20 },
+  shadowOffset: { min: -50, max: 50 },
+  lineSpacing: { min: 0.5, max: 3 },
+  boxPadding: { min: 0, max: 100 }
+};
+
+/**
+ * Colour of a text stroke or shadow: hex (#RRGGBB) or an FFmpeg colour name. It goes into the drawtext
+ * options unquoted, so nothing else is accepted.
+ */
+const textStyleColorSchema = z.string().regex(/^(#?[0-9A-Fa-f]{6}|[A-Za-z]+)$/, 'Expected a hex colour or a colour name');
+
 export const textOverlaySchema = z.object({
   id: z.number(),
   type: z.literal('text'),
@@ -15,7 +53,22 @@ export const textOverlaySchema = z.object({
   fontSize: z.number().positive().optional(),
   fontColor: z.string().optional(),
   backgroundColor: z.string().optional(),
-  opacity: z.number().min(0).max(1).optional()
+  fontUrl: z.string().url().optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  strokeColor: textStyleColorSchema.optional(),
+  strokeWidth: z.number().min(TEXT_STYLE_LIMITS.strokeWidth.min).max(TEXT_STYLE_LIMITS.strokeWidth.max).optional(),
+  shadowColor: textStyleColorSchema.optional(),
+  shadowX: z.number().min(TEXT_STYLE_LIMITS.shadowOffset.min).max(TEXT_STYLE_LIMITS.shadowOffset.max).optional(),
+  shadowY: z.number().min(TEXT_STYLE_LIMITS.shadowOffset.min).max(TEXT_STYLE_LIMITS.shadowOffset.max).optional(),
+  lineSpacing: z.number().min(TEXT_STYLE_LIMITS.lineSpacing.min).max(TEXT_STYLE_LIMITS.lineSpacing.max).optional(),
+  textAlign: z.enum(['left', 'center', 'right']).optional(),
+  boxPadding: z.number().min(TEXT_STYLE_LIMITS.boxPadding.min).max(TEXT_STYLE_LIMITS.boxPadding.max).optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  rotation: z.number().min(-360).max(360).optional(),
+  keyframes: overlayKeyframesSchema.optional(),
+  entranceEffect: textOverlayEffectSchema.optional(),
+  exitEffect: textOverlayEffectSchema.optional()
 });
 
 export const imageOverlaySchema = z.object({
@@ -28,13 +81,22 @@ export const imageOverlaySchema = z.object({
   y: z.number().min(0).max(100), // percentage
   width: z.number().min(1).max(10000).optional(), // pixels
   height: z.number().min(1).max(10000).optional(), // pixels
-  opacity: z.number().min(0).max(1).optional()
+  opacity: z.number().min(0).max(1).optional(),
+  rotation: z.number().min(-360).max(360).optional(),
+  keyframes: overlayKeyframesSchema.optional(),
+  entranceEffect: overlayEffectSchema.optional(),
+  exitEffect: overlayEffectSchema.optional()
+});
+
+const shapePointSchema = z.object({
+  x: z.number().min(0).max(100), // percentage of the shape box
+  y: z.number().min(0).max(100)
 });
 
 export const shapeOverlaySchema = z.object({
   id: z.number(),
   type: z.literal('shape'),
-  shapeType: z.literal('rectangle'),
+  shapeType: z.enum(['rectangle', 'rounded-rectangle', 'ellipse', 'line', 'arrow', 'polygon']),
   start: z.number().min(0),
   end: z.number().positive(),
   x: z.number().min(0).max(100), // percentage
@@ -44,8 +106,17 @@ export const shapeOverlaySchema = z.object({
   color: z.string().optional(),
   strokeWidth: z.number().min(1).max(20).optional(),
   fill: z.boolean().optional(),
-  opacity: z.number().min(0).max(1).optional()
-});
+  cornerRadius: z.number().min(0).max(5000).optional(), // pixels
+  points: z.array(shapePointSchema).min(2).max(64).optional(),
+  opacity: z.number().min(0).max(1).optional(),
+  rotation: z.number().min(-360).max(360).optional(),
+  keyframes: overlayKeyframesSchema.optional(),
+  entranceEffect: overlayEffectSchema.optional(),
+  exitEffect: overlayEffectSchema.optional()
+}).refine(
+  shape => shape.shapeType !== 'polygon' || !shape.points || shape.points.length >= 3,
+  { message: 'A polygon needs at least 3 points', path: ['points'] }
+);
 
 export const overlaySchema = z.discriminatedUnion('type', [
   textOverlaySchema,
@@ -53,11 +124,69 @@ export const overlaySchema = z.discriminatedUnion('type', [
   shapeOverlaySchema
 ]);
 
+/**
+ * Limits of the color correction fields; the editor clamps to the same values (COLOR_LIMITS there)
+ */
+export const COLOR_LIMITS = {
+  brightness: { min: -1, max: 1 },
+  contrast: { min: 0, max: 2 },
+  saturation: { min: 0, max: 3 },
+  gamma: { min: 0.1, max: 10 },
+  temperature: { min: -1, max: 1 },
+  tint: { min: -1, max: 1 }
+};
+
+export const colorCorrectionSchema = z.object({
+  brightness: z.number().min(COLOR_LIMITS.brightness.min).max(COLOR_LIMITS.brightness.max).optional(),
+  contrast: z.number().min(COLOR_LIMITS.contrast.min).max(COLOR_LIMITS.contrast.max).optional(),
+  saturation: z.number().min(COLOR_LIMITS.saturation.min).max(COLOR_LIMITS.saturation.max).optional(),
+  gamma: z.number().min(COLOR_LIMITS.gamma.min).max(COLOR_LIMITS.gamma.max).optional(),
+  temperature: z.number().min(COLOR_LIMITS.temperature.min).max(COLOR_LIMITS.temperature.max).optional(),
+  tint: z.number().min(COLOR_LIMITS.tint.min).max(COLOR_LIMITS.tint.max).optional(),
+  lutUrl: z.string().url().optional() // .cube file
+});
+
+/**
+ * Zoom range of the pan/zoom of image sources (1 = the whole frame)
+ */
+export const KEN_BURNS_ZOOM = { min: 1, max: 4 };
+
+const percentSchema = z.number().min(0).max(100);
+const kenBurnsZoomSchema = z.number().min(KEN_BURNS_ZOOM.min).max(KEN_BURNS_ZOOM.max);
+
+export const sourceTransformSchema = z.object({
+  crop: z.object({
+    x: percentSchema,
+    y: percentSchema,
+    width: z.number().min(1).max(100),
+    height: z.number().min(1).max(100)
+  }).refine(
+    crop => crop.x + crop.width <= 100 && crop.y + crop.height <= 100,
+    { message: 'The crop must lie inside the frame' }
+  ).optional(),
+  rotation: z.union([z.literal(0), z.literal(90), z.literal(180), z.literal(270)]).optional(),
+  flipH: z.boolean().optional(),
+  flipV: z.boolean().optional(),
+  kenBurns: z.object({
+    startZoom: kenBurnsZoomSchema,
+    endZoom: kenBurnsZoomSchema,
+    startX: percentSchema,
+    startY: percentSchema,
+    endX: percentSchema,
+    endY: percentSchema
+  }).optional()
+});
+
 export const sourceSchema = z.object({
   url: z.string().url(),
   type: z.enum(['video', 'image']),
-  duration: z.number().min(0.1).optional() // For images, custom duration in seconds
-});
+  duration: z.number().min(0.1).optional(), // For images, custom duration in seconds
+  color: colorCorrectionSchema.optional(),
+  transform: sourceTransformSchema.optional()
+}).refine(
+  source => source.type === 'image' || !source.transform?.kenBurns,
+  { message: 'Pan/zoom is only available for image sources', path: ['transform', 'kenBurns'] }
+);
 
 export const audioSourceSchema = z.object({
   url: z.string().url(),
@@ -71,23 +200,110 @@ export const audioSourceSchema = z.object({
   solo: z.boolean().optional()
 });
 
+export const transitionSchema = z.object({
+  time: z.number().min(0), // Joint on the output timeline
+  type: z.enum(['fade', 'dissolve', 'wipe', 'slide', 'fadeblack']),
+  duration: z.number().min(0.1).max(5)
+});
+
+export const canvasSchema = z.object({
+  aspectRatio: z.enum(['16:9', '9:16', '1:1']),
+  resolution: z.enum(['720p', '1080p', '2160p']),
+  fit: z.enum(['letterbox', 'crop', 'blur']).default('letterbox')
+});
+
+export const qualitySchema = z
+  .object({
+    profile: z.enum(['draft', 'standard', 'high', 'archival', 'target']),
+    targetBitrateKbps: z.number().int().min(100).max(200000).optional(),
+    maxFileSizeMb: z.number().positive().max(100000).optional()
+  })
+  .refine(
+    quality => quality.profile !== 'target' || quality.targetBitrateKbps !== undefined || quality.maxFileSizeMb !== undefined,
+    { message: "The 'target' profile needs targetBitrateKbps or maxFileSizeMb", path: ['profile'] }
+  );
+
+export const captionCueSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive(),
+  text: z.string().max(2000)
+});
+
+export const captionOptionsSchema = z.object({
+  mode: z.enum(['burn-in', 'soft', 'sidecar']),
+  style: z.enum(['classic', 'boxed', 'yellow', 'top']).optional() // Burn-in only
+});
+
+export const renderCaptionsSchema = captionOptionsSchema.extend({
+  cues: z.array(captionCueSchema).max(10000)
+});
+
+export const timeRangeSchema = z.object({
+  start: z.number().min(0),
+  end: z.number().positive()
+});
+
+/**
+ * Playback rate limits of a segment; the editor clamps to the same values (SEGMENT_SPEED_LIMITS there).
+ * Reversing buffers the whole segment in memory, so reversed and boomerang ranges are kept short.
+ */
+export const SEGMENT_SPEED_LIMITS = {
+  speed: { min: 0.25, max: 4 },
+  freezeDuration: { min: 0.1, max: 60 },
+  effectDuration: { max: 30 }
+};
+
+export const segmentTimingSchema = timeRangeSchema.extend({
+  speed: z.number().min(SEGMENT_SPEED_LIMITS.speed.min).max(SEGMENT_SPEED_LIMITS.speed.max).default(1),
+  freezeDuration: z.number()
+    .min(SEGMENT_SPEED_LIMITS.freezeDuration.min)
+    .max(SEGMENT_SPEED_LIMITS.freezeDuration.max)
+    .optional(),
+  effect: z.enum(['reverse', 'boomerang']).optional()
+}).refine(
+  timing => !timing.effect || timing.freezeDuration === undefined,
+  { message: 'A freeze frame cannot be reversed', path: ['effect'] }
+).refine(
+  timing => !timing.effect || timing.end - timing.start <= SEGMENT_SPEED_LIMITS.effectDuration.max,
+  { message: `Reversed segments can be at most ${SEGMENT_SPEED_LIMITS.effectDuration.max}s long`, path: ['effect'] }
+);
+
+export const outputFormatSchema = z.enum(['mp4', 'webm', 'mov', 'gif', 'm4a', 'mp3']);
+
+/**
+ * Output formats that can be encoded to a target bitrate
+ */
+export const TARGET_BITRATE_FORMATS = ['mp4', 'webm'];
+
+/**
+ * Output formats captions can be burned into, and those that can carry a subtitle stream
+ */
+export const BURN_IN_CAPTION_FORMATS = ['mp4', 'webm', 'mov', 'gif'];
+export const SOFT_CAPTION_FORMATS = ['mp4', 'webm', 'mov'];
+
 export const requestSchema = z.object({
   sources: z.array(sourceSchema).min(1),
   // Legacy support for single sourceUrl
   sourceUrl: z.string().url().optional(),
   trimStart: z.number().min(0),
   trimEnd: z.number().positive(),
-  cuts: z
-    .array(
-      z.object({
-        start: z.number().min(0),
-        end: z.number().positive()
-      })
-    )
-    .default([]),
+  cuts: z.array(timeRangeSchema).default([]),
+  segmentTiming: z.array(segmentTimingSchema).default([]), // Speed and freeze frames on the source timeline
   overlays: z.array(overlaySchema).default([]),
+  transitions: z.array(transitionSchema).default([]),
   audioSources: z.array(audioSourceSchema).default([]),
   audioMixMode: z.enum(['mix', 'replace']).default('mix'),
-  format: z.enum(['mp4']).default('mp4')
-});
+  format: outputFormatSchema.default('mp4'),
+  canvas: canvasSchema.optional(), // Output frame; omitted = keep the source resolution
+  quality: qualitySchema.optional(), // Omitted = 'high' for MPD sources, 'standard' otherwise
+  captions: renderCaptionsSchema.optional() // Cue times on the output timeline
+}).refine(
+  request => request.quality?.profile !== 'target' || TARGET_BITRATE_FORMATS.includes(request.format),
+  { message: "The 'target' profile is only supported for mp4 and webm output", path: ['quality', 'profile'] }
+).refine(
+  request => !request.captions ||
+    request.captions.mode === 'sidecar' ||
+    (request.captions.mode === 'soft' ? SOFT_CAPTION_FORMATS : BURN_IN_CAPTION_FORMATS).includes(request.format),
+  { message: 'Burned-in captions need a video output format, subtitle streams mp4, webm or mov', path: ['captions', 'mode'] }
+);
 
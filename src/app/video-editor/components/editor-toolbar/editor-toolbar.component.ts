@@ -10,11 +10,20 @@ import { Component, EventEmitter, Input, Output } from '@angular/core';
 })
 export class EditorToolbarComponent {
   @Input() timelineMode: 'cut' | 'keep' = 'cut';
+  @Input() canSaveProject = false;
+  @Input() canUndo = false;
+  @Input() canRedo = false;
+  @Input() undoLabel: string | null = null;
+  @Input() redoLabel: string | null = null;
 
   @Output() modeToggle = new EventEmitter<void>();
   @Output() openOverlayForm = new EventEmitter<void>();
   @Output() openAudioForm = new EventEmitter<void>();
   @Output() openCutForm = new EventEmitter<void>();
+  @Output() saveProject = new EventEmitter<void>();
+  @Output() openProject = new EventEmitter<File>();
+  @Output() undo = new EventEmitter<void>();
+  @Output() redo = new EventEmitter<void>();
 
   protected onModeToggle(): void {
     this.modeToggle.emit();
@@ -31,5 +40,27 @@ export class EditorToolbarComponent {
   protected onOpenCutForm(): void {
     this.openCutForm.emit();
   }
+
+  protected onUndo(): void {
+    this.undo.emit();
+  }
+
+  protected onRedo(): void {
+    this.redo.emit();
+  }
+
+  protected onSaveProject(): void {
+    this.saveProject.emit();
+  }
+
+  protected onProjectFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.openProject.emit(file);
+    }
+    // Allow opening the same file again
+    input.value = '';
+  }
 }
 
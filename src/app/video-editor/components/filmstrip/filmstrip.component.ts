@@ -0,0 +1,119 @@
+import { CommonModule } from '@angular/common';
+import { Component, ElementRef, Input, OnChanges, OnDestroy, inject, signal } from '@angular/core';
+import type { ThumbnailStrip, VideoSource } from '../../video-editor.types';
+
+/**
+ * One frame of the filmstrip (pixels from the left of the timeline)
+ */
+interface FilmstripTile {
+  key: string;
+  left: number;
+  width: number;
+  image: string; // CSS background-image
+  size: string; // CSS background-size
+  position: string; // CSS background-position
+  repeat: boolean;
+}
+
+/**
+ * Thumbnails tiled along the main timeline: each video source shows frames of its sprite sheets at
+ * the frame's aspect ratio, each image source repeats the image. Tiles stop at the source boundaries;
+ * on a zoomed timeline only the tiles in view are created.
+ */
+@Component({
+  selector: 'app-filmstrip',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './filmstrip.component.html',
+  styleUrl: './filmstrip.component.scss'
+})
+export class FilmstripComponent implements OnChanges, OnDestroy {
+  @Input() sources: VideoSource[] = [];
+  @Input() duration = 0;
+  @Input() view = { start: 0, span: 0 }; // Visible part of the timeline when it is zoomed (seconds)
+  @Input() strips: ReadonlyMap<string, ThumbnailStrip> = new Map();
+
+  protected readonly tiles = signal<FilmstripTile[]>([]);
+
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private size = { width: 0, height: 0 };
+  private readonly resizeObserver = new ResizeObserver(([entry]) => {
+    if (entry) {
+      this.size = { width: entry.contentRect.width, height: entry.contentRect.height };
+      this.updateTiles();
+    }
+  });
+
+  constructor() {
+    this.resizeObserver.observe(this.host.nativeElement);
+  }
+
+  ngOnChanges(): void {
+    this.updateTiles();
+  }
+
+  ngOnDestroy(): void {
+    this.resizeObserver.disconnect();
+  }
+
+  protected trackTile(_index: number, tile: FilmstripTile): string {
+    return tile.key;
+  }
+
+  private updateTiles(): void {
+    const { width, height } = this.size;
+    if (!this.duration || !this.view.span || !width || !height) {
+      this.tiles.set([]);
+      return;
+    }
+
+    const tiles: FilmstripTile[] = [];
+    const scale = width / this.view.span;
+    for (const source of this.sources) {
+      const left = (source.startTime - this.view.start) * scale;
+      const right = (Math.min(source.startTime + source.duration, this.duration) - this.view.start) * scale;
+      if (right <= left || right <= 0 || left >= width) {
+        continue;
+      }
+
+      if (source.type === 'image') {
+        tiles.push({
+          key: `${source.id}`,
+          left,
+          width: right - left,
+          image: `url("${source.url}")`,
+          size: 'auto 100%',
+          position: '0 0',
+          repeat: true
+        });
+        continue;
+      }
+
+      const strip = this.strips.get(source.url);
+      if (!strip) {
+        continue;
+      }
+      const tileWidth = height * (strip.frameWidth / strip.frameHeight);
+      const perSheet = strip.columns * strip.rows;
+      // Only the tiles in view
+      const end = Math.min(right, width);
+      for (let index = Math.max(0, Math.floor(-left / tileWidth)); left + index * tileWidth < end; index++) {
+        const x = left + index * tileWidth;
+        const frame = Math.min(strip.count - 1, Math.floor((x - left) / scale / strip.interval));
+        const sheet = strip.sheets[Math.floor(frame / perSheet)] ?? strip.sheets[strip.sheets.length - 1];
+        const column = (frame % perSheet) % strip.columns;
+        const row = Math.floor((frame % perSheet) / strip.columns);
+        tiles.push({
+          key: `${source.id}-${index}`,
+          left: x,
+          width: Math.min(tileWidth, right - x),
+          image: `url("${sheet}")`,
+          size: `${strip.columns * tileWidth}px ${strip.rows * height}px`,
+          position: `${-column * tileWidth}px ${-row * height}px`,
+          repeat: false
+        });
+      }
+    }
+    this.tiles.set(tiles);
+  }
+}
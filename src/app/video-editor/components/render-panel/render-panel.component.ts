@@ -1,6 +1,18 @@
 import { CommonModule } from '@angular/common';
 import { Component, EventEmitter, Input, Output } from '@angular/core';
-import { RenderResponse } from '../../video-editor.types';
+import {
+  CaptionMode,
+  CaptionOptions,
+  CaptionStylePreset,
+  EffectiveEncoding,
+  OutputCanvas,
+  OutputFormat,
+  QualityOptions,
+  QualityProfileName,
+  RenderJobStatus,
+  RenderPhase,
+  RenderResponse
+} from '../../video-editor.types';
 
 @Component({
   selector: 'app-render-panel',
@@ -12,14 +24,200 @@ import { RenderResponse } from '../../video-editor.types';
 export class RenderPanelComponent {
   @Input() canRender = false;
   @Input() renderBusy = false;
+  @Input() renderJob: RenderJobStatus | null = null;
   @Input() renderResult: RenderResponse | null = null;
   @Input() exportPlan: string[] = [];
   @Input() downloadUrl: string | null = null;
+  @Input() artifactLinks: { label: string; url: string }[] = []; // Downloads of the result's sidecar files
+  @Input() outputFormat: OutputFormat = 'mp4';
+  @Input() outputCanvas: OutputCanvas | null = null;
+  @Input() outputQuality: QualityOptions | null = null;
+  @Input() outputCaptions: CaptionOptions | null = null;
+  @Input() hasCaptions = false;
 
   @Output() renderRequested = new EventEmitter<void>();
+  @Output() cancelRequested = new EventEmitter<void>();
+  @Output() outputFormatChange = new EventEmitter<OutputFormat>();
+  @Output() outputCanvasChange = new EventEmitter<OutputCanvas | null>();
+  @Output() outputQualityChange = new EventEmitter<QualityOptions | null>();
+  @Output() outputCaptionsChange = new EventEmitter<CaptionOptions | null>();
+
+  protected readonly formatOptions: { value: OutputFormat; label: string }[] = [
+    { value: 'mp4', label: 'MP4 (H.264/AAC)' },
+    { value: 'webm', label: 'WebM (VP9/Opus)' },
+    { value: 'mov', label: 'MOV (ProRes 422 HQ)' },
+    { value: 'gif', label: 'GIF (animated, no audio)' },
+    { value: 'm4a', label: 'M4A (audio only)' },
+    { value: 'mp3', label: 'MP3 (audio only)' }
+  ];
+
+  protected readonly aspectRatioOptions: { value: OutputCanvas['aspectRatio']; label: string }[] = [
+    { value: '16:9', label: '16:9 (landscape)' },
+    { value: '9:16', label: '9:16 (vertical)' },
+    { value: '1:1', label: '1:1 (square)' }
+  ];
+
+  protected readonly resolutionOptions: { value: OutputCanvas['resolution']; label: string }[] = [
+    { value: '720p', label: '720p' },
+    { value: '1080p', label: '1080p' },
+    { value: '2160p', label: '4K (2160p)' }
+  ];
+
+  protected readonly fitOptions: { value: OutputCanvas['fit']; label: string }[] = [
+    { value: 'letterbox', label: 'Letterbox' },
+    { value: 'crop', label: 'Crop to fill' },
+    { value: 'blur', label: 'Blurred background' }
+  ];
+
+  protected readonly qualityOptions: { value: QualityProfileName; label: string }[] = [
+    { value: 'draft', label: 'Draft (fast, small)' },
+    { value: 'standard', label: 'Standard' },
+    { value: 'high', label: 'High' },
+    { value: 'archival', label: 'Archival (slow, large)' },
+    { value: 'target', label: 'Target size / bitrate (two-pass)' }
+  ];
+
+  protected readonly captionModeOptions: { value: CaptionMode; label: string }[] = [
+    { value: 'burn-in', label: 'Burn into video' },
+    { value: 'soft', label: 'Subtitle stream' },
+    { value: 'sidecar', label: 'SRT/VTT files only' }
+  ];
+
+  protected readonly captionStyleOptions: { value: CaptionStylePreset; label: string }[] = [
+    { value: 'classic', label: 'Classic (white, outline)' },
+    { value: 'boxed', label: 'Boxed' },
+    { value: 'yellow', label: 'Yellow' },
+    { value: 'top', label: 'Top of frame' }
+  ];
+
+  protected readonly phaseLabels: Record<RenderPhase, string> = {
+    'source-processing': 'Processing sources',
+    'segment-extraction': 'Extracting segments',
+    'overlay-preparation': 'Preparing overlays',
+    'audio-preparation': 'Preparing audio',
+    'final-encode': 'Encoding video'
+  };
 
   protected onRender(): void {
     this.renderRequested.emit();
   }
+
+  protected onCancel(): void {
+    this.cancelRequested.emit();
+  }
+
+  protected onFormatChange(event: Event): void {
+    const format = (event.target as HTMLSelectElement).value as OutputFormat;
+    this.outputFormatChange.emit(format);
+    // Only video codecs with bitrate control support the target profile
+    if (this.outputQuality?.profile === 'target' && !this.supportsTargetBitrate(format)) {
+      this.outputQualityChange.emit(null);
+    }
+    if (this.outputCaptions && !this.supportsCaptionMode(this.outputCaptions.mode, format)) {
+      this.outputCaptionsChange.emit(null);
+    }
+  }
+
+  protected onCaptionModeChange(event: Event): void {
+    const mode = (event.target as HTMLSelectElement).value as CaptionMode | '';
+    if (!mode) {
+      this.outputCaptionsChange.emit(null);
+    } else {
+      this.outputCaptionsChange.emit(mode === 'burn-in' ? { mode, style: this.outputCaptions?.style ?? 'classic' } : { mode });
+    }
+  }
+
+  protected onCaptionStyleChange(event: Event): void {
+    if (!this.outputCaptions) return;
+    const style = (event.target as HTMLSelectElement).value as CaptionStylePreset;
+    this.outputCaptionsChange.emit({ ...this.outputCaptions, style });
+  }
+
+  /**
+   * Burned-in captions need video, subtitle streams a container with a subtitle codec;
+   * sidecar files go with any format
+   */
+  protected supportsCaptionMode(mode: CaptionMode, format: OutputFormat): boolean {
+    if (mode === 'sidecar') return true;
+    return mode === 'burn-in'
+      ? format !== 'm4a' && format !== 'mp3'
+      : format === 'mp4' || format === 'webm' || format === 'mov';
+  }
+
+  protected onQualityChange(event: Event): void {
+    const profile = (event.target as HTMLSelectElement).value as QualityProfileName | '';
+    if (!profile) {
+      this.outputQualityChange.emit(null);
+    } else if (profile === 'target') {
+      this.outputQualityChange.emit({ profile, maxFileSizeMb: 50 });
+    } else {
+      this.outputQualityChange.emit({ profile });
+    }
+  }
+
+  protected onTargetLimitChange(field: 'maxFileSizeMb' | 'targetBitrateKbps', event: Event): void {
+    if (!this.outputQuality) return;
+    const value = Number((event.target as HTMLInputElement).value);
+    const limit = Number.isFinite(value) && value > 0 ? value : undefined;
+    this.outputQualityChange.emit({ ...this.outputQuality, [field]: limit });
+  }
+
+  protected supportsTargetBitrate(format: OutputFormat): boolean {
+    return format === 'mp4' || format === 'webm';
+  }
+
+  protected hasTargetLimit(quality: QualityOptions): boolean {
+    return quality.maxFileSizeMb !== undefined || quality.targetBitrateKbps !== undefined;
+  }
+
+  protected encodingLabel(encoding: EffectiveEncoding): string {
+    if (encoding.streamCopy) {
+      return `${encoding.profile} profile (stream copy, no re-encode)`;
+    }
+    const rate = encoding.videoBitrateKbps !== undefined
+      ? `${encoding.videoBitrateKbps} kbps${encoding.twoPass ? ' two-pass' : ''}`
+      : `CRF ${encoding.crf}`;
+    return `${encoding.profile} profile (${rate}, ${encoding.preset}, audio ${encoding.audioBitrate})`;
+  }
+
+  protected onAspectRatioChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    if (!value) {
+      this.outputCanvasChange.emit(null);
+      return;
+    }
+    this.outputCanvasChange.emit({
+      resolution: '1080p',
+      fit: 'letterbox',
+      ...this.outputCanvas,
+      aspectRatio: value as OutputCanvas['aspectRatio']
+    });
+  }
+
+  protected onResolutionChange(event: Event): void {
+    if (!this.outputCanvas) return;
+    const resolution = (event.target as HTMLSelectElement).value as OutputCanvas['resolution'];
+    this.outputCanvasChange.emit({ ...this.outputCanvas, resolution });
+  }
+
+  protected onFitChange(event: Event): void {
+    if (!this.outputCanvas) return;
+    const fit = (event.target as HTMLSelectElement).value as OutputCanvas['fit'];
+    this.outputCanvasChange.emit({ ...this.outputCanvas, fit });
+  }
+
+  protected resultKind(result: RenderResponse): 'video' | 'image' | 'audio' {
+    if (result.format === 'gif') return 'image';
+    if (result.format === 'm4a' || result.format === 'mp3') return 'audio';
+    return 'video';
+  }
+
+  protected jobStatusLabel(job: RenderJobStatus): string {
+    if (job.state === 'queued') {
+      return job.queuePosition ? `Queued (#${job.queuePosition})` : 'Queued';
+    }
+    const phase = job.phase ? this.phaseLabels[job.phase] : 'Starting';
+    return job.phaseProgress !== undefined ? `${phase} (${job.phaseProgress}%)` : phase;
+  }
 }
 
@@ -1,8 +1,14 @@
 import { CommonModule } from '@angular/common';
 import { Component, EventEmitter, Input, Output } from '@angular/core';
-import { VideoSource } from '../../video-editor.types';
+import { COLOR_LIMITS, NEUTRAL_COLOR, hasColorCorrection, type ColorAdjustment } from '../../utils/color.utils';
+import { DEFAULT_KEN_BURNS, KEN_BURNS_ZOOM, hasSourceTransform } from '../../utils/transform.utils';
+import { ColorCorrection, KenBurns, SourceTransform, VideoSource } from '../../video-editor.types';
 import { formatTime } from '../../video-editor.utils';
 
+type CropField = keyof NonNullable<SourceTransform['crop']>;
+
+const FULL_FRAME: NonNullable<SourceTransform['crop']> = { x: 0, y: 0, width: 100, height: 100 };
+
 @Component({
   selector: 'app-sources-panel',
   standalone: true,
@@ -21,8 +27,38 @@ export class SourcesPanelComponent {
   @Output() startEditing = new EventEmitter<number>();
   @Output() cancelEditing = new EventEmitter<void>();
   @Output() updateDuration = new EventEmitter<{ id: number; duration: number }>();
+  @Output() updateColor = new EventEmitter<{ id: number; color: ColorCorrection }>();
+  @Output() lutSelected = new EventEmitter<{ id: number; file: File }>();
+  @Output() updateTransform = new EventEmitter<{ id: number; transform: SourceTransform }>();
+  @Output() previewKenBurns = new EventEmitter<number>();
 
   protected readonly formatTime = formatTime;
+  protected readonly hasColorCorrection = hasColorCorrection;
+  protected readonly colorLimits = COLOR_LIMITS;
+  protected readonly colorFields: { key: ColorAdjustment; label: string; step: number }[] = [
+    { key: 'brightness', label: 'Brightness', step: 0.05 },
+    { key: 'contrast', label: 'Contrast', step: 0.05 },
+    { key: 'saturation', label: 'Saturation', step: 0.05 },
+    { key: 'gamma', label: 'Gamma', step: 0.05 },
+    { key: 'temperature', label: 'Temperature', step: 0.05 },
+    { key: 'tint', label: 'Tint', step: 0.05 }
+  ];
+  protected colorSourceId: number | null = null; // Source whose color controls are open
+  protected readonly hasSourceTransform = hasSourceTransform;
+  protected readonly cropFields: { key: CropField; label: string }[] = [
+    { key: 'x', label: 'Left' },
+    { key: 'y', label: 'Top' },
+    { key: 'width', label: 'Width' },
+    { key: 'height', label: 'Height' }
+  ];
+  protected readonly kenBurnsFields: { key: keyof KenBurns; label: string; min: number; max: number; step: number }[] = [
+    { key: 'startZoom', label: 'Start zoom', min: KEN_BURNS_ZOOM.min, max: KEN_BURNS_ZOOM.max, step: 0.1 },
+    { key: 'startX', label: 'Start X (%)', min: 0, max: 100, step: 1 },
+    { key: 'startY', label: 'Start Y (%)', min: 0, max: 100, step: 1 },
+    { key: 'endZoom', label: 'End zoom', min: KEN_BURNS_ZOOM.min, max: KEN_BURNS_ZOOM.max, step: 0.1 },
+    { key: 'endX', label: 'End X (%)', min: 0, max: 100, step: 1 },
+    { key: 'endY', label: 'End Y (%)', min: 0, max: 100, step: 1 }
+  ];
 
   protected onRemove(id: number): void {
     this.removeSource.emit(id);
@@ -51,6 +87,92 @@ export class SourcesPanelComponent {
     }
   }
 
+  protected onToggleColor(id: number): void {
+    this.colorSourceId = this.colorSourceId === id ? null : id;
+  }
+
+  protected colorValue(source: VideoSource, key: ColorAdjustment): number {
+    return source.color?.[key] ?? NEUTRAL_COLOR[key];
+  }
+
+  protected onColorChange(source: VideoSource, key: ColorAdjustment, value: string): void {
+    const { min, max } = COLOR_LIMITS[key];
+    const number = parseFloat(value);
+    if (!isNaN(number)) {
+      this.updateColor.emit({ id: source.id, color: { ...source.color, [key]: Math.min(max, Math.max(min, number)) } });
+    }
+  }
+
+  protected onLutFileSelected(id: number, event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) {
+      this.lutSelected.emit({ id, file });
+    }
+    input.value = '';
+  }
+
+  protected onRemoveLut(source: VideoSource): void {
+    this.updateColor.emit({ id: source.id, color: { ...source.color, lutUrl: undefined } });
+  }
+
+  protected onResetColor(id: number): void {
+    this.updateColor.emit({ id, color: {} });
+  }
+
+  protected cropValue(source: VideoSource, key: CropField): number {
+    return source.transform?.crop?.[key] ?? FULL_FRAME[key];
+  }
+
+  protected onCropChange(source: VideoSource, key: CropField, value: string): void {
+    const number = parseFloat(value);
+    if (isNaN(number)) {
+      return;
+    }
+    // Keep the rectangle inside the frame and at least 1% in each direction
+    const crop = { ...FULL_FRAME, ...source.transform?.crop, [key]: number };
+    crop.x = Math.min(99, Math.max(0, crop.x));
+    crop.y = Math.min(99, Math.max(0, crop.y));
+    crop.width = Math.min(100 - crop.x, Math.max(1, crop.width));
+    crop.height = Math.min(100 - crop.y, Math.max(1, crop.height));
+    this.updateTransform.emit({ id: source.id, transform: { ...source.transform, crop } });
+  }
+
+  protected onRotate(source: VideoSource, degrees: 90 | 270): void {
+    const rotation = (((source.transform?.rotation ?? 0) + degrees) % 360) as NonNullable<SourceTransform['rotation']>;
+    this.updateTransform.emit({ id: source.id, transform: { ...source.transform, rotation } });
+  }
+
+  protected onFlipChange(source: VideoSource, key: 'flipH' | 'flipV', event: Event): void {
+    const checked = (event.target as HTMLInputElement).checked;
+    this.updateTransform.emit({ id: source.id, transform: { ...source.transform, [key]: checked } });
+  }
+
+  protected onToggleKenBurns(source: VideoSource, event: Event): void {
+    const kenBurns = (event.target as HTMLInputElement).checked ? { ...DEFAULT_KEN_BURNS } : undefined;
+    this.updateTransform.emit({ id: source.id, transform: { ...source.transform, kenBurns } });
+  }
+
+  protected onKenBurnsChange(source: VideoSource, key: keyof KenBurns, value: string): void {
+    const kenBurns = source.transform?.kenBurns;
+    const field = this.kenBurnsFields.find(f => f.key === key);
+    const number = parseFloat(value);
+    if (kenBurns && field && !isNaN(number)) {
+      this.updateTransform.emit({
+        id: source.id,
+        transform: { ...source.transform, kenBurns: { ...kenBurns, [key]: Math.min(field.max, Math.max(field.min, number)) } }
+      });
+    }
+  }
+
+  protected onPreviewKenBurns(id: number): void {
+    this.previewKenBurns.emit(id);
+  }
+
+  protected onResetTransform(id: number): void {
+    this.updateTransform.emit({ id, transform: {} });
+  }
+
   protected canMoveUp(source: VideoSource): boolean {
     return source.order > 0;
   }
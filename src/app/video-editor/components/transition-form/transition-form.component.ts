@@ -0,0 +1,60 @@
+import { CommonModule } from '@angular/common';
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import type { TimelineTransition, TransitionJoint, TransitionType } from '../../video-editor.types';
+import { formatTime } from '../../video-editor.utils';
+import { ModalComponent } from '../shared/modal/modal.component';
+
+@Component({
+  selector: 'app-transition-form',
+  standalone: true,
+  imports: [CommonModule, ModalComponent],
+  templateUrl: './transition-form.component.html',
+  styleUrl: './transition-form.component.scss'
+})
+export class TransitionFormComponent {
+  @Input() isOpen = false;
+  @Input() joint: TransitionJoint | null = null;
+  @Input() transition: TimelineTransition | undefined;
+
+  @Output() closed = new EventEmitter<void>();
+  @Output() transitionChanged = new EventEmitter<{ type: TransitionType; duration: number }>();
+  @Output() transitionRemoved = new EventEmitter<void>();
+
+  protected readonly typeOptions: { value: TransitionType; label: string }[] = [
+    { value: 'fade', label: 'Crossfade' },
+    { value: 'dissolve', label: 'Dissolve' },
+    { value: 'wipe', label: 'Wipe (left to right)' },
+    { value: 'slide', label: 'Slide (from the right)' },
+    { value: 'fadeblack', label: 'Fade through black' }
+  ];
+
+  protected readonly defaultDuration = 1;
+
+  protected onTypeChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    if (!value) {
+      this.transitionRemoved.emit();
+      return;
+    }
+    this.transitionChanged.emit({
+      type: value as TransitionType,
+      duration: this.transition?.duration ?? this.defaultDuration
+    });
+  }
+
+  protected onDurationChange(event: Event): void {
+    const duration = parseFloat((event.target as HTMLInputElement).value);
+    if (!this.transition || !(duration > 0)) {
+      return;
+    }
+    this.transitionChanged.emit({ type: this.transition.type, duration });
+  }
+
+  protected formatTime(value: number): string {
+    return formatTime(value);
+  }
+
+  protected onClose(): void {
+    this.closed.emit();
+  }
+}
@@ -10,13 +10,58 @@ export { VideoEditorComponent } from './video-editor.component';
 // Types
 export type {
   VideoSource,
+  ColorCorrection,
+  KenBurns,
+  SourceTransform,
   TimelineCut,
+  TimelineSegment,
+  SegmentEffect,
+  SegmentTiming,
+  TimelineTransition,
+  TransitionType,
+  TransitionJoint,
+  KeyframeEasing,
+  OverlayKeyframe,
+  OverlayKeyframes,
+  OverlayEffectType,
+  OverlayEffect,
+  OverlayEffectState,
   BaseOverlay,
+  TextAlign,
+  TextStyle,
   TextOverlay,
+  OverlayFont,
   ImageOverlay,
+  ShapeType,
+  ShapePoint,
+  ShapeGeometry,
   ShapeOverlay,
   Overlay,
+  CaptionCue,
+  CaptionTrack,
+  CaptionMode,
+  CaptionStylePreset,
+  CaptionOptions,
   RenderResponse,
+  RenderArtifact,
+  OutputFormat,
+  OutputCanvas,
+  QualityProfileName,
+  QualityOptions,
+  EffectiveEncoding,
+  RenderOptions,
+  RenderJobState,
+  RenderJobStatus,
+  RenderPhase,
+  EditorProject,
+  ProjectSource,
+  ProjectSegment,
+  ProjectTimeline,
+  ProjectAudioTrack,
+  ProjectAudio,
+  ProjectCaptions,
+  EditorSnapshot,
+  HistoryEntry,
   TimelineDrag,
   OverlayDragState,
   OverlayResizeState,
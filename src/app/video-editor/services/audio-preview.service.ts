@@ -0,0 +1,235 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+
+/**
+ * An audio track as the preview plays it: its range on the clock's timeline and the part of the file it plays
+ */
+export interface AudioPreviewTrack {
+  id: number;
+  url: string;
+  start: number; // Timeline seconds
+  end: number;
+  fileStart: number; // Seconds into the file at `start` (audioTrimStart)
+  fileEnd: number; // The track stops here even before `end` (audioTrimEnd)
+  volume: number; // 0-1
+  muted: boolean;
+}
+
+/**
+ * Where the preview is, read from the video on every frame
+ */
+export interface AudioPreviewClock {
+  time: number; // Seconds on the timeline of the tracks
+  playing: boolean;
+  rate: number; // Timeline seconds per second
+}
+
+/**
+ * Largest gap between the scheduled audio and the video clock before the tracks are rescheduled (seconds)
+ */
+const MAX_DRIFT = 0.08;
+
+/**
+ * Service for the preview audio mix: each track is decoded into an AudioBuffer and scheduled on an
+ * AudioContext against the video clock, through a gain node per track and a master gain
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AudioPreviewService {
+  private readonly http = inject(HttpClient);
+  private context?: AudioContext;
+  private masterGain?: GainNode;
+  private readonly trackGains = new Map<number, GainNode>();
+  private readonly buffers = new Map<string, Promise<AudioBuffer | null>>(); // Decoding or decoded files by URL
+  private readonly decoded = new Map<string, AudioBuffer>();
+  private tracks: AudioPreviewTrack[] = [];
+  private nodes: AudioBufferSourceNode[] = []; // Scheduled playback of the tracks
+  private scheduled?: { time: number; contextTime: number; rate: number }; // Clock position the nodes were scheduled from
+  private clock?: () => AudioPreviewClock;
+  private frame?: number;
+
+  /**
+   * Follow a video clock: on every frame the tracks are started, stopped or rescheduled to match it
+   */
+  attach(clock: () => AudioPreviewClock): void {
+    this.clock = clock;
+    if (this.frame === undefined) {
+      const tick = (): void => {
+        this.update();
+        this.frame = requestAnimationFrame(tick);
+      };
+      this.frame = requestAnimationFrame(tick);
+    }
+  }
+
+  /**
+   * Set the tracks to play and the master volume. Volume and mute changes apply at once; changed
+   * timing reschedules the tracks. New files are decoded in the background.
+   */
+  setTracks(tracks: AudioPreviewTrack[], masterVolume: number): void {
+    const timingChanged = tracks.length !== this.tracks.length || tracks.some((track, index) => {
+      const previous = this.tracks[index];
+      return !previous || previous.id !== track.id || previous.url !== track.url || previous.start !== track.start ||
+        previous.end !== track.end || previous.fileStart !== track.fileStart || previous.fileEnd !== track.fileEnd;
+    });
+    this.tracks = tracks;
+    if (tracks.length === 0 && !this.context) {
+      return;
+    }
+
+    const context = this.getContext();
+    this.masterGain!.gain.value = masterVolume;
+
+    // Drop the gain nodes of removed tracks
+    this.trackGains.forEach((gain, id) => {
+      if (!tracks.some(track => track.id === id)) {
+        gain.disconnect();
+        this.trackGains.delete(id);
+      }
+    });
+    // Release the decoded files no track plays any more
+    this.buffers.forEach((_, url) => {
+      if (!tracks.some(track => track.url === url)) {
+        this.buffers.delete(url);
+        this.decoded.delete(url);
+      }
+    });
+    for (const track of tracks) {
+      let gain = this.trackGains.get(track.id);
+      if (!gain) {
+        gain = context.createGain();
+        gain.connect(this.masterGain!);
+        this.trackGains.set(track.id, gain);
+      }
+      gain.gain.value = track.muted ? 0 : track.volume;
+      void this.loadBuffer(track.url);
+    }
+
+    if (timingChanged) {
+      this.stopNodes();
+    }
+  }
+
+  /**
+   * Stop playback and release the AudioContext
+   */
+  dispose(): void {
+    if (this.frame !== undefined) {
+      cancelAnimationFrame(this.frame);
+      this.frame = undefined;
+    }
+    this.clock = undefined;
+    this.stopNodes();
+    this.trackGains.forEach(gain => gain.disconnect());
+    this.trackGains.clear();
+    this.buffers.clear();
+    this.decoded.clear();
+    this.tracks = [];
+    void this.context?.close();
+    this.context = undefined;
+    this.masterGain = undefined;
+  }
+
+  private update(): void {
+    const clock = this.clock?.();
+    if (!clock?.playing || !this.context || this.tracks.length === 0) {
+      this.stopNodes();
+      return;
+    }
+    if (this.context.state !== 'running') {
+      // Suspended until the page has had a user gesture; the context time stands still until then
+      void this.context.resume();
+      return;
+    }
+
+    if (this.scheduled && this.scheduled.rate === clock.rate) {
+      const expected = this.scheduled.time + (this.context.currentTime - this.scheduled.contextTime) * this.scheduled.rate;
+      if (Math.abs(expected - clock.time) <= MAX_DRIFT) {
+        return;
+      }
+    }
+    this.schedule(clock);
+  }
+
+  /**
+   * Start every decoded track at the clock's position: tracks that have begun play from the matching
+   * point in their file, later ones are scheduled to start on time
+   */
+  private schedule(clock: AudioPreviewClock): void {
+    this.stopNodes();
+    const context = this.context!;
+    const now = context.currentTime;
+    const rate = Math.max(clock.rate, 0.0625);
+
+    for (const track of this.tracks) {
+      const buffer = this.decoded.get(track.url);
+      const gain = this.trackGains.get(track.id);
+      const from = Math.max(track.start, clock.time);
+      const offset = track.fileStart + (from - track.start);
+      const length = Math.min(track.end - from, track.fileEnd - offset, (buffer?.duration ?? 0) - offset);
+      if (!buffer || !gain || length <= 0) {
+        continue;
+      }
+
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+      node.playbackRate.value = rate;
+      node.connect(gain);
+      node.start(now + (from - clock.time) / rate, offset, length);
+      this.nodes.push(node);
+    }
+    this.scheduled = { time: clock.time, contextTime: now, rate: clock.rate };
+  }
+
+  private stopNodes(): void {
+    for (const node of this.nodes) {
+      node.stop();
+      node.disconnect();
+    }
+    this.nodes = [];
+    this.scheduled = undefined;
+  }
+
+  private getContext(): AudioContext {
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.masterGain = this.context.createGain();
+      this.masterGain.connect(this.context.destination);
+    }
+    return this.context;
+  }
+
+  /**
+   * Fetch and decode an audio file once; a newly decoded file joins the playback on the next frame
+   */
+  private loadBuffer(url: string): Promise<AudioBuffer | null> {
+    const existing = this.buffers.get(url);
+    if (existing) {
+      return existing;
+    }
+
+    const context = this.getContext();
+    const buffer: Promise<AudioBuffer | null> = firstValueFrom(this.http.get(url, { responseType: 'arraybuffer' }))
+      .then(data => context.decodeAudioData(data))
+      .then(decoded => {
+        // The tracks may have dropped the file while it was decoding
+        if (this.buffers.get(url) !== buffer) {
+          return null;
+        }
+        this.decoded.set(url, decoded);
+        this.stopNodes();
+        return decoded;
+      })
+      .catch(error => {
+        console.warn(`[AudioPreview] Failed to decode audio ${url}:`, error);
+        if (this.buffers.get(url) === buffer) {
+          this.buffers.delete(url); // Retried when the tracks change
+        }
+        return null;
+      });
+    this.buffers.set(url, buffer);
+    return buffer;
+  }
+}
@@ -1,5 +1,5 @@
 import { Injectable, signal, computed } from '@angular/core';
-import type { AudioSource, TimelineCut } from '../video-editor.types';
+import type { AudioSource, ProjectAudio, TimelineCut } from '../video-editor.types';
 import { calculateAdjustedTime } from '../utils/timeline.utils';
 
 /**
@@ -385,6 +385,40 @@ export class AudioService {
     return this.activeAudioSources;
   }
 
+  /**
+   * Snapshot of the audio tracks and mix settings for saving a project
+   */
+  exportState(): ProjectAudio {
+    return {
+      tracks: this.audioSources().map(audio => ({
+        url: audio.url,
+        startTime: audio.startTime,
+        duration: audio.duration,
+        originalDuration: audio.originalDuration,
+        originalStartTime: audio.originalStartTime,
+        audioTrimStart: audio.audioTrimStart,
+        audioTrimEnd: audio.audioTrimEnd,
+        volume: audio.volume,
+        muted: audio.muted
+      })),
+      mixMode: this.audioMixMode(),
+      masterVolume: this.masterVolume()
+    };
+  }
+
+  /**
+   * Restore saved audio tracks and mix settings (track ids are reassigned)
+   */
+  importState(state: ProjectAudio): void {
+    this.audioSources.set(
+      state.tracks
+        .map((track, index) => ({ ...track, id: ++this.audioCounter, order: index }))
+        .sort((a, b) => a.startTime - b.startTime)
+    );
+    this.audioMixMode.set(state.mixMode);
+    this.masterVolume.set(state.masterVolume);
+  }
+
   /**
    * Reset audio service
    */
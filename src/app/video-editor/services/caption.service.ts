@@ -0,0 +1,165 @@
+import { Injectable, computed, signal } from '@angular/core';
+import type { CaptionCue, CaptionTrack, ProjectCaptions } from '../video-editor.types';
+import { formatCaptions, type CaptionFileFormat, type OutputCaptionCue } from '../utils/caption.utils';
+
+/**
+ * Service for the caption track: cues imported from SRT/WebVTT files and edited on the timeline
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CaptionService {
+  // State
+  protected readonly track = signal<CaptionTrack | null>(null);
+  protected readonly selectedCueId = signal<number | null>(null);
+
+  // Computed
+  protected readonly selectedCue = computed(() => {
+    const id = this.selectedCueId();
+    return this.track()?.cues.find(cue => cue.id === id) ?? null;
+  });
+
+  private readonly minCueDuration = 0.1;
+  private cueCounter = 0;
+
+  /**
+   * Replace the track with imported cues
+   * @param name File name to show
+   * @param cues Cues parsed by the server (times in seconds)
+   */
+  importCues(name: string, cues: { start: number; end: number; text: string }[]): void {
+    this.track.set({
+      name,
+      cues: cues.map(cue => ({ ...cue, id: ++this.cueCounter })).sort((a, b) => a.start - b.start)
+    });
+    this.selectedCueId.set(null);
+  }
+
+  /**
+   * Add a cue (and an empty track if there is none); the new cue is selected
+   */
+  addCue(start: number, end: number, text: string, duration: number): { success: boolean; error?: string } {
+    if (start < 0 || end > duration || end - start < this.minCueDuration || !text.trim()) {
+      return { success: false, error: 'Invalid caption timing or text.' };
+    }
+
+    const cue: CaptionCue = { id: ++this.cueCounter, start, end, text: text.trim() };
+    const track = this.track() ?? { name: 'Captions', cues: [] };
+    this.track.set({ ...track, cues: [...track.cues, cue].sort((a, b) => a.start - b.start) });
+    this.selectedCueId.set(cue.id);
+    return { success: true };
+  }
+
+  /**
+   * Change the text or timing of a cue. Times are clamped to 0..duration with a minimum cue length.
+   */
+  updateCue(id: number, updates: Partial<Omit<CaptionCue, 'id'>>, duration: number): void {
+    const track = this.track();
+    const cue = track?.cues.find(c => c.id === id);
+    if (!track || !cue) {
+      return;
+    }
+
+    const start = Math.min(Math.max(0, updates.start ?? cue.start), Math.max(0, duration - this.minCueDuration));
+    const end = Math.min(Math.max(start + this.minCueDuration, updates.end ?? cue.end), duration);
+    const updated: CaptionCue = { ...cue, ...updates, start, end };
+    this.track.set({
+      ...track,
+      cues: track.cues.map(c => (c.id === id ? updated : c)).sort((a, b) => a.start - b.start)
+    });
+  }
+
+  /**
+   * Remove a cue
+   */
+  removeCue(id: number): void {
+    const track = this.track();
+    if (!track) {
+      return;
+    }
+    this.track.set({ ...track, cues: track.cues.filter(cue => cue.id !== id) });
+    if (this.selectedCueId() === id) {
+      this.selectedCueId.set(null);
+    }
+  }
+
+  /**
+   * Select a cue for editing (null to deselect)
+   */
+  selectCue(id: number | null): void {
+    this.selectedCueId.set(id);
+  }
+
+  /**
+   * Cue shown at a time on the original timeline
+   */
+  getCueAt(time: number): CaptionCue | null {
+    return this.track()?.cues.find(cue => time >= cue.start && time < cue.end) ?? null;
+  }
+
+  /**
+   * Export the track for a project document
+   */
+  exportState(): ProjectCaptions | undefined {
+    const track = this.track();
+    return track
+      ? { name: track.name, cues: track.cues.map(({ start, end, text }) => ({ start, end, text })) }
+      : undefined;
+  }
+
+  /**
+   * Restore a saved track (ids are reassigned)
+   */
+  importState(captions: ProjectCaptions | undefined): void {
+    if (captions) {
+      this.importCues(captions.name, captions.cues);
+    } else {
+      this.clearTrack();
+    }
+  }
+
+  /**
+   * Remove the caption track
+   */
+  clearTrack(): void {
+    this.track.set(null);
+    this.selectedCueId.set(null);
+  }
+
+  /**
+   * Save cues (already shifted onto the output timeline) as an SRT or WebVTT download
+   */
+  downloadCaptions(cues: OutputCaptionCue[], format: CaptionFileFormat, name: string): void {
+    const type = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    const blob = new Blob([formatCaptions(cues, format)], { type });
+    const url = URL.createObjectURL(blob);
+    const fileName = name.trim().replace(/\.(srt|vtt)$/i, '').replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'captions';
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.${format}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  /**
+   * Get caption track signal
+   */
+  getTrack(): typeof this.track {
+    return this.track;
+  }
+
+  /**
+   * Get selected cue id signal
+   */
+  getSelectedCueId(): typeof this.selectedCueId {
+    return this.selectedCueId;
+  }
+
+  /**
+   * Get selected cue signal
+   */
+  getSelectedCue(): typeof this.selectedCue {
+    return this.selectedCue;
+  }
+}
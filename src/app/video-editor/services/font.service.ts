@@ -0,0 +1,67 @@
+import { Injectable, signal } from '@angular/core';
+import type { OverlayFont } from '../video-editor.types';
+
+/**
+ * Service for the font files of text overlays; registers each file with the browser
+ * (a FontFace, the scripted @font-face) so the preview uses the same font as the render
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FontService {
+  // State
+  protected readonly fonts = signal<OverlayFont[]>([]);
+
+  // Font URL -> registered CSS font-family (also fonts of opened projects that are not in the picker)
+  private readonly families = new Map<string, string>();
+
+  /**
+   * Add a font file to the picker
+   * @param url File URL (local blob: URL or server URL)
+   * @param name File name to show
+   */
+  addFont(url: string, name: string): OverlayFont {
+    const existing = this.fonts().find(font => font.url === url);
+    if (existing) {
+      return existing;
+    }
+
+    const font: OverlayFont = { url, name, family: this.register(url) };
+    this.fonts.update(fonts => [...fonts, font]);
+    return font;
+  }
+
+  /**
+   * CSS font-family for a text overlay's font (registered on first use), null for the default font
+   */
+  getFontFamily(url: string | undefined): string | null {
+    return url ? this.register(url) : null;
+  }
+
+  /**
+   * Get fonts signal
+   */
+  getFonts(): typeof this.fonts {
+    return this.fonts;
+  }
+
+  /**
+   * Register a font file with the document once; the family falls back to sans-serif while it loads
+   */
+  private register(url: string): string {
+    const registered = this.families.get(url);
+    if (registered) {
+      return registered;
+    }
+
+    const family = `overlay-font-${this.families.size + 1}`;
+    if (typeof FontFace !== 'undefined') {
+      const face = new FontFace(family, `url(${JSON.stringify(url)})`);
+      document.fonts.add(face);
+      face.load().catch(error => console.warn(`Failed to load font ${url}:`, error));
+    }
+    const fontFamily = `${family}, sans-serif`;
+    this.families.set(url, fontFamily);
+    return fontFamily;
+  }
+}
@@ -0,0 +1,225 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import type { EditorSnapshot, HistoryEntry } from '../video-editor.types';
+import { AudioService } from './audio.service';
+import { CaptionService } from './caption.service';
+import { OverlayService } from './overlay.service';
+import { TimelineService } from './timeline.service';
+import { VideoPlayerService } from './video-player.service';
+
+/**
+ * Service for undo/redo of edits to sources, timeline, overlays, audio and captions
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class HistoryService {
+  // State
+  protected readonly undoStack = signal<HistoryEntry[]>([]);
+  protected readonly redoStack = signal<HistoryEntry[]>([]);
+
+  // Computed
+  protected readonly canUndo = computed(() => this.undoStack().length > 0);
+  protected readonly canRedo = computed(() => this.redoStack().length > 0);
+  protected readonly undoLabel = computed(() => this.undoStack().at(-1)?.label ?? null);
+  protected readonly redoLabel = computed(() => this.redoStack().at(-1)?.label ?? null);
+
+  private readonly playerService = inject(VideoPlayerService);
+  private readonly timelineService = inject(TimelineService);
+  private readonly overlayService = inject(OverlayService);
+  private readonly audioService = inject(AudioService);
+  private readonly captionService = inject(CaptionService);
+  private readonly maxEntries = 100;
+  private readonly mergeWindowMs = 1000;
+  private recordingDepth = 0;
+  private gesture: HistoryEntry | null = null;
+  private lastMerge: { key: string; time: number } | null = null;
+
+  /**
+   * Run an edit and record it as one history entry (nothing is recorded if the edit changed nothing).
+   * Edits with the same merge key within a short window, like slider input, share one entry.
+   */
+  record<T>(label: string, edit: () => T, mergeKey?: string): T {
+    // Nested edits and edits during a gesture belong to the outer entry
+    if (this.recordingDepth > 0 || this.gesture) {
+      return this.runNested(edit);
+    }
+
+    const before = this.capture();
+    const result = this.runNested(edit);
+
+    if (!this.isSameState(before, this.capture())) {
+      const now = Date.now();
+      const merges = mergeKey !== undefined
+        && this.lastMerge?.key === mergeKey
+        && now - this.lastMerge.time < this.mergeWindowMs
+        && this.undoStack().at(-1)?.label === label;
+
+      if (!merges) {
+        this.push({ label, snapshot: before });
+      }
+      this.lastMerge = mergeKey !== undefined ? { key: mergeKey, time: now } : null;
+    }
+
+    return result;
+  }
+
+  /**
+   * Start a pointer gesture (drag or resize); every change until endGesture() becomes one entry
+   */
+  beginGesture(label: string): void {
+    this.endGesture();
+    this.gesture = { label, snapshot: this.capture() };
+  }
+
+  /**
+   * Finish the current gesture, recording it if it changed anything
+   */
+  endGesture(): void {
+    const gesture = this.gesture;
+    this.gesture = null;
+    if (gesture && !this.isSameState(gesture.snapshot, this.capture())) {
+      this.push(gesture);
+    }
+  }
+
+  /**
+   * Step back one entry. Returns the snapshot to restore (see restore()), or null if there is nothing to undo.
+   */
+  undo(): EditorSnapshot | null {
+    this.endGesture();
+    const entry = this.undoStack().at(-1);
+    if (!entry) {
+      return null;
+    }
+
+    this.undoStack.update(stack => stack.slice(0, -1));
+    this.redoStack.update(stack => [...stack, { label: entry.label, snapshot: this.capture() }]);
+    this.lastMerge = null;
+    return entry.snapshot;
+  }
+
+  /**
+   * Step forward one entry. Returns the snapshot to restore, or null if there is nothing to redo.
+   */
+  redo(): EditorSnapshot | null {
+    this.endGesture();
+    const entry = this.redoStack().at(-1);
+    if (!entry) {
+      return null;
+    }
+
+    this.redoStack.update(stack => stack.slice(0, -1));
+    this.undoStack.update(stack => [...stack, { label: entry.label, snapshot: this.capture() }]);
+    this.lastMerge = null;
+    return entry.snapshot;
+  }
+
+  /**
+   * Put a snapshot back into the services.
+   * Sources are set as well, but reloading the player is left to the editor.
+   */
+  restore(snapshot: EditorSnapshot): void {
+    this.playerService.getSources().set(snapshot.sources);
+    this.timelineService.getMode().set(snapshot.timelineMode);
+    this.timelineService.getTrimStart().set(snapshot.trimStart);
+    this.timelineService.getTrimEnd().set(snapshot.trimEnd);
+    this.timelineService.getCuts().set(snapshot.cuts);
+    this.timelineService.getSegments().set(snapshot.segments);
+    this.timelineService.getTransitions().set(snapshot.transitions);
+    this.timelineService.getTimelineSelection().set(null);
+    this.overlayService.getOverlays().set(snapshot.overlays);
+    this.audioService.getAudioSources().set(snapshot.audioSources);
+    this.audioService.getMasterVolume().set(snapshot.masterVolume);
+    this.audioService.getAudioMixMode().set(snapshot.audioMixMode);
+    this.captionService.getTrack().set(snapshot.captionTrack);
+
+    // Drop a selection that points at an overlay the snapshot doesn't have
+    const selected = this.overlayService.getSelectedOverlay()();
+    if (selected && !snapshot.overlays.some(overlay => overlay.id === selected.id)) {
+      this.overlayService.selectOverlay(null);
+    }
+    const selectedCueId = this.captionService.getSelectedCueId()();
+    if (selectedCueId !== null && !snapshot.captionTrack?.cues.some(cue => cue.id === selectedCueId)) {
+      this.captionService.selectCue(null);
+    }
+  }
+
+  /**
+   * Capture the current editable state
+   */
+  capture(): EditorSnapshot {
+    return {
+      sources: this.playerService.getSources()(),
+      timelineMode: this.timelineService.getMode()(),
+      trimStart: this.timelineService.getTrimStart()(),
+      trimEnd: this.timelineService.getTrimEnd()(),
+      cuts: this.timelineService.getCuts()(),
+      segments: this.timelineService.getSegments()(),
+      transitions: this.timelineService.getTransitions()(),
+      overlays: this.overlayService.getOverlays()(),
+      audioSources: this.audioService.getAudioSources()(),
+      masterVolume: this.audioService.getMasterVolume()(),
+      audioMixMode: this.audioService.getAudioMixMode()(),
+      captionTrack: this.captionService.getTrack()()
+    };
+  }
+
+  /**
+   * Forget all entries (a new project was opened or the editor was reset)
+   */
+  clear(): void {
+    this.gesture = null;
+    this.lastMerge = null;
+    this.undoStack.set([]);
+    this.redoStack.set([]);
+  }
+
+  /**
+   * Get can-undo signal
+   */
+  getCanUndo(): typeof this.canUndo {
+    return this.canUndo;
+  }
+
+  /**
+   * Get can-redo signal
+   */
+  getCanRedo(): typeof this.canRedo {
+    return this.canRedo;
+  }
+
+  /**
+   * Get the label of the next undo entry
+   */
+  getUndoLabel(): typeof this.undoLabel {
+    return this.undoLabel;
+  }
+
+  /**
+   * Get the label of the next redo entry
+   */
+  getRedoLabel(): typeof this.redoLabel {
+    return this.redoLabel;
+  }
+
+  private runNested<T>(edit: () => T): T {
+    this.recordingDepth++;
+    try {
+      return edit();
+    } finally {
+      this.recordingDepth--;
+    }
+  }
+
+  private push(entry: HistoryEntry): void {
+    this.undoStack.update(stack => [...stack, entry].slice(-this.maxEntries));
+    this.redoStack.set([]);
+  }
+
+  /**
+   * Services replace arrays on change, so comparing references is enough
+   */
+  private isSameState(a: EditorSnapshot, b: EditorSnapshot): boolean {
+    return (Object.keys(a) as (keyof EditorSnapshot)[]).every(key => a[key] === b[key]);
+  }
+}
@@ -7,4 +7,11 @@ export * from './video-player.service';
 export * from './overlay.service';
 export * from './timeline.service';
 export * from './audio.service';
+export * from './audio-preview.service';
+export * from './waveform.service';
+export * from './thumbnail.service';
+export * from './font.service';
+export * from './caption.service';
 
+export * from './project.service';
+export * from './history.service';
@@ -1,6 +1,8 @@
 import { Injectable, signal } from '@angular/core';
-import type { Overlay, TextOverlay, ImageOverlay, ShapeOverlay, TimelineCut, TimelineSegment } from '../video-editor.types';
+import type { Overlay, TextOverlay, ImageOverlay, ShapeOverlay, TimelineCut, TimelineSegment, KeyframeEasing, OverlayEffect, OverlayKeyframes, TextStyle, ShapeType, ShapeGeometry } from '../video-editor.types';
 import { validateOverlayTimes, validateOverlayTimesForSegments } from '../utils/timeline.utils';
+import { KEYFRAME_RANGES, clampKeyframeValue, findKeyframeAt, isOverlayAnimated, upsertKeyframe } from '../utils/keyframe.utils';
+import { clampTextStyle } from '../utils/text-style.utils';
 import { clamp } from '../video-editor.utils';
 
 /**
@@ -17,7 +19,7 @@ export class OverlayService {
   private overlayCounter = 0;
 
   /**
-   * Add a text overlay
+   * Add a text overlay (style values are clamped to TEXT_STYLE_LIMITS)
    */
   addText(
     text: string,
@@ -32,7 +34,8 @@ export class OverlayService {
     duration: number,
     mode: 'cut' | 'keep',
     cuts: TimelineCut[],
-    segments: TimelineSegment[]
+    segments: TimelineSegment[],
+    style: TextStyle = {}
   ): { success: boolean; error?: string } {
     if (!text.trim() || start >= end || end > duration) {
       return { success: false, error: 'Invalid overlay parameters.' };
@@ -61,7 +64,8 @@ export class OverlayService {
       fontSize,
       fontColor,
       backgroundColor,
-      opacity: clamp(opacity, 0, 1)
+      opacity: clamp(opacity, 0, 1),
+      ...clampTextStyle(style)
     };
 
     this.overlays.set([...this.overlays(), overlay].sort((a, b) => a.start - b.start));
@@ -122,7 +126,7 @@ export class OverlayService {
    * Add a shape overlay
    */
   addShape(
-    shapeType: 'rectangle',
+    shapeType: ShapeType,
     start: number,
     end: number,
     x: number,
@@ -136,7 +140,8 @@ export class OverlayService {
     duration: number,
     mode: 'cut' | 'keep',
     cuts: TimelineCut[],
-    segments: TimelineSegment[]
+    segments: TimelineSegment[],
+    geometry: ShapeGeometry = {}
   ): { success: boolean; error?: string } {
     if (start >= end || end > duration) {
       return { success: false, error: 'Invalid overlay parameters.' };
@@ -167,7 +172,11 @@ export class OverlayService {
       color,
       strokeWidth: clamp(strokeWidth, 1, 20),
       fill,
-      opacity: clamp(opacity, 0, 1)
+      opacity: clamp(opacity, 0, 1),
+      ...(shapeType === 'rounded-rectangle' && geometry.cornerRadius !== undefined
+        ? { cornerRadius: Math.max(0, geometry.cornerRadius) }
+        : {}),
+      ...(geometry.points ? { points: geometry.points } : {})
     };
 
     this.overlays.set([...this.overlays(), overlay].sort((a, b) => a.start - b.start));
@@ -183,6 +192,115 @@ export class OverlayService {
     );
   }
 
+  /**
+   * Move an overlay. Animated coordinates get a keyframe at `time` (seconds from the overlay start)
+   * instead of changing their static value.
+   */
+  moveOverlay(id: number, x: number, y: number, time: number): void {
+    const overlay = this.overlays().find(o => o.id === id);
+    if (!overlay) {
+      return;
+    }
+
+    const animated: Partial<Record<keyof OverlayKeyframes, number>> = {};
+    const moved = { ...overlay };
+    if (isOverlayAnimated(overlay, 'x')) {
+      animated.x = x;
+    } else {
+      moved.x = clamp(x, 0, 100);
+    }
+    if (isOverlayAnimated(overlay, 'y')) {
+      animated.y = y;
+    } else {
+      moved.y = clamp(y, 0, 100);
+    }
+
+    this.updateOverlay(moved);
+    this.setKeyframe(id, time, animated);
+  }
+
+  /**
+   * Set keyframes at a time (seconds from the overlay start, clamped to its duration).
+   * Only the given properties get a keyframe; an easing applies to every keyframe at that time.
+   */
+  setKeyframe(
+    id: number,
+    time: number,
+    values: Partial<Record<keyof OverlayKeyframes, number>>,
+    easing?: KeyframeEasing
+  ): void {
+    const overlay = this.overlays().find(o => o.id === id);
+    if (!overlay) {
+      return;
+    }
+
+    const keyframeTime = clamp(time, 0, overlay.end - overlay.start);
+    const keyframes: OverlayKeyframes = { ...overlay.keyframes };
+    let changed = false;
+
+    for (const property of Object.keys(KEYFRAME_RANGES) as (keyof OverlayKeyframes)[]) {
+      const track = keyframes[property];
+      const value = values[property] ?? (easing ? findKeyframeAt(track, keyframeTime)?.value : undefined);
+      if (value !== undefined) {
+        keyframes[property] = upsertKeyframe(track, keyframeTime, clampKeyframeValue(property, value), easing);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      this.updateOverlay({ ...overlay, keyframes });
+    }
+  }
+
+  /**
+   * Remove the keyframes at a time (seconds from the overlay start) from every track
+   */
+  removeKeyframe(id: number, time: number): void {
+    const overlay = this.overlays().find(o => o.id === id);
+    if (!overlay?.keyframes) {
+      return;
+    }
+
+    const keyframes: OverlayKeyframes = {};
+    for (const property of Object.keys(KEYFRAME_RANGES) as (keyof OverlayKeyframes)[]) {
+      const keyframe = findKeyframeAt(overlay.keyframes[property], time);
+      const track = overlay.keyframes[property]?.filter(k => k !== keyframe);
+      if (track && track.length > 0) {
+        keyframes[property] = track;
+      }
+    }
+
+    const { keyframes: _removed, ...rest } = overlay;
+    this.updateOverlay(Object.keys(keyframes).length > 0 ? { ...rest, keyframes } : rest);
+  }
+
+  /**
+   * Set or clear (null) the entrance or exit effect of an overlay
+   */
+  setEffect(id: number, slot: 'entranceEffect' | 'exitEffect', effect: OverlayEffect | null): void {
+    const overlay = this.overlays().find(o => o.id === id);
+    if (!overlay) {
+      return;
+    }
+
+    if (effect) {
+      this.updateOverlay({ ...overlay, [slot]: { ...effect, duration: clamp(effect.duration, 0.1, 10) } });
+    } else {
+      const { [slot]: _removed, ...rest } = overlay;
+      this.updateOverlay(rest as Overlay);
+    }
+  }
+
+  /**
+   * Set an overlay's rotation in degrees (clockwise, around its top-left corner)
+   */
+  setRotation(id: number, rotation: number): void {
+    const overlay = this.overlays().find(o => o.id === id);
+    if (overlay) {
+      this.updateOverlay({ ...overlay, rotation: clamp(rotation, -360, 360) });
+    }
+  }
+
   /**
    * Delete an overlay
    */
@@ -216,6 +334,23 @@ export class OverlayService {
     return this.selectedOverlay;
   }
 
+  /**
+   * Snapshot of the overlays for saving a project
+   */
+  exportState(): Overlay[] {
+    return this.overlays().map(overlay => ({ ...overlay }));
+  }
+
+  /**
+   * Restore saved overlays (ids are reassigned)
+   */
+  importState(overlays: Overlay[]): void {
+    this.overlays.set(
+      overlays.map(overlay => ({ ...overlay, id: ++this.overlayCounter })).sort((a, b) => a.start - b.start)
+    );
+    this.selectedOverlay.set(null);
+  }
+
   /**
    * Clear all overlays
    */
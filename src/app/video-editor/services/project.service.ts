@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import type { EditorProject, RenderOptions } from '../video-editor.types';
+import { PROJECT_SCHEMA_VERSION, migrateProject } from '../utils/project.utils';
+import { AudioService } from './audio.service';
+import { CaptionService } from './caption.service';
+import { OverlayService } from './overlay.service';
+import { TimelineService } from './timeline.service';
+import { VideoPlayerService } from './video-player.service';
+
+/**
+ * Service for saving and loading the editor state as a project document
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProjectService {
+  private readonly playerService = inject(VideoPlayerService);
+  private readonly timelineService = inject(TimelineService);
+  private readonly overlayService = inject(OverlayService);
+  private readonly audioService = inject(AudioService);
+  private readonly captionService = inject(CaptionService);
+
+  /**
+   * Collect the current editor state into a project document
+   */
+  createProject(name: string, output: RenderOptions): EditorProject {
+    return {
+      schemaVersion: PROJECT_SCHEMA_VERSION,
+      name,
+      savedAt: new Date().toISOString(),
+      sources: this.playerService.exportState(),
+      timeline: this.timelineService.exportState(),
+      overlays: this.overlayService.exportState(),
+      audio: this.audioService.exportState(),
+      captions: this.captionService.exportState(),
+      output
+    };
+  }
+
+  /**
+   * Parse a project file, migrating documents saved by older versions
+   * @throws Error when the file is not a valid project
+   */
+  parseProject(json: string): EditorProject {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error('Not a valid project file (invalid JSON).');
+    }
+    return migrateProject(raw);
+  }
+
+  /**
+   * Restore timeline, overlays, audio and captions of a project.
+   * Sources are restored by the editor first, since loading them resets the timeline.
+   */
+  restoreEditState(project: EditorProject): void {
+    this.timelineService.importState(project.timeline);
+    this.overlayService.importState(project.overlays);
+    this.audioService.importState(project.audio);
+    this.captionService.importState(project.captions);
+  }
+
+  /**
+   * Save a project as a JSON file download
+   */
+  downloadProject(project: EditorProject): void {
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const fileName = project.name.trim().replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '') || 'project';
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.project.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+}
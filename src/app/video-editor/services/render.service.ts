@@ -1,9 +1,21 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable } from 'rxjs';
+import { Observable, Subscription, exhaustMap, takeWhile, timer } from 'rxjs';
 import { environment } from '../../../environments/environment';
-import type { VideoSource, TimelineCut, Overlay, RenderResponse, AudioSource } from '../video-editor.types';
-import { calculateAdjustedTime } from '../utils/timeline.utils';
+import type {
+  VideoSource,
+  TimelineCut,
+  SegmentTiming,
+  TimelineTransition,
+  Overlay,
+  AudioSource,
+  CaptionCue,
+  RenderJobState,
+  RenderJobStatus,
+  RenderOptions
+} from '../video-editor.types';
+import { getOutputCues } from '../utils/caption.utils';
+import { calculateAdjustedTime, getOutputTransitions, removeTransitionOverlaps } from '../utils/timeline.utils';
 
 /**
  * Service for handling video rendering API calls
@@ -14,23 +26,37 @@ import { calculateAdjustedTime } from '../utils/timeline.utils';
 export class RenderService {
   private readonly http = inject(HttpClient);
   private readonly apiBaseUrl = environment.apiBaseUrl;
+  private readonly pollIntervalMs = 1000;
 
   /**
-   * Submit a render request to the backend
+   * Submit a render request to the backend and follow the job until it finishes.
+   * Emits every status update; the last emission has a final state.
    */
   render(
     sources: VideoSource[],
     trimStart: number,
     trimEnd: number,
     cuts: TimelineCut[],
+    segmentTiming: SegmentTiming[],
     overlays: Overlay[],
+    transitions: TimelineTransition[],
     audioSources: AudioSource[],
-    audioMixMode: 'mix' | 'replace'
-  ): Observable<RenderResponse> {
-    // Adjust overlay times to account for cuts being removed
+    audioMixMode: 'mix' | 'replace',
+    captionCues: CaptionCue[],
+    options: RenderOptions
+  ): Observable<RenderJobStatus> {
+    // Transitions overlap the clips at their joints, so everything after one moves earlier by its length.
+    // Joints are on the rendered video, which starts at trimStart; overlay and audio times are not offset by it.
+    const outputStart = calculateAdjustedTime(trimStart, cuts, segmentTiming);
+    const adjustedTransitions = getOutputTransitions(transitions, cuts, trimStart, trimEnd, segmentTiming);
+    const toOutputTime = (time: number): number =>
+      removeTransitionOverlaps(calculateAdjustedTime(time, cuts, segmentTiming) - outputStart, adjustedTransitions) +
+      outputStart;
+
+    // Adjust overlay times to account for cuts being removed, segment speeds and transitions
     const adjustedOverlays = overlays.map(overlay => {
-      const adjustedStart = calculateAdjustedTime(overlay.start, cuts);
-      const adjustedEnd = calculateAdjustedTime(overlay.end, cuts);
+      const adjustedStart = toOutputTime(overlay.start);
+      const adjustedEnd = toOutputTime(overlay.end);
       
       console.log(`[RenderService] Adjusting overlay times:`, {
         original: [overlay.start, overlay.end],
@@ -45,11 +71,11 @@ export class RenderService {
       };
     });
 
-    // Adjust audio times to account for cuts being removed
+    // Adjust audio times to account for cuts being removed, segment speeds and transitions
     const adjustedAudioSources = audioSources.map(audio => {
-      const adjustedStart = calculateAdjustedTime(audio.startTime, cuts);
+      const adjustedStart = toOutputTime(audio.startTime);
       // Calculate adjusted end time
-      const adjustedEnd = calculateAdjustedTime(audio.startTime + audio.duration, cuts);
+      const adjustedEnd = toOutputTime(audio.startTime + audio.duration);
       const adjustedDuration = adjustedEnd - adjustedStart;
       
       console.log(`[RenderService] Adjusting audio times:`, {
@@ -70,22 +96,106 @@ export class RenderService {
       };
     }).filter(audio => audio.duration > 0); // Remove audio that would have no duration after cuts
 
+    // Caption cues are timed like transitions and only sent when the render panel enables captions
+    const outputCues = options.captions
+      ? getOutputCues(captionCues, cuts, trimStart, trimEnd, segmentTiming, transitions)
+      : [];
+    const captions = options.captions && outputCues.length > 0
+      ? { ...options.captions, cues: outputCues }
+      : undefined;
+
     const payload = {
       sources: sources.map(s => ({
         url: s.url,
         type: s.type,
-        duration: s.type === 'image' ? s.duration : undefined
+        duration: s.type === 'image' ? s.duration : undefined,
+        color: s.color,
+        transform: s.transform
       })),
       trimStart,
       trimEnd,
       cuts: cuts.map(c => ({ start: c.start, end: c.end })),
+      segmentTiming,
       overlays: adjustedOverlays,
+      transitions: adjustedTransitions,
       audioSources: adjustedAudioSources,
       audioMixMode,
-      format: 'mp4' as const
+      format: options.format,
+      canvas: options.canvas,
+      quality: options.quality,
+      captions
     };
 
-    return this.http.post<RenderResponse>(`${this.apiBaseUrl}/api/render`, payload);
+    return this.http.post<RenderJobStatus>(`${this.apiBaseUrl}/api/render`, payload).pipe(
+      exhaustMap(job => this.watchJob(job.jobId))
+    );
+  }
+
+  /**
+   * Follow a render job through its Server-Sent Events stream.
+   * Falls back to polling when EventSource is unavailable or the stream drops.
+   */
+  watchJob(jobId: string): Observable<RenderJobStatus> {
+    if (typeof EventSource === 'undefined') {
+      return this.pollJob(jobId);
+    }
+
+    return new Observable<RenderJobStatus>(subscriber => {
+      const events = new EventSource(`${this.apiBaseUrl}/api/jobs/${jobId}/events`);
+      let fallback: Subscription | undefined;
+
+      events.onmessage = (event: MessageEvent<string>): void => {
+        const job = JSON.parse(event.data) as RenderJobStatus;
+        subscriber.next(job);
+        if (this.isFinalState(job.state)) {
+          events.close();
+          subscriber.complete();
+        }
+      };
+
+      events.onerror = (): void => {
+        events.close();
+        if (!subscriber.closed && !fallback) {
+          fallback = this.pollJob(jobId).subscribe(subscriber);
+        }
+      };
+
+      return () => {
+        events.close();
+        fallback?.unsubscribe();
+      };
+    });
+  }
+
+  /**
+   * Poll a render job until it reaches a final state
+   */
+  pollJob(jobId: string): Observable<RenderJobStatus> {
+    return timer(0, this.pollIntervalMs).pipe(
+      exhaustMap(() => this.getJob(jobId)),
+      takeWhile(job => !this.isFinalState(job.state), true)
+    );
+  }
+
+  /**
+   * Get the current status of a render job
+   */
+  getJob(jobId: string): Observable<RenderJobStatus> {
+    return this.http.get<RenderJobStatus>(`${this.apiBaseUrl}/api/jobs/${jobId}`);
+  }
+
+  /**
+   * Cancel a queued or running render job
+   */
+  cancelJob(jobId: string): Observable<RenderJobStatus> {
+    return this.http.delete<RenderJobStatus>(`${this.apiBaseUrl}/api/jobs/${jobId}`);
+  }
+
+  /**
+   * Whether a job state is final (no further updates will follow)
+   */
+  isFinalState(state: RenderJobState): boolean {
+    return state === 'succeeded' || state === 'failed' || state === 'cancelled';
   }
 
   /**
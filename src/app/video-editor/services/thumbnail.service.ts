@@ -0,0 +1,119 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import type { ThumbnailStrip } from '../video-editor.types';
+
+/**
+ * Seconds between the frames of a filmstrip
+ */
+export const THUMBNAIL_INTERVAL = 2;
+
+/**
+ * Size of the frames captured from local files (the backend uses the same height)
+ */
+const LOCAL_FRAME_HEIGHT = 90;
+const LOCAL_COLUMNS = 10;
+const LOCAL_ROWS = 10; // Local files get one sheet; long ones a wider interval
+
+/**
+ * Service for the filmstrip of the timeline: sprite sheets of server files come from the backend,
+ * which caches them; frames of local videos (blob: URLs) are captured in the browser
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ThumbnailService {
+  // State
+  protected readonly strips = signal<ReadonlyMap<string, ThumbnailStrip>>(new Map()); // Loaded strips by source URL
+
+  private readonly http = inject(HttpClient);
+  private readonly apiBaseUrl = environment.apiBaseUrl;
+  private readonly requested = new Set<string>(); // URLs loading or loaded (failed sources are not retried)
+
+  /**
+   * Load the thumbnail strip of a video source once; it joins the strips signal when it arrives
+   */
+  load(url: string, interval = THUMBNAIL_INTERVAL): void {
+    if (this.requested.has(url)) {
+      return;
+    }
+    this.requested.add(url);
+
+    const strip = url.startsWith('blob:')
+      ? this.captureLocal(url, interval)
+      : firstValueFrom(
+        this.http.get<ThumbnailStrip>(`${this.apiBaseUrl}/api/thumbnails`, { params: { url, interval } })
+      ).then(data => ({ ...data, sheets: data.sheets.map(sheet => `${this.apiBaseUrl}${sheet}`) }));
+    strip
+      .then(data => this.strips.update(strips => new Map(strips).set(url, data)))
+      .catch(error => console.warn(`[Thumbnails] Failed to load the thumbnails of ${url}:`, error));
+  }
+
+  /**
+   * Get strips signal
+   */
+  getStrips(): typeof this.strips {
+    return this.strips;
+  }
+
+  /**
+   * Seek a detached video element through a local file and draw each frame onto one sprite sheet
+   */
+  private async captureLocal(url: string, requestedInterval: number): Promise<ThumbnailStrip> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+    video.src = url;
+    await this.waitFor(video, 'loadeddata');
+
+    const { duration, videoWidth, videoHeight } = video;
+    const interval = Math.max(requestedInterval, duration / (LOCAL_COLUMNS * LOCAL_ROWS));
+    const count = Math.max(1, Math.ceil(duration / interval));
+    const frameHeight = LOCAL_FRAME_HEIGHT;
+    const frameWidth = Math.max(2, Math.round((LOCAL_FRAME_HEIGHT * videoWidth) / videoHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = frameWidth * LOCAL_COLUMNS;
+    canvas.height = frameHeight * Math.ceil(count / LOCAL_COLUMNS);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D is not available');
+    }
+    for (let index = 0; index < count; index++) {
+      video.currentTime = Math.min(index * interval, duration);
+      await this.waitFor(video, 'seeked');
+      const x = (index % LOCAL_COLUMNS) * frameWidth;
+      const y = Math.floor(index / LOCAL_COLUMNS) * frameHeight;
+      context.drawImage(video, x, y, frameWidth, frameHeight);
+    }
+    video.removeAttribute('src');
+    video.load();
+
+    const sheet = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.7));
+    if (!sheet) {
+      throw new Error('Failed to encode the thumbnails');
+    }
+    return {
+      duration,
+      interval,
+      count,
+      columns: LOCAL_COLUMNS,
+      rows: LOCAL_ROWS,
+      frameWidth,
+      frameHeight,
+      sheets: [URL.createObjectURL(sheet)]
+    };
+  }
+
+  private waitFor(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onError = (): void => reject(new Error(video.error?.message || 'Failed to load the video'));
+      video.addEventListener(event, () => {
+        video.removeEventListener('error', onError);
+        resolve();
+      }, { once: true });
+      video.addEventListener('error', onError, { once: true });
+    });
+  }
+}
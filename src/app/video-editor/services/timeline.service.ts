@@ -1,6 +1,13 @@
 import { Injectable, signal, computed } from '@angular/core';
-import type { TimelineCut, TimelineSegment } from '../video-editor.types';
-import { segmentsToCuts } from '../utils/timeline.utils';
+import type {
+  ProjectTimeline,
+  SegmentEffect,
+  TimelineCut,
+  TimelineSegment,
+  TimelineTransition,
+  TransitionType
+} from '../video-editor.types';
+import { SEGMENT_SPEED_LIMITS, findTransitionAt, getSegmentTiming, segmentsToCuts } from '../utils/timeline.utils';
 
 /**
  * Service for managing timeline state (cuts, trim points, segments)
@@ -17,6 +24,8 @@ export class TimelineService {
   protected readonly trimEnd = signal(0);
   protected readonly cuts = signal<TimelineCut[]>([]);
   protected readonly segments = signal<TimelineSegment[]>([]);
+  // Keyed by joint time; a transition whose joint is gone is ignored until the joint comes back (e.g. on undo)
+  protected readonly transitions = signal<TimelineTransition[]>([]);
   protected readonly cutSelection = signal({ start: 0, end: 0 });
   protected readonly segmentSelection = signal({ start: 0, end: 0 });
   protected readonly timelineSelection = signal<{ start: number; end: number } | null>(null);
@@ -48,6 +57,11 @@ export class TimelineService {
     return this.cuts();
   });
 
+  // Speed and freeze frames of the kept segments for rendering (only keep mode has segments)
+  protected readonly effectiveTiming = computed(() =>
+    this.mode() === 'keep' ? getSegmentTiming(this.segments()) : []
+  );
+
   private cutCounter = 0;
   private segmentCounter = 0;
   private readonly minGap = 0.1;
@@ -193,6 +207,77 @@ export class TimelineService {
     this.segments.set([]);
   }
 
+  /**
+   * Set the playback rate of a segment (clamped to SEGMENT_SPEED_LIMITS)
+   */
+  setSegmentSpeed(id: number, speed: number): void {
+    const { min, max } = SEGMENT_SPEED_LIMITS.speed;
+    const clamped = Math.min(max, Math.max(min, speed));
+    this.segments.set(
+      this.segments().map(s => (s.id === id ? { ...s, speed: clamped === 1 ? undefined : clamped } : s))
+    );
+  }
+
+  /**
+   * Turn a segment into a freeze frame held for the given seconds (dropping its effect), or back into footage (null)
+   */
+  setSegmentFreeze(id: number, freezeDuration: number | null): void {
+    const { min, max } = SEGMENT_SPEED_LIMITS.freezeDuration;
+    const clamped = freezeDuration === null ? undefined : Math.min(max, Math.max(min, freezeDuration));
+    this.segments.set(
+      this.segments().map(s =>
+        s.id === id ? { ...s, freezeDuration: clamped, effect: clamped === undefined ? s.effect : undefined } : s
+      )
+    );
+  }
+
+  /**
+   * Play a segment backwards or as a boomerang (null plays it forwards)
+   */
+  setSegmentEffect(id: number, effect: SegmentEffect | null): { success: boolean; error?: string } {
+    const segment = this.segments().find(s => s.id === id);
+    if (!segment) {
+      return { success: false, error: 'Segment not found.' };
+    }
+
+    const { max } = SEGMENT_SPEED_LIMITS.effectDuration;
+    if (effect && segment.end - segment.start > max) {
+      return { success: false, error: `Reversed segments can be at most ${max}s long.` };
+    }
+
+    this.segments.set(
+      this.segments().map(s =>
+        s.id === id ? { ...s, effect: effect ?? undefined, freezeDuration: effect ? undefined : s.freezeDuration } : s
+      )
+    );
+    return { success: true };
+  }
+
+  /**
+   * Set the transition at a joint (replaces the one already there)
+   */
+  setTransition(time: number, type: TransitionType, duration: number): void {
+    const transition: TimelineTransition = {
+      time,
+      type,
+      duration: Math.max(0.1, Math.min(duration, 5))
+    };
+    const existing = findTransitionAt(this.transitions(), time);
+    this.transitions.set(
+      [...this.transitions().filter(t => t !== existing), transition].sort((a, b) => a.time - b.time)
+    );
+  }
+
+  /**
+   * Remove the transition at a joint
+   */
+  removeTransition(time: number): void {
+    const existing = findTransitionAt(this.transitions(), time);
+    if (existing) {
+      this.transitions.set(this.transitions().filter(t => t !== existing));
+    }
+  }
+
   /**
    * Set segment selection (for adding new segments)
    */
@@ -235,6 +320,13 @@ export class TimelineService {
     return this.cuts;
   }
 
+  /**
+   * Get transitions signal
+   */
+  getTransitions(): typeof this.transitions {
+    return this.transitions;
+  }
+
   /**
    * Get cut selection signal
    */
@@ -312,6 +404,59 @@ export class TimelineService {
     return this.effectiveCuts;
   }
 
+  /**
+   * Get segment timing for rendering (speed and freeze frames of kept segments)
+   */
+  getEffectiveTiming(): typeof this.effectiveTiming {
+    return this.effectiveTiming;
+  }
+
+  /**
+   * Snapshot of the timeline for saving a project
+   */
+  exportState(): ProjectTimeline {
+    return {
+      mode: this.mode(),
+      trimStart: this.trimStart(),
+      trimEnd: this.trimEnd(),
+      cuts: this.cuts().map(({ start, end }) => ({ start, end })),
+      segments: this.segments().map(({ start, end, speed, freezeDuration, effect }) => ({
+        start,
+        end,
+        speed,
+        freezeDuration,
+        effect
+      })),
+      transitions: this.transitions().map(transition => ({ ...transition }))
+    };
+  }
+
+  /**
+   * Restore a saved timeline (cut and segment ids are reassigned)
+   */
+  importState(state: ProjectTimeline): void {
+    this.mode.set(state.mode);
+    this.trimStart.set(state.trimStart);
+    this.trimEnd.set(state.trimEnd);
+    this.cuts.set(
+      state.cuts.map(({ start, end }) => ({ id: ++this.cutCounter, start, end })).sort((a, b) => a.start - b.start)
+    );
+    this.segments.set(
+      state.segments
+        .map(({ start, end, speed, freezeDuration, effect }) => ({
+          id: ++this.segmentCounter,
+          start,
+          end,
+          speed,
+          freezeDuration,
+          effect
+        }))
+        .sort((a, b) => a.start - b.start)
+    );
+    this.transitions.set((state.transitions ?? []).map(transition => ({ ...transition })).sort((a, b) => a.time - b.time));
+    this.timelineSelection.set(null);
+  }
+
   /**
    * Reset timeline
    */
@@ -320,6 +465,7 @@ export class TimelineService {
     this.trimEnd.set(0);
     this.cuts.set([]);
     this.segments.set([]);
+    this.transitions.set([]);
     this.cutSelection.set({ start: 0, end: 0 });
     this.segmentSelection.set({ start: 0, end: 0 });
     this.timelineSelection.set(null);
@@ -1,6 +1,6 @@
 import { Injectable, signal, computed } from '@angular/core';
 import * as dashjs from 'dashjs';
-import type { VideoSource } from '../video-editor.types';
+import type { ProjectSource, VideoSource } from '../video-editor.types';
 
 /**
  * Service for managing video playback and dash.js player
@@ -219,6 +219,13 @@ export class VideoPlayerService {
     return this.sourceLoaded;
   }
 
+  /**
+   * Snapshot of the sources for saving a project (sources are restored by the editor, which reloads the player)
+   */
+  exportState(): ProjectSource[] {
+    return this.sources().map(({ url, type, duration, color, transform }) => ({ url, type, duration, color, transform }));
+  }
+
   /**
    * Cleanup
    */
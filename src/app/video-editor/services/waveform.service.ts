@@ -0,0 +1,62 @@
+import { HttpClient } from '@angular/common/http';
+import { Injectable, inject, signal } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '../../../environments/environment';
+import type { WaveformData } from '../video-editor.types';
+import { WAVEFORM_PEAKS_PER_SECOND, getAudioBufferPeaks } from '../utils/waveform.utils';
+
+/**
+ * Sample rate local files are decoded at for their peaks (the backend uses the same rate)
+ */
+const PEAK_SAMPLE_RATE = 8000;
+
+/**
+ * Service for the waveforms of the timeline: peak data of server files comes from the backend,
+ * which caches it; local files (blob: URLs) are decoded in the browser
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WaveformService {
+  // State
+  protected readonly waveforms = signal<ReadonlyMap<string, WaveformData>>(new Map()); // Loaded peak data by URL
+
+  private readonly http = inject(HttpClient);
+  private readonly apiBaseUrl = environment.apiBaseUrl;
+  private readonly requested = new Set<string>(); // URLs loading or loaded (failed files are not retried)
+
+  /**
+   * Load the peak data of a file once; it joins the waveforms signal when it arrives
+   */
+  load(url: string): void {
+    if (this.requested.has(url)) {
+      return;
+    }
+    this.requested.add(url);
+
+    const waveform = url.startsWith('blob:')
+      ? this.decodeLocal(url)
+      : firstValueFrom(this.http.get<WaveformData>(`${this.apiBaseUrl}/api/waveform`, { params: { url } }));
+    waveform
+      .then(data => this.waveforms.update(waveforms => new Map(waveforms).set(url, data)))
+      .catch(error => console.warn(`[Waveform] Failed to load the waveform of ${url}:`, error));
+  }
+
+  /**
+   * Get waveforms signal
+   */
+  getWaveforms(): typeof this.waveforms {
+    return this.waveforms;
+  }
+
+  private async decodeLocal(url: string): Promise<WaveformData> {
+    const data = await firstValueFrom(this.http.get(url, { responseType: 'arraybuffer' }));
+    const context = new OfflineAudioContext(1, 1, PEAK_SAMPLE_RATE);
+    try {
+      return getAudioBufferPeaks(await context.decodeAudioData(data), WAVEFORM_PEAKS_PER_SECOND);
+    } catch {
+      // Files without an audio stream (such as silent videos) fail to decode
+      return { duration: 0, peaksPerSecond: WAVEFORM_PEAKS_PER_SECOND, peaks: [] };
+    }
+  }
+}
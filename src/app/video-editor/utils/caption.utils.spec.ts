@@ -0,0 +1,51 @@
+import type { CaptionCue } from '../video-editor.types';
+import { formatCaptions, getOutputCues } from './caption.utils';
+
+function cue(start: number, end: number, text = 'Hi'): CaptionCue {
+  return { id: 1, start, end, text };
+}
+
+describe('getOutputCues', () => {
+  it('shifts cues to the trim start and removes the cuts before them', () => {
+    expect(getOutputCues([cue(2, 3), cue(7, 8)], [{ id: 1, start: 4, end: 6 }], 1, 10)).toEqual([
+      { start: 1, end: 2, text: 'Hi' },
+      { start: 4, end: 5, text: 'Hi' }
+    ]);
+  });
+
+  it('clamps cues to the output and drops the ones cut away', () => {
+    expect(getOutputCues([cue(0, 2), cue(4.5, 5.5), cue(9, 12)], [{ id: 1, start: 4, end: 6 }], 1, 10)).toEqual([
+      { start: 0, end: 1, text: 'Hi' },
+      { start: 6, end: 7, text: 'Hi' }
+    ]);
+  });
+
+  it('follows the segment speeds', () => {
+    const timing = [{ start: 2, end: 4, speed: 2 }];
+    expect(getOutputCues([cue(5, 6)], [], 0, 10, timing)).toEqual([{ start: 4, end: 5, text: 'Hi' }]);
+  });
+
+  it('moves cues after a transition earlier by its overlap', () => {
+    const transitions = [{ time: 4, type: 'fade' as const, duration: 1 }];
+    expect(getOutputCues([cue(2, 3), cue(6, 7)], [], 0, 10, [], transitions)).toEqual([
+      { start: 2, end: 3, text: 'Hi' },
+      { start: 5, end: 6, text: 'Hi' }
+    ]);
+  });
+});
+
+describe('formatCaptions', () => {
+  const cues = [{ start: 1.5, end: 3, text: 'Hello' }, { start: 3661.25, end: 3662, text: 'Bye' }];
+
+  it('writes numbered SRT blocks with comma timestamps', () => {
+    expect(formatCaptions(cues, 'srt')).toBe(
+      '1\n00:00:01,500 --> 00:00:03,000\nHello\n\n2\n01:01:01,250 --> 01:01:02,000\nBye\n'
+    );
+  });
+
+  it('writes a WebVTT header and dot timestamps', () => {
+    expect(formatCaptions(cues, 'vtt')).toBe(
+      'WEBVTT\n\n00:00:01.500 --> 00:00:03.000\nHello\n\n01:01:01.250 --> 01:01:02.000\nBye\n'
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import type { CaptionCue, SegmentTiming, TimelineCut, TimelineTransition } from '../video-editor.types';
+import { calculateAdjustedTime, getOutputTransitions, removeTransitionOverlaps } from './timeline.utils';
+
+/**
+ * Caption track utilities: output timing and SRT/WebVTT export (the render server parses the same formats)
+ */
+
+export type CaptionFileFormat = 'srt' | 'vtt';
+
+/**
+ * Cue without an id, timed on the output timeline
+ */
+export interface OutputCaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Shift cues onto the rendered output, which starts at trimStart with the cuts removed, segment speeds applied
+ * and the clips at each transition overlapped. Cues are clamped to the output; cues that end up empty
+ * (cut away or outside the trim) are dropped.
+ */
+export function getOutputCues(
+  cues: CaptionCue[],
+  cuts: TimelineCut[],
+  trimStart: number,
+  trimEnd: number,
+  timing: SegmentTiming[] = [],
+  transitions: TimelineTransition[] = []
+): OutputCaptionCue[] {
+  const overlaps = getOutputTransitions(transitions, cuts, trimStart, trimEnd, timing);
+  const outputStart = calculateAdjustedTime(trimStart, cuts, timing);
+  const toOutput = (time: number): number =>
+    removeTransitionOverlaps(calculateAdjustedTime(time, cuts, timing) - outputStart, overlaps);
+  const outputEnd = toOutput(trimEnd);
+  return cues
+    .map(cue => ({
+      start: Math.max(0, toOutput(cue.start)),
+      end: Math.min(outputEnd, toOutput(cue.end)),
+      text: cue.text
+    }))
+    .filter(cue => cue.end > cue.start);
+}
+
+/**
+ * Format seconds as a cue timestamp: `00:00:01,500` (SRT) or `00:00:01.500` (WebVTT)
+ */
+function formatTimestamp(seconds: number, format: CaptionFileFormat): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  const hours = pad(Math.floor(totalMs / 3600000));
+  const minutes = pad(Math.floor((totalMs % 3600000) / 60000));
+  const secs = pad(Math.floor((totalMs % 60000) / 1000));
+  return `${hours}:${minutes}:${secs}${format === 'srt' ? ',' : '.'}${pad(totalMs % 1000, 3)}`;
+}
+
+/**
+ * Write cues as an SRT or WebVTT file
+ */
+export function formatCaptions(cues: OutputCaptionCue[], format: CaptionFileFormat): string {
+  const blocks = cues.map((cue, index) => {
+    const timing = `${formatTimestamp(cue.start, format)} --> ${formatTimestamp(cue.end, format)}`;
+    return format === 'srt' ? `${index + 1}\n${timing}\n${cue.text}\n` : `${timing}\n${cue.text}\n`;
+  });
+  return format === 'srt' ? blocks.join('\n') : ['WEBVTT\n', ...blocks].join('\n');
+}
@@ -0,0 +1,272 @@
+import type { ColorCorrection } from '../video-editor.types';
+
+/**
+ * Color correction utilities: the preview approximation of the backend's eq/colorchannelmixer
+ * filters (CSS and SVG filters) and a WebGL preview of .cube LUTs
+ */
+
+/**
+ * Limits of the color correction fields (the backend validates the same values)
+ */
+export const COLOR_LIMITS = {
+  brightness: { min: -1, max: 1 },
+  contrast: { min: 0, max: 2 },
+  saturation: { min: 0, max: 3 },
+  gamma: { min: 0.1, max: 10 },
+  temperature: { min: -1, max: 1 },
+  tint: { min: -1, max: 1 }
+};
+
+export type ColorAdjustment = keyof typeof COLOR_LIMITS;
+
+/**
+ * Value of each adjustment that leaves the picture unchanged
+ */
+export const NEUTRAL_COLOR: Record<ColorAdjustment, number> = {
+  brightness: 0,
+  contrast: 1,
+  saturation: 1,
+  gamma: 1,
+  temperature: 0,
+  tint: 0
+};
+
+/**
+ * Largest gain of one color channel for the white balance at temperature or tint ±1 (as in the backend)
+ */
+const WHITE_BALANCE_GAIN = 0.2;
+
+/**
+ * Attributes of an SVG feFuncR/G/B element (type="gamma": amplitude * value^exponent + offset)
+ */
+export interface ColorChannelTransfer {
+  amplitude: number;
+  exponent: number;
+  offset: number;
+}
+
+/**
+ * Preview of a color correction: a CSS filter for the video, which ends with the SVG filter
+ * holding the per-channel transfer when there is one
+ */
+export interface ColorPreview {
+  filter: string;
+  channels: { r: ColorChannelTransfer; g: ColorChannelTransfer; b: ColorChannelTransfer } | null;
+}
+
+/**
+ * A parsed .cube 3D LUT; data holds RGB triples with red changing fastest, then green, then blue
+ */
+export interface CubeLut {
+  size: number;
+  data: Float32Array;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+/**
+ * Draws video frames or images through a 3D LUT onto a canvas
+ */
+export interface LutRenderer {
+  setLut(lut: CubeLut): void;
+  render(media: TexImageSource, width: number, height: number): void;
+  dispose(): void;
+}
+
+/**
+ * Whether a source has any color correction (a LUT or a field away from its neutral value)
+ */
+export function hasColorCorrection(color: ColorCorrection | undefined): boolean {
+  if (!color) {
+    return false;
+  }
+  return Boolean(color.lutUrl) ||
+    (Object.keys(NEUTRAL_COLOR) as ColorAdjustment[]).some(key => (color[key] ?? NEUTRAL_COLOR[key]) !== NEUTRAL_COLOR[key]);
+}
+
+/**
+ * Approximate a color correction in the preview. Contrast and saturation map to CSS filters; gamma,
+ * the white balance gains and the (additive) brightness go into the SVG filter referenced by svgFilterUrl.
+ * Returns null when the picture is unchanged.
+ */
+export function getColorPreview(color: ColorCorrection | undefined, svgFilterUrl: string): ColorPreview | null {
+  if (!color || !hasColorCorrection(color)) {
+    return null;
+  }
+
+  const filters: string[] = [];
+  if (color.contrast !== undefined && color.contrast !== 1) {
+    filters.push(`contrast(${color.contrast})`);
+  }
+  if (color.saturation !== undefined && color.saturation !== 1) {
+    filters.push(`saturate(${color.saturation})`);
+  }
+
+  const brightness = color.brightness ?? 0;
+  const gamma = color.gamma ?? 1;
+  const temperature = color.temperature ?? 0;
+  const tint = color.tint ?? 0;
+  let channels: ColorPreview['channels'] = null;
+  if (brightness !== 0 || gamma !== 1 || temperature !== 0 || tint !== 0) {
+    const channel = (gain: number): ColorChannelTransfer => ({
+      amplitude: 1 + gain * WHITE_BALANCE_GAIN,
+      exponent: 1 / gamma,
+      offset: brightness
+    });
+    channels = { r: channel(temperature), g: channel(-tint), b: channel(-temperature) };
+    filters.push(`url(${svgFilterUrl})`);
+  }
+
+  return { filter: filters.length > 0 ? filters.join(' ') : 'none', channels };
+}
+
+/**
+ * Parse the text of a .cube file (3D LUTs only)
+ * @throws Error when the file has no LUT_3D_SIZE or the wrong number of entries
+ */
+export function parseCubeLut(text: string): CubeLut {
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const [keyword = '', ...rest] = line.split(/\s+/);
+    const numbers = rest.map(Number);
+
+    if (!isNaN(Number(keyword))) {
+      const entry = [Number(keyword), ...numbers];
+      if (entry.length !== 3 || entry.some(isNaN)) {
+        throw new Error(`Invalid LUT entry: "${line}".`);
+      }
+      values.push(...entry);
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = numbers[0] ?? 0;
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; use a 3D .cube LUT.');
+    } else if (keyword === 'DOMAIN_MIN' || keyword === 'DOMAIN_MAX') {
+      if (numbers.length !== 3 || numbers.some(isNaN)) {
+        throw new Error(`Invalid ${keyword} line.`);
+      }
+      if (keyword === 'DOMAIN_MIN') {
+        domainMin = numbers as [number, number, number];
+      } else {
+        domainMax = numbers as [number, number, number];
+      }
+    }
+    // Other keywords (TITLE, ...) do not change the table
+  }
+
+  if (size < 2 || size > 256) {
+    throw new Error('The file is not a 3D .cube LUT (missing or invalid LUT_3D_SIZE).');
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`The LUT should have ${size ** 3} entries but has ${values.length / 3}.`);
+  }
+  return { size, data: new Float32Array(values), domainMin, domainMax };
+}
+
+const LUT_VERTEX_SHADER = `#version 300 es
+in vec2 position;
+out vec2 uv;
+void main() {
+  uv = vec2((position.x + 1.0) / 2.0, (1.0 - position.y) / 2.0);
+  gl_Position = vec4(position, 0.0, 1.0);
+}`;
+
+const LUT_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D frame;
+uniform sampler3D lut;
+uniform float lutSize;
+uniform vec3 domainMin;
+uniform vec3 domainMax;
+in vec2 uv;
+out vec4 color;
+void main() {
+  vec3 rgb = clamp((texture(frame, uv).rgb - domainMin) / (domainMax - domainMin), 0.0, 1.0);
+  // Sample at the centres of the first and last texels so the LUT's corner entries map to 0 and 1
+  color = vec4(texture(lut, rgb * ((lutSize - 1.0) / lutSize) + 0.5 / lutSize).rgb, 1.0);
+}`;
+
+/**
+ * Create a WebGL 2 renderer on the canvas; null when the browser has no WebGL 2
+ * (the preview then shows the other adjustments without the LUT)
+ */
+export function createLutRenderer(canvas: HTMLCanvasElement): LutRenderer | null {
+  const gl = canvas.getContext('webgl2');
+  if (!gl) {
+    return null;
+  }
+
+  const compile = (type: number, source: string): WebGLShader => {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      throw new Error(`LUT shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+    }
+    return shader;
+  };
+
+  const program = gl.createProgram()!;
+  gl.attachShader(program, compile(gl.VERTEX_SHADER, LUT_VERTEX_SHADER));
+  gl.attachShader(program, compile(gl.FRAGMENT_SHADER, LUT_FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  gl.useProgram(program);
+
+  // Two triangles covering the canvas
+  const buffer = gl.createBuffer();
+  gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+  gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+  const position = gl.getAttribLocation(program, 'position');
+  gl.enableVertexAttribArray(position);
+  gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+  const createTexture = (unit: number, target: number): WebGLTexture => {
+    const texture = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(target, texture);
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    return texture;
+  };
+  const frameTexture = createTexture(0, gl.TEXTURE_2D);
+  const lutTexture = createTexture(1, gl.TEXTURE_3D);
+  gl.uniform1i(gl.getUniformLocation(program, 'frame'), 0);
+  gl.uniform1i(gl.getUniformLocation(program, 'lut'), 1);
+
+  return {
+    setLut(lut: CubeLut): void {
+      gl.activeTexture(gl.TEXTURE1);
+      gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+      gl.uniform1f(gl.getUniformLocation(program, 'lutSize'), lut.size);
+      gl.uniform3fv(gl.getUniformLocation(program, 'domainMin'), lut.domainMin);
+      gl.uniform3fv(gl.getUniformLocation(program, 'domainMax'), lut.domainMax);
+    },
+    render(media: TexImageSource, width: number, height: number): void {
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, media);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    },
+    dispose(): void {
+      gl.deleteTexture(frameTexture);
+      gl.deleteTexture(lutTexture);
+      gl.deleteBuffer(buffer);
+      gl.deleteProgram(program);
+    }
+  };
+}
@@ -0,0 +1,42 @@
+import type { OverlayKeyframe } from '../video-editor.types';
+import { interpolateKeyframes, upsertKeyframe } from './keyframe.utils';
+
+describe('interpolateKeyframes', () => {
+  const track: OverlayKeyframe[] = [
+    { time: 4, value: 20, easing: 'hold' },
+    { time: 0, value: 0, easing: 'linear' },
+    { time: 6, value: 0, easing: 'linear' },
+    { time: 2, value: 10, easing: 'ease-in-out' }
+  ];
+
+  it('holds the first and last values outside the keyframes', () => {
+    expect(interpolateKeyframes(track, -1)).toBe(0);
+    expect(interpolateKeyframes(track, 7)).toBe(0);
+    expect(interpolateKeyframes([], 1)).toBe(0);
+  });
+
+  it('interpolates linearly', () => {
+    expect(interpolateKeyframes(track, 1)).toBe(5);
+  });
+
+  it('eases in and out with a smoothstep', () => {
+    expect(interpolateKeyframes(track, 3)).toBe(15);
+    expect(interpolateKeyframes(track, 2.5)).toBe(11.5625);
+  });
+
+  it('holds the value until the next keyframe', () => {
+    expect(interpolateKeyframes(track, 5.9)).toBe(20);
+  });
+});
+
+describe('upsertKeyframe', () => {
+  it('replaces the keyframe at a time and keeps its easing', () => {
+    const track: OverlayKeyframe[] = [{ time: 1, value: 5, easing: 'hold' }];
+    expect(upsertKeyframe(track, 1.0001, 8)).toEqual([{ time: 1, value: 8, easing: 'hold' }]);
+  });
+
+  it('inserts new keyframes in time order', () => {
+    const track: OverlayKeyframe[] = [{ time: 2, value: 5, easing: 'linear' }];
+    expect(upsertKeyframe(track, 1, 3).map(keyframe => keyframe.time)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,139 @@
+import type { KeyframeEasing, Overlay, OverlayKeyframe, OverlayKeyframes } from '../video-editor.types';
+import { clamp } from '../video-editor.utils';
+
+/**
+ * Overlay keyframe utilities (the render server builds matching FFmpeg expressions)
+ */
+
+/**
+ * All animatable properties with the range their values are clamped to
+ */
+export const KEYFRAME_RANGES: Record<keyof OverlayKeyframes, { min: number; max: number }> = {
+  x: { min: 0, max: 100 },
+  y: { min: 0, max: 100 },
+  scale: { min: 0.1, max: 10 },
+  opacity: { min: 0, max: 1 }
+};
+
+/**
+ * Clamp a keyframe value to the range of its property
+ */
+export function clampKeyframeValue(property: keyof OverlayKeyframes, value: number): number {
+  return clamp(value, KEYFRAME_RANGES[property].min, KEYFRAME_RANGES[property].max);
+}
+
+/**
+ * Check if two keyframe times are the same
+ */
+function isSameTime(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.001;
+}
+
+/**
+ * Value of a keyframe track at a time
+ * @param track Keyframes, in any order
+ * @param time Seconds from the overlay start
+ * @returns The interpolated value; the first value before the first keyframe and the last value after the last one
+ */
+export function interpolateKeyframes(track: OverlayKeyframe[], time: number): number {
+  const keyframes = [...track].sort((a, b) => a.time - b.time);
+  const first = keyframes[0];
+  const last = keyframes[keyframes.length - 1];
+  if (!first || !last) {
+    return 0;
+  }
+  if (time <= first.time) {
+    return first.value;
+  }
+  if (time >= last.time) {
+    return last.value;
+  }
+
+  const index = keyframes.findIndex(keyframe => keyframe.time > time) - 1;
+  const from = keyframes[index];
+  const to = keyframes[index + 1];
+  if (from.easing === 'hold') {
+    return from.value;
+  }
+
+  const progress = (time - from.time) / (to.time - from.time);
+  const eased = from.easing === 'ease-in-out' ? progress * progress * (3 - 2 * progress) : progress;
+  return from.value + (to.value - from.value) * eased;
+}
+
+/**
+ * Check if an overlay property has a keyframe track
+ */
+export function isOverlayAnimated(overlay: Overlay, property: keyof OverlayKeyframes): boolean {
+  return (overlay.keyframes?.[property]?.length ?? 0) > 0;
+}
+
+/**
+ * Value of an overlay property at a time: its keyframe track when it has one, else the static value
+ * @param overlay The overlay
+ * @param property Animatable property
+ * @param time Timeline time in seconds (not relative to the overlay)
+ */
+export function getOverlayValueAt(overlay: Overlay, property: keyof OverlayKeyframes, time: number): number {
+  const track = overlay.keyframes?.[property];
+  if (track && track.length > 0) {
+    return interpolateKeyframes(track, time - overlay.start);
+  }
+
+  switch (property) {
+    case 'x':
+      return overlay.x;
+    case 'y':
+      return overlay.y;
+    case 'opacity':
+      return overlay.opacity ?? 1;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Times (seconds from the overlay start) that have a keyframe on any track, in order
+ */
+export function getOverlayKeyframeTimes(overlay: Overlay): number[] {
+  const times: number[] = [];
+  for (const track of Object.values(overlay.keyframes ?? {})) {
+    for (const keyframe of track ?? []) {
+      if (!times.some(time => isSameTime(time, keyframe.time))) {
+        times.push(keyframe.time);
+      }
+    }
+  }
+  return times.sort((a, b) => a - b);
+}
+
+/**
+ * Find the keyframe of a track at a time
+ */
+export function findKeyframeAt(track: OverlayKeyframe[] | undefined, time: number): OverlayKeyframe | undefined {
+  return track?.find(keyframe => isSameTime(keyframe.time, time));
+}
+
+/**
+ * Insert or replace the keyframe at a time
+ * @param track Existing keyframes (not modified)
+ * @param time Seconds from the overlay start
+ * @param value New value
+ * @param easing New easing; the existing keyframe's easing (or linear) when omitted
+ * @returns The new track, in time order
+ */
+export function upsertKeyframe(
+  track: OverlayKeyframe[] | undefined,
+  time: number,
+  value: number,
+  easing?: KeyframeEasing
+): OverlayKeyframe[] {
+  const existing = findKeyframeAt(track, time);
+  const others = (track ?? []).filter(keyframe => keyframe !== existing);
+  const keyframe: OverlayKeyframe = {
+    time: existing?.time ?? time,
+    value,
+    easing: easing ?? existing?.easing ?? 'linear'
+  };
+  return [...others, keyframe].sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,89 @@
+import type { Overlay, OverlayEffect, OverlayEffectState, TextOverlay } from '../video-editor.types';
+
+/**
+ * Overlay entrance/exit effect utilities (the render server builds matching FFmpeg expressions)
+ */
+
+/**
+ * Entrance and exit durations, shortened in proportion when together they are longer than the overlay
+ */
+export function getEffectDurations(overlay: Overlay): { entrance: number; exit: number } {
+  const entrance = overlay.entranceEffect?.duration ?? 0;
+  const exit = overlay.exitEffect?.duration ?? 0;
+  const length = overlay.end - overlay.start;
+  const fit = entrance + exit > length ? length / (entrance + exit) : 1;
+  return { entrance: entrance * fit, exit: exit * fit };
+}
+
+/**
+ * Entrance and exit effects with their progress at a time: 0 → 1 over the entrance, 1 → 0 over the exit, 1 otherwise
+ */
+function getEffectProgress(overlay: Overlay, time: number): { effect: OverlayEffect; progress: number }[] {
+  const durations = getEffectDurations(overlay);
+  const clampProgress = (value: number): number => Math.min(1, Math.max(0, value));
+  const effects: { effect: OverlayEffect; progress: number }[] = [];
+  if (overlay.entranceEffect) {
+    effects.push({
+      effect: overlay.entranceEffect,
+      progress: clampProgress((time - overlay.start) / durations.entrance)
+    });
+  }
+  if (overlay.exitEffect) {
+    effects.push({
+      effect: overlay.exitEffect,
+      progress: clampProgress((overlay.end - time) / durations.exit)
+    });
+  }
+  return effects;
+}
+
+/**
+ * How the entrance/exit effects change an overlay at a time
+ * @param overlay The overlay
+ * @param time Timeline time in seconds
+ * @param x Position before effects (0-100 percentage), e.g. from keyframes
+ * @param y Position before effects
+ */
+export function getOverlayEffectState(overlay: Overlay, time: number, x: number, y: number): OverlayEffectState {
+  const state: OverlayEffectState = { x, y, shiftX: 0, shiftY: 0, zoom: 1, opacity: 1 };
+
+  for (const { effect, progress } of getEffectProgress(overlay, time)) {
+    if (effect.type === 'fade') {
+      state.opacity *= progress;
+    } else if (effect.type === 'zoom') {
+      state.zoom *= Math.max(progress, 0.01);
+    } else if (effect.type === 'slide') {
+      // Left and top slides move the overlay one own size past the edge, right and bottom ones to the edge
+      const edge = effect.edge ?? 'left';
+      if (edge === 'left') {
+        state.x *= progress;
+        state.shiftX -= 1 - progress;
+      } else if (edge === 'right') {
+        state.x += (100 - state.x) * (1 - progress);
+      } else if (edge === 'top') {
+        state.y *= progress;
+        state.shiftY -= 1 - progress;
+      } else {
+        state.y += (100 - state.y) * (1 - progress);
+      }
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Part of a text overlay's text shown at a time; typewriter effects type it in and delete it again
+ */
+export function getTypewriterText(overlay: TextOverlay, time: number): string {
+  const characters = Array.from(overlay.text);
+  let shown = characters.length;
+
+  for (const { effect, progress } of getEffectProgress(overlay, time)) {
+    if (effect.type === 'typewriter') {
+      shown = Math.min(shown, Math.ceil(characters.length * progress));
+    }
+  }
+
+  return characters.slice(0, shown).join('');
+}
@@ -0,0 +1,48 @@
+import { migrateProject, PROJECT_SCHEMA_VERSION } from './project.utils';
+
+// The same document and result as server/src/utils/project.utils.spec.ts: both sides must migrate it alike
+const legacyRenderPayload = {
+  sourceUrl: 'https://example.com/video.mp4',
+  trimStart: 1,
+  trimEnd: 20,
+  cuts: [{ start: 4, end: 6 }],
+  overlays: [{ id: 1, type: 'text', text: 'Hi', start: 3, end: 7, x: 10, y: 10 }],
+  audioSources: [{ url: 'https://example.com/music.mp3', startTime: 5, duration: 4, volume: 0.5 }],
+  audioMixMode: 'replace',
+  format: 'webm'
+};
+
+describe('migrateProject', () => {
+  it('turns a v0 render payload into a v1 project on the original timeline', () => {
+    expect(migrateProject(legacyRenderPayload)).toEqual({
+      schemaVersion: 1,
+      name: 'Imported render',
+      savedAt: expect.any(String),
+      sources: [{ url: 'https://example.com/video.mp4', type: 'video' }],
+      timeline: { mode: 'cut', trimStart: 1, trimEnd: 20, cuts: [{ start: 4, end: 6 }], segments: [] },
+      overlays: [{ id: 1, type: 'text', text: 'Hi', start: 3, end: 9, x: 10, y: 10 }],
+      audio: {
+        tracks: [{
+          url: 'https://example.com/music.mp3',
+          startTime: 7,
+          duration: 4,
+          originalDuration: 4,
+          audioTrimStart: 0,
+          audioTrimEnd: 4,
+          volume: 0.5,
+          muted: false
+        }],
+        mixMode: 'replace',
+        masterVolume: 1
+      },
+      output: { format: 'webm' }
+    });
+  });
+
+  it('leaves current documents alone and rejects newer ones', () => {
+    const current = migrateProject(legacyRenderPayload);
+    expect(migrateProject(current)).toBe(current);
+    expect(() => migrateProject({ ...current, schemaVersion: PROJECT_SCHEMA_VERSION + 1 })).toThrow();
+    expect(() => migrateProject([])).toThrow();
+  });
+});
@@ -0,0 +1,166 @@
+import type { EditorProject, OutputCanvas, OutputFormat, Overlay, ProjectAudioTrack, QualityOptions } from '../video-editor.types';
+import { calculateOriginalTime } from './timeline.utils';
+
+/**
+ * Project document versioning and migration utilities
+ */
+
+/**
+ * Version written by this build. Bump it together with a new entry in `projectMigrations`.
+ */
+export const PROJECT_SCHEMA_VERSION = 1;
+
+type ProjectDocument = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns the document at the next version.
+ * The render server migrates stored and posted projects with a twin of these (server/src/utils/project.utils.ts):
+ * change both together, project.utils.spec.ts on each side checks the same v0 document.
+ */
+const projectMigrations: Record<number, (document: ProjectDocument) => ProjectDocument> = {
+  0: migrateLegacyRenderPayload
+};
+
+/**
+ * Upgrade a parsed project document to the current schema version and check its shape
+ * @throws Error when the document is not a project or was written by a newer version
+ */
+export function migrateProject(raw: unknown): EditorProject {
+  if (!isRecord(raw)) {
+    throw new Error('Not a valid project file.');
+  }
+
+  // Documents without a version are render payloads saved before projects existed
+  let document: ProjectDocument = raw;
+  let version = typeof raw['schemaVersion'] === 'number' ? raw['schemaVersion'] : 0;
+
+  if (version > PROJECT_SCHEMA_VERSION) {
+    throw new Error(`Project was saved by a newer version (schema ${version}); update the editor to open it.`);
+  }
+
+  while (version < PROJECT_SCHEMA_VERSION) {
+    const migrate = projectMigrations[version];
+    if (!migrate) {
+      throw new Error(`Cannot migrate project from schema version ${version}.`);
+    }
+    document = migrate(document);
+    version = document['schemaVersion'] as number;
+  }
+
+  assertProjectShape(document);
+  return document;
+}
+
+/**
+ * Collect the temporary browser URLs (local files) a project refers to
+ */
+export function getProjectLocalUrls(project: EditorProject): string[] {
+  const urls = [
+    ...project.sources.map(source => source.url),
+    ...project.sources.flatMap(source => (source.color?.lutUrl ? [source.color.lutUrl] : [])),
+    ...project.overlays.flatMap(overlay => (overlay.type === 'image' ? [overlay.imageUrl] : [])),
+    ...project.overlays.flatMap(overlay => (overlay.type === 'text' && overlay.fontUrl ? [overlay.fontUrl] : [])),
+    ...project.audio.tracks.map(track => track.url)
+  ];
+  return [...new Set(urls.filter(url => url.startsWith('blob:')))];
+}
+
+/**
+ * v0 -> v1: the JSON body of POST /api/render. Overlay and audio times in it were already shifted
+ * for the cuts, so they are mapped back to the original timeline.
+ */
+function migrateLegacyRenderPayload(document: ProjectDocument): ProjectDocument {
+  const cuts = asArray(document['cuts']).filter(isRecord).map((cut, index) => ({
+    id: index,
+    start: Number(cut['start']),
+    end: Number(cut['end'])
+  }));
+
+  const overlays = asArray(document['overlays']).filter(isRecord).map(overlay => ({
+    ...overlay,
+    start: calculateOriginalTime(Number(overlay['start']), cuts),
+    end: calculateOriginalTime(Number(overlay['end']), cuts)
+  }));
+
+  const tracks: ProjectAudioTrack[] = asArray(document['audioSources']).filter(isRecord).map(audio => {
+    const duration = Number(audio['duration']);
+    const originalDuration = Number(audio['originalDuration'] ?? duration);
+    return {
+      url: String(audio['url']),
+      startTime: calculateOriginalTime(Number(audio['startTime']), cuts),
+      duration,
+      originalDuration,
+      audioTrimStart: Number(audio['audioTrimStart'] ?? 0),
+      audioTrimEnd: Number(audio['audioTrimEnd'] ?? originalDuration),
+      volume: Number(audio['volume'] ?? 1),
+      muted: Boolean(audio['muted'])
+    };
+  });
+
+  // Single-source payloads could send only the legacy sourceUrl field
+  const sources = [...asArray(document['sources'])];
+  if (sources.length === 0 && typeof document['sourceUrl'] === 'string') {
+    sources.push({ url: document['sourceUrl'], type: 'video' });
+  }
+
+  return {
+    schemaVersion: 1,
+    name: 'Imported render',
+    savedAt: new Date().toISOString(),
+    sources,
+    timeline: {
+      mode: 'cut',
+      trimStart: Number(document['trimStart'] ?? 0),
+      trimEnd: Number(document['trimEnd'] ?? 0),
+      cuts: cuts.map(({ start, end }) => ({ start, end })),
+      segments: []
+    },
+    overlays,
+    audio: {
+      tracks,
+      mixMode: document['audioMixMode'] === 'replace' ? 'replace' : 'mix',
+      masterVolume: 1
+    },
+    output: {
+      format: (document['format'] as OutputFormat | undefined) ?? 'mp4',
+      canvas: document['canvas'] as OutputCanvas | undefined,
+      quality: document['quality'] as QualityOptions | undefined
+    }
+  };
+}
+
+/**
+ * Structural check of a current-version document (the backend validates the full schema)
+ */
+function assertProjectShape(document: ProjectDocument): asserts document is ProjectDocument & EditorProject {
+  const timeline = document['timeline'];
+  const audio = document['audio'];
+  const sources = asArray(document['sources']);
+
+  if (sources.length === 0 || !sources.every(source => isRecord(source) && typeof source['url'] === 'string')) {
+    throw new Error('Project has no valid sources.');
+  }
+  if (!isRecord(timeline) || typeof timeline['trimStart'] !== 'number' || typeof timeline['trimEnd'] !== 'number') {
+    throw new Error('Project timeline is missing or invalid.');
+  }
+  if (!Array.isArray(timeline['cuts']) || !Array.isArray(timeline['segments'])) {
+    throw new Error('Project timeline is missing its cuts or segments.');
+  }
+  if (!Array.isArray(document['overlays']) || !(document['overlays'] as Overlay[]).every(isRecord)) {
+    throw new Error('Project overlays are invalid.');
+  }
+  if (!isRecord(audio) || !Array.isArray(audio['tracks'])) {
+    throw new Error('Project audio is missing or invalid.');
+  }
+  if (!isRecord(document['output'])) {
+    throw new Error('Project output settings are missing.');
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,155 @@
+import type { ShapeOverlay, ShapePoint, ShapeType } from '../video-editor.types';
+
+/**
+ * Shape overlay geometry utilities (the render server rasterizes the same geometry)
+ */
+
+/**
+ * Part of a shape's SVG preview; `stroke` is the stroke width, 0 for none
+ */
+export interface ShapeSvgPart {
+  path: string;
+  fill: boolean;
+  stroke: number;
+}
+
+export const SHAPE_TYPE_OPTIONS: { value: ShapeType; label: string }[] = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'rounded-rectangle', label: 'Rounded rectangle' },
+  { value: 'ellipse', label: 'Ellipse' },
+  { value: 'line', label: 'Line' },
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'polygon', label: 'Polygon' }
+];
+
+/**
+ * Default points of lines, arrows and polygons (percentages of the shape box)
+ */
+const DEFAULT_POINTS: Partial<Record<ShapeType, ShapePoint[]>> = {
+  line: [{ x: 0, y: 50 }, { x: 100, y: 50 }],
+  arrow: [{ x: 0, y: 50 }, { x: 100, y: 50 }],
+  polygon: [{ x: 50, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }]
+};
+
+/**
+ * Check whether a shape type is drawn through its points
+ */
+export function isPointShape(shapeType: ShapeType): boolean {
+  return shapeType === 'line' || shapeType === 'arrow' || shapeType === 'polygon';
+}
+
+/**
+ * Points of a shape, or its type's default points
+ */
+export function getShapePoints(shapeType: ShapeType, points?: ShapePoint[]): ShapePoint[] {
+  return points && points.length > 0 ? points : DEFAULT_POINTS[shapeType] ?? [];
+}
+
+/**
+ * Format points as "x,y x,y ..." for the overlay form
+ */
+export function formatShapePoints(points: ShapePoint[]): string {
+  return points.map(point => `${point.x},${point.y}`).join(' ');
+}
+
+/**
+ * Parse "x,y x,y ..." percentages; null when a pair is malformed or there are too few points for the shape
+ */
+export function parseShapePoints(text: string, shapeType: ShapeType): ShapePoint[] | null {
+  const pairs = text.trim().split(/\s+/).filter(pair => pair !== '');
+  const points: ShapePoint[] = [];
+  for (const pair of pairs) {
+    const [x, y, extra] = pair.split(',').map(Number);
+    if (x === undefined || y === undefined || extra !== undefined || isNaN(x) || isNaN(y)) {
+      return null;
+    }
+    points.push({ x: Math.min(100, Math.max(0, x)), y: Math.min(100, Math.max(0, y)) });
+  }
+  const required = shapeType === 'polygon' ? 3 : 2;
+  if (points.length < required || points.length > 64) {
+    return null;
+  }
+  return shapeType === 'polygon' ? points : points.slice(0, 2);
+}
+
+/**
+ * SVG path through points
+ */
+function toPath(points: { x: number; y: number }[], closed: boolean): string {
+  return points.map((point, index) => `${index === 0 ? 'M' : 'L'}${point.x} ${point.y}`).join(' ') + (closed ? ' Z' : '');
+}
+
+/**
+ * SVG path of a rounded rectangle
+ */
+function roundedRectPath(left: number, top: number, width: number, height: number, radius: number): string {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  const right = left + width;
+  const bottom = top + height;
+  return `M${left + r} ${top} H${right - r} A${r} ${r} 0 0 1 ${right} ${top + r} V${bottom - r} ` +
+    `A${r} ${r} 0 0 1 ${right - r} ${bottom} H${left + r} A${r} ${r} 0 0 1 ${left} ${bottom - r} ` +
+    `V${top + r} A${r} ${r} 0 0 1 ${left + r} ${top} Z`;
+}
+
+/**
+ * SVG preview of a shape in a viewBox of its pixel box (width x height, default 200).
+ * Rectangles, rounded rectangles and ellipses stroke inside their box;
+ * lines, arrows and polygon outlines are centred on their points, inset so round ends stay inside.
+ */
+export function getShapeSvgParts(shape: ShapeOverlay): ShapeSvgPart[] {
+  const width = shape.width || 200;
+  const height = shape.height || 200;
+  const stroke = shape.strokeWidth || 3;
+  const fill = shape.fill ?? false;
+  const inset = stroke / 2;
+  const points = getShapePoints(shape.shapeType, shape.points).map(point => ({
+    x: inset + (point.x / 100) * Math.max(0, width - stroke),
+    y: inset + (point.y / 100) * Math.max(0, height - stroke)
+  }));
+
+  switch (shape.shapeType) {
+    case 'ellipse': {
+      const radiusX = fill ? width / 2 : Math.max(0, width / 2 - inset);
+      const radiusY = fill ? height / 2 : Math.max(0, height / 2 - inset);
+      const path = `M${width / 2 - radiusX} ${height / 2} a${radiusX} ${radiusY} 0 1 0 ${radiusX * 2} 0 a${radiusX} ${radiusY} 0 1 0 ${-radiusX * 2} 0 Z`;
+      return [{ path, fill, stroke: fill ? 0 : stroke }];
+    }
+    case 'line':
+      return [{ path: toPath(points.slice(0, 2), false), fill: false, stroke }];
+    case 'arrow': {
+      const [start, end] = points as [ShapePoint, ShapePoint];
+      const length = Math.hypot(end.x - start.x, end.y - start.y) || 1;
+      const headLength = Math.min(stroke * 3 + 10, length / 2);
+      const unitX = (end.x - start.x) / length;
+      const unitY = (end.y - start.y) / length;
+      const base = { x: end.x - unitX * headLength, y: end.y - unitY * headLength };
+      const shaftEnd = { x: end.x - unitX * headLength * 0.5, y: end.y - unitY * headLength * 0.5 };
+      const head = [
+        end,
+        { x: base.x - unitY * headLength * 0.6, y: base.y + unitX * headLength * 0.6 },
+        { x: base.x + unitY * headLength * 0.6, y: base.y - unitX * headLength * 0.6 }
+      ];
+      return [
+        { path: toPath([start, shaftEnd], false), fill: false, stroke },
+        { path: toPath(head, true), fill: true, stroke: 0 }
+      ];
+    }
+    case 'polygon': {
+      if (fill) {
+        const filled = getShapePoints('polygon', shape.points).map(point => ({
+          x: (point.x / 100) * width,
+          y: (point.y / 100) * height
+        }));
+        return [{ path: toPath(filled, true), fill: true, stroke: 0 }];
+      }
+      return [{ path: toPath(points, true), fill: false, stroke }];
+    }
+    default: {
+      const radius = shape.shapeType === 'rounded-rectangle' ? (shape.cornerRadius ?? 20) : 0;
+      if (fill) {
+        return [{ path: roundedRectPath(0, 0, width, height, radius), fill: true, stroke: 0 }];
+      }
+      return [{ path: roundedRectPath(inset, inset, width - stroke, height - stroke, radius - inset), fill: false, stroke }];
+    }
+  }
+}
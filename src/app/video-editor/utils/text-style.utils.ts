@@ -0,0 +1,53 @@
+import type { TextStyle } from '../video-editor.types';
+import { clamp } from '../video-editor.utils';
+
+/**
+ * Text overlay style utilities (the render server validates against the same limits)
+ */
+
+/**
+ * Limits of the numeric text style fields, as in the server's textOverlaySchema
+ */
+export const TEXT_STYLE_LIMITS = {
+  strokeWidth: { min: 0, max: 20 },
+  shadowOffset: { min: -50, max: 50 },
+  lineSpacing: { min: 0.5, max: 3 },
+  boxPadding: { min: 0, max: 100 }
+};
+
+/**
+ * Slant of italic text in degrees; the server shears rendered text by the same amount
+ */
+export const TEXT_ITALIC_SKEW = (Math.atan(0.2) * 180) / Math.PI;
+
+/**
+ * Clamp the numeric fields of a text style to TEXT_STYLE_LIMITS (unset fields stay unset)
+ */
+export function clampTextStyle(style: TextStyle): TextStyle {
+  const clampField = (value: number | undefined, limits: { min: number; max: number }): number | undefined =>
+    value === undefined ? undefined : clamp(value, limits.min, limits.max);
+  const clamped: TextStyle = {
+    ...style,
+    strokeWidth: clampField(style.strokeWidth, TEXT_STYLE_LIMITS.strokeWidth),
+    shadowX: clampField(style.shadowX, TEXT_STYLE_LIMITS.shadowOffset),
+    shadowY: clampField(style.shadowY, TEXT_STYLE_LIMITS.shadowOffset),
+    lineSpacing: clampField(style.lineSpacing, TEXT_STYLE_LIMITS.lineSpacing),
+    boxPadding: clampField(style.boxPadding, TEXT_STYLE_LIMITS.boxPadding)
+  };
+  return Object.fromEntries(Object.entries(clamped).filter(([, value]) => value !== undefined)) as TextStyle;
+}
+
+/**
+ * CSS text-shadow for the preview (null without a shadow)
+ */
+export function getTextShadowCss(style: TextStyle): string | null {
+  return style.shadowColor ? `${style.shadowX ?? 2}px ${style.shadowY ?? 2}px 0 ${style.shadowColor}` : null;
+}
+
+/**
+ * CSS -webkit-text-stroke for the preview; drawn under the fill (paint-order) it shows half its width,
+ * so it is twice the outline width (null without a stroke)
+ */
+export function getTextStrokeCss(style: TextStyle): string | null {
+  return style.strokeColor && style.strokeWidth ? `${style.strokeWidth * 2}px ${style.strokeColor}` : null;
+}
@@ -0,0 +1,160 @@
+import type { TimelineTransition } from '../video-editor.types';
+import {
+  calculateAdjustedTime,
+  findSnapTarget,
+  formatRulerTime,
+  getMaxTimelineZoom,
+  getOutputTransitions,
+  getPreviewPlaybackRate,
+  getRulerStep,
+  getRulerTicks,
+  getSegmentOutputDuration,
+  getSegmentTiming,
+  removeTransitionOverlaps
+} from './timeline.utils';
+
+function fade(time: number, duration: number): TimelineTransition {
+  return { time, type: 'fade', duration };
+}
+
+describe('getSegmentTiming', () => {
+  it('sends the segments played backwards even at 1x', () => {
+    expect(getSegmentTiming([{ id: 1, start: 0, end: 2, effect: 'reverse' }])).toEqual([
+      { start: 0, end: 2, speed: 1, effect: 'reverse' }
+    ]);
+  });
+
+  it('sends only the segments that change speed or hold a frame', () => {
+    expect(getSegmentTiming([
+      { id: 1, start: 0, end: 2 },
+      { id: 2, start: 2, end: 4, speed: 2 },
+      { id: 3, start: 4, end: 5, speed: 1, freezeDuration: 3 }
+    ])).toEqual([
+      { start: 2, end: 4, speed: 2 },
+      { start: 4, end: 5, speed: 1, freezeDuration: 3 }
+    ]);
+  });
+});
+
+describe('calculateAdjustedTime', () => {
+  it('applies the playback rate of the ranges before a time', () => {
+    const timing = [{ start: 0, end: 2, speed: 2 }];
+    expect(calculateAdjustedTime(1, [], timing)).toBe(0.5);
+    expect(calculateAdjustedTime(8, [{ id: 1, start: 4, end: 6 }], timing)).toBe(5);
+  });
+
+  it('stretches the range of a freeze frame over its hold', () => {
+    const timing = [{ start: 2, end: 3, speed: 1, freezeDuration: 3 }];
+    expect(calculateAdjustedTime(2.5, [], timing)).toBe(3.5);
+    expect(calculateAdjustedTime(5, [], timing)).toBe(7);
+  });
+
+  it('counts a boomerang range twice and a reversed range once', () => {
+    expect(calculateAdjustedTime(5, [], [{ start: 0, end: 2, speed: 1, effect: 'boomerang' }])).toBe(7);
+    expect(calculateAdjustedTime(5, [], [{ start: 0, end: 2, speed: 1, effect: 'reverse' }])).toBe(5);
+  });
+});
+
+describe('getSegmentOutputDuration', () => {
+  it('divides the length by the speed, or uses the freeze duration', () => {
+    expect(getSegmentOutputDuration({ id: 1, start: 0, end: 4 })).toBe(4);
+    expect(getSegmentOutputDuration({ id: 1, start: 0, end: 4, speed: 2 })).toBe(2);
+    expect(getSegmentOutputDuration({ id: 1, start: 0, end: 4, freezeDuration: 3 })).toBe(3);
+  });
+
+  it('doubles the length of a boomerang', () => {
+    expect(getSegmentOutputDuration({ id: 1, start: 0, end: 4, speed: 2, effect: 'boomerang' })).toBe(4);
+    expect(getSegmentOutputDuration({ id: 1, start: 0, end: 4, effect: 'reverse' })).toBe(4);
+  });
+});
+
+describe('getPreviewPlaybackRate', () => {
+  const segments = [
+    { id: 1, start: 0, end: 2, speed: 4 },
+    { id: 2, start: 2, end: 3, freezeDuration: 4 },
+    { id: 3, start: 5, end: 6, freezeDuration: 100 }
+  ];
+
+  it('plays at the speed of the segment at the time, or 1x outside the segments', () => {
+    expect(getPreviewPlaybackRate(1, segments)).toBe(4);
+    expect(getPreviewPlaybackRate(4, segments)).toBe(1);
+  });
+
+  it('stretches a freeze frame range over its hold within the rates browsers support', () => {
+    expect(getPreviewPlaybackRate(2.5, segments)).toBe(0.25);
+    expect(getPreviewPlaybackRate(5.5, segments)).toBe(0.0625);
+  });
+});
+
+describe('getOutputTransitions', () => {
+  it('places joints on the joined video, which starts at the trim start and has the cuts removed', () => {
+    expect(getOutputTransitions([fade(6, 1)], [{ id: 1, start: 3, end: 5 }], 1, 10)).toEqual([fade(3, 1)]);
+  });
+
+  it('shortens transitions to the clips around their joints like the render server', () => {
+    expect(getOutputTransitions([fade(4, 3), fade(6, 3)], [], 0, 10)).toEqual([fade(4, 1), fade(6, 1)]);
+    expect(getOutputTransitions([fade(9.5, 2)], [], 0, 10)).toEqual([fade(9.5, 0.5)]);
+  });
+
+  it('drops transitions at joints outside the trimmed video', () => {
+    expect(getOutputTransitions([fade(1, 1)], [], 2, 10)).toEqual([]);
+  });
+});
+
+describe('removeTransitionOverlaps', () => {
+  it('moves times at or after a joint earlier by its overlap', () => {
+    const overlaps = [fade(3, 1), fade(6, 0.5)];
+    expect(removeTransitionOverlaps(2.5, overlaps)).toBe(2.5);
+    expect(removeTransitionOverlaps(3, overlaps)).toBe(2);
+    expect(removeTransitionOverlaps(8, overlaps)).toBe(6.5);
+  });
+});
+
+describe('getMaxTimelineZoom', () => {
+  it('zooms in until the minimum span is visible', () => {
+    expect(getMaxTimelineZoom(60)).toBe(30);
+    expect(getMaxTimelineZoom(1)).toBe(1);
+  });
+});
+
+describe('getRulerStep', () => {
+  it('picks the smallest step that fits the labels', () => {
+    expect(getRulerStep(60)).toBe(10);
+    expect(getRulerStep(60, 4)).toBe(15);
+    expect(getRulerStep(1)).toBe(0.2);
+  });
+
+  it('falls back to the largest step for very long spans', () => {
+    expect(getRulerStep(100000)).toBe(3600);
+  });
+});
+
+describe('getRulerTicks', () => {
+  it('places minor ticks between the labelled ones without drifting', () => {
+    const ticks = getRulerTicks(0.5, 1.6, 1);
+    expect(ticks.map(tick => tick.time)).toEqual([0.6, 0.8, 1, 1.2, 1.4, 1.6, 1.8, 2]);
+    expect(ticks.filter(tick => tick.major).map(tick => tick.time)).toEqual([1, 2]);
+  });
+
+  it('has no ticks for an empty span', () => {
+    expect(getRulerTicks(0, 0, 1)).toEqual([]);
+  });
+});
+
+describe('formatRulerTime', () => {
+  it('labels whole seconds, tenths for fractional steps and hours when needed', () => {
+    expect(formatRulerTime(65, 5)).toBe('1:05');
+    expect(formatRulerTime(5.4, 0.5)).toBe('0:05.4');
+    expect(formatRulerTime(3725, 10)).toBe('1:02:05');
+  });
+});
+
+describe('findSnapTarget', () => {
+  it('snaps to the nearest target within the threshold', () => {
+    expect(findSnapTarget(5.1, [4, 5.3, 5], 0.25)).toBe(5);
+  });
+
+  it('returns null when no target is close enough', () => {
+    expect(findSnapTarget(6, [4, 7], 0.5)).toBeNull();
+  });
+});
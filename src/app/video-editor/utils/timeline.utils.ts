@@ -1,9 +1,43 @@
-import type { TimelineCut, TimelineSegment } from '../video-editor.types';
+import type { SegmentTiming, TimelineCut, TimelineSegment, TimelineTransition, TransitionJoint } from '../video-editor.types';
 
 /**
  * Timeline calculation utilities for handling cuts
  */
 
+/**
+ * Limits of the segment speed and freeze frame length (the render server validates the same values)
+ */
+export const SEGMENT_SPEED_LIMITS = {
+  speed: { min: 0.25, max: 4 },
+  freezeDuration: { min: 0.1, max: 60 },
+  effectDuration: { max: 30 } // Reversed and boomerang segments are buffered in memory when rendering
+};
+
+/**
+ * Browsers only play media between these rates
+ */
+const PREVIEW_RATE_LIMITS = { min: 0.0625, max: 16 };
+
+/**
+ * How close to the trim end the edit counts as finished (seconds; about a frame at 25 fps)
+ */
+const EDIT_END_TOLERANCE = 0.04;
+
+/**
+ * Zoom of the timelines: 1 shows the whole duration, the deepest zoom still shows this many seconds
+ */
+export const TIMELINE_MIN_VIEW_SPAN = 2;
+
+/**
+ * Spacing of the ruler's labelled ticks, from a tenth of a second to an hour
+ */
+const RULER_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600];
+
+/**
+ * Minor ticks between two labelled ticks of the ruler
+ */
+const RULER_SUBDIVISIONS = 5;
+
 /**
  * Check if a time overlaps with any cut segment
  * @param time The time to check
@@ -43,13 +77,44 @@ export function isRangeInCut(start: number, end: number, cuts: TimelineCut[]): b
 }
 
 /**
- * Calculate the adjusted time accounting for cuts
- * When cuts are removed, timeline positions shift left by the duration of cuts before them
+ * Calculate the adjusted time accounting for cuts and segment speeds
+ * When cuts are removed, timeline positions shift left by the duration of cuts before them;
+ * timed ranges before them stretch or shrink by their playback rate
  * @param originalTime The time in the original timeline (with cuts)
  * @param cuts Array of cut segments
+ * @param timing Timed ranges (speed, effect or freeze frame); a time inside a freeze frame or boomerang maps proportionally into it
  * @returns The adjusted time in the final timeline (after cuts are removed)
  */
-export function calculateAdjustedTime(originalTime: number, cuts: TimelineCut[]): number {
+export function calculateAdjustedTime(originalTime: number, cuts: TimelineCut[], timing: SegmentTiming[] = []): number {
+  let adjustedTime = removeCutTime(originalTime, cuts);
+
+  for (const range of timing) {
+    if (originalTime <= range.start) {
+      continue;
+    }
+
+    // Only the part of the range that is not cut changes length
+    const kept = removeCutTime(Math.min(originalTime, range.end), cuts) - removeCutTime(range.start, cuts);
+    if (range.freezeDuration !== undefined) {
+      const rangeKept = removeCutTime(range.end, cuts) - removeCutTime(range.start, cuts);
+      adjustedTime += rangeKept > 0 ? (kept / rangeKept) * range.freezeDuration - kept : 0;
+    } else {
+      // A boomerang plays its range twice
+      const plays = range.effect === 'boomerang' ? 2 : 1;
+      adjustedTime += (kept * plays) / range.speed - kept;
+    }
+  }
+
+  return adjustedTime;
+}
+
+/**
+ * Shift a time left by the duration of the cuts before it
+ * @param originalTime The time in the original timeline (with cuts)
+ * @param cuts Array of cut segments
+ * @returns The time with the cuts removed (a time inside a cut snaps to the cut start)
+ */
+function removeCutTime(originalTime: number, cuts: TimelineCut[]): number {
   if (cuts.length === 0) {
     return originalTime;
   }
@@ -80,7 +145,7 @@ export function calculateAdjustedTime(originalTime: number, cuts: TimelineCut[])
 
 /**
  * Calculate the original timeline time from an adjusted time
- * Inverse of calculateAdjustedTime - useful for mapping back from rendered video
+ * Inverse of calculateAdjustedTime without segment speeds - useful for mapping back from rendered video
  * @param adjustedTime The time in the final timeline (after cuts)
  * @param cuts Array of cut segments
  * @returns The original time in the timeline (with cuts)
@@ -255,6 +320,69 @@ export function cutsToSegments(
   return segments;
 }
 
+/**
+ * Get the timed ranges of kept segments (segments playing forwards at 1x are left out)
+ * @param segments Array of segments to keep
+ * @returns Ranges with their speed or freeze frame, as sent to the backend
+ */
+export function getSegmentTiming(segments: TimelineSegment[]): SegmentTiming[] {
+  return segments
+    .filter(segment => (segment.speed ?? 1) !== 1 || segment.freezeDuration !== undefined || segment.effect !== undefined)
+    .map(segment => ({
+      start: segment.start,
+      end: segment.end,
+      speed: segment.speed ?? 1,
+      freezeDuration: segment.freezeDuration,
+      effect: segment.effect
+    }));
+}
+
+/**
+ * Get the length a segment has in the final video
+ * @param segment Segment to keep
+ * @returns Seconds of output
+ */
+export function getSegmentOutputDuration(segment: TimelineSegment): number {
+  const plays = segment.effect === 'boomerang' ? 2 : 1;
+  return segment.freezeDuration ?? ((segment.end - segment.start) * plays) / (segment.speed ?? 1);
+}
+
+/**
+ * Get where playback of the edit continues from a time: before the trim start it starts at the
+ * trim start, inside a cut it jumps to the end of the cut (and of any cut touching that one)
+ * @param time The time in the original timeline
+ * @param cuts Array of cut segments (the effective cuts in keep mode)
+ * @returns The time to play from, or null when the edit is over (at or after the trim end)
+ */
+export function getEditPlaybackTime(time: number, trimStart: number, trimEnd: number, cuts: TimelineCut[]): number | null {
+  let playbackTime = Math.max(time, trimStart);
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    if (playbackTime >= cut.start && playbackTime < cut.end) {
+      playbackTime = cut.end;
+    }
+  }
+  return playbackTime < trimEnd - EDIT_END_TOLERANCE ? playbackTime : null;
+}
+
+/**
+ * Get the rate the preview plays at a time: the speed of the segment there, or the rate that
+ * stretches a freeze frame's range over the hold (the preview can't hold a frame while playing)
+ * @param time The time in the original timeline
+ * @param segments Array of segments to keep
+ * @returns Playback rate within the range browsers support
+ */
+export function getPreviewPlaybackRate(time: number, segments: TimelineSegment[]): number {
+  const segment = segments.find(s => time >= s.start && time < s.end);
+  if (!segment) {
+    return 1;
+  }
+  // Reversed and boomerang segments are stepped through frame by frame; this is their forward rate
+  const rate = segment.freezeDuration !== undefined
+    ? (segment.end - segment.start) / segment.freezeDuration
+    : segment.speed ?? 1;
+  return Math.min(PREVIEW_RATE_LIMITS.max, Math.max(PREVIEW_RATE_LIMITS.min, rate));
+}
+
 /**
  * Check if a time is within any segment (keep mode)
  * @param time The time to check
@@ -303,3 +431,192 @@ export function validateOverlayTimesForSegments(
   return { isValid: true };
 }
 
+/**
+ * Find the joints where two parts of the output meet: the start of each cut (the end of each kept
+ * segment in keep mode) and the boundaries between sources that are not removed by a cut
+ * @param trimStart Start of trim range
+ * @param trimEnd End of trim range
+ * @param cuts Effective cuts (segments converted to cuts in keep mode)
+ * @param sourceBoundaries Times where one source ends and the next begins
+ * @returns Joints sorted by time
+ */
+export function getTransitionJoints(
+  trimStart: number,
+  trimEnd: number,
+  cuts: TimelineCut[],
+  sourceBoundaries: number[]
+): TransitionJoint[] {
+  // Touching or overlapping cuts remove one continuous range, which has a single joint
+  const removed: { start: number; end: number }[] = [];
+  for (const cut of [...cuts].sort((a, b) => a.start - b.start)) {
+    const last = removed.at(-1);
+    if (last && cut.start <= last.end) {
+      last.end = Math.max(last.end, cut.end);
+    } else {
+      removed.push({ start: cut.start, end: cut.end });
+    }
+  }
+
+  const joints: TransitionJoint[] = removed
+    .filter(range => range.start > trimStart && range.end < trimEnd)
+    .map(range => ({ time: range.start, kind: 'cut' }));
+
+  for (const boundary of sourceBoundaries) {
+    const isRemoved = removed.some(range => boundary >= range.start && boundary <= range.end);
+    if (boundary > trimStart && boundary < trimEnd && !isRemoved) {
+      joints.push({ time: boundary, kind: 'source' });
+    }
+  }
+
+  return joints.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Find the transition set at a joint
+ * @param transitions Transitions by joint time
+ * @param time Joint time
+ * @returns The transition, or undefined if the joint has none
+ */
+export function findTransitionAt(transitions: TimelineTransition[], time: number): TimelineTransition | undefined {
+  return transitions.find(transition => Math.abs(transition.time - time) < 0.001);
+}
+
+/**
+ * Shortest transition the render server still renders (seconds)
+ */
+const MIN_TRANSITION_SECONDS = 0.1;
+
+/**
+ * Get the crossfade length of each transition on the joined video, the way the render server resolves them:
+ * a crossfade overlaps the last `duration` seconds of the outgoing clip with the first of the incoming one,
+ * so durations are shortened until each clip has the frames for the crossfades at both of its ends
+ * @param transitions Transitions with their joint on the joined video (cuts removed, starting at the trim start)
+ * @param totalDuration Length of the joined video
+ * @returns The transitions that are rendered, sorted by time, with their effective duration
+ */
+export function resolveTransitionOverlaps<T extends { time: number; duration: number }>(
+  transitions: T[],
+  totalDuration: number
+): T[] {
+  const sorted = [...transitions]
+    .filter(transition => transition.time > 0 && transition.time < totalDuration)
+    .sort((a, b) => a.time - b.time);
+
+  const resolved: T[] = [];
+  let previousEnd = 0; // The previous crossfade uses the incoming clip until here
+  sorted.forEach((transition, index) => {
+    const next = sorted[index + 1];
+    const duration = Math.min(
+      transition.duration,
+      transition.time - previousEnd,
+      totalDuration - transition.time,
+      next ? (next.time - transition.time) / 2 : Infinity
+    );
+    if (duration >= MIN_TRANSITION_SECONDS) {
+      resolved.push({ ...transition, duration });
+      previousEnd = transition.time + duration;
+    }
+  });
+  return resolved;
+}
+
+/**
+ * Place transitions on the joined video the render server applies them to (cuts removed and segment speeds
+ * applied, starting at the trim start), with the crossfade length each one gets
+ * @param transitions Transitions at joints of the original timeline
+ * @param cuts Array of cut segments (the effective cuts in keep mode)
+ * @param timing Speed and freeze frames of the kept segments
+ * @returns The transitions that are rendered, sorted by time
+ */
+export function getOutputTransitions(
+  transitions: TimelineTransition[],
+  cuts: TimelineCut[],
+  trimStart: number,
+  trimEnd: number,
+  timing: SegmentTiming[] = []
+): TimelineTransition[] {
+  const outputStart = calculateAdjustedTime(trimStart, cuts, timing);
+  const joinedDuration = calculateAdjustedTime(trimEnd, cuts, timing) - outputStart;
+  return resolveTransitionOverlaps(
+    transitions.map(transition => ({
+      time: calculateAdjustedTime(transition.time, cuts, timing) - outputStart,
+      type: transition.type,
+      duration: transition.duration
+    })),
+    joinedDuration
+  );
+}
+
+/**
+ * Map a time on the joined video to the rendered output, which loses the overlap of every crossfade at or before it
+ * @param time Time on the joined video
+ * @param overlaps Transitions as returned by resolveTransitionOverlaps
+ * @returns Time in the rendered output
+ */
+export function removeTransitionOverlaps(time: number, overlaps: { time: number; duration: number }[]): number {
+  return overlaps.reduce((shifted, overlap) => (overlap.time <= time ? shifted - overlap.duration : shifted), time);
+}
+
+/**
+ * Deepest zoom of a timeline of the given duration
+ */
+export function getMaxTimelineZoom(duration: number): number {
+  return Math.max(1, duration / TIMELINE_MIN_VIEW_SPAN);
+}
+
+/**
+ * Spacing of the ruler's labelled ticks for a visible span: the smallest step that shows at most `labels`
+ */
+export function getRulerStep(span: number, labels = 8): number {
+  return RULER_STEPS.find(candidate => span / candidate <= labels) ?? RULER_STEPS[RULER_STEPS.length - 1]!;
+}
+
+/**
+ * Ticks of the time ruler over the visible part of the timeline: labelled ticks every `step` seconds
+ * and minor ticks between them
+ * @param start First visible second
+ * @param span Visible seconds
+ */
+export function getRulerTicks(start: number, span: number, step: number): { time: number; major: boolean }[] {
+  if (span <= 0) {
+    return [];
+  }
+  const minor = step / RULER_SUBDIVISIONS;
+  const ticks: { time: number; major: boolean }[] = [];
+  for (let index = Math.ceil(start / minor); index * minor <= start + span; index++) {
+    // Rounded so labels of fractional steps do not drift (0.30000000000000004)
+    ticks.push({ time: Math.round(index * minor * 1000) / 1000, major: index % RULER_SUBDIVISIONS === 0 });
+  }
+  return ticks;
+}
+
+/**
+ * Label of a ruler tick: m:ss, with tenths when the ticks are less than a second apart
+ */
+export function formatRulerTime(time: number, step: number): string {
+  const fractional = step < 1;
+  const minutes = Math.floor(time / 60);
+  const seconds = time - minutes * 60;
+  const secondsText = fractional ? seconds.toFixed(1).padStart(4, '0') : Math.round(seconds).toString().padStart(2, '0');
+  const hours = Math.floor(minutes / 60);
+  return hours > 0
+    ? `${hours}:${(minutes % 60).toString().padStart(2, '0')}:${secondsText}`
+    : `${minutes}:${secondsText}`;
+}
+
+/**
+ * Snap a time to the nearest target within the threshold
+ * @param targets Times to snap to (edges of cuts, segments, clips, source boundaries, the playhead...)
+ * @param threshold Largest distance in seconds
+ * @returns The target snapped to, or null when none is close enough
+ */
+export function findSnapTarget(time: number, targets: number[], threshold: number): number | null {
+  let nearest: number | null = null;
+  for (const target of targets) {
+    const distance = Math.abs(target - time);
+    if (distance <= threshold && (nearest === null || distance < Math.abs(nearest - time))) {
+      nearest = target;
+    }
+  }
+  return nearest;
+}
@@ -0,0 +1,53 @@
+import { DEFAULT_KEN_BURNS, getKenBurnsKeyframes, getTransformPreview, hasSourceTransform } from './transform.utils';
+
+describe('hasSourceTransform', () => {
+  it('ignores missing transforms, a full-frame crop and no rotation', () => {
+    expect(hasSourceTransform(undefined)).toBe(false);
+    expect(hasSourceTransform({ crop: { x: 0, y: 0, width: 100, height: 100 }, rotation: 0 })).toBe(false);
+  });
+
+  it('detects a crop, flip or pan/zoom', () => {
+    expect(hasSourceTransform({ crop: { x: 10, y: 0, width: 90, height: 100 } })).toBe(true);
+    expect(hasSourceTransform({ flipV: true })).toBe(true);
+    expect(hasSourceTransform({ kenBurns: DEFAULT_KEN_BURNS })).toBe(true);
+  });
+});
+
+describe('getTransformPreview', () => {
+  it('returns null when the source is unchanged', () => {
+    expect(getTransformPreview({ rotation: 0 }, 16 / 9)).toBeNull();
+  });
+
+  it('clips the crop and moves it to the centre', () => {
+    expect(getTransformPreview({ crop: { x: 0, y: 0, width: 50, height: 100 } }, 16 / 9)).toEqual({
+      transform: 'scale(1) scaleX(1) scaleY(1) rotate(0deg) scale(1) translate(25%, 0%)',
+      clipPath: 'inset(0% 50% 0% 0%)'
+    });
+  });
+
+  it('flips and shrinks a quarter turn to fit the box', () => {
+    expect(getTransformPreview({ rotation: 90, flipH: true }, 2)?.transform)
+      .toBe('scale(0.5) scaleX(-1) scaleY(1) rotate(90deg) scale(1) translate(0%, 0%)');
+  });
+
+  it('keeps the pan/zoom view inside the frame', () => {
+    const kenBurns = { startZoom: 2, endZoom: 2, startX: 0, startY: 50, endX: 0, endY: 50 };
+    expect(getTransformPreview({ kenBurns }, 16 / 9)).toEqual({
+      transform: 'scale(1) scaleX(1) scaleY(1) rotate(0deg) scale(2) translate(25%, 0%)',
+      clipPath: 'inset(25% 50% 25% 0%)'
+    });
+  });
+});
+
+describe('getKenBurnsKeyframes', () => {
+  it('steps from the start to the end of the pan/zoom', () => {
+    const keyframes = getKenBurnsKeyframes({ kenBurns: DEFAULT_KEN_BURNS }, 16 / 9, 4);
+    expect(keyframes.length).toBe(5);
+    expect(keyframes[0]?.['transform']).toContain(' scale(1) ');
+    expect(keyframes[4]?.['transform']).toContain(' scale(1.3) ');
+  });
+
+  it('has no keyframes for an unchanged source', () => {
+    expect(getKenBurnsKeyframes({}, 16 / 9)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import type { KenBurns, SourceTransform } from '../video-editor.types';
+
+/**
+ * Source transform utilities: the preview of the backend's crop, rotation, flips and pan/zoom as CSS
+ */
+
+/**
+ * Zoom range of the pan/zoom of image sources (the backend validates the same values)
+ */
+export const KEN_BURNS_ZOOM = { min: 1, max: 4 };
+
+/**
+ * Pan/zoom used when it is switched on: a slow zoom into the centre
+ */
+export const DEFAULT_KEN_BURNS: KenBurns = { startZoom: 1, endZoom: 1.3, startX: 50, startY: 50, endX: 50, endY: 50 };
+
+/**
+ * CSS that shows the transformed source inside the element's own box
+ */
+export interface TransformPreview {
+  transform: string;
+  clipPath: string;
+}
+
+/**
+ * Whether a source changes geometry (crop, rotation, flips or pan/zoom)
+ */
+export function hasSourceTransform(transform: SourceTransform | undefined): boolean {
+  if (!transform) {
+    return false;
+  }
+  const { crop } = transform;
+  const cropped = crop !== undefined && (crop.x > 0 || crop.y > 0 || crop.width < 100 || crop.height < 100);
+  return cropped || Boolean(transform.rotation) || Boolean(transform.flipH) || Boolean(transform.flipV) ||
+    transform.kenBurns !== undefined;
+}
+
+/**
+ * Preview a transform on a video or image element: the visible part of the frame (crop and pan/zoom
+ * view) is clipped, moved to the centre and scaled to fill the box, then rotated and flipped.
+ * @param aspect Width / height of the element, to fit 90° rotations
+ * @param progress Position in the pan/zoom, 0 (start) to 1 (end)
+ */
+export function getTransformPreview(
+  transform: SourceTransform | undefined,
+  aspect: number,
+  progress = 0
+): TransformPreview | null {
+  if (!transform || !hasSourceTransform(transform)) {
+    return null;
+  }
+
+  const crop = transform.crop ?? { x: 0, y: 0, width: 100, height: 100 };
+  const rotation = transform.rotation ?? 0;
+
+  // Pan/zoom view in fractions of the cropped frame; its centre is given after the rotation and
+  // flips, so those are undone to find it on the source
+  let view = { x: 0, y: 0, width: 1, height: 1 };
+  if (transform.kenBurns) {
+    const { startZoom, endZoom, startX, startY, endX, endY } = transform.kenBurns;
+    const half = 0.5 / (startZoom + (endZoom - startZoom) * progress);
+    let u = Math.min(1 - half, Math.max(half, (startX + (endX - startX) * progress) / 100));
+    let v = Math.min(1 - half, Math.max(half, (startY + (endY - startY) * progress) / 100));
+    if (transform.flipH) {
+      u = 1 - u;
+    }
+    if (transform.flipV) {
+      v = 1 - v;
+    }
+    const [x, y] = rotation === 90 ? [v, 1 - u] : rotation === 180 ? [1 - u, 1 - v] : rotation === 270 ? [1 - v, u] : [u, v];
+    view = { x: x - half, y: y - half, width: half * 2, height: half * 2 };
+  }
+
+  const left = crop.x + view.x * crop.width;
+  const top = crop.y + view.y * crop.height;
+  const width = view.width * crop.width;
+  const height = view.height * crop.height;
+
+  const fill = Math.min(100 / width, 100 / height);
+  const fit = rotation === 90 || rotation === 270
+    ? Math.min((100 * aspect) / (height * fill), 100 / (aspect * width * fill))
+    : 1;
+  const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+  return {
+    transform: [
+      `scale(${round(fit)})`,
+      `scaleX(${transform.flipH ? -1 : 1})`,
+      `scaleY(${transform.flipV ? -1 : 1})`,
+      `rotate(${rotation}deg)`,
+      `scale(${round(fill)})`,
+      `translate(${round(50 - (left + width / 2))}%, ${round(50 - (top + height / 2))}%)`
+    ].join(' '),
+    clipPath: `inset(${round(top)}% ${round(100 - left - width)}% ${round(100 - top - height)}% ${round(left)}%)`
+  };
+}
+
+/**
+ * Keyframes that play the pan/zoom of a transform on the image preview (Web Animations API)
+ */
+export function getKenBurnsKeyframes(transform: SourceTransform, aspect: number, steps = 10): Keyframe[] {
+  const keyframes: Keyframe[] = [];
+  for (let step = 0; step <= steps; step++) {
+    const preview = getTransformPreview(transform, aspect, step / steps);
+    if (preview) {
+      keyframes.push({ transform: preview.transform, clipPath: preview.clipPath });
+    }
+  }
+  return keyframes;
+}
@@ -0,0 +1,86 @@
+import type { WaveformData } from '../video-editor.types';
+
+/**
+ * Waveform utilities: peak data of decoded audio and the SVG paths the timeline draws from it
+ */
+
+/**
+ * Peak windows per second of audio (the backend's waveform endpoint uses the same resolution)
+ */
+export const WAVEFORM_PEAKS_PER_SECOND = 50;
+
+/**
+ * Most bars drawn for one clip; longer clips merge neighbouring peaks into a bar
+ */
+export const MAX_WAVEFORM_BARS = 2000;
+
+/**
+ * Height of the SVG view box the waveform paths are drawn in (the width is the number of bars)
+ */
+export const WAVEFORM_VIEW_HEIGHT = 100;
+
+/**
+ * Peak data of decoded audio: the largest absolute sample of any channel in each window
+ */
+export function getAudioBufferPeaks(buffer: AudioBuffer, peaksPerSecond = WAVEFORM_PEAKS_PER_SECOND): WaveformData {
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate / peaksPerSecond));
+  const peaks = new Array<number>(Math.ceil(buffer.length / windowSize)).fill(0);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let index = 0; index < samples.length; index++) {
+      const window = Math.floor(index / windowSize);
+      const sample = Math.abs(samples[index]!);
+      if (sample > peaks[window]!) {
+        peaks[window] = sample;
+      }
+    }
+  }
+  return {
+    duration: buffer.duration,
+    peaksPerSecond,
+    peaks: peaks.map(peak => Math.round(Math.min(peak, 1) * 1000) / 1000)
+  };
+}
+
+/**
+ * Mirrored envelope of the waveform between two points in the file, for an SVG with
+ * `viewBox="0 0 {width} 100"` stretched over the clip (`preserveAspectRatio="none"`)
+ * @param start Seconds into the file at the left edge of the clip
+ * @param end Seconds into the file at the right edge of the clip
+ * @param playedUntil The file stops playing here (audioTrimEnd); the rest of the clip is silent
+ */
+export function getWaveformPath(
+  waveform: WaveformData,
+  start: number,
+  end: number,
+  playedUntil = end
+): { path: string; width: number } | null {
+  const span = end - start;
+  if (span <= 0 || waveform.peaks.length === 0) {
+    return null;
+  }
+
+  const width = Math.max(1, Math.min(MAX_WAVEFORM_BARS, Math.round(span * waveform.peaksPerSecond)));
+  const stop = Math.min(playedUntil, waveform.duration);
+  const levels: number[] = [];
+  for (let bar = 0; bar < width; bar++) {
+    const from = start + (bar / width) * span;
+    const to = Math.min(start + ((bar + 1) / width) * span, stop);
+    let level = 0;
+    if (from < stop) {
+      const last = Math.min(waveform.peaks.length, Math.ceil(to * waveform.peaksPerSecond));
+      for (let index = Math.floor(from * waveform.peaksPerSecond); index < last; index++) {
+        level = Math.max(level, waveform.peaks[index] ?? 0);
+      }
+    }
+    levels.push(level);
+  }
+
+  const middle = WAVEFORM_VIEW_HEIGHT / 2;
+  const round = (value: number): number => Math.round(value * 10) / 10;
+  const top = levels.map((level, bar) => `L${bar} ${round(middle - level * middle)}H${bar + 1}`);
+  const bottom = levels
+    .map((level, bar) => `L${bar + 1} ${round(middle + level * middle)}H${bar}`)
+    .reverse();
+  return { path: `M0 ${middle}${top.join('')}${bottom.join('')}Z`, width };
+}
@@ -1,13 +1,15 @@
 import { CommonModule } from '@angular/common';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
 import {
   Component,
   ElementRef,
   OnDestroy,
   ViewChild,
   computed,
+  effect,
   inject,
-  signal
+  signal,
+  untracked
 } from '@angular/core';
 import { ReactiveFormsModule } from '@angular/forms';
 import { firstValueFrom } from 'rxjs';
@@ -15,26 +17,98 @@ import { environment } from '../../environments/environment';
 import { AudioFormComponent } from './components/audio-form/audio-form.component';
 import { CutFormComponent } from './components/cut-form/cut-form.component';
 import { EditorToolbarComponent } from './components/editor-toolbar/editor-toolbar.component';
+import { FilmstripComponent } from './components/filmstrip/filmstrip.component';
 import { RenderPanelComponent } from './components/render-panel/render-panel.component';
 import { SourceFormComponent } from './components/source-form/source-form.component';
 import { SourcesPanelComponent } from './components/sources-panel/sources-panel.component';
+import { TransitionFormComponent } from './components/transition-form/transition-form.component';
 import {
+  AudioPreviewService,
   AudioService,
+  CaptionService,
+  FontService,
+  HistoryService,
   OverlayService,
+  ProjectService,
   RenderService,
+  ThumbnailService,
   TimelineService,
-  VideoPlayerService
+  VideoPlayerService,
+  WaveformService,
+  type AudioPreviewClock,
+  type AudioPreviewTrack
 } from './services';
+import { getOutputCues, type CaptionFileFormat } from './utils/caption.utils';
+import {
+  createLutRenderer,
+  getColorPreview,
+  hasColorCorrection,
+  parseCubeLut,
+  type CubeLut,
+  type LutRenderer
+} from './utils/color.utils';
+import { getKenBurnsKeyframes, getTransformPreview, hasSourceTransform } from './utils/transform.utils';
 import { createLocalFileUrl } from './utils/file-upload.utils';
+import { findKeyframeAt, getOverlayKeyframeTimes, getOverlayValueAt } from './utils/keyframe.utils';
+import { getOverlayEffectState, getTypewriterText } from './utils/overlay-effect.utils';
+import { getProjectLocalUrls } from './utils/project.utils';
+import {
+  SHAPE_TYPE_OPTIONS,
+  formatShapePoints,
+  getShapePoints,
+  getShapeSvgParts,
+  isPointShape,
+  parseShapePoints,
+  type ShapeSvgPart
+} from './utils/shape.utils';
+import { TEXT_ITALIC_SKEW, TEXT_STYLE_LIMITS, getTextShadowCss, getTextStrokeCss } from './utils/text-style.utils';
+import {
+  SEGMENT_SPEED_LIMITS,
+  calculateAdjustedTime,
+  findSnapTarget,
+  findTransitionAt,
+  formatRulerTime,
+  getEditPlaybackTime,
+  getMaxTimelineZoom,
+  getPreviewPlaybackRate,
+  getRulerStep,
+  getRulerTicks,
+  getSegmentOutputDuration,
+  getTransitionJoints
+} from './utils/timeline.utils';
 import { getAudioDuration, getVideoDuration } from './utils/video-metadata.utils';
+import { getWaveformPath } from './utils/waveform.utils';
 import {
   AudioSource,
   AudioTimelineDrag,
+  CaptionCue,
+  CaptionOptions,
+  ColorCorrection,
+  SourceTransform,
+  EditorSnapshot,
+  KeyframeEasing,
+  OutputCanvas,
+  OutputFormat,
   Overlay,
+  OverlayEffect,
+  OverlayEffectState,
+  OverlayEffectType,
+  OverlayKeyframe,
+  OverlayKeyframes,
+  QualityOptions,
+  RenderJobStatus,
   RenderResponse,
+  SegmentEffect,
+  ShapeGeometry,
+  ShapeType,
+  TextAlign,
+  TextStyle,
   TimelineCut,
   TimelineDrag,
   TimelineSegment,
+  TimelineTransition,
+  TransitionJoint,
+  TransitionType,
   VideoBounds,
   VideoSource
 } from './video-editor.types';
@@ -43,7 +117,7 @@ import { clamp, formatTime } from './video-editor.utils';
 @Component({
   selector: 'app-video-editor',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, SourceFormComponent, SourcesPanelComponent, EditorToolbarComponent, AudioFormComponent, CutFormComponent, RenderPanelComponent],
+  imports: [CommonModule, ReactiveFormsModule, SourceFormComponent, SourcesPanelComponent, EditorToolbarComponent, AudioFormComponent, CutFormComponent, RenderPanelComponent, TransitionFormComponent, FilmstripComponent],
   templateUrl: './video-editor.component.html',
   styleUrl: './video-editor.component.scss'
 })
@@ -53,6 +127,8 @@ export class VideoEditorComponent implements OnDestroy {
   @ViewChild('videoEl', { static: true }) protected videoElement?: ElementRef<HTMLVideoElement>;
   @ViewChild('overlayFormContainer', { static: false }) protected overlayFormContainer?: ElementRef<HTMLElement>;
   @ViewChild('playerContainer', { static: false }) protected playerContainer?: ElementRef<HTMLElement>;
+  @ViewChild('lutCanvas', { static: true }) protected lutCanvas?: ElementRef<HTMLCanvasElement>;
+  @ViewChild('timelineScrollbar', { static: false }) protected timelineScrollbar?: ElementRef<HTMLElement>;
   // Removed file input ViewChilds - using direct DOM queries for better performance
 
   // Private fields (dependencies that must be declared first)
@@ -62,6 +138,13 @@ export class VideoEditorComponent implements OnDestroy {
   protected readonly overlayService = inject(OverlayService);
   protected readonly timelineService = inject(TimelineService);
   protected readonly audioService = inject(AudioService);
+  protected readonly audioPreviewService = inject(AudioPreviewService);
+  protected readonly projectService = inject(ProjectService);
+  protected readonly historyService = inject(HistoryService);
+  protected readonly fontService = inject(FontService);
+  protected readonly captionService = inject(CaptionService);
+  protected readonly waveformService = inject(WaveformService);
+  protected readonly thumbnailService = inject(ThumbnailService);
 
   // Protected fields (must come after fb/http due to dependencies)
   protected readonly backendHost = environment.apiBaseUrl;
@@ -70,14 +153,22 @@ export class VideoEditorComponent implements OnDestroy {
   protected readonly loading = signal(false);
   protected readonly errorMessage = signal('');
   protected readonly sourceBoundaries = signal<number[]>([]); // Cumulative timestamps where sources end
+  protected readonly thumbnailStrips = this.thumbnailService.getStrips();
   protected readonly editingSourceId = signal<number | null>(null); // ID of source being edited
   protected readonly showOverlayForm = signal(false);
   protected readonly overlayFormType = signal<'text' | 'image' | 'shape'>('text');
   protected readonly showAudioForm = signal(false);
   protected readonly showCutForm = signal(false);
+  protected readonly editingTransitionJoint = signal<TransitionJoint | null>(null); // Joint open in the transition form
   protected readonly editingAudioId = signal<number | null>(null);
   protected readonly renderBusy = signal(false);
   protected readonly renderResult = signal<RenderResponse | null>(null);
+  protected readonly renderJob = signal<RenderJobStatus | null>(null); // Latest status of the backend render job
+  protected readonly outputFormat = signal<OutputFormat>('mp4');
+  protected readonly outputCanvas = signal<OutputCanvas | null>(null); // null = keep source resolution
+  protected readonly outputQuality = signal<QualityOptions | null>(null); // null = backend default profile
+  protected readonly outputCaptions = signal<CaptionOptions | null>(null); // null = captions are not rendered
+  protected readonly projectName = signal('Untitled project');
   protected readonly draggingOverlay = signal<{ overlay: Overlay; startX: number; startY: number; offsetX: number; offsetY: number } | null>(null);
   protected readonly resizingOverlay = signal<{ overlay: Overlay; startWidth: number; startHeight: number; startX: number; startY: number; corner: 'se' | 'sw' | 'ne' | 'nw' } | null>(null);
 
@@ -89,6 +180,23 @@ export class VideoEditorComponent implements OnDestroy {
   protected readonly localFiles = new Map<string, File>(); // Map URL to File object
   protected readonly objectUrls = new Map<string, string>(); // Map URL to object URL for cleanup
 
+  protected readonly keyframeEasingOptions: { value: KeyframeEasing; label: string }[] = [
+    { value: 'linear', label: 'Linear' },
+    { value: 'ease-in-out', label: 'Ease in-out' },
+    { value: 'hold', label: 'Hold' }
+  ];
+
+  protected readonly effectSlots: { key: 'entranceEffect' | 'exitEffect'; label: string }[] = [
+    { key: 'entranceEffect', label: 'In' },
+    { key: 'exitEffect', label: 'Out' }
+  ];
+  protected readonly slideEdgeOptions: { value: NonNullable<OverlayEffect['edge']>; label: string }[] = [
+    { value: 'left', label: 'Left edge' },
+    { value: 'right', label: 'Right edge' },
+    { value: 'top', label: 'Top edge' },
+    { value: 'bottom', label: 'Bottom edge' }
+  ];
+
   // Track input values for drag-hint visibility
   protected readonly audioUrlValue = signal('');
   protected readonly imageUrlValue = signal('');
@@ -104,6 +212,19 @@ export class VideoEditorComponent implements OnDestroy {
   });
   protected readonly sourceLoaded = this.playerService.getSourceLoaded();
   protected readonly currentSourceIndex = this.playerService.getCurrentSourceIndex();
+  // Color correction of the source under the playhead; its LUT is drawn on lutCanvas
+  protected readonly colorPreview = computed(() =>
+    getColorPreview(this.playerService.getCurrentSource()?.color, '#source-color-transfer')
+  );
+  protected readonly lutPreviewActive = signal(false);
+  // "Preview edit" plays the timeline as it will be rendered: from trim start to trim end, skipping cuts
+  protected readonly previewEditMode = signal(false);
+  protected readonly previewEditPlaying = signal(false);
+  // Crop, rotation and flips (and the pan/zoom start) of the source under the playhead
+  protected readonly mediaAspect = signal(16 / 9); // Width / height of the previewed video or image
+  protected readonly transformPreview = computed(() =>
+    getTransformPreview(this.playerService.getCurrentSource()?.transform, this.mediaAspect())
+  );
 
   protected readonly trimStart = this.timelineService.getTrimStart();
   protected readonly trimEnd = this.timelineService.getTrimEnd();
@@ -120,9 +241,23 @@ export class VideoEditorComponent implements OnDestroy {
   protected readonly hasCuts = this.timelineService.getHasCuts();
   protected readonly hasSegments = this.timelineService.getHasSegments();
   protected readonly timelineMode = this.timelineService.getMode();
+  protected readonly transitions = this.timelineService.getTransitions();
+  protected readonly segmentTiming = this.timelineService.getEffectiveTiming();
+  protected readonly segmentSpeedLimits = SEGMENT_SPEED_LIMITS;
 
   protected readonly overlays = this.overlayService.getOverlays();
   protected readonly overlaySelection = this.overlayService.getSelectedOverlay();
+  protected readonly overlayFonts = this.fontService.getFonts();
+  protected readonly textFontUrl = signal(''); // Font picked in the text overlay form ('' = default font)
+  protected readonly textStyleLimits = TEXT_STYLE_LIMITS;
+  protected readonly textAlignOptions: { value: TextAlign; label: string }[] = [
+    { value: 'left', label: 'Left' },
+    { value: 'center', label: 'Center' },
+    { value: 'right', label: 'Right' }
+  ];
+  protected readonly shapeFormType = signal<ShapeType>('rectangle'); // Shape picked in the shape overlay form
+  protected readonly shapeTypeOptions = SHAPE_TYPE_OPTIONS;
+  protected readonly isPointShape = isPointShape;
 
   // Audio service signals
   protected readonly audioSources = this.audioService.getAudioSources();
@@ -130,6 +265,19 @@ export class VideoEditorComponent implements OnDestroy {
   protected readonly audioMixMode = this.audioService.getAudioMixMode();
   protected readonly hasAudio = this.audioService.getHasAudio();
   protected readonly activeAudioSources = this.audioService.getActiveAudioSources();
+  // 'replace' drops the video's own sound when there are tracks to play instead (as in the render)
+  protected readonly muteVideoAudio = computed(() => this.audioMixMode() === 'replace' && this.activeAudioSources().length > 0);
+
+  // Caption service signals
+  protected readonly captionTrack = this.captionService.getTrack();
+  protected readonly selectedCaptionCue = this.captionService.getSelectedCue();
+  protected readonly activeCaption = computed(() => this.captionService.getCueAt(this.playheadTime()));
+
+  // History service signals
+  protected readonly canUndo = this.historyService.getCanUndo();
+  protected readonly canRedo = this.historyService.getCanRedo();
+  protected readonly undoLabel = this.historyService.getUndoLabel();
+  protected readonly redoLabel = this.historyService.getRedoLabel();
 
   protected readonly canRender = computed(
     () => this.sourceLoaded() && this.duration() > 0 && !this.loading()
@@ -137,6 +285,46 @@ export class VideoEditorComponent implements OnDestroy {
 
   protected hasOverlays = computed(() => this.overlays().length > 0);
 
+  // Download links of the caption sidecars that came with the render result
+  protected readonly renderArtifactLinks = computed(() =>
+    (this.renderResult()?.artifacts ?? []).map(artifact => ({
+      label: `Download ${artifact.format.toUpperCase()} captions`,
+      url: this.renderService.getDownloadUrl(artifact.file)
+    }))
+  );
+
+  // Joints where a transition can be set, and the transitions that currently sit on one
+  protected readonly transitionJoints = computed(() =>
+    getTransitionJoints(
+      this.trimStart(),
+      this.trimEnd(),
+      this.timelineService.getEffectiveCuts()(),
+      this.sourceBoundaries()
+    )
+  );
+  protected readonly activeTransitions = computed(() =>
+    this.transitions().filter(transition =>
+      this.transitionJoints().some(joint => findTransitionAt([transition], joint.time))
+    )
+  );
+  protected readonly editingTransition = computed(() => {
+    const joint = this.editingTransitionJoint();
+    return joint ? findTransitionAt(this.transitions(), joint.time) : undefined;
+  });
+
+  /**
+   * Opacity of the black layer over the preview: the preview shows every transition as a dip to black
+   */
+  protected readonly transitionDip = computed(() => {
+    const cuts = this.timelineService.getEffectiveCuts()();
+    const timing = this.segmentTiming();
+    const outputTime = calculateAdjustedTime(this.playheadTime(), cuts, timing);
+    return this.activeTransitions().reduce((opacity, transition) => {
+      const distance = Math.abs(outputTime - calculateAdjustedTime(transition.time, cuts, timing));
+      return Math.max(opacity, 1 - distance / (transition.duration / 2));
+    }, 0);
+  });
+
   // Expose Math for template
   protected readonly Math = Math;
 
@@ -158,16 +346,105 @@ export class VideoEditorComponent implements OnDestroy {
     return Math.max(56, 6 + (maxTrackIndex + 1) * 44 + 6);
   });
 
+  /**
+   * Waveform of each audio clip by audio id: the part of the file the clip plays, from audioTrimStart
+   * to audioTrimEnd, over the part of the clip that is on the timeline
+   */
+  protected readonly audioWaveforms = computed(() => {
+    const waveforms = this.waveformService.getWaveforms()();
+    const duration = this.duration();
+    const paths = new Map<number, { path: string; width: number }>();
+    for (const audio of this.audioSources()) {
+      const waveform = waveforms.get(audio.url);
+      const visible = Math.min(audio.startTime + audio.duration, duration) - Math.max(audio.startTime, 0);
+      const fileStart = audio.audioTrimStart + Math.max(0, -audio.startTime);
+      const path = waveform && getWaveformPath(waveform, fileStart, fileStart + visible, audio.audioTrimEnd);
+      if (path) {
+        paths.set(audio.id, path);
+      }
+    }
+    return paths;
+  });
+
+  /**
+   * Waveforms of the main video's audio, one per video source at its place on the timeline
+   */
+  protected readonly videoWaveforms = computed(() => {
+    const waveforms = this.waveformService.getWaveforms()();
+    return this.sources()
+      .filter(source => source.type === 'video')
+      .map(source => {
+        const waveform = waveforms.get(source.url);
+        const path = waveform && getWaveformPath(waveform, 0, source.duration);
+        return path ? { id: source.id, start: source.startTime, end: source.startTime + source.duration, ...path } : null;
+      })
+      .filter(waveform => waveform !== null);
+  });
+
+  // Zoom and scroll of the timelines: every lane shows `span` seconds from `start`
+  protected readonly timelineZoom = signal(1);
+  protected readonly timelineView = computed(() => {
+    const duration = this.duration();
+    const span = duration / this.timelineZoom();
+    return { start: this.clamp(this.timelineViewStart(), 0, Math.max(0, duration - span)), span };
+  });
+  protected readonly maxTimelineZoom = computed(() => getMaxTimelineZoom(this.duration()));
+  protected readonly rulerTicks = computed(() => {
+    const { start, span } = this.timelineView();
+    const step = getRulerStep(span);
+    return getRulerTicks(start, span, step).map(tick => ({
+      ...tick,
+      label: tick.major ? formatRulerTime(tick.time, step) : ''
+    }));
+  });
+  // Range "Zoom to selection" fits: the staged or focused cut/segment, else the trim range
+  protected readonly zoomSelection = computed(() => {
+    const staged = this.timelineSelection();
+    const focused = this.timelineMode() === 'cut' ? this.cutSelection() : this.segmentSelection();
+    const range = [staged, focused, { start: this.trimStart(), end: this.trimEnd() }]
+      .find(candidate => candidate && candidate.end - candidate.start > 0.01);
+    return range && range.end - range.start < this.duration() ? range : null;
+  });
+  protected readonly snapIndicator = signal<number | null>(null); // Time a dragged edge snapped to
+
   // Private fields (remaining)
+  private readonly timelineViewStart = signal(0);
+  private readonly snapThresholdPx = 8; // Edges snap within this distance on screen
   private readonly minGap = 0.1;
   private timelineDrag: TimelineDrag = null;
   private audioTimelineDrag: AudioTimelineDrag | null = null;
+  private captionDrag: { cueId: number; offset: number; length: number } | null = null;
   private readonly previewTime = signal<number | null>(null); // Preview time during drag (for smooth playhead movement)
   private nextSourceId = 1;
   private isLoadingSource = false;
+  private restoringProject = false; // Keep a restored trim range (opened project, undo/redo) when the video reports its metadata
   private keyboardListener?: (event: KeyboardEvent) => void;
-  private audioElements = new Map<number, HTMLAudioElement>(); // Map audio ID to audio element
-  private audioPlaybackInterval?: number;
+  // Audio tracks on the timeline of the preview clock: the output timeline while the edit preview plays
+  private readonly audioPreviewTracks = computed((): AudioPreviewTrack[] => {
+    const previewEdit = this.previewEditPlaying();
+    const cuts = this.timelineService.getEffectiveCuts()();
+    const timing = this.segmentTiming();
+    const toClockTime = (time: number): number => (previewEdit ? calculateAdjustedTime(time, cuts, timing) : time);
+    return this.audioSources().map(audio => ({
+      id: audio.id,
+      url: audio.url,
+      start: toClockTime(audio.startTime),
+      end: toClockTime(audio.startTime + audio.duration),
+      fileStart: audio.audioTrimStart ?? 0,
+      fileEnd: audio.audioTrimEnd ?? audio.originalDuration ?? audio.duration,
+      volume: audio.volume,
+      muted: audio.muted
+    }));
+  });
+  private previewStepInterval?: number; // Steps reversed and boomerang segments backwards in the preview
+  private previewEditFrame?: number; // requestAnimationFrame handle of the edit preview
+  private previewEditImage?: { id: number; startedAt: number }; // Image source playing in the edit preview (performance.now() at its start)
+  private readonly previewLutUrl = computed(() => this.playerService.getCurrentSource()?.color?.lutUrl);
+  private readonly luts = new Map<string, Promise<CubeLut>>(); // Parsed LUT files by URL
+  private lutRenderer?: LutRenderer | null; // Created on first use; null without WebGL 2
+  private lutFrame?: number; // requestAnimationFrame handle of the LUT preview
+  private readonly previewStepMs = 40;
+  private readonly boomerangTurnWindow = 0.3; // Timeupdate fires every ~250ms, so turn around shortly before the end
 
   // Constructor
   constructor() {
@@ -190,6 +467,11 @@ export class VideoEditorComponent implements OnDestroy {
           this.closeCutForm();
           return;
         }
+        if (this.editingTransitionJoint()) {
+          event.preventDefault();
+          this.closeTransitionForm();
+          return;
+        }
       }
 
       // Only handle if not typing in an input
@@ -197,6 +479,20 @@ export class VideoEditorComponent implements OnDestroy {
         return;
       }
 
+      // Undo/redo: Ctrl+Z, Ctrl+Shift+Z or Ctrl+Y (Cmd on macOS)
+      if ((event.ctrlKey || event.metaKey) && !event.altKey) {
+        const key = event.key.toLowerCase();
+        if (key === 'z' || key === 'y') {
+          event.preventDefault();
+          if (key === 'y' || event.shiftKey) {
+            this.redo();
+          } else {
+            this.undo();
+          }
+          return;
+        }
+      }
+
       if (event.key === 'ArrowLeft' && this.sources().length > 1) {
         event.preventDefault();
         this.goToPreviousSource();
@@ -207,6 +503,38 @@ export class VideoEditorComponent implements OnDestroy {
     };
 
     window.addEventListener('keydown', this.keyboardListener);
+
+    // Redraw the LUT preview when the source under the playhead or its LUT changes
+    effect(() => {
+      void this.updateLutPreview(this.previewLutUrl());
+    });
+
+    // The preview audio mix plays the tracks against the video clock
+    this.audioPreviewService.attach(() => this.getAudioPreviewClock());
+    effect(() => {
+      this.audioPreviewService.setTracks(this.audioPreviewTracks(), this.masterVolume());
+    });
+    // A zoomed timeline pages along when the playhead leaves the view
+    effect(() => {
+      const time = this.playheadTime();
+      untracked(() => {
+        const { start, span } = this.timelineView();
+        if (this.timelineZoom() > 1 && this.previewTime() === null && (time < start || time > start + span)) {
+          this.setTimelineView(time - span * 0.1, this.timelineZoom());
+        }
+      });
+    });
+    effect(() => {
+      for (const source of this.sources()) {
+        if (source.type === 'video') {
+          this.waveformService.load(source.url);
+          this.thumbnailService.load(source.url);
+        }
+      }
+      for (const audio of this.audioSources()) {
+        this.waveformService.load(audio.url);
+      }
+    });
   }
 
   // Lifecycle hooks
@@ -214,13 +542,14 @@ export class VideoEditorComponent implements OnDestroy {
     // Clean up video player service
     this.playerService.cleanup();
 
-    // Clean up audio elements
-    this.cleanupAudioElements();
+    // Release the preview audio mix
+    this.audioPreviewService.dispose();
+    this.stopPreviewStepping();
+    this.stopPreviewEdit();
 
-    // Clean up audio playback interval
-    if (this.audioPlaybackInterval) {
-      clearInterval(this.audioPlaybackInterval);
-    }
+    // Clean up the LUT preview
+    this.stopLutPreview();
+    this.lutRenderer?.dispose();
 
     // Clean up keyboard listener
     if (this.keyboardListener) {
@@ -254,20 +583,22 @@ export class VideoEditorComponent implements OnDestroy {
    * Remove a source from the timeline
    */
   protected removeSource(id: number): void {
-    this.sources.update(sources => {
-      const filtered = sources.filter(s => s.id !== id);
-      // Re-calculate start times and order
-      return this.recalculateSourceTimings(filtered);
-    });
+    this.historyService.record('Remove source', () => {
+      this.sources.update(sources => {
+        const filtered = sources.filter(s => s.id !== id);
+        // Re-calculate start times and order
+        return this.recalculateSourceTimings(filtered);
+      });
 
-    this.updateSourceBoundaries();
+      this.updateSourceBoundaries();
 
-    // Reload if we still have sources
-    if (this.sources().length > 0) {
-      this.loadConcatenatedSources();
-    } else {
-      this.resetEditor(true);
-    }
+      // Reload if we still have sources
+      if (this.sources().length > 0) {
+        this.loadConcatenatedSources();
+      } else {
+        this.resetEditor(true);
+      }
+    });
   }
 
   /**
@@ -282,9 +613,11 @@ export class VideoEditorComponent implements OnDestroy {
       [newSources[index - 1], newSources[index]] = [newSources[index], newSources[index - 1]];
       // Update order and timings
       const reordered = this.recalculateSourceTimings(newSources);
-      this.sources.set(reordered);
-      this.updateSourceBoundaries();
-      this.loadConcatenatedSources();
+      this.historyService.record('Reorder sources', () => {
+        this.sources.set(reordered);
+        this.updateSourceBoundaries();
+        this.loadConcatenatedSources();
+      });
     }
   }
 
@@ -300,17 +633,23 @@ export class VideoEditorComponent implements OnDestroy {
       [newSources[index], newSources[index + 1]] = [newSources[index + 1], newSources[index]];
       // Update order and timings
       const reordered = this.recalculateSourceTimings(newSources);
-      this.sources.set(reordered);
-      this.updateSourceBoundaries();
-      this.loadConcatenatedSources();
+      this.historyService.record('Reorder sources', () => {
+        this.sources.set(reordered);
+        this.updateSourceBoundaries();
+        this.loadConcatenatedSources();
+      });
     }
   }
 
   /**
-   * Start editing a source's duration (images only)
+   * Start editing a source's framing (and duration for images); the player jumps to it for the preview
    */
   protected startEditingSource(id: number): void {
     this.editingSourceId.set(id);
+    const source = this.sources().find(s => s.id === id);
+    if (source && this.sourceLoaded()) {
+      this.jumpTo(source.startTime);
+    }
   }
 
   /**
@@ -319,16 +658,76 @@ export class VideoEditorComponent implements OnDestroy {
   protected updateSourceDuration(id: number, newDuration: number): void {
     const validDuration = Math.max(0.1, Math.min(60, newDuration));
 
-    this.sources.update(sources => {
-      const updated = sources.map(s =>
-        s.id === id ? { ...s, duration: validDuration } : s
-      );
-      return this.recalculateSourceTimings(updated);
-    });
+    this.historyService.record('Change image duration', () => {
+      this.sources.update(sources => {
+        const updated = sources.map(s =>
+          s.id === id ? { ...s, duration: validDuration } : s
+        );
+        return this.recalculateSourceTimings(updated);
+      });
 
-    this.updateSourceBoundaries();
+      this.updateSourceBoundaries();
+      this.loadConcatenatedSources();
+    });
     this.editingSourceId.set(null);
-    this.loadConcatenatedSources();
+  }
+
+  /**
+   * Update a source's color correction
+   */
+  protected updateSourceColor(id: number, color: ColorCorrection): void {
+    this.historyService.record('Change source color', () => this.setSourceColor(id, color), `source-${id}-color`);
+  }
+
+  /**
+   * Update a source's crop, rotation, flips and pan/zoom
+   */
+  protected updateSourceTransform(id: number, transform: SourceTransform): void {
+    this.historyService.record('Change source framing', () => this.setSourceTransform(id, transform), `source-${id}-transform`);
+  }
+
+  /**
+   * Play the pan/zoom of an image source on the preview
+   */
+  protected previewSourceKenBurns(id: number): void {
+    const source = this.sources().find(s => s.id === id);
+    if (!source?.transform?.kenBurns) {
+      return;
+    }
+    this.jumpTo(source.startTime);
+
+    // The image preview is rendered once the source is current
+    setTimeout(() => {
+      const image = this.playerContainer?.nativeElement.querySelector<HTMLImageElement>('.player__image-preview');
+      image?.animate(getKenBurnsKeyframes(source.transform!, this.mediaAspect()), {
+        duration: source.duration * 1000,
+        easing: 'linear'
+      });
+    });
+  }
+
+  /**
+   * Apply a .cube LUT file to a source (kept local like images, uploaded when rendering)
+   */
+  protected async onSourceLutSelected(id: number, file: File): Promise<void> {
+    if (!/\.cube$/i.test(file.name)) {
+      this.errorMessage.set('Please select a .cube LUT file.');
+      return;
+    }
+
+    try {
+      const lut = parseCubeLut(await file.text());
+      const objectUrl = createLocalFileUrl(file);
+      this.localFiles.set(objectUrl, file);
+      this.objectUrls.set(objectUrl, objectUrl);
+      this.luts.set(objectUrl, Promise.resolve(lut));
+
+      const color = this.sources().find(s => s.id === id)?.color;
+      this.historyService.record('Apply LUT', () => this.setSourceColor(id, { ...color, lutUrl: objectUrl }));
+      this.errorMessage.set('');
+    } catch (error) {
+      this.errorMessage.set(`Failed to load LUT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
 
   /**
@@ -450,6 +849,7 @@ export class VideoEditorComponent implements OnDestroy {
     this.cutSelection.set({ start: 0, end: 0 });
     this.overlays.set([]);
     this.overlaySelection.set(null);
+    this.captionService.clearTrack();
     this.showOverlayForm.set(false);
     this.timelineSelection.set(null);
     this.errorMessage.set('');
@@ -465,12 +865,13 @@ export class VideoEditorComponent implements OnDestroy {
   }
 
   protected onMetadataLoaded(): void {
-    // Initialize audio playback when video metadata is loaded
-    this.initializeAudioPlayback();
     const video = this.videoElement?.nativeElement;
     if (!video) {
       return;
     }
+    if (video.videoWidth > 0 && video.videoHeight > 0) {
+      this.mediaAspect.set(video.videoWidth / video.videoHeight);
+    }
 
     const duration = video.duration ?? 0;
     const allSources = this.sources();
@@ -487,15 +888,18 @@ export class VideoEditorComponent implements OnDestroy {
     if (allSources.length <= 1) {
       // Single source or no sources - update duration
       this.duration.set(duration);
-      this.trimStart.set(0);
-      this.trimEnd.set(duration);
-      this.cutSelection.set({
-        start: Math.min(duration * 0.25, duration - this.minGap),
-        end: Math.min(duration * 0.4, duration)
-      });
+      if (!this.restoringProject) {
+        this.trimStart.set(0);
+        this.trimEnd.set(duration);
+        this.cutSelection.set({
+          start: Math.min(duration * 0.25, duration - this.minGap),
+          end: Math.min(duration * 0.4, duration)
+        });
+      }
     }
     // For multi-source, duration/trimEnd are already set by loadConcatenatedSources
     // Don't overwrite them here
+    this.restoringProject = false;
   }
 
   protected onTimeUpdate(): void {
@@ -515,22 +919,28 @@ export class VideoEditorComponent implements OnDestroy {
     // Calculate global timeline position
     const currentSource = allSources[currentIndex];
     if (currentSource) {
-      // For images, time doesn't advance automatically (static preview)
+      // For images, time doesn't advance automatically (static preview; the edit preview plays them on its own clock)
       if (currentSource.type === 'image') {
-        // Keep time at the start of the image
-        this.currentTime.set(currentSource.startTime);
+        if (!this.previewEditPlaying()) {
+          // Keep time at the start of the image
+          this.currentTime.set(currentSource.startTime);
+        }
         return;
       }
 
       const globalTime = currentSource.startTime + video.currentTime;
       this.currentTime.set(globalTime);
+      this.updatePreviewPlaybackRate(video, globalTime);
+      this.updatePreviewSegmentEffect(video, globalTime);
 
-      // Check if we need to advance to next source
-      if (video.currentTime >= currentSource.duration - 0.1) {
+      // Check if we need to advance to next source (the edit preview moves between sources itself)
+      if (!this.previewEditPlaying() && video.currentTime >= currentSource.duration - 0.1) {
         this.advanceToNextSource();
       }
     } else {
       this.currentTime.set(video.currentTime);
+      this.updatePreviewPlaybackRate(video, video.currentTime);
+      this.updatePreviewSegmentEffect(video, video.currentTime);
     }
   }
 
@@ -540,7 +950,7 @@ export class VideoEditorComponent implements OnDestroy {
   protected onVideoEnded(): void {
     const currentSource = this.getCurrentSource();
     // Only auto-advance for videos, not images
-    if (currentSource?.type === 'video') {
+    if (currentSource?.type === 'video' && !this.previewEditPlaying()) {
       this.advanceToNextSource();
     }
   }
@@ -551,20 +961,20 @@ export class VideoEditorComponent implements OnDestroy {
 
   protected updateTrimStart(event: Event): void {
     const value = Number((event.target as HTMLInputElement).value);
-    this.timelineService.setTrimStart(value, this.duration());
+    this.historyService.record('Change trim start', () => this.timelineService.setTrimStart(value, this.duration()), 'trim-start');
   }
 
   protected updateTrimEnd(event: Event): void {
     const value = Number((event.target as HTMLInputElement).value);
-    this.timelineService.setTrimEnd(value, this.duration());
+    this.historyService.record('Change trim end', () => this.timelineService.setTrimEnd(value, this.duration()), 'trim-end');
   }
 
   protected setTrimStartFromCurrent(): void {
-    this.timelineService.setTrimStart(this.currentTime(), this.duration());
+    this.historyService.record('Change trim start', () => this.timelineService.setTrimStart(this.currentTime(), this.duration()));
   }
 
   protected setTrimEndFromCurrent(): void {
-    this.timelineService.setTrimEnd(this.currentTime(), this.duration());
+    this.historyService.record('Change trim end', () => this.timelineService.setTrimEnd(this.currentTime(), this.duration()));
   }
 
   protected togglePlayPause(): void {
@@ -572,16 +982,45 @@ export class VideoEditorComponent implements OnDestroy {
     if (!video) {
       return;
     }
+    if (this.previewEditMode()) {
+      if (this.previewEditPlaying()) {
+        this.stopPreviewEdit();
+      } else {
+        // Play on from the playhead, or from the trim start once the edit has finished
+        this.startPreviewEdit(this.resolvePreviewEditTime(this.currentTime()) ?? this.trimStart());
+      }
+      return;
+    }
+    // Pausing while a segment steps backwards stops the stepping
+    if (this.previewStepInterval !== undefined) {
+      this.stopPreviewStepping();
+      return;
+    }
+    // The audio tracks follow the video
     if (video.paused) {
       void video.play();
-      // Start audio playback
-      this.initializeAudioPlayback();
     } else {
       video.pause();
-      // Pause all audio
-      this.audioElements.forEach(audioEl => {
-        audioEl.pause();
-      });
+    }
+  }
+
+  /**
+   * Switch the "preview edit" playback mode; switching it on plays the edit from the trim start
+   */
+  protected togglePreviewEditMode(): void {
+    const enabled = !this.previewEditMode();
+    this.previewEditMode.set(enabled);
+    if (enabled) {
+      this.startPreviewEdit(this.trimStart());
+    } else {
+      this.stopPreviewEdit();
+    }
+  }
+
+  protected onImagePreviewLoaded(event: Event): void {
+    const image = event.target as HTMLImageElement;
+    if (image.naturalWidth > 0 && image.naturalHeight > 0) {
+      this.mediaAspect.set(image.naturalWidth / image.naturalHeight);
     }
   }
 
@@ -590,6 +1029,17 @@ export class VideoEditorComponent implements OnDestroy {
     if (!video) {
       return;
     }
+    this.stopPreviewStepping();
+
+    // While the edit preview plays, it carries on from the new position
+    if (this.previewEditPlaying()) {
+      const playbackTime = this.resolvePreviewEditTime(time);
+      if (playbackTime !== null) {
+        this.seekPreviewEdit(playbackTime);
+        return;
+      }
+      this.stopPreviewEdit();
+    }
 
     const clampedTime = this.clamp(time, 0, this.duration());
     const allSources = this.sources();
@@ -733,7 +1183,7 @@ export class VideoEditorComponent implements OnDestroy {
    */
   protected toggleTimelineMode(): void {
     const currentMode = this.timelineMode();
-    this.timelineService.setMode(currentMode === 'cut' ? 'keep' : 'cut');
+    this.historyService.record('Switch timeline mode', () => this.timelineService.setMode(currentMode === 'cut' ? 'keep' : 'cut'));
     this.errorMessage.set('');
   }
 
@@ -742,21 +1192,17 @@ export class VideoEditorComponent implements OnDestroy {
    */
   protected addCut(): void {
     if (this.timelineMode() === 'keep') {
-      const { start, end } = this.segmentSelection();
-      const result = this.timelineService.addSegment(start, end);
-      if (!result.success && result.error) {
-        this.errorMessage.set(result.error);
-      } else {
-        this.adjustAudioForCuts();
-      }
+      this.addSegment();
     } else {
-      const { start, end } = this.cutSelection();
-      const result = this.timelineService.addCut(start, end);
-      if (!result.success && result.error) {
-        this.errorMessage.set(result.error);
-      } else {
-        this.adjustAudioForCuts();
-      }
+      this.historyService.record('Add cut', () => {
+        const { start, end } = this.cutSelection();
+        const result = this.timelineService.addCut(start, end);
+        if (!result.success && result.error) {
+          this.errorMessage.set(result.error);
+        } else {
+          this.adjustAudioForCuts();
+        }
+      });
     }
   }
 
@@ -764,14 +1210,16 @@ export class VideoEditorComponent implements OnDestroy {
    * Add a segment (keep mode)
    */
   protected addSegment(): void {
-    const { start, end } = this.segmentSelection();
-    const result = this.timelineService.addSegment(start, end);
-    if (!result.success && result.error) {
-      this.errorMessage.set(result.error);
-    } else {
-      // Adjust audio for the new segment (which creates cuts around it)
-      this.adjustAudioForCuts();
-    }
+    this.historyService.record('Add segment', () => {
+      const { start, end } = this.segmentSelection();
+      const result = this.timelineService.addSegment(start, end);
+      if (!result.success && result.error) {
+        this.errorMessage.set(result.error);
+      } else {
+        // Adjust audio for the new segment (which creates cuts around it)
+        this.adjustAudioForCuts();
+      }
+    });
   }
 
   protected removeCut(id: number): void {
@@ -779,15 +1227,16 @@ export class VideoEditorComponent implements OnDestroy {
     const cut = this.cutsRaw().find(c => c.id === id);
     const selection = this.cutSelection();
 
-    this.timelineService.deleteCut(id);
+    this.historyService.record('Remove cut', () => {
+      this.timelineService.deleteCut(id);
+      // Adjust audio positions
+      this.adjustAudioForCuts();
+    });
 
     // Clear selection if the deleted cut was selected
     if (cut && selection.start === cut.start && selection.end === cut.end) {
       this.timelineService.setCutSelection(0, 0);
     }
-
-    // Adjust audio positions
-    this.adjustAudioForCuts();
   }
 
   protected removeSegment(id: number): void {
@@ -795,15 +1244,16 @@ export class VideoEditorComponent implements OnDestroy {
     const segment = this.segmentsRaw().find(s => s.id === id);
     const selection = this.segmentSelection();
 
-    this.timelineService.deleteSegment(id);
+    this.historyService.record('Remove segment', () => {
+      this.timelineService.deleteSegment(id);
+      // Adjust audio positions
+      this.adjustAudioForCuts();
+    });
 
     // Clear selection if the deleted segment was selected
     if (segment && selection.start === segment.start && selection.end === segment.end) {
       this.timelineService.setSegmentSelection(0, 0);
     }
-
-    // Adjust audio positions
-    this.adjustAudioForCuts();
   }
 
   protected removeCutFromTimeline(id: number, event?: Event): void {
@@ -826,6 +1276,107 @@ export class VideoEditorComponent implements OnDestroy {
     this.timelineService.setSegmentSelection(segment.start, segment.end);
   }
 
+  protected setSegmentSpeed(segment: TimelineSegment, event: Event): void {
+    const speed = Number((event.target as HTMLInputElement).value);
+    if (!speed) {
+      return;
+    }
+    this.historyService.record(
+      'Change segment speed',
+      () => this.timelineService.setSegmentSpeed(segment.id, speed),
+      `segment-${segment.id}-speed`
+    );
+  }
+
+  protected toggleSegmentFreeze(segment: TimelineSegment, event: Event): void {
+    const freeze = (event.target as HTMLInputElement).checked;
+    this.historyService.record(freeze ? 'Freeze segment' : 'Unfreeze segment', () =>
+      this.timelineService.setSegmentFreeze(segment.id, freeze ? segment.end - segment.start : null)
+    );
+  }
+
+  protected setSegmentFreezeDuration(segment: TimelineSegment, event: Event): void {
+    const duration = Number((event.target as HTMLInputElement).value);
+    if (!duration) {
+      return;
+    }
+    this.historyService.record(
+      'Change freeze frame length',
+      () => this.timelineService.setSegmentFreeze(segment.id, duration),
+      `segment-${segment.id}-freeze`
+    );
+  }
+
+  protected setSegmentEffect(segment: TimelineSegment, event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const effect = (select.value || null) as SegmentEffect | null;
+    this.historyService.record(effect ? 'Change segment direction' : 'Play segment forwards', () => {
+      const result = this.timelineService.setSegmentEffect(segment.id, effect);
+      if (!result.success && result.error) {
+        this.errorMessage.set(result.error);
+        select.value = segment.effect ?? '';
+      } else {
+        this.errorMessage.set('');
+      }
+    });
+  }
+
+  protected getSegmentOutputDuration(segment: TimelineSegment): number {
+    return getSegmentOutputDuration(segment);
+  }
+
+  /**
+   * Open the transition form for a joint
+   */
+  protected openTransitionForm(joint: TransitionJoint, event?: Event): void {
+    event?.stopPropagation();
+    this.editingTransitionJoint.set(joint);
+  }
+
+  /**
+   * Close the transition form
+   */
+  protected closeTransitionForm(): void {
+    this.editingTransitionJoint.set(null);
+  }
+
+  /**
+   * Set or change the transition at the joint open in the form
+   */
+  protected setTransition(change: { type: TransitionType; duration: number }): void {
+    const joint = this.editingTransitionJoint();
+    if (!joint) {
+      return;
+    }
+    this.historyService.record(
+      'Set transition',
+      () => this.timelineService.setTransition(joint.time, change.type, change.duration),
+      `transition-${joint.time}`
+    );
+  }
+
+  /**
+   * Remove the transition at the joint open in the form
+   */
+  protected removeTransition(): void {
+    const joint = this.editingTransitionJoint();
+    if (joint) {
+      this.historyService.record('Remove transition', () => this.timelineService.removeTransition(joint.time));
+    }
+  }
+
+  protected getTransitionAt(time: number): TimelineTransition | undefined {
+    return findTransitionAt(this.activeTransitions(), time);
+  }
+
+  protected getTransitionTitle(joint: TransitionJoint): string {
+    const transition = this.getTransitionAt(joint.time);
+    const place = joint.kind === 'source' ? 'between sources' : 'at cut';
+    return transition
+      ? `Transition ${place} at ${this.formatTime(joint.time)}: ${transition.type}, ${transition.duration}s`
+      : `Add a transition ${place} at ${this.formatTime(joint.time)}`;
+  }
+
   protected formatTime(value: number): string {
     return formatTime(value);
   }
@@ -844,24 +1395,69 @@ export class VideoEditorComponent implements OnDestroy {
         )
       );
     }
+    this.sources().forEach((source, index) => {
+      if (hasColorCorrection(source.color)) {
+        plan.push(`Color correct source ${index + 1}${source.color?.lutUrl ? ' and apply its LUT' : ''}.`);
+      }
+      if (hasSourceTransform(source.transform)) {
+        plan.push(`Reframe source ${index + 1}: ${this.describeTransform(source.transform!)}.`);
+      }
+    });
+    this.segmentTiming().forEach(timing =>
+      plan.push(
+        timing.freezeDuration !== undefined
+          ? `Hold the frame at ${this.formatTime(timing.start)} for ${timing.freezeDuration}s.`
+          : `Play ${this.formatTime(timing.start)} - ${this.formatTime(timing.end)} ${
+            timing.effect === 'reverse' ? 'backwards ' : timing.effect === 'boomerang' ? 'forwards then backwards ' : ''
+          }at ${timing.speed}x.`
+      )
+    );
+    this.activeTransitions().forEach(transition =>
+      plan.push(
+        `Add a ${transition.duration}s ${transition.type} transition at ${this.formatTime(transition.time)}.`
+      )
+    );
+    const canvas = this.outputCanvas();
+    if (canvas) {
+      plan.push(`Fit into a ${canvas.aspectRatio} ${canvas.resolution} frame (${canvas.fit}).`);
+    }
+    const captions = this.outputCaptions();
+    const cueCount = this.captionTrack()?.cues.length ?? 0;
+    if (captions && cueCount > 0) {
+      plan.push(
+        captions.mode === 'burn-in'
+          ? `Burn in ${cueCount} caption(s) (${captions.style ?? 'classic'} style).`
+          : captions.mode === 'soft'
+            ? `Add ${cueCount} caption(s) as a subtitle stream.`
+            : `Write ${cueCount} caption(s) as SRT and VTT files.`
+      );
+    }
+    const quality = this.outputQuality();
+    if (quality?.profile === 'target') {
+      const limits = [
+        quality.maxFileSizeMb ? `max ${quality.maxFileSizeMb} MB` : '',
+        quality.targetBitrateKbps ? `${quality.targetBitrateKbps} kbps` : ''
+      ].filter(Boolean);
+      plan.push(`Two-pass encode to a target size/bitrate (${limits.join(', ')}).`);
+    } else if (quality) {
+      plan.push(`Encode with the ${quality.profile} quality profile.`);
+    }
+    plan.push(`Export as ${this.outputFormat().toUpperCase()}.`);
     return plan;
   }
 
   /**
-   * Get the left position percentage for an audio clip, ensuring it doesn't go negative
+   * Get the left position percentage for an audio clip (negative when it starts left of the zoomed view)
    */
   protected getAudioClipLeft(audio: AudioSource): number {
-    return Math.max(0, this.percentFor(audio.startTime));
+    return this.percentFor(audio.startTime);
   }
 
   /**
-   * Get the width percentage for an audio clip, ensuring it doesn't extend beyond the timeline
+   * Get the width percentage for an audio clip, ensuring it doesn't extend beyond the end of the video
    */
   protected getAudioClipWidth(audio: AudioSource): number {
-    const left = this.getAudioClipLeft(audio);
-    const endTime = audio.startTime + audio.duration;
-    const endPercent = Math.min(100, this.percentFor(endTime));
-    return Math.max(0, Math.min(endPercent - left, 100 - left));
+    return this.percentSpan(audio.startTime, Math.min(audio.startTime + audio.duration, this.duration()));
   }
 
   /**
@@ -910,45 +1506,116 @@ export class VideoEditorComponent implements OnDestroy {
   }
 
 
+  /**
+   * Position of a time on the timelines in percent of their width; times outside the zoomed view
+   * fall below 0 or above 100 and are clipped by the lanes
+   */
   protected percentFor(time: number): number {
     const duration = this.duration();
     if (!duration) {
       return 0;
     }
-    return (this.clamp(time, 0, duration) / duration) * 100;
+    const { start, span } = this.timelineView();
+    return ((this.clamp(time, 0, duration) - start) / span) * 100;
   }
 
   protected percentSpan(start: number, end: number): number {
     return Math.max(this.percentFor(end) - this.percentFor(start), 0);
   }
 
-  protected onTimelinePointerDown(event: PointerEvent): void {
-    if (!this.sourceLoaded()) {
-      return;
-    }
-    const target = event.currentTarget as HTMLElement;
-    const isPlayheadHandle = (event.target as HTMLElement).closest('.timeline__playhead');
-    const time = this.timelineTimeFromEvent(event, target);
-    if (event.shiftKey) {
-      this.timelineDrag = { pointerId: event.pointerId, anchor: time, mode: 'selection' };
-      this.timelineSelection.set({ start: time, end: time });
-    } else {
-      this.timelineDrag = { pointerId: event.pointerId, anchor: time, mode: 'playhead' };
-      this.previewTime.set(time); // Set preview time for smooth playhead movement
-      this.jumpTo(time); // Seek immediately on click
-      if (!isPlayheadHandle) {
-        this.timelineSelection.set(null);
-      }
-    }
-    target.setPointerCapture(event.pointerId);
+  /**
+   * Zoom the timelines in (factor > 1) or out, keeping the time at `anchor` (0-1 across the view) in place
+   */
+  protected zoomTimeline(factor: number, anchor = 0.5): void {
+    const { start, span } = this.timelineView();
+    const zoom = this.clamp(this.timelineZoom() * factor, 1, this.maxTimelineZoom());
+    const anchorTime = start + anchor * span;
+    this.setTimelineView(anchorTime - anchor * (this.duration() / zoom), zoom);
   }
 
-  protected onTimelinePointerMove(event: PointerEvent): void {
-    if (!this.timelineDrag) {
-      return;
+  /**
+   * Show the whole duration again
+   */
+  protected fitTimeline(): void {
+    this.setTimelineView(0, 1);
+  }
+
+  /**
+   * Zoom so the selection fills the view, with a small margin on both sides
+   */
+  protected zoomToSelection(): void {
+    const selection = this.zoomSelection();
+    if (!selection) {
+      return;
+    }
+    const length = selection.end - selection.start;
+    this.setTimelineView(selection.start - length * 0.05, this.duration() / (length * 1.1));
+  }
+
+  /**
+   * Ctrl/⌘ + wheel zooms around the pointer; horizontal (or Shift +) wheel scrolls a zoomed timeline
+   */
+  protected onTimelineWheel(event: WheelEvent): void {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    if (event.ctrlKey || event.metaKey) {
+      event.preventDefault();
+      this.zoomTimeline(Math.exp(-event.deltaY * 0.002), this.clamp((event.clientX - rect.left) / rect.width, 0, 1));
+      return;
+    }
+
+    const delta = event.deltaX || (event.shiftKey ? event.deltaY : 0);
+    if (delta && this.timelineZoom() > 1) {
+      event.preventDefault();
+      const { start, span } = this.timelineView();
+      this.setTimelineView(start + (delta / rect.width) * span, this.timelineZoom());
+    }
+  }
+
+  /**
+   * Follow the scrollbar under the video timeline
+   */
+  protected onTimelineScroll(event: Event): void {
+    const scrollbar = event.target as HTMLElement;
+    const duration = this.duration();
+    if (!duration || !scrollbar.scrollWidth) {
+      return;
+    }
+    const start = (scrollbar.scrollLeft / scrollbar.scrollWidth) * duration;
+    // Ignore the scroll events of syncTimelineScrollbar (less than a pixel off)
+    if (Math.abs(start - this.timelineView().start) > duration / scrollbar.scrollWidth) {
+      this.timelineViewStart.set(start);
+    }
+  }
+
+  protected onTimelinePointerDown(event: PointerEvent): void {
+    if (!this.sourceLoaded()) {
+      return;
+    }
+    const target = event.currentTarget as HTMLElement;
+    const isPlayheadHandle = (event.target as HTMLElement).closest('.timeline__playhead');
+    let time = this.timelineTimeFromEvent(event, target);
+    time += this.getSnapOffset([time], event, target.clientWidth, { playhead: !event.shiftKey });
+    if (event.shiftKey) {
+      this.timelineDrag = { pointerId: event.pointerId, anchor: time, mode: 'selection' };
+      this.timelineSelection.set({ start: time, end: time });
+    } else {
+      this.timelineDrag = { pointerId: event.pointerId, anchor: time, mode: 'playhead' };
+      this.previewTime.set(time); // Set preview time for smooth playhead movement
+      this.jumpTo(time); // Seek immediately on click
+      if (!isPlayheadHandle) {
+        this.timelineSelection.set(null);
+      }
+    }
+    target.setPointerCapture(event.pointerId);
+  }
+
+  protected onTimelinePointerMove(event: PointerEvent): void {
+    if (!this.timelineDrag) {
+      return;
     }
     const target = event.currentTarget as HTMLElement;
-    const time = this.timelineTimeFromEvent(event, target);
+    let time = this.timelineTimeFromEvent(event, target);
+    time += this.getSnapOffset([time], event, target.clientWidth, { playhead: this.timelineDrag.mode === 'playhead' });
     if (this.timelineDrag.mode === 'selection') {
       const start = Math.min(this.timelineDrag.anchor, time);
       const end = Math.max(this.timelineDrag.anchor, time);
@@ -975,28 +1642,33 @@ export class VideoEditorComponent implements OnDestroy {
 
     this.timelineDrag = null;
     this.previewTime.set(null);
+    this.snapIndicator.set(null);
 
     if (drag.mode === 'selection' && selection) {
       if (this.timelineMode() === 'keep') {
-        const result = this.timelineService.addSegment(selection.start, selection.end);
-        if (!result.success && result.error) {
-          this.errorMessage.set(result.error);
-        } else {
-          // Update segment selection to the added segment
-          this.timelineService.setSegmentSelection(selection.start, selection.end);
-          // Adjust audio for the new segment (which creates cuts around it)
-          this.adjustAudioForCuts();
-        }
+        this.historyService.record('Add segment', () => {
+          const result = this.timelineService.addSegment(selection.start, selection.end);
+          if (!result.success && result.error) {
+            this.errorMessage.set(result.error);
+          } else {
+            // Update segment selection to the added segment
+            this.timelineService.setSegmentSelection(selection.start, selection.end);
+            // Adjust audio for the new segment (which creates cuts around it)
+            this.adjustAudioForCuts();
+          }
+        });
       } else {
-        const result = this.timelineService.addCut(selection.start, selection.end);
-        if (!result.success && result.error) {
-          this.errorMessage.set(result.error);
-        } else {
-          // Update cut selection to the added cut
-          this.timelineService.setCutSelection(selection.start, selection.end);
-          // Adjust audio for the new cut
-          this.adjustAudioForCuts();
-        }
+        this.historyService.record('Add cut', () => {
+          const result = this.timelineService.addCut(selection.start, selection.end);
+          if (!result.success && result.error) {
+            this.errorMessage.set(result.error);
+          } else {
+            // Update cut selection to the added cut
+            this.timelineService.setCutSelection(selection.start, selection.end);
+            // Adjust audio for the new cut
+            this.adjustAudioForCuts();
+          }
+        });
       }
     }
     this.timelineSelection.set(null);
@@ -1024,7 +1696,7 @@ export class VideoEditorComponent implements OnDestroy {
       return;
     }
     const container = this.overlayFormContainer.nativeElement;
-    const textInput = container.querySelector<HTMLInputElement>('#textInput');
+    const textInput = container.querySelector<HTMLTextAreaElement>('#textInput');
     const startInput = container.querySelector<HTMLInputElement>('#textStart');
     const endInput = container.querySelector<HTMLInputElement>('#textEnd');
     const xInput = container.querySelector<HTMLInputElement>('#textX');
@@ -1049,7 +1721,31 @@ export class VideoEditorComponent implements OnDestroy {
     const backgroundColor = bgTransparentCheckbox?.checked ? 'transparent' : (bgColorInput.value || '#000000');
     const opacity = Number(opacityInput.value) || 1;
 
-    this.addTextOverlay(text, start, end, x, y, fontSize, fontColor, backgroundColor, opacity);
+    this.addTextOverlay(text, start, end, x, y, fontSize, fontColor, backgroundColor, opacity, this.readTextStyleForm(container));
+  }
+
+  protected setTextFont(event: Event): void {
+    this.textFontUrl.set((event.target as HTMLSelectElement).value);
+  }
+
+  /**
+   * Handle font file selection (kept local like images, uploaded when rendering)
+   */
+  protected onFontFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    if (!/\.(ttf|otf)$/i.test(file.name)) {
+      this.errorMessage.set('Please select a TTF or OTF font file.');
+    } else {
+      const objectUrl = createLocalFileUrl(file);
+      this.localFiles.set(objectUrl, file);
+      this.objectUrls.set(objectUrl, objectUrl);
+      this.textFontUrl.set(this.fontService.addFont(objectUrl, file.name).url);
+    }
+    // Reset input
+    input.value = '';
   }
 
   protected addImageOverlayFromForm(): void {
@@ -1106,11 +1802,27 @@ export class VideoEditorComponent implements OnDestroy {
     const strokeWidthInput = container.querySelector<HTMLInputElement>('#shapeStrokeWidth');
     const fillInput = container.querySelector<HTMLInputElement>('#shapeFill');
     const opacityInput = container.querySelector<HTMLInputElement>('#shapeOpacity');
+    const cornerRadiusInput = container.querySelector<HTMLInputElement>('#shapeCornerRadius');
+    const pointsInput = container.querySelector<HTMLInputElement>('#shapePoints');
 
-    if (!startInput || !endInput || !xInput || !yInput || !widthInput || !heightInput || !colorInput || !strokeWidthInput || !fillInput || !opacityInput) {
+    if (!startInput || !endInput || !xInput || !yInput || !widthInput || !heightInput || !colorInput || !strokeWidthInput || !opacityInput) {
       return;
     }
 
+    const shapeType = this.shapeFormType();
+    const geometry: ShapeGeometry = {};
+    if (shapeType === 'rounded-rectangle') {
+      geometry.cornerRadius = Number(cornerRadiusInput?.value) || 0;
+    }
+    if (isPointShape(shapeType)) {
+      const points = parseShapePoints(pointsInput?.value ?? '', shapeType);
+      if (!points) {
+        this.errorMessage.set(`Enter the points as "x,y" percentages of the shape box, at least ${shapeType === 'polygon' ? 3 : 2}.`);
+        return;
+      }
+      geometry.points = points;
+    }
+
     const start = Number(startInput.value) || 0;
     const end = Number(endInput.value) || 0;
     const x = Number(xInput.value) || 10;
@@ -1119,14 +1831,25 @@ export class VideoEditorComponent implements OnDestroy {
     const heightPercent = Number(heightInput.value) || 20;
     const color = colorInput.value || '#FF0000';
     const strokeWidth = Number(strokeWidthInput.value) || 3;
-    const fill = fillInput.checked;
+    const fill = fillInput?.checked ?? false;
     const opacity = Number(opacityInput.value) || 1;
 
-    this.addShapeOverlay('rectangle', start, end, x, y, widthPercent, heightPercent, color, strokeWidth, fill, opacity);
+    this.addShapeOverlay(shapeType, start, end, x, y, widthPercent, heightPercent, color, strokeWidth, fill, opacity, geometry);
+  }
+
+  protected setShapeFormType(event: Event): void {
+    this.shapeFormType.set((event.target as HTMLSelectElement).value as ShapeType);
+  }
+
+  /**
+   * Default points of the shape picked in the shape overlay form, as "x,y" pairs
+   */
+  protected getShapeFormPoints(): string {
+    return formatShapePoints(getShapePoints(this.shapeFormType()));
   }
 
   protected removeOverlay(id: number): void {
-    this.overlayService.deleteOverlay(id);
+    this.historyService.record('Remove overlay', () => this.overlayService.deleteOverlay(id));
   }
 
   protected focusOverlay(overlay: Overlay, event?: Event): void {
@@ -1142,6 +1865,13 @@ export class VideoEditorComponent implements OnDestroy {
     return '';
   }
 
+  /**
+   * Text shown in the preview at the current time (typewriter effects show part of it)
+   */
+  protected getOverlayPreviewText(overlay: Overlay): string {
+    return overlay.type === 'text' ? getTypewriterText(overlay, this.currentTime()) : '';
+  }
+
   protected getOverlayImageUrl(overlay: Overlay): string {
     if (overlay.type === 'image') {
       return overlay.imageUrl;
@@ -1173,6 +1903,28 @@ export class VideoEditorComponent implements OnDestroy {
     return overlay.type === 'text' ? (overlay.backgroundColor || 'transparent') : 'transparent';
   }
 
+  /**
+   * Inline styles of a text overlay's preview text, matching how the server draws it
+   */
+  protected getTextOverlayStyle(overlay: Overlay): Record<string, string | null> {
+    if (overlay.type !== 'text') {
+      return {};
+    }
+    const hasBackground = this.getTextOverlayBgColor(overlay) !== 'transparent';
+    return {
+      'font-family': this.fontService.getFontFamily(overlay.fontUrl),
+      'font-weight': overlay.bold ? 'bold' : null,
+      'line-height': String(overlay.lineSpacing ?? 1.2),
+      'text-align': overlay.textAlign ?? null,
+      'text-shadow': getTextShadowCss(overlay),
+      '-webkit-text-stroke': getTextStrokeCss(overlay),
+      'background-color': hasBackground ? this.getTextOverlayBgColor(overlay) : null,
+      padding: hasBackground ? `${overlay.boxPadding ?? 5}px` : '0',
+      // Italics are slanted around the top of the text like the render (not the font's italic style)
+      transform: overlay.italic ? `skewX(-${TEXT_ITALIC_SKEW}deg)` : null
+    };
+  }
+
   protected getImageOverlayWidth(overlay: Overlay): number {
     return overlay.type === 'image' ? (overlay.width || 20) : 20;
   }
@@ -1184,7 +1936,9 @@ export class VideoEditorComponent implements OnDestroy {
   protected getOverlayTitle(overlay: Overlay): string {
     if (overlay.type === 'text') return `Text: ${overlay.text}`;
     if (overlay.type === 'image') return 'Image Overlay';
-    if (overlay.type === 'shape') return 'Rectangle Shape';
+    if (overlay.type === 'shape') {
+      return `${SHAPE_TYPE_OPTIONS.find(option => option.value === overlay.shapeType)?.label ?? 'Rectangle'} Shape`;
+    }
     return 'Overlay';
   }
 
@@ -1202,10 +1956,179 @@ export class VideoEditorComponent implements OnDestroy {
     return segment.id;
   }
 
-  protected getShapeOverlayType(overlay: Overlay): 'rectangle' | null {
+  protected getShapeOverlayType(overlay: Overlay): ShapeType | null {
     return overlay.type === 'shape' ? overlay.shapeType : null;
   }
 
+  /**
+   * SVG preview of a shape that isn't a plain rectangle
+   */
+  protected getShapeSvgParts(overlay: Overlay): ShapeSvgPart[] {
+    return overlay.type === 'shape' ? getShapeSvgParts(overlay) : [];
+  }
+
+  /**
+   * viewBox of a shape's SVG preview: its box in video pixels
+   */
+  protected getShapeViewBox(overlay: Overlay): string {
+    return overlay.type === 'shape' ? `0 0 ${overlay.width || 200} ${overlay.height || 200}` : '0 0 200 200';
+  }
+
+  /**
+   * Value of an overlay property at the current time, following its keyframes
+   */
+  protected getOverlayValue(overlay: Overlay, property: keyof OverlayKeyframes): number {
+    return getOverlayValueAt(overlay, property, this.currentTime());
+  }
+
+  /**
+   * Entrance/exit effects at the current time, applied on top of the keyframed position
+   */
+  protected getOverlayEffectState(overlay: Overlay): OverlayEffectState {
+    return getOverlayEffectState(overlay, this.currentTime(), this.getOverlayValue(overlay, 'x'), this.getOverlayValue(overlay, 'y'));
+  }
+
+  protected getOverlayOpacity(overlay: Overlay): number {
+    return this.getOverlayValue(overlay, 'opacity') * this.getOverlayEffectState(overlay).opacity;
+  }
+
+  /**
+   * CSS transform for rotation, text alignment, slides past the left/top edge and zooms (null when there is none)
+   */
+  protected getOverlayTransform(overlay: Overlay): string | null {
+    const state = this.getOverlayEffectState(overlay);
+    const transforms: string[] = [];
+    if (state.shiftX !== 0 || state.shiftY !== 0) {
+      transforms.push(`translate(${state.shiftX * 100}%, ${state.shiftY * 100}%)`);
+    }
+    if (overlay.rotation) {
+      transforms.push(`rotate(${overlay.rotation}deg)`);
+    }
+    if (overlay.type === 'text' && overlay.textAlign && overlay.textAlign !== 'left') {
+      // x marks the centre or right end of aligned text
+      transforms.push(`translate(${overlay.textAlign === 'center' ? -50 : -100}%, 0)`);
+    }
+    if (state.zoom !== 1) {
+      // The element turns around its top-left corner, zooms stay centred
+      transforms.push(`translate(50%, 50%) scale(${state.zoom}) translate(-50%, -50%)`);
+    }
+    return transforms.length > 0 ? transforms.join(' ') : null;
+  }
+
+  protected setOverlayRotation(overlay: Overlay, event: Event): void {
+    const rotation = Number((event.target as HTMLInputElement).value);
+    if (isNaN(rotation)) {
+      return;
+    }
+    this.historyService.record(
+      'Rotate overlay',
+      () => this.overlayService.setRotation(overlay.id, rotation),
+      `rotation-${overlay.id}`
+    );
+  }
+
+  protected getEffectTypeOptions(overlay: Overlay): { value: OverlayEffectType; label: string }[] {
+    const options: { value: OverlayEffectType; label: string }[] = [
+      { value: 'fade', label: 'Fade' },
+      { value: 'slide', label: 'Slide' },
+      { value: 'zoom', label: 'Zoom' }
+    ];
+    return overlay.type === 'text' ? [...options, { value: 'typewriter', label: 'Typewriter' }] : options;
+  }
+
+  protected setOverlayEffectType(overlay: Overlay, slot: 'entranceEffect' | 'exitEffect', event: Event): void {
+    const type = (event.target as HTMLSelectElement).value as OverlayEffectType | '';
+    const current = overlay[slot];
+    const effect: OverlayEffect | null = type
+      ? { ...current, type, duration: current?.duration ?? 0.5 }
+      : null;
+    this.historyService.record(effect ? 'Set overlay effect' : 'Remove overlay effect', () =>
+      this.overlayService.setEffect(overlay.id, slot, effect)
+    );
+  }
+
+  protected setOverlayEffectDuration(overlay: Overlay, slot: 'entranceEffect' | 'exitEffect', event: Event): void {
+    const duration = Number((event.target as HTMLInputElement).value);
+    const current = overlay[slot];
+    if (!current || isNaN(duration) || duration <= 0) {
+      return;
+    }
+    this.historyService.record(
+      'Set overlay effect',
+      () => this.overlayService.setEffect(overlay.id, slot, { ...current, duration }),
+      `effect-${overlay.id}-${slot}`
+    );
+  }
+
+  protected setOverlayEffectEdge(overlay: Overlay, slot: 'entranceEffect' | 'exitEffect', event: Event): void {
+    const edge = (event.target as HTMLSelectElement).value as NonNullable<OverlayEffect['edge']>;
+    const current = overlay[slot];
+    if (current) {
+      this.historyService.record('Set overlay effect', () =>
+        this.overlayService.setEffect(overlay.id, slot, { ...current, edge })
+      );
+    }
+  }
+
+  protected getOverlayKeyframeTimes(overlay: Overlay): number[] {
+    return getOverlayKeyframeTimes(overlay);
+  }
+
+  protected getOverlayKeyframe(overlay: Overlay, property: keyof OverlayKeyframes, time: number): OverlayKeyframe | undefined {
+    return findKeyframeAt(overlay.keyframes?.[property], time);
+  }
+
+  /**
+   * Easing of the keyframes at a time (they share one, as they are edited together)
+   */
+  protected getOverlayKeyframeEasing(overlay: Overlay, time: number): KeyframeEasing {
+    const tracks = Object.values(overlay.keyframes ?? {});
+    return tracks.map(track => findKeyframeAt(track, time)).find(keyframe => keyframe)?.easing ?? 'linear';
+  }
+
+  protected isPlayheadInOverlay(overlay: Overlay): boolean {
+    const currentTime = this.currentTime();
+    return currentTime >= overlay.start && currentTime <= overlay.end;
+  }
+
+  /**
+   * Keyframe position, scale and opacity as they are at the playhead
+   */
+  protected addOverlayKeyframe(overlay: Overlay): void {
+    const values = {
+      x: this.getOverlayValue(overlay, 'x'),
+      y: this.getOverlayValue(overlay, 'y'),
+      scale: this.getOverlayValue(overlay, 'scale'),
+      opacity: this.getOverlayValue(overlay, 'opacity')
+    };
+    this.historyService.record('Add keyframe', () =>
+      this.overlayService.setKeyframe(overlay.id, this.currentTime() - overlay.start, values)
+    );
+  }
+
+  protected setOverlayKeyframeValue(overlay: Overlay, time: number, property: keyof OverlayKeyframes, event: Event): void {
+    const value = Number((event.target as HTMLInputElement).value);
+    if (isNaN(value)) {
+      return;
+    }
+    this.historyService.record(
+      'Change keyframe',
+      () => this.overlayService.setKeyframe(overlay.id, time, { [property]: value }),
+      `keyframe-${overlay.id}-${time}-${property}`
+    );
+  }
+
+  protected setOverlayKeyframeEasing(overlay: Overlay, time: number, event: Event): void {
+    const easing = (event.target as HTMLSelectElement).value as KeyframeEasing;
+    this.historyService.record('Change keyframe easing', () =>
+      this.overlayService.setKeyframe(overlay.id, time, {}, easing)
+    );
+  }
+
+  protected removeOverlayKeyframe(overlay: Overlay, time: number): void {
+    this.historyService.record('Remove keyframe', () => this.overlayService.removeKeyframe(overlay.id, time));
+  }
+
   protected getActiveOverlays(): Overlay[] {
     const currentTime = this.currentTime();
     return this.overlays().filter(
@@ -1217,27 +2140,29 @@ export class VideoEditorComponent implements OnDestroy {
    * Convert overlay position (0-100% relative to video) to container position (0-100% relative to container)
    */
   protected getOverlayLeftInContainer(overlay: Overlay): number {
+    const x = this.getOverlayEffectState(overlay).x;
     const bounds = this.getActualVideoBounds();
-    if (!bounds) return overlay.x;
+    if (!bounds) return x;
 
     const container = this.playerContainer?.nativeElement;
-    if (!container) return overlay.x;
+    if (!container) return x;
 
     const containerRect = container.getBoundingClientRect();
     // Convert video percentage to container percentage
-    return ((bounds.x + (overlay.x / 100) * bounds.width) / containerRect.width) * 100;
+    return ((bounds.x + (x / 100) * bounds.width) / containerRect.width) * 100;
   }
 
   protected getOverlayTopInContainer(overlay: Overlay): number {
+    const y = this.getOverlayEffectState(overlay).y;
     const bounds = this.getActualVideoBounds();
-    if (!bounds) return overlay.y;
+    if (!bounds) return y;
 
     const container = this.playerContainer?.nativeElement;
-    if (!container) return overlay.y;
+    if (!container) return y;
 
     const containerRect = container.getBoundingClientRect();
     // Convert video percentage to container percentage
-    return ((bounds.y + (overlay.y / 100) * bounds.height) / containerRect.height) * 100;
+    return ((bounds.y + (y / 100) * bounds.height) / containerRect.height) * 100;
   }
 
   protected getOverlayWidthInContainer(overlay: Overlay): number {
@@ -1249,8 +2174,8 @@ export class VideoEditorComponent implements OnDestroy {
     const container = this.playerContainer?.nativeElement;
     if (!container) return 0;
 
-    // Get width in pixels from overlay
-    const widthPixels = overlay.type === 'image' ? (overlay.width || 200) : (overlay.width || 200);
+    // Get width in pixels from overlay (at its current scale)
+    const widthPixels = (overlay.type === 'image' ? (overlay.width || 200) : (overlay.width || 200)) * this.getOverlayValue(overlay, 'scale');
 
     // Convert pixels to container percentage
     // widthPixels is relative to video dimensions, we need to scale it to container
@@ -1270,8 +2195,8 @@ export class VideoEditorComponent implements OnDestroy {
     const container = this.playerContainer?.nativeElement;
     if (!container) return 0;
 
-    // Get height in pixels from overlay
-    const heightPixels = overlay.type === 'image' ? (overlay.height || 200) : (overlay.height || 200);
+    // Get height in pixels from overlay (at its current scale)
+    const heightPixels = (overlay.type === 'image' ? (overlay.height || 200) : (overlay.height || 200)) * this.getOverlayValue(overlay, 'scale');
 
     // Convert pixels to container percentage
     // heightPixels is relative to video dimensions, we need to scale it to container
@@ -1294,12 +2219,13 @@ export class VideoEditorComponent implements OnDestroy {
     const x = ((event.clientX - containerRect.left - videoBounds.x) / videoBounds.width) * 100;
     const y = ((event.clientY - containerRect.top - videoBounds.y) / videoBounds.height) * 100;
 
+    this.historyService.beginGesture('Move overlay');
     this.draggingOverlay.set({
       overlay,
       startX: x,
       startY: y,
-      offsetX: overlay.x,
-      offsetY: overlay.y
+      offsetX: this.getOverlayValue(overlay, 'x'),
+      offsetY: this.getOverlayValue(overlay, 'y')
     });
 
     // Don't set pointer capture - let the movement shield handle it
@@ -1324,13 +2250,8 @@ export class VideoEditorComponent implements OnDestroy {
     const newX = this.clamp(drag.offsetX + deltaX, 0, 100);
     const newY = this.clamp(drag.offsetY + deltaY, 0, 100);
 
-    // Update overlay position
-    const updatedOverlays = this.overlays().map(o =>
-      o.id === drag.overlay.id
-        ? { ...o, x: newX, y: newY }
-        : o
-    );
-    this.overlays.set(updatedOverlays);
+    // Update overlay position (animated coordinates get a keyframe at the playhead)
+    this.overlayService.moveOverlay(drag.overlay.id, newX, newY, this.currentTime() - drag.overlay.start);
 
     // Update form inputs if form is open
     if (this.overlayFormContainer?.nativeElement && this.showOverlayForm()) {
@@ -1343,6 +2264,9 @@ export class VideoEditorComponent implements OnDestroy {
   }
 
   protected stopDragOverlay(): void {
+    if (this.draggingOverlay()) {
+      this.historyService.endGesture();
+    }
     this.draggingOverlay.set(null);
   }
 
@@ -1354,6 +2278,7 @@ export class VideoEditorComponent implements OnDestroy {
 
     const startX = event.clientX;
     const startY = event.clientY;
+    this.historyService.beginGesture('Resize overlay');
 
     if (overlay.type === 'text') {
       // For text, track starting font size
@@ -1387,9 +2312,16 @@ export class VideoEditorComponent implements OnDestroy {
     const videoBounds = this.getActualVideoBounds();
     if (!videoBounds) return;
 
+    // Rotated overlays resize along their own axes: turn the pointer movement back by the rotation
+    const rotation = ((resize.overlay.rotation ?? 0) * Math.PI) / 180;
+    const pointerX = event.clientX - resize.startX;
+    const pointerY = event.clientY - resize.startY;
+    const localX = pointerX * Math.cos(rotation) + pointerY * Math.sin(rotation);
+    const localY = pointerY * Math.cos(rotation) - pointerX * Math.sin(rotation);
+
     // Calculate delta based on actual video bounds
-    const deltaX = ((event.clientX - resize.startX) / videoBounds.width) * 100;
-    const deltaY = ((event.clientY - resize.startY) / videoBounds.height) * 100;
+    const deltaX = (localX / videoBounds.width) * 100;
+    const deltaY = (localY / videoBounds.height) * 100;
 
     // For text overlays, adjust fontSize based on distance from starting point
     if (resize.overlay.type === 'text') {
@@ -1446,8 +2378,6 @@ export class VideoEditorComponent implements OnDestroy {
 
     let newWidth = resize.startWidth;
     let newHeight = resize.startHeight;
-    let newX = resize.overlay.x;
-    let newY = resize.overlay.y;
 
     // Adjust based on corner
     if (resize.corner === 'se') {
@@ -1458,20 +2388,24 @@ export class VideoEditorComponent implements OnDestroy {
       // Southwest: adjust width (negative), height, and x
       newWidth = this.clamp(resize.startWidth - deltaXPixels, 1, videoWidth);
       newHeight = this.clamp(resize.startHeight + deltaYPixels, 1, videoHeight);
-      newX = this.clamp(resize.overlay.x + deltaX, 0, 100);
     } else if (resize.corner === 'ne') {
       // Northeast: adjust width, height (negative), and y
       newWidth = this.clamp(resize.startWidth + deltaXPixels, 1, videoWidth);
       newHeight = this.clamp(resize.startHeight - deltaYPixels, 1, videoHeight);
-      newY = this.clamp(resize.overlay.y + deltaY, 0, 100);
     } else if (resize.corner === 'nw') {
       // Northwest: adjust width (negative), height (negative), x, and y
       newWidth = this.clamp(resize.startWidth - deltaXPixels, 1, videoWidth);
       newHeight = this.clamp(resize.startHeight - deltaYPixels, 1, videoHeight);
-      newX = this.clamp(resize.overlay.x + deltaX, 0, 100);
-      newY = this.clamp(resize.overlay.y + deltaY, 0, 100);
     }
 
+    // West and north handles move the top-left corner, along the rotated axes
+    const cornerX = resize.corner === 'sw' || resize.corner === 'nw' ? localX : 0;
+    const cornerY = resize.corner === 'ne' || resize.corner === 'nw' ? localY : 0;
+    const cornerDeltaX = ((cornerX * Math.cos(rotation) - cornerY * Math.sin(rotation)) / videoBounds.width) * 100;
+    const cornerDeltaY = ((cornerX * Math.sin(rotation) + cornerY * Math.cos(rotation)) / videoBounds.height) * 100;
+    const newX = this.clamp(resize.overlay.x + cornerDeltaX, 0, 100);
+    const newY = this.clamp(resize.overlay.y + cornerDeltaY, 0, 100);
+
     // Update overlay
     const updatedOverlays = this.overlays().map(o =>
       o.id === resize.overlay.id && (o.type === 'image' || o.type === 'shape')
@@ -1500,9 +2434,134 @@ export class VideoEditorComponent implements OnDestroy {
   }
 
   protected stopResizeOverlay(): void {
+    if (this.resizingOverlay()) {
+      this.historyService.endGesture();
+    }
     this.resizingOverlay.set(null);
   }
 
+  /**
+   * Undo the last edit
+   */
+  protected undo(): void {
+    const snapshot = this.historyService.undo();
+    if (snapshot) {
+      this.applyHistorySnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Redo the last undone edit
+   */
+  protected redo(): void {
+    const snapshot = this.historyService.redo();
+    if (snapshot) {
+      this.applyHistorySnapshot(snapshot);
+    }
+  }
+
+  /**
+   * Download the current sources and edits as a project file
+   */
+  protected saveProject(): void {
+    const name = prompt('Project name', this.projectName());
+    if (name === null) {
+      return;
+    }
+    this.projectName.set(name.trim() || 'Untitled project');
+
+    const project = this.projectService.createProject(this.projectName(), {
+      format: this.outputFormat(),
+      canvas: this.outputCanvas() ?? undefined,
+      quality: this.outputQuality() ?? undefined,
+      captions: this.outputCaptions() ?? undefined
+    });
+    this.projectService.downloadProject(project);
+
+    // Local files are only referenced through temporary browser URLs
+    const localFileCount = getProjectLocalUrls(project).length;
+    this.errorMessage.set(
+      localFileCount > 0
+        ? `⚠️ Project saved. Its ${localFileCount} local file(s) are not included and can only be reopened in this browser session.`
+        : ''
+    );
+  }
+
+  /**
+   * Open a project file chosen in the idle player
+   */
+  protected async onProjectFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) {
+      await this.openProject(file);
+    }
+  }
+
+  /**
+   * Load a saved project file, replacing the current sources and edits
+   */
+  protected async openProject(file: File): Promise<void> {
+    if (this.isLoadingSource) {
+      this.errorMessage.set('Please wait for the current source to load.');
+      return;
+    }
+
+    if (this.sources().length > 0 && !confirm('Opening a project replaces the current sources and edits. Continue?')) {
+      return;
+    }
+
+    this.isLoadingSource = true;
+    this.loading.set(true);
+    this.errorMessage.set('');
+
+    try {
+      const project = this.projectService.parseProject(await file.text());
+
+      const missingFiles = getProjectLocalUrls(project).filter(url => !this.localFiles.has(url));
+      if (missingFiles.length > 0) {
+        throw new Error(
+          `it uses ${missingFiles.length} local file(s) from an earlier browser session. Add them again, or save projects that use URLs.`
+        );
+      }
+
+      // Durations are only missing in migrated documents; probe them like newly added sources
+      const sources: VideoSource[] = [];
+      for (const source of project.sources) {
+        const duration = source.duration ?? (source.type === 'image' ? 5 : await getVideoDuration(source.url));
+        sources.push({
+          id: this.nextSourceId++,
+          url: source.url,
+          type: source.type,
+          duration,
+          order: 0,
+          startTime: 0,
+          color: source.color,
+          transform: source.transform
+        });
+      }
+
+      this.sources.set(this.recalculateSourceTimings(sources));
+      this.updateSourceBoundaries();
+      this.restoringProject = sources[0]?.type === 'video';
+      this.loadConcatenatedSources();
+      this.projectService.restoreEditState(project);
+      this.historyService.clear();
+
+      this.projectName.set(project.name);
+      this.outputFormat.set(project.output.format);
+      this.outputCanvas.set(project.output.canvas ?? null);
+      this.outputQuality.set(project.output.quality ?? null);
+      this.outputCaptions.set(project.output.captions ?? null);
+    } catch (error) {
+      this.errorMessage.set(`Failed to open project: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      this.isLoadingSource = false;
+      this.loading.set(false);
+    }
+  }
+
   protected async renderViaBackend(): Promise<void> {
     if (!this.canRender()) {
       this.errorMessage.set('Load a video and set trim points before rendering.');
@@ -1517,6 +2576,7 @@ export class VideoEditorComponent implements OnDestroy {
 
     this.renderBusy.set(true);
     this.renderResult.set(null);
+    this.renderJob.set(null);
     this.errorMessage.set('');
 
     try {
@@ -1524,11 +2584,13 @@ export class VideoEditorComponent implements OnDestroy {
       const filesToUpload = new Map<string, File>();
       const urlMapping = new Map<string, string>(); // Maps local URL to server URL
 
-      // Collect source files
+      // Collect source and LUT files
       for (const source of allSources) {
-        const file = this.localFiles.get(source.url);
-        if (file) {
-          filesToUpload.set(source.url, file);
+        for (const url of [source.url, source.color?.lutUrl]) {
+          const file = url ? this.localFiles.get(url) : undefined;
+          if (url && file) {
+            filesToUpload.set(url, file);
+          }
         }
       }
 
@@ -1540,13 +2602,12 @@ export class VideoEditorComponent implements OnDestroy {
         }
       }
 
-      // Collect overlay image files
+      // Collect overlay image and font files
       for (const overlay of this.overlays()) {
-        if (overlay.type === 'image') {
-          const file = this.localFiles.get(overlay.imageUrl);
-          if (file) {
-            filesToUpload.set(overlay.imageUrl, file);
-          }
+        const url = overlay.type === 'image' ? overlay.imageUrl : overlay.type === 'text' ? overlay.fontUrl : undefined;
+        const file = url ? this.localFiles.get(url) : undefined;
+        if (url && file) {
+          filesToUpload.set(url, file);
         }
       }
 
@@ -1560,7 +2621,8 @@ export class VideoEditorComponent implements OnDestroy {
       // Replace local URLs with server URLs
       const sourcesWithServerUrls = allSources.map(s => ({
         ...s,
-        url: urlMapping.get(s.url) || s.url
+        url: urlMapping.get(s.url) || s.url,
+        color: s.color?.lutUrl ? { ...s.color, lutUrl: urlMapping.get(s.color.lutUrl) || s.color.lutUrl } : s.color
       }));
 
       const audioWithServerUrls = this.audioSources().map(a => ({
@@ -1572,6 +2634,9 @@ export class VideoEditorComponent implements OnDestroy {
         if (o.type === 'image' && urlMapping.has(o.imageUrl)) {
           return { ...o, imageUrl: urlMapping.get(o.imageUrl)! };
         }
+        if (o.type === 'text' && o.fontUrl && urlMapping.has(o.fontUrl)) {
+          return { ...o, fontUrl: urlMapping.get(o.fontUrl)! };
+        }
         return o;
       });
 
@@ -1584,17 +2649,35 @@ export class VideoEditorComponent implements OnDestroy {
         this.trimStart(),
         this.trimEnd(),
         effectiveCuts,
+        this.segmentTiming(),
         overlaysWithServerUrls,
+        this.activeTransitions(),
         audioWithServerUrls,
-        this.audioMixMode()
+        this.audioMixMode(),
+        this.captionTrack()?.cues ?? [],
+        {
+          format: this.outputFormat(),
+          canvas: this.outputCanvas() ?? undefined,
+          quality: this.outputQuality() ?? undefined,
+          captions: this.outputCaptions() ?? undefined
+        }
       ).subscribe({
-        next: async response => {
-          this.renderResult.set(response);
+        next: async job => {
+          this.renderJob.set(job);
+          if (!this.renderService.isFinalState(job.state)) {
+            return;
+          }
+
           this.renderBusy.set(false);
 
-          // Display warning if present
-          if (response.warning) {
-            this.errorMessage.set(`⚠️ Warning: ${response.warning}`);
+          if (job.state === 'succeeded' && job.result) {
+            this.renderResult.set(job.result);
+            // Display warning if present
+            this.errorMessage.set(job.result.warning ? `⚠️ Warning: ${job.result.warning}` : '');
+          } else if (job.state === 'cancelled') {
+            this.errorMessage.set('Render cancelled.');
+          } else {
+            this.errorMessage.set(job.error || 'Render failed.');
           }
 
           // Clean up uploaded files after render completes
@@ -1619,6 +2702,22 @@ export class VideoEditorComponent implements OnDestroy {
     }
   }
 
+  /**
+   * Cancel the running backend render job (polling picks up the cancelled state)
+   */
+  protected cancelRender(): void {
+    const job = this.renderJob();
+    if (!job || this.renderService.isFinalState(job.state)) {
+      return;
+    }
+
+    this.renderService.cancelJob(job.jobId).subscribe({
+      error: err => {
+        this.errorMessage.set(err?.error?.error || 'Failed to cancel render.');
+      }
+    });
+  }
+
   // ========== Protected Methods (must come before private methods) ==========
 
   protected renderDownloadUrl(): string | null {
@@ -1653,9 +2752,7 @@ export class VideoEditorComponent implements OnDestroy {
    * Remove an audio source
    */
   protected removeAudioSource(id: number): void {
-    this.audioService.removeAudioSource(id);
-    this.cleanupAudioElement(id);
-    this.initializeAudioPlayback();
+    this.historyService.record('Remove audio track', () => this.audioService.removeAudioSource(id));
   }
 
   /**
@@ -1692,14 +2789,9 @@ export class VideoEditorComponent implements OnDestroy {
    * Update audio volume
    */
   protected updateAudioVolume(id: number, volume: number): void {
-    const result = this.audioService.setAudioVolume(id, volume);
+    const result = this.historyService.record('Change volume', () => this.audioService.setAudioVolume(id, volume), `volume-${id}`);
     if (!result.success) {
       this.errorMessage.set(result.error || 'Failed to update audio volume');
-    } else {
-      const audioEl = this.audioElements.get(id);
-      if (audioEl) {
-        audioEl.volume = volume * this.masterVolume();
-      }
     }
   }
 
@@ -1707,25 +2799,16 @@ export class VideoEditorComponent implements OnDestroy {
    * Toggle mute for audio source
    */
   protected toggleAudioMute(id: number): void {
-    this.audioService.toggleMute(id);
-    this.initializeAudioPlayback();
+    this.historyService.record('Toggle mute', () => this.audioService.toggleMute(id));
   }
 
   /**
    * Update master volume
    */
   protected updateMasterVolume(volume: number): void {
-    const result = this.audioService.setMasterVolume(volume);
+    const result = this.historyService.record('Change master volume', () => this.audioService.setMasterVolume(volume), 'master-volume');
     if (!result.success) {
       this.errorMessage.set(result.error || 'Failed to update master volume');
-    } else {
-      // Update all audio elements
-      this.audioElements.forEach((audioEl, id) => {
-        const audio = this.audioSources().find(a => a.id === id);
-        if (audio) {
-          audioEl.volume = audio.volume * volume;
-        }
-      });
     }
   }
 
@@ -1733,7 +2816,7 @@ export class VideoEditorComponent implements OnDestroy {
    * Set audio mix mode
    */
   protected setAudioMixMode(mode: 'mix' | 'replace'): void {
-    this.audioService.setAudioMixMode(mode);
+    this.historyService.record('Change audio mix mode', () => this.audioService.setAudioMixMode(mode));
   }
 
   /**
@@ -1750,11 +2833,11 @@ export class VideoEditorComponent implements OnDestroy {
     const x = event.clientX - rect.left;
 
     // Calculate the offset from the start of the audio clip
-    const percent = (x / rect.width) * 100;
-    const clickTime = (percent / 100) * this.duration();
+    const clickTime = this.timeAtLaneRatio(x / rect.width);
     const offsetFromStart = clickTime - audio.startTime;
 
     // Store original values and offset
+    this.historyService.beginGesture('Move audio track');
     this.audioTimelineDrag = {
       audioId: audio.id,
       startX: x,
@@ -1777,8 +2860,7 @@ export class VideoEditorComponent implements OnDestroy {
 
     const rect = timeline.getBoundingClientRect();
     const x = event.clientX - rect.left;
-    const percent = (x / rect.width) * 100;
-    const clickTime = (percent / 100) * this.duration();
+    const clickTime = this.timeAtLaneRatio(x / rect.width);
 
     // Calculate new start time based on drag offset
     const dragState = this.audioTimelineDrag as AudioTimelineDrag & {
@@ -1788,6 +2870,12 @@ export class VideoEditorComponent implements OnDestroy {
 
     // Calculate new start time: where we clicked minus the offset
     let newStartTime = clickTime - dragState.offsetFromStart;
+    newStartTime += this.getSnapOffset(
+      [newStartTime, newStartTime + dragState.originalDuration],
+      event,
+      rect.width,
+      { audioId: dragState.audioId }
+    );
 
     // Constrain: audio cannot extend beyond video duration
     // Maximum start time is video duration minus original audio duration
@@ -1818,47 +2906,197 @@ export class VideoEditorComponent implements OnDestroy {
       );
     });
 
-    if (!wouldOverlap) {
-      this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, updates);
+    if (!wouldOverlap) {
+      this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, updates);
+    }
+  }
+
+  /**
+   * Handle audio timeline pointer up (end dragging)
+   */
+  protected onAudioTimelinePointerUp(event: PointerEvent): void {
+    if (this.audioTimelineDrag) {
+      const dragState = this.audioTimelineDrag as AudioTimelineDrag & {
+        originalDuration: number;
+      };
+
+      // Get current audio state
+      const audio = this.audioSources().find(a => a.id === this.audioTimelineDrag!.audioId);
+
+      if (audio) {
+        // Check if audio extends beyond video duration and adjust if needed
+        const endTime = audio.startTime + audio.duration;
+        if (endTime > this.duration()) {
+          // Adjust duration to fit within video
+          const adjustedDuration = Math.max(0, this.duration() - audio.startTime);
+          if (adjustedDuration > 0 && adjustedDuration !== audio.duration) {
+            this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, {
+              duration: adjustedDuration
+            });
+          }
+        } else if (audio.duration !== dragState.originalDuration) {
+          // Restore original duration if it was shortened during drag
+          this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, {
+            duration: dragState.originalDuration
+          });
+        }
+      }
+
+      (event.currentTarget as HTMLElement).releasePointerCapture(event.pointerId);
+      this.historyService.endGesture();
+      this.audioTimelineDrag = null;
+      this.snapIndicator.set(null);
+    }
+  }
+
+  /**
+   * Import an SRT or WebVTT file; the server parses it and the uploaded file is removed right away
+   */
+  protected async onCaptionFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (!/\.(srt|vtt)$/i.test(file.name)) {
+      this.errorMessage.set('Please select an SRT or WebVTT subtitle file.');
+      return;
+    }
+    if ((this.captionTrack()?.cues.length ?? 0) > 0 && !confirm('Importing replaces the current captions. Continue?')) {
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('file', file);
+    let uploadedUrl: string | null = null;
+
+    try {
+      const response = await firstValueFrom(
+        this.http.post<{ success: boolean; url: string; captions?: { cues: Omit<CaptionCue, 'id'>[] } }>(
+          `${this.backendHost}/api/upload`,
+          formData
+        )
+      );
+      uploadedUrl = response.url;
+
+      // Cues after the end of the video are dropped, cues running past it are shortened
+      const duration = this.duration();
+      const cues = (response.captions?.cues ?? [])
+        .map(cue => ({ ...cue, end: Math.min(cue.end, duration) }))
+        .filter(cue => cue.end > cue.start);
+      if (cues.length === 0) {
+        throw new Error('the file has no cues within the video');
+      }
+
+      this.historyService.record('Import captions', () => this.captionService.importCues(file.name, cues));
+      const dropped = (response.captions?.cues.length ?? 0) - cues.length;
+      this.errorMessage.set(dropped > 0 ? `⚠️ ${dropped} caption(s) after the end of the video were skipped.` : '');
+    } catch (error) {
+      const message = error instanceof HttpErrorResponse
+        ? error.error?.error || error.message
+        : error instanceof Error ? error.message : 'Unknown error';
+      this.errorMessage.set(`Failed to import captions: ${message}`);
+    } finally {
+      if (uploadedUrl) {
+        await this.cleanupUploadedFiles([uploadedUrl]);
+      }
+    }
+  }
+
+  /**
+   * Add a two-second cue at the playhead
+   */
+  protected addCaptionCue(): void {
+    const start = Math.min(this.playheadTime(), Math.max(0, this.duration() - 0.5));
+    const end = Math.min(start + 2, this.duration());
+    const result = this.historyService.record('Add caption', () =>
+      this.captionService.addCue(start, end, 'New caption', this.duration())
+    );
+    this.errorMessage.set(result.success ? '' : result.error || 'Failed to add caption');
+  }
+
+  /**
+   * Change the text or timing of the selected cue from the cue editor
+   */
+  protected updateCaptionCue(cue: CaptionCue, field: 'start' | 'end' | 'text', event: Event): void {
+    const value = (event.target as HTMLInputElement | HTMLTextAreaElement).value;
+    if (field !== 'text' && !Number.isFinite(parseFloat(value))) {
+      return;
+    }
+    const updates = field === 'text' ? { text: value } : { [field]: parseFloat(value) };
+    this.historyService.record(
+      'Edit caption',
+      () => this.captionService.updateCue(cue.id, updates, this.duration()),
+      `caption-${cue.id}-${field}`
+    );
+  }
+
+  protected removeCaptionCue(cue: CaptionCue): void {
+    this.historyService.record('Delete caption', () => this.captionService.removeCue(cue.id));
+  }
+
+  protected clearCaptions(): void {
+    if (!confirm('Remove all captions?')) return;
+    this.historyService.record('Remove captions', () => this.captionService.clearTrack());
+    this.outputCaptions.set(null);
+  }
+
+  /**
+   * Download the captions as they line up with the rendered output (trim, cuts, segment speeds and transitions applied)
+   */
+  protected exportCaptions(format: CaptionFileFormat): void {
+    const track = this.captionTrack();
+    if (!track) return;
+
+    const cues = getOutputCues(
+      track.cues,
+      this.timelineService.getEffectiveCuts()(),
+      this.trimStart(),
+      this.trimEnd(),
+      this.segmentTiming(),
+      this.activeTransitions()
+    );
+    if (cues.length === 0) {
+      this.errorMessage.set('No captions remain inside the trimmed video.');
+      return;
     }
+    this.captionService.downloadCaptions(cues, format, track.name);
   }
 
   /**
-   * Handle audio timeline pointer up (end dragging)
+   * Select a cue and start dragging it along the caption timeline
    */
-  protected onAudioTimelinePointerUp(event: PointerEvent): void {
-    if (this.audioTimelineDrag) {
-      const dragState = this.audioTimelineDrag as AudioTimelineDrag & {
-        originalDuration: number;
-      };
+  protected onCaptionPointerDown(event: PointerEvent, cue: CaptionCue): void {
+    event.preventDefault();
+    event.stopPropagation();
+    this.captionService.selectCue(cue.id);
 
-      // Get current audio state
-      const audio = this.audioSources().find(a => a.id === this.audioTimelineDrag!.audioId);
+    const time = this.getCaptionTimelineTime(event);
+    if (time === null) return;
 
-      if (audio) {
-        // Check if audio extends beyond video duration and adjust if needed
-        const endTime = audio.startTime + audio.duration;
-        if (endTime > this.duration()) {
-          // Adjust duration to fit within video
-          const adjustedDuration = Math.max(0, this.duration() - audio.startTime);
-          if (adjustedDuration > 0 && adjustedDuration !== audio.duration) {
-            this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, {
-              duration: adjustedDuration
-            });
-          }
-        } else if (audio.duration !== dragState.originalDuration) {
-          // Restore original duration if it was shortened during drag
-          this.audioService.updateAudioSource(this.audioTimelineDrag.audioId, {
-            duration: dragState.originalDuration
-          });
-        }
-      }
+    this.historyService.beginGesture('Move caption');
+    this.captionDrag = { cueId: cue.id, offset: time - cue.start, length: cue.end - cue.start };
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+  }
 
-      (event.currentTarget as HTMLElement).releasePointerCapture(event.pointerId);
-      // Reinitialize playback after drag is complete
-      this.initializeAudioPlayback();
-      this.audioTimelineDrag = null;
-    }
+  protected onCaptionPointerMove(event: PointerEvent): void {
+    const drag = this.captionDrag;
+    const time = drag ? this.getCaptionTimelineTime(event) : null;
+    if (!drag || time === null) return;
+
+    const laneWidth = (event.currentTarget as HTMLElement).clientWidth;
+    let start = time - drag.offset;
+    start += this.getSnapOffset([start, start + drag.length], event, laneWidth, { cueId: drag.cueId });
+    start = clamp(start, 0, Math.max(0, this.duration() - drag.length));
+    this.captionService.updateCue(drag.cueId, { start, end: start + drag.length }, this.duration());
+  }
+
+  protected onCaptionPointerUp(event: PointerEvent): void {
+    if (!this.captionDrag) return;
+    (event.target as HTMLElement).releasePointerCapture?.(event.pointerId);
+    this.historyService.endGesture();
+    this.captionDrag = null;
+    this.snapIndicator.set(null);
   }
 
   /**
@@ -1900,14 +3138,14 @@ export class VideoEditorComponent implements OnDestroy {
     }
 
     // Update audio source with new trim points and duration
-    this.audioService.updateAudioSource(id, {
-      audioTrimStart: trimStart,
-      audioTrimEnd: trimEnd,
-      duration: trimmedDuration
-    });
+    this.historyService.record('Trim audio track', () =>
+      this.audioService.updateAudioSource(id, {
+        audioTrimStart: trimStart,
+        audioTrimEnd: trimEnd,
+        duration: trimmedDuration
+      })
+    );
 
-    // Reinitialize playback to apply changes
-    this.initializeAudioPlayback();
     this.cancelEditingAudio();
     this.errorMessage.set('');
   }
@@ -2310,11 +3548,13 @@ export class VideoEditorComponent implements OnDestroy {
         order: currentSources.length
       };
 
-      this.sources.update(sources => [...sources, newSource]);
-      this.updateSourceBoundaries();
+      this.historyService.record('Add source', () => {
+        this.sources.update(sources => [...sources, newSource]);
+        this.updateSourceBoundaries();
 
-      // Load the concatenated sources for preview
-      this.loadConcatenatedSources();
+        // Load the concatenated sources for preview
+        this.loadConcatenatedSources();
+      });
 
       // Note: sourceForm is now handled by SourceForm component, no need to reset here
     } catch (error) {
@@ -2357,17 +3597,16 @@ export class VideoEditorComponent implements OnDestroy {
       return;
     }
 
-    const result = this.audioService.addAudioSource(url, startTime, adjustedDuration, volume, duration);
-
-    if (result.success) {
+    const result = this.historyService.record('Add audio track', () => {
+      const added = this.audioService.addAudioSource(url, startTime, adjustedDuration, volume, duration);
       // If there are existing cuts, adjust the newly added audio for them
-      const cuts = this.cutsRaw();
-      if (cuts.length > 0) {
+      if (added.success && this.cutsRaw().length > 0) {
         this.adjustAudioForCuts();
-      } else {
-        this.initializeAudioPlayback();
       }
+      return added;
+    });
 
+    if (result.success) {
       this.closeAudioForm();
       this.errorMessage.set('');
     } else {
@@ -2375,6 +3614,16 @@ export class VideoEditorComponent implements OnDestroy {
     }
   }
 
+  /**
+   * Time under the pointer on the caption timeline, null when the event is outside it
+   */
+  private getCaptionTimelineTime(event: PointerEvent): number | null {
+    const timeline = (event.target as HTMLElement).closest('.caption-timeline');
+    if (!timeline) return null;
+    const rect = timeline.getBoundingClientRect();
+    return this.timeAtLaneRatio((event.clientX - rect.left) / rect.width);
+  }
+
   /**
     * Upload a file to the server (only called during render)
     */
@@ -2473,12 +3722,385 @@ export class VideoEditorComponent implements OnDestroy {
     this.playerService.advanceToNext();
   }
 
+  /**
+   * Play the preview at the speed of the kept segment under the playhead (browsers keep the pitch)
+   */
+  private updatePreviewPlaybackRate(video: HTMLVideoElement, time: number): void {
+    const rate = this.timelineMode() === 'keep' ? getPreviewPlaybackRate(time, this.segmentsRaw()) : 1;
+    if (video.playbackRate !== rate) {
+      video.playbackRate = rate;
+    }
+  }
+
+  /**
+   * Approximate reversed and boomerang segments in the preview by stepping the video backwards frame by frame
+   * (browsers cannot play backwards), then carry on from the end of the segment
+   */
+  private updatePreviewSegmentEffect(video: HTMLVideoElement, time: number): void {
+    if (this.previewStepInterval !== undefined || video.paused || this.timelineMode() !== 'keep') {
+      return;
+    }
+    const segment = this.segmentsRaw().find(s => s.effect && time >= s.start && time < s.end);
+    if (!segment || (segment.effect === 'boomerang' && time < segment.end - this.boomerangTurnWindow)) {
+      return;
+    }
+
+    const offset = time - video.currentTime; // Global start of the loaded source
+    const step = (this.previewStepMs / 1000) * (segment.speed ?? 1);
+    let position = segment.effect === 'reverse' ? segment.end : time;
+
+    video.pause();
+    this.previewStepInterval = window.setInterval(() => {
+      position -= step;
+      if (position <= segment.start) {
+        this.stopPreviewStepping();
+        video.currentTime = Math.max(0, segment.end - offset);
+        void video.play();
+        return;
+      }
+      video.currentTime = Math.max(0, position - offset);
+    }, this.previewStepMs);
+  }
+
+  /**
+   * Play the edit from a timeline time (moved past the trim start and any cut)
+   */
+  private startPreviewEdit(time: number): void {
+    this.stopPreviewEdit();
+    const playbackTime = this.resolvePreviewEditTime(time);
+    if (playbackTime === null) {
+      return;
+    }
+
+    this.previewEditPlaying.set(true);
+    this.seekPreviewEdit(playbackTime);
+
+    const tick = (now: number): void => {
+      this.updatePreviewEdit(now);
+      if (this.previewEditPlaying()) {
+        this.previewEditFrame = requestAnimationFrame(tick);
+      }
+    };
+    this.previewEditFrame = requestAnimationFrame(tick);
+  }
+
+  private stopPreviewEdit(): void {
+    if (this.previewEditFrame !== undefined) {
+      cancelAnimationFrame(this.previewEditFrame);
+      this.previewEditFrame = undefined;
+    }
+    if (!this.previewEditPlaying()) {
+      return;
+    }
+    this.previewEditPlaying.set(false);
+    this.previewEditImage = undefined;
+    this.stopPreviewStepping();
+    this.videoElement?.nativeElement.pause();
+  }
+
+  /**
+   * Move the edit preview to a timeline time, loading the source under it
+   */
+  private seekPreviewEdit(time: number): void {
+    const video = this.videoElement?.nativeElement;
+    const allSources = this.sources();
+    const index = allSources.findIndex(s => time < s.startTime + s.duration);
+    const sourceIndex = index === -1 ? allSources.length - 1 : index;
+    const source = allSources[sourceIndex];
+    if (!video || !source) {
+      return;
+    }
+
+    this.stopPreviewStepping();
+    if (this.currentSourceIndex() !== sourceIndex) {
+      this.playerService.loadSourceAtIndex(sourceIndex);
+    }
+    this.currentTime.set(time);
+
+    if (source.type === 'image') {
+      this.previewEditImage = { id: source.id, startedAt: performance.now() - (time - source.startTime) * 1000 };
+    } else {
+      // Before a new source has loaded its metadata, this becomes its start position
+      video.currentTime = time - source.startTime;
+      void video.play();
+    }
+  }
+
+  /**
+   * Follow the edit preview on every frame: jump over cuts, move on to the next source at the end of
+   * one and stop at the trim end. Images play for their duration on the wall clock.
+   */
+  private updatePreviewEdit(now: number): void {
+    const video = this.videoElement?.nativeElement;
+    const source = this.getCurrentSource();
+    if (!video || !source) {
+      this.stopPreviewEdit();
+      return;
+    }
+
+    let time: number;
+    if (source.type === 'image') {
+      if (this.previewEditImage?.id !== source.id) {
+        this.previewEditImage = { id: source.id, startedAt: now };
+      }
+      time = source.startTime + (now - this.previewEditImage.startedAt) / 1000;
+      this.currentTime.set(Math.min(time, source.startTime + source.duration));
+    } else if (video.readyState >= HTMLMediaElement.HAVE_METADATA && !video.seeking) {
+      time = source.startTime + video.currentTime;
+    } else {
+      return; // The source is still loading or seeking
+    }
+
+    const sourceEnd = source.startTime + source.duration;
+    const sourceEnded = time >= sourceEnd - 0.05 || (source.type === 'video' && video.ended);
+    const playbackTime = this.resolvePreviewEditTime(sourceEnded ? sourceEnd : time);
+    if (playbackTime === null) {
+      // The edit is over: stop at the trim end
+      this.stopPreviewEdit();
+      this.jumpTo(this.trimEnd());
+    } else if (playbackTime !== time) {
+      this.seekPreviewEdit(playbackTime);
+    }
+  }
+
+  private resolvePreviewEditTime(time: number): number | null {
+    return getEditPlaybackTime(time, this.trimStart(), this.trimEnd(), this.timelineService.getEffectiveCuts()());
+  }
+
+  private stopPreviewStepping(): void {
+    if (this.previewStepInterval !== undefined) {
+      clearInterval(this.previewStepInterval);
+      this.previewStepInterval = undefined;
+    }
+  }
+
+  private setSourceColor(id: number, color: ColorCorrection): void {
+    this.sources.update(sources =>
+      sources.map(s => (s.id === id ? { ...s, color: hasColorCorrection(color) ? color : undefined } : s))
+    );
+  }
+
+  private setSourceTransform(id: number, transform: SourceTransform): void {
+    this.sources.update(sources =>
+      sources.map(s => (s.id === id ? { ...s, transform: hasSourceTransform(transform) ? transform : undefined } : s))
+    );
+  }
+
+  private describeTransform(transform: SourceTransform): string {
+    const { crop, rotation, kenBurns } = transform;
+    const steps: string[] = [];
+    if (crop && (crop.x > 0 || crop.y > 0 || crop.width < 100 || crop.height < 100)) {
+      steps.push(`crop to ${crop.width}% x ${crop.height}% at ${crop.x}%, ${crop.y}%`);
+    }
+    if (rotation) {
+      steps.push(`rotate ${rotation}° clockwise`);
+    }
+    if (transform.flipH) {
+      steps.push('flip horizontally');
+    }
+    if (transform.flipV) {
+      steps.push('flip vertically');
+    }
+    if (kenBurns) {
+      steps.push(`pan/zoom from ${kenBurns.startZoom}x to ${kenBurns.endZoom}x`);
+    }
+    return steps.join(', ');
+  }
+
+  /**
+   * Draw the source under the playhead through its LUT on the preview canvas (WebGL 2). Without
+   * WebGL 2 the preview only shows the CSS approximation of the other adjustments.
+   */
+  private async updateLutPreview(lutUrl: string | undefined): Promise<void> {
+    this.stopLutPreview();
+    const canvas = this.lutCanvas?.nativeElement;
+    if (!lutUrl || !canvas) {
+      return;
+    }
+
+    try {
+      const lut = await this.loadLut(lutUrl);
+      // The source or its LUT changed while the file loaded
+      if (this.previewLutUrl() !== lutUrl) {
+        return;
+      }
+      if (this.lutRenderer === undefined) {
+        this.lutRenderer = createLutRenderer(canvas);
+      }
+      if (!this.lutRenderer) {
+        return;
+      }
+
+      this.stopLutPreview();
+      this.lutRenderer.setLut(lut);
+      this.lutPreviewActive.set(true);
+      const draw = (): void => {
+        const media = this.getLutPreviewMedia();
+        if (media) {
+          this.lutRenderer?.render(media.element, media.width, media.height);
+        }
+        this.lutFrame = requestAnimationFrame(draw);
+      };
+      draw();
+    } catch (error) {
+      this.errorMessage.set(`Failed to load LUT: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private stopLutPreview(): void {
+    if (this.lutFrame !== undefined) {
+      cancelAnimationFrame(this.lutFrame);
+      this.lutFrame = undefined;
+    }
+    this.lutPreviewActive.set(false);
+  }
+
+  /**
+   * Fetch and parse a LUT file once (failed loads are retried next time)
+   */
+  private loadLut(url: string): Promise<CubeLut> {
+    let lut = this.luts.get(url);
+    if (!lut) {
+      lut = firstValueFrom(this.http.get(url, { responseType: 'text' })).then(parseCubeLut);
+      lut.catch(() => this.luts.delete(url));
+      this.luts.set(url, lut);
+    }
+    return lut;
+  }
+
+  /**
+   * Element showing the current frame: the video, or the image preview for image sources (null until loaded)
+   */
+  private getLutPreviewMedia(): { element: TexImageSource; width: number; height: number } | null {
+    if (this.getCurrentSource()?.type === 'image') {
+      const image = this.playerContainer?.nativeElement.querySelector<HTMLImageElement>('.player__image-preview');
+      return image?.complete && image.naturalWidth > 0
+        ? { element: image, width: image.naturalWidth, height: image.naturalHeight }
+        : null;
+    }
+    const video = this.videoElement?.nativeElement;
+    return video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && video.videoWidth > 0
+      ? { element: video, width: video.videoWidth, height: video.videoHeight }
+      : null;
+  }
 
   private timelineTimeFromEvent(event: PointerEvent, element: HTMLElement): number {
     const rect = element.getBoundingClientRect();
-    const ratio = (event.clientX - rect.left) / rect.width;
-    const clampedRatio = this.clamp(ratio, 0, 1);
-    return this.clamp(clampedRatio * this.duration(), 0, this.duration());
+    return this.timeAtLaneRatio((event.clientX - rect.left) / rect.width);
+  }
+
+  /**
+   * Time at a point across a timeline lane (0 = left edge, 1 = right edge of the zoomed view)
+   */
+  private timeAtLaneRatio(ratio: number): number {
+    const { start, span } = this.timelineView();
+    return this.clamp(start + this.clamp(ratio, 0, 1) * span, 0, this.duration());
+  }
+
+  private setTimelineView(start: number, zoom: number): void {
+    const duration = this.duration();
+    const clampedZoom = this.clamp(zoom, 1, this.maxTimelineZoom());
+    this.timelineZoom.set(clampedZoom);
+    this.timelineViewStart.set(this.clamp(start, 0, Math.max(0, duration - duration / clampedZoom)));
+    // The scrollbar's track is resized on the next render
+    requestAnimationFrame(() => this.syncTimelineScrollbar());
+  }
+
+  private syncTimelineScrollbar(): void {
+    const scrollbar = this.timelineScrollbar?.nativeElement;
+    const duration = this.duration();
+    if (scrollbar && duration) {
+      scrollbar.scrollLeft = (this.timelineView().start / duration) * scrollbar.scrollWidth;
+    }
+  }
+
+  /**
+   * Times dragged edges snap to: trim points, source boundaries, transition markers, the edges of cuts,
+   * segments, overlays, audio clips and caption cues, and the playhead
+   */
+  private getSnapTargets(exclude: { playhead?: boolean; audioId?: number; cueId?: number }): number[] {
+    const targets = [
+      0,
+      this.duration(),
+      this.trimStart(),
+      this.trimEnd(),
+      ...this.sourceBoundaries(),
+      ...this.transitionJoints().map(joint => joint.time)
+    ];
+    if (!exclude.playhead) {
+      targets.push(this.playheadTime());
+    }
+    for (const range of [...this.cuts(), ...this.segments(), ...this.overlays()]) {
+      targets.push(range.start, range.end);
+    }
+    for (const audio of this.audioSources()) {
+      if (audio.id !== exclude.audioId) {
+        targets.push(audio.startTime, audio.startTime + audio.duration);
+      }
+    }
+    for (const cue of this.captionTrack()?.cues ?? []) {
+      if (cue.id !== exclude.cueId) {
+        targets.push(cue.start, cue.end);
+      }
+    }
+    return targets;
+  }
+
+  /**
+   * How far to move dragged edges so the closest one snaps to a target within a few pixels of it
+   * (0 when none is close or Alt is held). Shows the target on the timelines while dragging.
+   * @param edges Times of the dragged edges
+   * @param laneWidth Width of the lane in pixels
+   */
+  private getSnapOffset(
+    edges: number[],
+    event: PointerEvent,
+    laneWidth: number,
+    exclude: { playhead?: boolean; audioId?: number; cueId?: number } = {}
+  ): number {
+    this.snapIndicator.set(null);
+    if (event.altKey || !laneWidth) {
+      return 0;
+    }
+
+    const targets = this.getSnapTargets(exclude);
+    const threshold = (this.snapThresholdPx / laneWidth) * this.timelineView().span;
+    let offset: number | null = null;
+    for (const edge of edges) {
+      const target = findSnapTarget(edge, targets, threshold);
+      if (target !== null && (offset === null || Math.abs(target - edge) < Math.abs(offset))) {
+        offset = target - edge;
+        this.snapIndicator.set(target);
+      }
+    }
+    return offset ?? 0;
+  }
+
+  /**
+   * Read the style fields of the text overlay form (unset fields keep the defaults)
+   */
+  private readTextStyleForm(container: HTMLElement): TextStyle {
+    const field = (id: string): HTMLInputElement | null => container.querySelector<HTMLInputElement>(`#${id}`);
+    const numberField = (id: string): number | undefined => {
+      const value = field(id)?.value;
+      return value === undefined || value === '' || isNaN(Number(value)) ? undefined : Number(value);
+    };
+    const strokeWidth = numberField('textStrokeWidth');
+    const hasShadow = field('textShadow')?.checked ?? false;
+
+    return {
+      fontUrl: this.textFontUrl() || undefined,
+      bold: field('textBold')?.checked || undefined,
+      italic: field('textItalic')?.checked || undefined,
+      strokeColor: strokeWidth ? field('textStrokeColor')?.value : undefined,
+      strokeWidth: strokeWidth || undefined,
+      shadowColor: hasShadow ? field('textShadowColor')?.value : undefined,
+      shadowX: hasShadow ? numberField('textShadowX') : undefined,
+      shadowY: hasShadow ? numberField('textShadowY') : undefined,
+      lineSpacing: numberField('textLineSpacing'),
+      textAlign: (container.querySelector<HTMLSelectElement>('#textAlign')?.value as TextAlign | undefined) || undefined,
+      boxPadding: numberField('textBoxPadding')
+    };
   }
 
   private addTextOverlay(
@@ -2490,12 +4112,15 @@ export class VideoEditorComponent implements OnDestroy {
     fontSize = 24,
     fontColor = '#FFFFFF',
     backgroundColor = 'transparent',
-    opacity = 1
+    opacity = 1,
+    style: TextStyle = {}
   ): void {
     const mode = this.timelineMode();
-    const result = this.overlayService.addText(
-      text, start, end, x, y, fontSize, fontColor, backgroundColor, opacity,
-      this.duration(), mode, this.cuts(), this.segments()
+    const result = this.historyService.record('Add text overlay', () =>
+      this.overlayService.addText(
+        text, start, end, x, y, fontSize, fontColor, backgroundColor, opacity,
+        this.duration(), mode, this.cuts(), this.segments(), style
+      )
     );
 
     if (result.success) {
@@ -2527,9 +4152,11 @@ export class VideoEditorComponent implements OnDestroy {
     console.log(`[addImageOverlay] Video: ${videoWidth}x${videoHeight}, Percent: ${widthPercent}%x${heightPercent}%, Pixels: ${widthPixels}x${heightPixels}`);
 
     const mode = this.timelineMode();
-    const result = this.overlayService.addImage(
-      imageUrl, start, end, x, y, widthPixels, heightPixels, opacity,
-      this.duration(), mode, this.cuts(), this.segments()
+    const result = this.historyService.record('Add image overlay', () =>
+      this.overlayService.addImage(
+        imageUrl, start, end, x, y, widthPixels, heightPixels, opacity,
+        this.duration(), mode, this.cuts(), this.segments()
+      )
     );
 
     if (result.success) {
@@ -2545,7 +4172,7 @@ export class VideoEditorComponent implements OnDestroy {
    */
 
   private addShapeOverlay(
-    shapeType: 'rectangle',
+    shapeType: ShapeType,
     start: number,
     end: number,
     x: number,
@@ -2555,7 +4182,8 @@ export class VideoEditorComponent implements OnDestroy {
     color = '#FF0000',
     strokeWidth = 3,
     fill = false,
-    opacity = 1
+    opacity = 1,
+    geometry: ShapeGeometry = {}
   ): void {
     // Get actual video dimensions to convert percentage to pixels
     const video = this.videoElement?.nativeElement;
@@ -2568,10 +4196,12 @@ export class VideoEditorComponent implements OnDestroy {
     console.log(`[addShapeOverlay] Video: ${videoWidth}x${videoHeight}, Percent: ${widthPercent}%x${heightPercent}%, Pixels: ${widthPixels}x${heightPixels}`);
 
     const mode = this.timelineMode();
-    const result = this.overlayService.addShape(
-      shapeType, start, end, x, y, widthPixels, heightPixels,
-      color, strokeWidth, fill, opacity,
-      this.duration(), mode, this.cuts(), this.segments()
+    const result = this.historyService.record('Add shape overlay', () =>
+      this.overlayService.addShape(
+        shapeType, start, end, x, y, widthPixels, heightPixels,
+        color, strokeWidth, fill, opacity,
+        this.duration(), mode, this.cuts(), this.segments(), geometry
+      )
     );
 
     if (result.success) {
@@ -2633,144 +4263,51 @@ export class VideoEditorComponent implements OnDestroy {
   }
 
   /**
-   * Initialize audio playback and sync with video
-   */
-  private initializeAudioPlayback(): void {
-    // Get current audio sources to clean up elements for removed audio
-    const currentAudioIds = new Set(this.audioSources().map(a => a.id));
-
-    // Clean up audio elements that no longer exist
-    this.audioElements.forEach((audioEl, id) => {
-      if (!currentAudioIds.has(id)) {
-        console.log(`[VideoEditor] Cleaning up audio element for removed track ${id}`);
-        this.cleanupAudioElement(id);
-      }
-    });
-
-    const activeAudio = this.activeAudioSources();
-    const masterVolume = this.masterVolume();
-
-    console.log(`[VideoEditor] Initializing audio playback for ${activeAudio.length} active audio source(s)`);
-    activeAudio.forEach(audio => {
-      console.log(`[VideoEditor] Creating audio element for track ${audio.id}: [${audio.startTime}s - ${audio.startTime + audio.duration}s]`);
-    });
-
-    // Create or update audio elements for active audio sources
-    activeAudio.forEach(audio => {
-      let audioEl = this.audioElements.get(audio.id);
-
-      if (!audioEl) {
-        // Create new audio element
-        audioEl = new Audio(audio.url);
-        audioEl.preload = 'auto';
-        this.audioElements.set(audio.id, audioEl);
-      }
-
-      // Update volume
-      audioEl.volume = audio.volume * masterVolume;
-    });
-
-    // Set up sync with video playback
-    this.syncAudioWithVideo();
-  }
-
-  /**
-   * Sync audio playback with video
+   * Where the preview is for the audio mix: the playing video's position, or during the edit preview
+   * its position on the output timeline (which keeps running over cuts and image sources)
    */
-  private syncAudioWithVideo(): void {
-    // Clear existing interval
-    if (this.audioPlaybackInterval) {
-      clearInterval(this.audioPlaybackInterval);
+  private getAudioPreviewClock(): AudioPreviewClock {
+    const video = this.videoElement?.nativeElement;
+    const source = this.getCurrentSource();
+    let time = this.currentTime();
+    if (video && source?.type === 'video' && video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      time = source.startTime + video.currentTime;
     }
 
-    // Sync audio every 250ms (less frequent for better performance)
-    this.audioPlaybackInterval = window.setInterval(() => {
-      const video = this.videoElement?.nativeElement;
-      if (!video) return;
-
-      const currentTime = this.currentTime();
-      const isPlaying = !video.paused;
-      const activeAudio = this.activeAudioSources();
-      const masterVolume = this.masterVolume();
-
-      activeAudio.forEach(audio => {
-        const audioEl = this.audioElements.get(audio.id);
-        if (!audioEl) return;
-
-        const audioStart = audio.startTime;
-        const audioEnd = audio.startTime + audio.duration;
-
-        // Update volume (only if changed to avoid unnecessary updates)
-        const targetVolume = audio.volume * masterVolume;
-        if (Math.abs(audioEl.volume - targetVolume) > 0.01) {
-          audioEl.volume = targetVolume;
-        }
-
-        if (currentTime >= audioStart && currentTime < audioEnd) {
-          // Audio should be playing
-          // Calculate position within the trimmed audio
-          const timelineOffset = currentTime - audioStart;
-          // Add the trim start to get the position in the original audio file
-          const audioTrimStart = audio.audioTrimStart ?? 0;
-          const audioTrimEnd = audio.audioTrimEnd ?? audio.originalDuration ?? audio.duration;
-          const audioCurrentTime = audioTrimStart + timelineOffset;
-
-          // Ensure we don't play beyond the trim end
-          if (audioCurrentTime >= audioTrimEnd) {
-            audioEl.pause();
-            return;
-          }
-
-          // Only seek if drift is significant (0.25s threshold to reduce glitches)
-          const drift = Math.abs(audioEl.currentTime - audioCurrentTime);
-          if (drift > 0.25) {
-            audioEl.currentTime = audioCurrentTime;
-          }
-
-          if (isPlaying && audioEl.paused) {
-            void audioEl.play().catch(err => {
-              console.warn(`[VideoEditor] Failed to play audio ${audio.id}:`, err);
-            });
-          } else if (!isPlaying && !audioEl.paused) {
-            audioEl.pause();
-          }
-        } else {
-          // Audio should be paused
-          if (!audioEl.paused) {
-            audioEl.pause();
-          }
-          // Reset position if we're before the audio start
-          if (currentTime < audioStart) {
-            audioEl.currentTime = audio.audioTrimStart ?? 0;
-          }
-        }
-      });
-    }, 250);
+    if (this.previewEditPlaying()) {
+      return {
+        time: calculateAdjustedTime(time, this.timelineService.getEffectiveCuts()(), this.segmentTiming()),
+        playing: true,
+        rate: 1
+      };
+    }
+    return {
+      time,
+      playing: !!video && !video.paused && !video.seeking && source?.type === 'video',
+      rate: video?.playbackRate ?? 1
+    };
   }
 
   /**
-   * Clean up a specific audio element
+   * Restore an undo/redo snapshot, reloading the player when the sources differ
    */
-  private cleanupAudioElement(id: number): void {
-    const audioEl = this.audioElements.get(id);
-    if (audioEl) {
-      audioEl.pause();
-      audioEl.src = '';
-      audioEl.load();
-      this.audioElements.delete(id);
+  private applyHistorySnapshot(snapshot: EditorSnapshot): void {
+    if (snapshot.sources !== this.sources()) {
+      this.sources.set(snapshot.sources);
+      this.updateSourceBoundaries();
+      if (snapshot.sources.length === 0) {
+        this.resetEditor(true);
+      } else {
+        // Loading resets the timeline and overlays; the snapshot restores them below
+        this.restoringProject = snapshot.sources[0]?.type === 'video';
+        this.loadConcatenatedSources();
+      }
     }
-  }
 
-  /**
-   * Clean up all audio elements
-   */
-  private cleanupAudioElements(): void {
-    this.audioElements.forEach((audioEl) => {
-      audioEl.pause();
-      audioEl.src = '';
-      audioEl.load();
-    });
-    this.audioElements.clear();
+    this.historyService.restore(snapshot);
+    this.editingSourceId.set(null);
+    this.editingAudioId.set(null);
+    this.errorMessage.set('');
   }
 
   /**
@@ -2788,10 +4325,6 @@ export class VideoEditorComponent implements OnDestroy {
     const audioBefore = this.audioSources();
     console.log(`[VideoEditor] Audio before adjustment:`, audioBefore.map(a => `ID ${a.id}: [${a.startTime}s - ${a.startTime + a.duration}s]`));
 
-    // Clean up all existing audio elements before adjusting
-    // This ensures that when audio is split, old elements are properly removed
-    this.cleanupAudioElements();
-
     this.audioService.adjustAudioForCuts(
       cuts.map(c => ({ start: c.start, end: c.end })),
       videoDuration
@@ -2800,8 +4333,5 @@ export class VideoEditorComponent implements OnDestroy {
     const audioAfter = this.audioSources();
     console.log(`[VideoEditor] Audio after adjustment:`, audioAfter.map(a => `ID ${a.id}: [${a.startTime}s - ${a.startTime + a.duration}s]`));
     console.log(`[VideoEditor] Audio adjustment: ${audioBefore.length} -> ${audioAfter.length} tracks`);
-
-    // Reinitialize playback with adjusted audio (will create new elements)
-    this.initializeAudioPlayback();
   }
 }
@@ -14,6 +14,45 @@ export interface VideoSource {
   duration: number; // Duration in seconds (5s for images)
   order: number;
   startTime: number; // Cumulative start time in concatenated timeline
+  color?: ColorCorrection; // Unset = unchanged
+  transform?: SourceTransform; // Unset = unchanged
+}
+
+/**
+ * Color correction of a source; unset fields leave the picture unchanged
+ */
+export interface ColorCorrection {
+  brightness?: number; // -1 to 1 (0 = unchanged)
+  contrast?: number; // 0 to 2 (1 = unchanged)
+  saturation?: number; // 0 to 3 (1 = unchanged)
+  gamma?: number; // 0.1 to 10 (1 = unchanged)
+  temperature?: number; // White balance, -1 (cooler) to 1 (warmer)
+  tint?: number; // White balance, -1 (greener) to 1 (more magenta)
+  lutUrl?: string; // .cube 3D LUT applied after the adjustments
+}
+
+/**
+ * Animated pan/zoom over an image source; x/y are the centre of the view in percent of the
+ * (cropped and rotated) frame, and the view is kept inside the frame
+ */
+export interface KenBurns {
+  startZoom: number; // 1 (whole frame) to 4
+  endZoom: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+/**
+ * Geometry of a source, applied in this order: crop, rotation, flips, pan/zoom
+ */
+export interface SourceTransform {
+  crop?: { x: number; y: number; width: number; height: number }; // Percent of the source frame
+  rotation?: 0 | 90 | 180 | 270; // Clockwise
+  flipH?: boolean;
+  flipV?: boolean;
+  kenBurns?: KenBurns; // Image sources only
 }
 
 /**
@@ -32,6 +71,97 @@ export interface TimelineSegment {
   id: number;
   start: number; // Start time in seconds
   end: number; // End time in seconds
+  speed?: number; // Playback rate, 0.25-4 (1 when unset); audio keeps its pitch
+  freezeDuration?: number; // When set, the first frame is held this many seconds instead of playing the segment
+  effect?: SegmentEffect; // Not combined with a freeze frame
+}
+
+/**
+ * Playback effect of a kept segment: played backwards, or forwards and then backwards (twice as long)
+ */
+export type SegmentEffect = 'reverse' | 'boomerang';
+
+/**
+ * Playback rate of a range in the original timeline, sent to the backend with the render request
+ */
+export interface SegmentTiming {
+  start: number;
+  end: number;
+  speed: number;
+  freezeDuration?: number;
+  effect?: SegmentEffect;
+}
+
+/**
+ * Kind of transition drawn at a joint
+ */
+export type TransitionType = 'fade' | 'dissolve' | 'wipe' | 'slide' | 'fadeblack';
+
+/**
+ * Transition at a joint between two sources or at the edge of a cut
+ */
+export interface TimelineTransition {
+  time: number; // Joint in the original timeline: source boundary, cut start or segment end
+  type: TransitionType;
+  duration: number; // Seconds the clips on either side overlap; the rendered video is this much shorter
+}
+
+/**
+ * Place in the timeline where two parts of the output meet, so a transition can be set
+ */
+export interface TransitionJoint {
+  time: number;
+  kind: 'source' | 'cut';
+}
+
+/**
+ * Interpolation from a keyframe towards the next one
+ */
+export type KeyframeEasing = 'linear' | 'ease-in-out' | 'hold';
+
+/**
+ * Value of an animated overlay property at a point in time
+ */
+export interface OverlayKeyframe {
+  time: number; // Seconds from the overlay start
+  value: number;
+  easing: KeyframeEasing; // Interpolation towards the next keyframe
+}
+
+/**
+ * Keyframe tracks of an overlay; an animated property ignores its static value
+ */
+export interface OverlayKeyframes {
+  x?: OverlayKeyframe[]; // X position (0-100 percentage)
+  y?: OverlayKeyframe[]; // Y position (0-100 percentage)
+  scale?: OverlayKeyframe[]; // Multiplies the size (font size for text), top-left corner stays in place
+  opacity?: OverlayKeyframe[]; // Opacity (0-1)
+}
+
+/**
+ * Entrance/exit effect kind ('typewriter' is for text overlays only)
+ */
+export type OverlayEffectType = 'fade' | 'slide' | 'zoom' | 'typewriter';
+
+/**
+ * Entrance or exit effect of an overlay, played inside its start/end window
+ */
+export interface OverlayEffect {
+  type: OverlayEffectType;
+  duration: number; // Seconds (shortened when entrance and exit together are longer than the overlay)
+  edge?: 'left' | 'right' | 'top' | 'bottom'; // Frame edge a slide enters from / exits to (default 'left')
+}
+
+/**
+ * Effect-driven changes to an overlay at a point in time (see getOverlayEffectState)
+ */
+export interface OverlayEffectState {
+  x: number; // Position after slides (0-100 percentage)
+  y: number;
+  shiftX: number; // Extra offset in overlay widths (slides past the left edge)
+  shiftY: number; // Extra offset in overlay heights (slides past the top edge)
+  zoom: number; // Scale around the overlay centre
+  opacity: number; // Multiplies the overlay opacity
 }
 
 /**
@@ -45,19 +175,51 @@ export interface BaseOverlay {
   x: number; // X position (0-100 percentage)
   y: number; // Y position (0-100 percentage)
   opacity?: number; // Opacity (0-1)
+  rotation?: number; // Degrees clockwise around the top-left corner
+  keyframes?: OverlayKeyframes; // Animation of position, scale and opacity
+  entranceEffect?: OverlayEffect;
+  exitEffect?: OverlayEffect;
+}
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+/**
+ * Text styling beyond size and colours
+ */
+export interface TextStyle {
+  fontUrl?: string; // TTF/OTF file (a local blob: URL until it is uploaded for rendering); default font when unset
+  bold?: boolean;
+  italic?: boolean;
+  strokeColor?: string; // Hex color code
+  strokeWidth?: number; // Outline width in pixels
+  shadowColor?: string; // Hex color code; drop shadow when set
+  shadowX?: number; // Shadow offset in pixels (default 2)
+  shadowY?: number;
+  lineSpacing?: number; // Line height as a multiple of the font size (default 1.2)
+  textAlign?: TextAlign; // Which side of the text x marks (default 'left')
+  boxPadding?: number; // Background padding in pixels (default 5)
 }
 
 /**
  * Text overlay configuration
  */
-export interface TextOverlay extends BaseOverlay {
+export interface TextOverlay extends BaseOverlay, TextStyle {
   type: 'text';
-  text: string;
+  text: string; // Lines separated by \n
   fontSize?: number; // Font size in pixels
   fontColor?: string; // Hex color code
   backgroundColor?: string; // Hex color code or 'transparent'
 }
 
+/**
+ * Font file available to text overlays
+ */
+export interface OverlayFont {
+  url: string;
+  name: string; // File name shown in the font picker
+  family: string; // CSS font-family registered for the preview
+}
+
 /**
  * Image overlay configuration
  */
@@ -68,17 +230,38 @@ export interface ImageOverlay extends BaseOverlay {
   height?: number; // Height in pixels (relative to video dimensions)
 }
 
+/**
+ * Kind of shape; everything but the rectangle is rasterized by the render server
+ */
+export type ShapeType = 'rectangle' | 'rounded-rectangle' | 'ellipse' | 'line' | 'arrow' | 'polygon';
+
+/**
+ * Point of a line, arrow or polygon as a percentage (0-100) of the shape's box
+ */
+export interface ShapePoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Shape-specific geometry
+ */
+export interface ShapeGeometry {
+  cornerRadius?: number; // 'rounded-rectangle' only, pixels
+  points?: ShapePoint[]; // Line/arrow start and end (arrow head at the end), polygon vertices
+}
+
 /**
  * Shape overlay configuration
  */
-export interface ShapeOverlay extends BaseOverlay {
+export interface ShapeOverlay extends BaseOverlay, ShapeGeometry {
   type: 'shape';
-  shapeType: 'rectangle';
+  shapeType: ShapeType;
   width?: number; // Width in pixels (relative to video dimensions)
   height?: number; // Height in pixels (relative to video dimensions)
   color?: string; // Hex color code
   strokeWidth?: number; // Stroke width in pixels
-  fill?: boolean; // Whether to fill the shape
+  fill?: boolean; // Whether to fill the shape (lines and arrows are always stroked)
 }
 
 /**
@@ -86,16 +269,206 @@ export interface ShapeOverlay extends BaseOverlay {
  */
 export type Overlay = TextOverlay | ImageOverlay | ShapeOverlay;
 
+/**
+ * Output container of a render (m4a and mp3 are audio-only)
+ */
+export type OutputFormat = 'mp4' | 'webm' | 'mov' | 'gif' | 'm4a' | 'mp3';
+
+/**
+ * Output frame the video is fitted into (letterboxed, cropped, or over a blurred copy of itself)
+ */
+export interface OutputCanvas {
+  aspectRatio: '16:9' | '9:16' | '1:1';
+  resolution: '720p' | '1080p' | '2160p';
+  fit: 'letterbox' | 'crop' | 'blur';
+}
+
+/**
+ * Named encoder quality profile ('target' encodes to a bitrate or file size in two passes)
+ */
+export type QualityProfileName = 'draft' | 'standard' | 'high' | 'archival' | 'target';
+
+export interface QualityOptions {
+  profile: QualityProfileName;
+  targetBitrateKbps?: number; // 'target' only: average video bitrate
+  maxFileSizeMb?: number; // 'target' only: bitrate is derived from the size budget
+}
+
+/**
+ * Encoder settings the backend actually used for a render
+ */
+export interface EffectiveEncoding {
+  profile: QualityProfileName;
+  streamCopy: boolean;
+  twoPass: boolean;
+  preset: string;
+  crf?: string;
+  videoBitrateKbps?: number;
+  audioBitrate: string;
+  codecArgs: string[];
+}
+
+/**
+ * Subtitle cue on the caption track (times on the original timeline, like overlays)
+ */
+export interface CaptionCue {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Caption track imported from an SRT or WebVTT file
+ */
+export interface CaptionTrack {
+  name: string; // Imported file name
+  cues: CaptionCue[];
+}
+
+/**
+ * How captions are rendered: drawn into the video, muxed as a subtitle stream, or only
+ * returned as SRT/VTT sidecar files (which every mode returns)
+ */
+export type CaptionMode = 'burn-in' | 'soft' | 'sidecar';
+
+/**
+ * Look of burned-in captions
+ */
+export type CaptionStylePreset = 'classic' | 'boxed' | 'yellow' | 'top';
+
+export interface CaptionOptions {
+  mode: CaptionMode;
+  style?: CaptionStylePreset; // Burn-in only; omitted = 'classic'
+}
+
+/**
+ * Output settings chosen in the render panel
+ */
+export interface RenderOptions {
+  format: OutputFormat;
+  canvas?: OutputCanvas; // Omitted = keep the source resolution
+  quality?: QualityOptions; // Omitted = backend default ('high' for MPD sources, 'standard' otherwise)
+  captions?: CaptionOptions; // Omitted = captions are not rendered
+}
+
+/**
+ * Extra file written next to the rendered output, e.g. a caption sidecar
+ */
+export interface RenderArtifact {
+  kind: 'captions';
+  format: 'srt' | 'vtt';
+  file: string; // Public path, like outputFile
+}
+
 /**
  * Response from the backend render API
  */
 export interface RenderResponse {
   jobId: string;
   outputFile: string;
+  format: OutputFormat;
+  encoding: EffectiveEncoding;
   segments: { start: number; end: number }[];
+  artifacts?: RenderArtifact[]; // Caption sidecars, timed for the output
   warning?: string;
 }
 
+/**
+ * Lifecycle state of a backend render job
+ */
+export type RenderJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Phase a running render job is in
+ */
+export type RenderPhase =
+  | 'source-processing'
+  | 'segment-extraction'
+  | 'overlay-preparation'
+  | 'audio-preparation'
+  | 'final-encode';
+
+/**
+ * Status of a backend render job (returned by POST /api/render, GET /api/jobs/:id and its event stream)
+ */
+export interface RenderJobStatus {
+  jobId: string;
+  state: RenderJobState;
+  progress: number; // 0-100, overall
+  phase?: RenderPhase; // Current phase while running
+  phaseProgress?: number; // 0-100 within the current phase
+  queuePosition?: number; // Position in the queue while queued
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  result?: RenderResponse; // Present once the job succeeded
+  error?: string; // Present when the job failed
+}
+
+/**
+ * Saved editor state, written as a versioned JSON document (migrations live in utils/project.utils.ts)
+ */
+export interface EditorProject {
+  schemaVersion: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  sources: ProjectSource[];
+  timeline: ProjectTimeline;
+  overlays: Overlay[];
+  audio: ProjectAudio;
+  captions?: ProjectCaptions; // Missing in projects without captions
+  output: RenderOptions;
+}
+
+export interface ProjectSource {
+  url: string;
+  type: 'video' | 'image';
+  duration?: number; // Always written; may be missing for videos in migrated documents
+  color?: ColorCorrection;
+  transform?: SourceTransform;
+}
+
+export interface ProjectSegment {
+  start: number;
+  end: number;
+  speed?: number; // Missing in projects saved before segment speeds existed (1x)
+  freezeDuration?: number;
+  effect?: SegmentEffect;
+}
+
+export interface ProjectTimeline {
+  mode: 'cut' | 'keep';
+  trimStart: number;
+  trimEnd: number;
+  cuts: { start: number; end: number }[];
+  segments: ProjectSegment[];
+  transitions?: TimelineTransition[]; // Missing in projects saved before transitions existed
+}
+
+export interface ProjectAudioTrack {
+  url: string;
+  startTime: number;
+  duration: number;
+  originalDuration: number;
+  originalStartTime?: number;
+  audioTrimStart: number;
+  audioTrimEnd: number;
+  volume: number;
+  muted: boolean;
+}
+
+export interface ProjectAudio {
+  tracks: ProjectAudioTrack[];
+  mixMode: 'mix' | 'replace';
+  masterVolume: number;
+}
+
+export interface ProjectCaptions {
+  name: string;
+  cues: { start: number; end: number; text: string }[];
+}
+
 /**
  * Timeline drag state
  */
@@ -171,3 +544,53 @@ export interface AudioTimelineDrag {
   startTime: number;
 }
 
+/**
+ * Peak levels of the audio of a media file, drawn as the waveform of its timeline clips
+ */
+export interface WaveformData {
+  duration: number; // Seconds of audio (0 when the file has none)
+  peaksPerSecond: number;
+  peaks: number[]; // Largest absolute sample (0-1) of each window
+}
+
+/**
+ * Frames of a video source at a fixed interval, tiled into sprite sheets for the timeline filmstrip
+ */
+export interface ThumbnailStrip {
+  duration: number; // Seconds
+  interval: number; // Seconds between frames; frame i shows the source at i * interval
+  count: number; // Frames over all sheets
+  columns: number; // Frames per row of a sheet
+  rows: number; // Rows of a full sheet
+  frameWidth: number; // Pixels
+  frameHeight: number;
+  sheets: string[]; // Sprite sheet URLs, columns * rows frames each, left to right
+}
+
+
+/**
+ * Editable state captured for undo/redo. Services replace their arrays instead of
+ * mutating them, so snapshots hold the signal values by reference.
+ */
+export interface EditorSnapshot {
+  sources: VideoSource[];
+  timelineMode: 'cut' | 'keep';
+  trimStart: number;
+  trimEnd: number;
+  cuts: TimelineCut[];
+  segments: TimelineSegment[];
+  transitions: TimelineTransition[];
+  overlays: Overlay[];
+  audioSources: AudioSource[];
+  masterVolume: number;
+  audioMixMode: 'mix' | 'replace';
+  captionTrack: CaptionTrack | null;
+}
+
+/**
+ * Undo/redo history entry: the state before (undo) or after (redo) the labelled change
+ */
+export interface HistoryEntry {
+  label: string;
+  snapshot: EditorSnapshot;
+}